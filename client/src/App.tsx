@@ -12,11 +12,15 @@ import Footer from "@/components/Footer";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
 import PromptEditingSandbox from "@/pages/PromptEditingSandbox";
+import ReviewQueue from "@/pages/ReviewQueue";
 import AIPoweredTriage from "@/pages/AIPoweredTriage";
 import AICompanionCalls from "@/pages/AICompanionCalls";
 import TrendReports from "@/pages/TrendReports";
 import SettingsPage from "@/pages/settings-page";
 import CallHistory from "@/pages/CallHistory";
+import Escalations from "@/pages/Escalations";
+import Patients from "@/pages/Patients";
+import PatientDetail from "@/pages/PatientDetail";
 
 function Router() {
   return (
@@ -27,8 +31,12 @@ function Router() {
           <Switch>
             <ProtectedRoute path="/" component={Home} />
             <ProtectedRoute path="/patient-prompts/:id" component={PatientPrompts} />
+            <ProtectedRoute path="/patients" component={Patients} />
+            <ProtectedRoute path="/patients/:patientId" component={PatientDetail} />
             <ProtectedRoute path="/prompt-editing" component={PromptEditingSandbox} />
+            <ProtectedRoute path="/review-queue" component={ReviewQueue} />
             <ProtectedRoute path="/triage" component={AIPoweredTriage} />
+            <ProtectedRoute path="/escalations" component={Escalations} />
             <ProtectedRoute path="/companion-calls" component={AICompanionCalls} />
             <ProtectedRoute path="/call-history" component={CallHistory} />
             <ProtectedRoute path="/trend-reports" component={TrendReports} />
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import type { CallCalendarEntry } from "@shared/types";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+
+const STATUS_STYLES: Record<string, string> = {
+  scheduled: "bg-blue-100 text-blue-800",
+  retry: "bg-yellow-100 text-yellow-800",
+  calling: "bg-indigo-100 text-indigo-800",
+  completed: "bg-green-100 text-green-800",
+  missed: "bg-red-100 text-red-800",
+  failed: "bg-red-200 text-red-900",
+  cancelled: "bg-gray-100 text-gray-500 line-through",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+// Six full weeks covering the month, starting on a Sunday
+function monthGrid(month: Date): Date[] {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const start = new Date(first.getFullYear(), first.getMonth(), 1 - first.getDay());
+  return Array.from({ length: 42 }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+}
+
+function describeEntry(entry: CallCalendarEntry): string {
+  const window = `${new Date(entry.windowStartsAt).toLocaleString()} – ${new Date(entry.windowEndsAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+  const details = [
+    `${entry.patientName}: ${entry.status}`,
+    window,
+    entry.attempts > 0 ? `${entry.attempts} ${entry.attempts === 1 ? "attempt" : "attempts"}` : null,
+    entry.outcome ? `Last outcome: ${entry.outcome}` : null,
+    entry.failureReason,
+  ];
+  return details.filter(Boolean).join("\n");
+}
+
+export default function CallCalendar() {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const days = monthGrid(month);
+  const from = days[0];
+  const to = new Date(days[41].getFullYear(), days[41].getMonth(), days[41].getDate() + 1);
+
+  const { data: entries = [], isLoading } = useQuery<CallCalendarEntry[]>({
+    queryKey: ["/api/call-calendar", from.toISOString(), to.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+      const res = await apiRequest("GET", `/api/call-calendar?${params}`);
+      const json = await res.json();
+      return json.success ? json.data : [];
+    },
+    refetchInterval: 60000,
+  });
+
+  const byDay = new Map<string, CallCalendarEntry[]>();
+  for (const entry of entries) {
+    const key = dayKey(new Date(entry.windowStartsAt));
+    byDay.set(key, [...(byDay.get(key) || []), entry]);
+  }
+
+  const today = dayKey(new Date());
+  const shiftMonth = (delta: number) => setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Scheduled Calls
+          </CardTitle>
+          <CardDescription>Upcoming, completed and missed scheduled calls, shown in your local time.</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+          <Button variant="outline" size="sm" onClick={() => shiftMonth(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium w-32 text-center">
+            {month.toLocaleDateString([], { month: "long", year: "numeric" })}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => shiftMonth(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <TooltipProvider>
+          <div className="grid grid-cols-7 border-l border-t text-xs">
+            {WEEKDAYS.map((weekday) => (
+              <div key={weekday} className="border-r border-b bg-gray-50 p-1 text-center font-medium text-gray-600">
+                {weekday}
+              </div>
+            ))}
+            {days.map((day) => (
+              <div
+                key={dayKey(day)}
+                className={`border-r border-b min-h-24 p-1 ${day.getMonth() === month.getMonth() ? "" : "bg-gray-50 text-gray-400"}`}
+              >
+                <div className={`mb-1 ${dayKey(day) === today ? "font-bold text-primary" : ""}`}>{day.getDate()}</div>
+                <div className="space-y-1">
+                  {(byDay.get(dayKey(day)) || []).map((entry) => (
+                    <Tooltip key={`${entry.scheduleId}-${entry.windowStartsAt}`}>
+                      <TooltipTrigger asChild>
+                        <div className={`truncate rounded px-1 py-0.5 cursor-default ${STATUS_STYLES[entry.status] || "bg-gray-100 text-gray-700"}`}>
+                          {new Date(entry.windowStartsAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })} {entry.patientName}
+                        </div>
+                      </TooltipTrigger>
+                      <TooltipContent className="whitespace-pre-line">{describeEntry(entry)}</TooltipContent>
+                    </Tooltip>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </TooltipProvider>
+        <div className="flex flex-wrap gap-2 mt-3 text-xs">
+          {Object.entries(STATUS_STYLES).map(([status, style]) => (
+            <span key={status} className={`rounded px-2 py-0.5 ${style}`}>
+              {status}
+            </span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import type { ReactNode } from "react";
+import type { CallExtraction } from "@shared/schema";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+export const ADHERENCE_STYLES: Record<string, string> = {
+  yes: "bg-green-100 text-green-800",
+  partial: "bg-yellow-100 text-yellow-800",
+  no: "bg-red-100 text-red-800",
+  unknown: "bg-gray-100 text-gray-700",
+};
+
+export const MOOD_STYLES: Record<string, string> = {
+  positive: "bg-green-100 text-green-800",
+  neutral: "bg-blue-100 text-blue-800",
+  low: "bg-yellow-100 text-yellow-800",
+  distressed: "bg-red-100 text-red-800",
+  unknown: "bg-gray-100 text-gray-700",
+};
+
+const SYMPTOM_SEVERITY_STYLES: Record<string, string> = {
+  mild: "bg-green-100 text-green-800",
+  moderate: "bg-yellow-100 text-yellow-800",
+  severe: "bg-red-100 text-red-800",
+};
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-900 mb-1">{title}</p>
+      {children}
+    </div>
+  );
+}
+
+// Structured answers extracted from one call's transcript
+export default function CallExtractionDetails({ extraction }: { extraction: CallExtraction }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Clinical Details</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline" className={`border-transparent ${ADHERENCE_STYLES[extraction.medicationAdherence]}`}>
+            Medications taken: {extraction.medicationAdherence}
+          </Badge>
+          <Badge variant="outline" className={`border-transparent ${MOOD_STYLES[extraction.mood]}`}>
+            Mood: {extraction.mood}
+            {extraction.moodScore !== null ? ` (${extraction.moodScore}/5)` : ""}
+          </Badge>
+          {extraction.lonely !== null && (
+            <Badge
+              variant="outline"
+              className={`border-transparent ${extraction.lonely ? "bg-yellow-100 text-yellow-800" : "bg-gray-100 text-gray-700"}`}
+            >
+              {extraction.lonely ? "Lonely" : "Not lonely"}
+            </Badge>
+          )}
+          {extraction.fallReported && (
+            <Badge variant="outline" className="border-transparent bg-red-100 text-red-800">
+              Fall reported
+            </Badge>
+          )}
+        </div>
+
+        {extraction.lonelinessNotes && <p className="text-gray-700">{extraction.lonelinessNotes}</p>}
+
+        {extraction.medications.length > 0 && (
+          <Section title="Medications">
+            <ul className="space-y-1">
+              {extraction.medications.map((medication, index) => (
+                <li key={index} className="text-gray-700">
+                  {medication.name}: {medication.adherence}
+                  {medication.notes && <span className="text-gray-500"> · {medication.notes}</span>}
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        {extraction.symptoms.length > 0 && (
+          <Section title="Symptoms">
+            <ul className="space-y-1">
+              {extraction.symptoms.map((symptom, index) => (
+                <li key={index} className="flex items-center gap-2 text-gray-700">
+                  {symptom.name}
+                  {symptom.onset && <span className="text-gray-500">since {symptom.onset}</span>}
+                  {symptom.severity && (
+                    <Badge variant="outline" className={`border-transparent ${SYMPTOM_SEVERITY_STYLES[symptom.severity]}`}>
+                      {symptom.severity}
+                    </Badge>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        {extraction.falls.length > 0 && (
+          <Section title="Falls">
+            <ul className="space-y-1">
+              {extraction.falls.map((fall, index) => (
+                <li key={index} className="text-gray-700">
+                  {fall.description}
+                  {fall.when && <span className="text-gray-500"> · {fall.when}</span>}
+                  {fall.injured !== null && (
+                    <span className="text-gray-500"> · {fall.injured ? "injured" : "not injured"}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        {extraction.vitals.length > 0 && (
+          <Section title="Vitals Mentioned">
+            <ul className="space-y-1">
+              {extraction.vitals.map((vital, index) => (
+                <li key={index} className="text-gray-700">
+                  {vital.name}: {vital.value}
+                  {vital.diastolic !== null ? `/${vital.diastolic}` : ""} {vital.unit}
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        {extraction.socialNeeds.length > 0 && (
+          <Section title="Social Needs">
+            <ul className="space-y-1">
+              {extraction.socialNeeds.map((need, index) => (
+                <li key={index} className="text-gray-700">
+                  <span className="capitalize">{need.category}</span>: {need.description}
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { CallExtraction } from "@shared/schema";
+import { ADHERENCE_STYLES, MOOD_STYLES } from "@/components/CallExtractionDetails";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const chartConfig = {
+  moodScore: { label: "Mood (1-5)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatCallDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString([], { month: "short", day: "numeric" });
+
+// Mood, medication adherence, loneliness, falls and social needs across the patient's calls (last 90 days)
+export default function CallExtractionTrends({ patientId }: { patientId: string }) {
+  const { data, isLoading } = useQuery<{ from: string; to: string; extractions: CallExtraction[] }>({
+    queryKey: ["/api/patient-registry", patientId, "call-extractions"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/patient-registry/${encodeURIComponent(patientId)}/call-extractions`);
+      const json = await res.json();
+      return json.data;
+    },
+  });
+
+  const extractions = data?.extractions ?? [];
+  const moodPoints = extractions
+    .filter((extraction) => extraction.moodScore !== null)
+    .map((extraction) => ({ date: formatCallDate(extraction.callDate), moodScore: extraction.moodScore }));
+
+  const totals = [
+    { label: "Missed medications", count: extractions.filter((e) => e.medicationAdherence === "no" || e.medicationAdherence === "partial").length },
+    { label: "Felt lonely", count: extractions.filter((e) => e.lonely === true).length },
+    { label: "Falls", count: extractions.filter((e) => e.fallReported).length },
+    { label: "Social needs", count: extractions.filter((e) => e.socialNeeds.length > 0).length },
+  ];
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="text-base">Trends Across Calls</CardTitle>
+        <CardDescription>What the patient said about medications, mood, loneliness, falls and social needs on each call.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : extractions.length === 0 ? (
+          <p className="text-sm text-gray-500">No call details extracted in the last 90 days.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {totals.map((total) => (
+                <div key={total.label} className="rounded-lg border p-3 text-center">
+                  <p className="text-2xl font-bold">{total.count}</p>
+                  <p className="text-xs text-gray-500">
+                    {total.label} (of {extractions.length} calls)
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {moodPoints.length > 1 && (
+              <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                <LineChart data={moodPoints} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                  <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tickLine={false} axisLine={false} width={24} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="moodScore" type="monotone" stroke="var(--color-moodScore)" strokeWidth={2} />
+                </LineChart>
+              </ChartContainer>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Call</TableHead>
+                  <TableHead>Medications</TableHead>
+                  <TableHead>Mood</TableHead>
+                  <TableHead>Lonely</TableHead>
+                  <TableHead>Symptoms</TableHead>
+                  <TableHead>Falls</TableHead>
+                  <TableHead>Social needs</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...extractions].reverse().map((extraction) => (
+                  <TableRow key={extraction.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(extraction.callDate).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`border-transparent ${ADHERENCE_STYLES[extraction.medicationAdherence]}`}>
+                        {extraction.medicationAdherence}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`border-transparent ${MOOD_STYLES[extraction.mood]}`}>
+                        {extraction.mood}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{extraction.lonely === null ? "-" : extraction.lonely ? "Yes" : "No"}</TableCell>
+                    <TableCell className="text-sm">
+                      {extraction.symptoms.map((symptom) => symptom.name).join(", ") || "-"}
+                    </TableCell>
+                    <TableCell>{extraction.fallReported ? extraction.falls.length : "-"}</TableCell>
+                    <TableCell className="text-sm capitalize">
+                      {extraction.socialNeeds.map((need) => need.category).join(", ") || "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
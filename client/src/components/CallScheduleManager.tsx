@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import type { CallSchedule } from "@shared/schema";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const INTERVAL_LABELS: Record<number, string> = {
+  1: "Every week",
+  2: "Every 2 weeks",
+  3: "Every 3 weeks",
+  4: "Every 4 weeks",
+};
+
+type ScheduleRow = CallSchedule & { patientName: string; timezone: string | null };
+
+interface SchedulePatient {
+  id: string;
+  name: string;
+  phoneNumber?: string;
+}
+
+// e.g. "Tue, Fri every week" or "Mon every 2 weeks"
+function describeCadence(schedule: Pick<CallSchedule, "daysOfWeek" | "intervalWeeks">): string {
+  const days = [...schedule.daysOfWeek].sort().map((day) => DAY_LABELS[day]).join(", ");
+  return `${days} ${(INTERVAL_LABELS[schedule.intervalWeeks] || `Every ${schedule.intervalWeeks} weeks`).toLowerCase()}`;
+}
+
+const EMPTY_FORM = {
+  patientId: "",
+  daysOfWeek: [1] as number[],
+  intervalWeeks: "1",
+  windowStart: "10:00",
+  windowEnd: "12:00",
+  maxAttempts: "3",
+  retryDelayMinutes: "30",
+  enabled: true,
+};
+
+export default function CallScheduleManager({ patients }: { patients: SchedulePatient[] }) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: schedules = [], isLoading } = useQuery<ScheduleRow[]>({
+    queryKey: ["/api/call-schedules"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/call-schedules");
+      const json = await res.json();
+      return json.success ? json.data : [];
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/call-schedules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/call-calendar"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/call-schedules/${encodeURIComponent(form.patientId)}`, {
+        daysOfWeek: form.daysOfWeek,
+        intervalWeeks: parseInt(form.intervalWeeks),
+        windowStart: form.windowStart,
+        windowEnd: form.windowEnd,
+        maxAttempts: parseInt(form.maxAttempts),
+        retryDelayMinutes: parseInt(form.retryDelayMinutes),
+        enabled: form.enabled,
+      });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Schedule saved", description: data.message });
+      setDialogOpen(false);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save schedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (patientId: string) => {
+      const res = await apiRequest("DELETE", `/api/call-schedules/${encodeURIComponent(patientId)}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Schedule removed", description: "Upcoming calls for this patient were cancelled." });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove schedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditing(false);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (schedule: ScheduleRow) => {
+    setForm({
+      patientId: schedule.patientId,
+      daysOfWeek: schedule.daysOfWeek,
+      intervalWeeks: String(schedule.intervalWeeks),
+      windowStart: schedule.windowStart,
+      windowEnd: schedule.windowEnd,
+      maxAttempts: String(schedule.maxAttempts),
+      retryDelayMinutes: String(schedule.retryDelayMinutes),
+      enabled: schedule.enabled,
+    });
+    setEditing(true);
+    setDialogOpen(true);
+  };
+
+  const toggleDay = (day: number) => {
+    setForm({
+      ...form,
+      daysOfWeek: form.daysOfWeek.includes(day)
+        ? form.daysOfWeek.filter((d) => d !== day)
+        : [...form.daysOfWeek, day].sort(),
+    });
+  };
+
+  const scheduledIds = new Set(schedules.map((schedule) => schedule.patientId));
+  const selectedPatient = patients.find((patient) => patient.id === form.patientId);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Call Schedules
+          </CardTitle>
+          <CardDescription>
+            Recurring companion calls, placed within each patient's call window in their own timezone. Unanswered and busy calls are retried.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Schedule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">No call schedules yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Cadence</TableHead>
+                <TableHead>Call Window</TableHead>
+                <TableHead>Retries</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell className="font-medium">{schedule.patientName}</TableCell>
+                  <TableCell>{describeCadence(schedule)}</TableCell>
+                  <TableCell>
+                    {schedule.windowStart}–{schedule.windowEnd}
+                    <span className="text-xs text-gray-500 block">{schedule.timezone || "Default timezone"}</span>
+                  </TableCell>
+                  <TableCell>
+                    Up to {schedule.maxAttempts} {schedule.maxAttempts === 1 ? "attempt" : "attempts"}, {schedule.retryDelayMinutes} min apart
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={`border-transparent ${schedule.enabled ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"}`}>
+                      {schedule.enabled ? "active" : "paused"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(schedule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(schedule.patientId)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Call Schedule" : "New Call Schedule"}</DialogTitle>
+            <DialogDescription>
+              Times are in the patient's timezone, as set on their patient record.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-patient">Patient</Label>
+              <Select
+                value={form.patientId}
+                onValueChange={(value) => setForm({ ...form, patientId: value })}
+                disabled={editing}
+              >
+                <SelectTrigger id="schedule-patient">
+                  <SelectValue placeholder="Choose a patient..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {patients
+                    .filter((patient) => editing || !scheduledIds.has(patient.id))
+                    .map((patient) => (
+                      <SelectItem key={patient.id} value={patient.id}>
+                        {patient.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {selectedPatient && !selectedPatient.phoneNumber && (
+                <p className="text-xs text-amber-600">This patient has no phone number on file yet.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Days</Label>
+              <div className="flex flex-wrap gap-1">
+                {DAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={form.daysOfWeek.includes(day) ? "default" : "outline"}
+                    onClick={() => toggleDay(day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-interval">Repeat</Label>
+                <Select value={form.intervalWeeks} onValueChange={(value) => setForm({ ...form, intervalWeeks: value })}>
+                  <SelectTrigger id="schedule-interval">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INTERVAL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-window-start">Window From</Label>
+                <Input
+                  id="schedule-window-start"
+                  type="time"
+                  value={form.windowStart}
+                  onChange={(e) => setForm({ ...form, windowStart: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-window-end">Window To</Label>
+                <Input
+                  id="schedule-window-end"
+                  type="time"
+                  value={form.windowEnd}
+                  onChange={(e) => setForm({ ...form, windowEnd: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-attempts">Attempts per Call</Label>
+                <Select value={form.maxAttempts} onValueChange={(value) => setForm({ ...form, maxAttempts: value })}>
+                  <SelectTrigger id="schedule-attempts">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {["1", "2", "3", "4", "5"].map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-retry-delay">Minutes Between Attempts</Label>
+                <Input
+                  id="schedule-retry-delay"
+                  type="number"
+                  min={5}
+                  value={form.retryDelayMinutes}
+                  onChange={(e) => setForm({ ...form, retryDelayMinutes: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schedule-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => setForm({ ...form, enabled: checked })}
+              />
+              <Label htmlFor="schedule-enabled">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.patientId || form.daysOfWeek.length === 0 || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { BookmarkCheck } from "lucide-react";
+import type { ColumnMapping as ColumnMappingType, ImportField, ImportProfile } from "@shared/schema";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+export interface UploadPreview {
+  format: "xlsx" | "csv" | "tsv";
+  sheets: { name: string; rows: number }[];
+  sheet: string;
+  headers: string[];
+  sampleRows: Record<string, any>[];
+  totalRows: number;
+  suggestedMapping: ColumnMappingType;
+  profile: ImportProfile | null;
+}
+
+// Select items can't have an empty value, so unmapped fields use a sentinel
+const NOT_IN_FILE = "__none__";
+
+const FIELD_LABELS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: "patientId", label: "Patient ID", required: true },
+  { field: "name", label: "Name", required: true },
+  { field: "dateOfBirth", label: "Date of Birth" },
+  { field: "age", label: "Age" },
+  { field: "phone", label: "Phone" },
+  { field: "variable", label: "Variable" },
+  { field: "value", label: "Value" },
+  { field: "unit", label: "Unit" },
+  { field: "timestamp", label: "Date/Time" },
+  { field: "isAlert", label: "Alert Flag" },
+];
+
+interface ColumnMappingProps {
+  preview: UploadPreview;
+  mapping: ColumnMappingType;
+  onMappingChange: (mapping: ColumnMappingType) => void;
+  profileName: string;
+  onProfileNameChange: (name: string) => void;
+}
+
+// Step two of the upload wizard: confirm which column holds each field
+export default function ColumnMapping({
+  preview,
+  mapping,
+  onMappingChange,
+  profileName,
+  onProfileNameChange,
+}: ColumnMappingProps) {
+  const setField = (field: ImportField, header: string) => {
+    onMappingChange({ ...mapping, [field]: header === NOT_IN_FILE ? undefined : header });
+  };
+
+  return (
+    <div className="space-y-4">
+      {preview.profile && (
+        <Alert>
+          <BookmarkCheck className="h-4 w-4" />
+          <AlertDescription>
+            Applied saved profile <strong>{preview.profile.name}</strong> for this column layout.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {FIELD_LABELS.map(({ field, label, required }) => (
+          <div key={field} className="space-y-1">
+            <Label>
+              {label}
+              {required && <span className="text-red-500"> *</span>}
+            </Label>
+            <Select
+              value={mapping[field] || NOT_IN_FILE}
+              onValueChange={(value) => setField(field, value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {!required && <SelectItem value={NOT_IN_FILE}>Not in file</SelectItem>}
+                {preview.headers.map((header) => (
+                  <SelectItem key={header} value={header}>
+                    {header}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-2">
+          First {preview.sampleRows.length} of {preview.totalRows} rows
+        </p>
+        <div className="overflow-x-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {preview.headers.map((header) => (
+                  <TableHead key={header} className="whitespace-nowrap">
+                    {header}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.sampleRows.map((row, index) => (
+                <TableRow key={index}>
+                  {preview.headers.map((header) => (
+                    <TableCell key={header} className="whitespace-nowrap text-sm">
+                      {row[header] === undefined || row[header] === null ? "" : String(row[header])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="profile-name">Save this mapping as a profile (optional)</Label>
+        <Input
+          id="profile-name"
+          placeholder="e.g. Clinic export"
+          value={profileName}
+          onChange={(e) => onProfileNameChange(e.target.value)}
+        />
+        <p className="text-xs text-gray-500">
+          Files with the same columns will use this mapping automatically.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -53,11 +53,26 @@ export default function Header() {
                   Prompt Editing
                 </span>
               </Link>
+              <Link href="/review-queue">
+                <span className={`text-sm font-medium transition-colors cursor-pointer ${location === "/review-queue" ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
+                  Review Queue
+                </span>
+              </Link>
               <Link href="/triage">
                 <span className={`text-sm font-medium transition-colors cursor-pointer ${location === "/triage" ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
                   AI Triage
                 </span>
               </Link>
+              <Link href="/patients">
+                <span className={`text-sm font-medium transition-colors cursor-pointer ${location.startsWith("/patients") ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
+                  Patients
+                </span>
+              </Link>
+              <Link href="/escalations">
+                <span className={`text-sm font-medium transition-colors cursor-pointer ${location === "/escalations" ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
+                  Escalations
+                </span>
+              </Link>
               <Link href="/companion-calls">
                 <span className={`text-sm font-medium transition-colors cursor-pointer ${location === "/companion-calls" ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
                   AI Companion
@@ -135,11 +150,26 @@ export default function Header() {
                     Prompt Editing
                   </span>
                 </Link>
+                <Link href="/review-queue" onClick={() => setMobileMenuOpen(false)}>
+                  <span className={`text-sm font-medium transition-colors cursor-pointer ${location === "/review-queue" ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
+                    Review Queue
+                  </span>
+                </Link>
                 <Link href="/triage" onClick={() => setMobileMenuOpen(false)}>
                   <span className={`text-sm font-medium transition-colors cursor-pointer ${location === "/triage" ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
                     AI Triage
                   </span>
                 </Link>
+                <Link href="/patients" onClick={() => setMobileMenuOpen(false)}>
+                  <span className={`text-sm font-medium transition-colors cursor-pointer ${location.startsWith("/patients") ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
+                    Patients
+                  </span>
+                </Link>
+                <Link href="/escalations" onClick={() => setMobileMenuOpen(false)}>
+                  <span className={`text-sm font-medium transition-colors cursor-pointer ${location === "/escalations" ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
+                    Escalations
+                  </span>
+                </Link>
                 <Link href="/companion-calls" onClick={() => setMobileMenuOpen(false)}>
                   <span className={`text-sm font-medium transition-colors cursor-pointer ${location === "/companion-calls" ? "text-primary" : "text-gray-600 hover:text-primary"}`}>
                     AI Companion
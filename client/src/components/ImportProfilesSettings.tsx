@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Trash2 } from "lucide-react";
+import type { ImportProfile } from "@shared/schema";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+// Short "field ← column" summary of a saved mapping
+function describeMapping(profile: ImportProfile): string {
+  return Object.entries(profile.mapping)
+    .filter(([, header]) => !!header)
+    .map(([field, header]) => `${field} ← ${header}`)
+    .join(", ");
+}
+
+export default function ImportProfilesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profiles, isLoading } = useQuery<ImportProfile[]>({
+    queryKey: ["/api/import-profiles"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/import-profiles");
+      const data = await res.json();
+      return data.success ? data.data : [];
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/import-profiles/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Import profile deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete profile", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Profiles</CardTitle>
+        <CardDescription>
+          Saved column mappings. A profile is applied automatically when an uploaded file has the same columns.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !profiles || profiles.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No profiles yet. Name a mapping when uploading a file to save it.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Mapping</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profiles.map((profile) => (
+                <TableRow key={profile.id}>
+                  <TableCell className="font-medium">{profile.name}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{describeMapping(profile)}</TableCell>
+                  <TableCell className="text-sm text-gray-500">
+                    {profile.lastUsedAt ? new Date(profile.lastUsedAt).toLocaleDateString() : "Never"}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteProfileMutation.mutate(profile.id)}
+                      disabled={deleteProfileMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveCalls } from "@/hooks/use-live-calls";
+import { Flag, Mic, Radio } from "lucide-react";
+import type { LiveCall } from "@shared/types";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: "bg-gray-100 text-gray-700",
+  ringing: "bg-yellow-100 text-yellow-800",
+  "in-progress": "bg-green-100 text-green-800",
+  forwarding: "bg-indigo-100 text-indigo-800",
+  ended: "bg-gray-200 text-gray-600",
+};
+
+const speakerLabel = (role: "assistant" | "user") => (role === "user" ? "Patient" : "Assistant");
+
+function LiveCallCard({ call }: { call: LiveCall }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  // Follow the conversation as it comes in
+  useEffect(() => {
+    transcriptRef.current?.scrollTo({ top: transcriptRef.current.scrollHeight });
+  }, [call.transcript.length, call.partial?.text]);
+
+  const flagMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/live-calls/${encodeURIComponent(call.callId)}/flags`, {
+        note: note.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      toast({ title: body.message, description: call.patientName });
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to flag call", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">{call.patientName}</p>
+          <p className="text-xs text-muted-foreground">
+            {call.phoneNumber} · started {new Date(call.startedAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {call.speaking && (
+            <span className="flex items-center gap-1 text-xs text-primary">
+              <Mic className="h-3 w-3 animate-pulse" />
+              {speakerLabel(call.speaking)} speaking
+            </span>
+          )}
+          <Badge variant="outline" className={STATUS_STYLES[call.status] || "bg-gray-100 text-gray-700"}>
+            {call.status}
+            {call.endedReason ? ` · ${call.endedReason}` : ""}
+          </Badge>
+        </div>
+      </div>
+
+      <div ref={transcriptRef} className="max-h-64 overflow-y-auto rounded bg-gray-50 p-3 text-sm space-y-1">
+        {call.transcript.length === 0 && !call.partial && (
+          <p className="text-muted-foreground">Waiting for the conversation to start…</p>
+        )}
+        {call.transcript.map((line, index) => (
+          <p key={index}>
+            <span className={`font-medium ${line.role === "user" ? "text-blue-700" : "text-gray-700"}`}>
+              {speakerLabel(line.role)}:
+            </span>{" "}
+            {line.text}
+          </p>
+        ))}
+        {call.partial && (
+          <p className="italic text-muted-foreground">
+            {speakerLabel(call.partial.role)}: {call.partial.text}
+          </p>
+        )}
+      </div>
+
+      {call.flags.length > 0 && (
+        <div className="space-y-1">
+          {call.flags.map((flag) => (
+            <p key={flag.id} className="flex items-center gap-1 text-xs text-red-700">
+              <Flag className="h-3 w-3" />
+              Flagged at {new Date(flag.createdAt).toLocaleTimeString()}
+              {flag.note ? `: ${flag.note}` : ""}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Note for follow-up (optional)"
+          value={note}
+          maxLength={1000}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !flagMutation.isPending) flagMutation.mutate();
+          }}
+        />
+        <Button
+          variant="outline"
+          className="text-red-700 shrink-0"
+          onClick={() => flagMutation.mutate()}
+          disabled={flagMutation.isPending}
+        >
+          <Flag className="h-4 w-4 mr-1" />
+          Flag for follow-up
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Companion calls in progress, with the transcript as it is spoken
+export default function LiveCallMonitor() {
+  const { calls, connected } = useLiveCalls();
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Radio className="w-5 h-5" />
+            Live Calls
+          </CardTitle>
+          <CardDescription>
+            Watch companion calls as they happen and flag moments that need follow-up.
+          </CardDescription>
+        </div>
+        <span className={`flex items-center gap-1 text-xs ${connected ? "text-green-700" : "text-muted-foreground"}`}>
+          <span className={`h-2 w-2 rounded-full ${connected ? "bg-green-500" : "bg-gray-400"}`} />
+          {connected ? "Live" : "Connecting…"}
+        </span>
+      </CardHeader>
+      <CardContent>
+        {calls.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No calls in progress.</p>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-2">
+            {calls.map((call) => (
+              <LiveCallCard key={call.callId} call={call} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
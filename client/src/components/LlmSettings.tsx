@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, PlugZap, Save } from "lucide-react";
+import type { LlmProviderName, LlmSettings as LlmSettingsType, LlmTask } from "@shared/schema";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type LlmSettingsResponse = Omit<LlmSettingsType, "localApiKey"> & { hasLocalApiKey: boolean };
+
+const TASK_LABELS: { task: LlmTask; label: string }[] = [
+  { task: "caregiverPrompt", label: "Caregiver prompt" },
+  { task: "patientMessage", label: "Patient message" },
+  { task: "trendReport", label: "Trend report" },
+  { task: "callSummary", label: "Call summary" },
+];
+
+const PROVIDER_LABELS: Record<LlmProviderName, string> = {
+  openai: "OpenAI",
+  local: "Local endpoint",
+  fake: "Fake (offline testing)",
+};
+
+export default function LlmSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<LlmSettingsResponse | null>(null);
+  const [localApiKey, setLocalApiKey] = useState("");
+
+  const { data: settings, isLoading } = useQuery<LlmSettingsResponse | null>({
+    queryKey: ["/api/settings/llm"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/settings/llm");
+      const data = await res.json();
+      return data.success ? data.data : null;
+    },
+  });
+
+  useEffect(() => {
+    if (settings) setForm(settings);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: LlmSettingsResponse) => {
+      const { hasLocalApiKey, ...payload } = values;
+      const res = await apiRequest("PUT", "/api/settings/llm", {
+        ...payload,
+        localBaseUrl: payload.localBaseUrl || null,
+        // Only send the key when it is being changed
+        ...(localApiKey ? { localApiKey } : {}),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "LLM settings saved" });
+      setLocalApiKey("");
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/llm"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save LLM settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (task: LlmTask) => {
+      const res = await apiRequest("POST", "/api/settings/llm/test", { task });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Provider reachable",
+        description: `Replied "${data.data.reply.trim().slice(0, 60)}" in ${data.data.latencyMs} ms`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Provider test failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setTask = (task: LlmTask, changes: Partial<LlmSettingsResponse["tasks"][LlmTask]>) => {
+    if (!form) return;
+    setForm({ ...form, tasks: { ...form.tasks, [task]: { ...form.tasks[task], ...changes } } });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Language Models</CardTitle>
+        <CardDescription>
+          Choose the provider and model for each kind of generated text. A local endpoint
+          (Ollama, llama.cpp) keeps patient data on your own servers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !form ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="llm-local-url">Local endpoint URL</Label>
+                <Input
+                  id="llm-local-url"
+                  placeholder="http://localhost:11434/v1"
+                  value={form.localBaseUrl ?? ""}
+                  onChange={(e) => setForm({ ...form, localBaseUrl: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="llm-local-key">Local API key (optional)</Label>
+                <Input
+                  id="llm-local-key"
+                  type="password"
+                  placeholder={form.hasLocalApiKey ? "Saved; enter a new key to replace it" : "Not set"}
+                  value={localApiKey}
+                  onChange={(e) => setLocalApiKey(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {TASK_LABELS.map(({ task, label }) => (
+                <div key={task} className="grid grid-cols-1 sm:grid-cols-[10rem_12rem_1fr_auto] gap-2 items-center">
+                  <Label>{label}</Label>
+                  <Select
+                    value={form.tasks[task].provider}
+                    onValueChange={(provider) => setTask(task, { provider: provider as LlmProviderName })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PROVIDER_LABELS) as LlmProviderName[]).map((provider) => (
+                        <SelectItem key={provider} value={provider}>
+                          {PROVIDER_LABELS[provider]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    aria-label={`${label} model`}
+                    placeholder="Model name"
+                    value={form.tasks[task].model}
+                    onChange={(e) => setTask(task, { model: e.target.value })}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => testMutation.mutate(task)}
+                    disabled={testMutation.isPending}
+                    title="Test with the saved settings"
+                  >
+                    <PlugZap className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <Button onClick={() => saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save Model Settings
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { GitMerge, X } from "lucide-react";
+import type { Patient, PatientMergeCandidate } from "@shared/schema";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface MergeCandidateWithPatients extends PatientMergeCandidate {
+  patient: Patient | null;
+  candidatePatient: Patient | null;
+}
+
+function PatientSummary({ patientId, patient }: { patientId: string; patient: Patient | null }) {
+  return (
+    <div>
+      <Link href={`/patients/${encodeURIComponent(patientId)}`}>
+        <span className="text-primary hover:underline cursor-pointer font-medium">
+          {patient?.name ?? "Unknown"}
+        </span>
+      </Link>
+      <div className="text-xs text-gray-500 font-mono">{patientId}</div>
+      <div className="text-xs text-gray-500">DOB {patient?.dateOfBirth || "—"}</div>
+    </div>
+  );
+}
+
+// Patients identity resolution couldn't match with confidence, for staff to merge or keep apart
+export default function MergeReviewQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: candidates } = useQuery<MergeCandidateWithPatients[]>({
+    queryKey: ["/api/patient-merges"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/patient-merges");
+      const data = await res.json();
+      return data.success ? data.data : [];
+    },
+  });
+
+  const onSuccess = (data: { message?: string }) => {
+    toast({ title: data.message || "Done" });
+    queryClient.invalidateQueries({ queryKey: ["/api/patient-merges"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/patient-registry"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Failed to update merge review", description: error.message, variant: "destructive" });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/patient-merges/${id}/merge`);
+      return await res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/patient-merges/${id}/dismiss`);
+      return await res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  if (!candidates || candidates.length === 0) {
+    return null;
+  }
+
+  const isPending = mergeMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitMerge className="w-5 h-5" />
+          Possible Duplicates
+          <Badge variant="secondary">{candidates.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          These records may be the same person. Merging moves the newer record's history into the existing one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Newer Record</TableHead>
+              <TableHead>Existing Record</TableHead>
+              <TableHead>Match</TableHead>
+              <TableHead className="w-48" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {candidates.map((candidate) => (
+              <TableRow key={candidate.id}>
+                <TableCell>
+                  <PatientSummary patientId={candidate.patientId} patient={candidate.patient} />
+                </TableCell>
+                <TableCell>
+                  <PatientSummary patientId={candidate.candidatePatientId} patient={candidate.candidatePatient} />
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{Math.round(candidate.score * 100)}%</div>
+                  <div className="text-xs text-gray-500">{candidate.reasons.join(", ")}</div>
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button size="sm" onClick={() => mergeMutation.mutate(candidate.id)} disabled={isPending}>
+                    <GitMerge className="mr-1 h-4 w-4" />
+                    Merge
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => dismissMutation.mutate(candidate.id)}
+                    disabled={isPending}
+                  >
+                    <X className="mr-1 h-4 w-4" />
+                    Different
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ClipboardCheck } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+// Toggle for "outreach, calls and exports only use approved messages"
+export default function MessageApprovalSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/settings/message-approval"];
+
+  const { data } = useQuery<{ requireApproval: boolean } | null>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/settings/message-approval");
+      const body = await res.json();
+      return body.success ? body.data : null;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (requireApproval: boolean) => {
+      const res = await apiRequest("PUT", "/api/settings/message-approval", { requireApproval });
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      toast({ title: body.message });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save approval setting", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Message Approval
+        </CardTitle>
+        <CardDescription>
+          Require generated messages to be approved in the review queue before they are used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-3">
+          <Switch
+            id="require-approval"
+            checked={data?.requireApproval ?? false}
+            onCheckedChange={(checked) => saveMutation.mutate(checked)}
+            disabled={!data || saveMutation.isPending}
+          />
+          <Label htmlFor="require-approval">
+            Only use approved messages for SMS alerts, calls and CSV exports
+          </Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
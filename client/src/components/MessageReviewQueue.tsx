@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Check, ShieldAlert, X } from "lucide-react";
+import type { MessageReview } from "@shared/schema";
+import type { GuardrailFinding } from "@shared/types";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import PatientMessageTranslation from "./PatientMessageTranslation";
+
+const CHECK_LABELS: Record<GuardrailFinding["check"], string> = {
+  severity: "Severity",
+  dosing: "Dosing advice",
+  readingLevel: "Reading level",
+  sections: "Missing section",
+  nameLeak: "Other patient named",
+};
+
+interface MessageReviewQueueProps {
+  batchId: string;
+}
+
+interface ReviewCardProps {
+  review: MessageReview;
+  onDone: () => void;
+}
+
+function ReviewCard({ review, onDone }: ReviewCardProps) {
+  const { toast } = useToast();
+  const [caregiverMessage, setCaregiverMessage] = useState(review.caregiverMessage);
+  const [patientMessage, setPatientMessage] = useState(review.patientMessage);
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      const res = await apiRequest(
+        "POST",
+        `/api/message-reviews/${review.id}/${decision}`,
+        decision === "approve" ? { caregiverMessage, patientMessage } : undefined
+      );
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      toast({ title: body.message });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update review", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="border rounded-md p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">
+            {review.payload.name || "Unknown"} <span className="text-sm text-gray-500">({review.patientId})</span>
+          </p>
+          <p className="text-xs text-gray-500">
+            {review.patientPromptId ? "Regenerated messages" : "New messages"} held{" "}
+            {new Date(review.createdAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => decideMutation.mutate("reject")}
+            disabled={decideMutation.isPending}
+          >
+            <X className="mr-1 h-4 w-4" />
+            Reject
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => decideMutation.mutate("approve")}
+            disabled={decideMutation.isPending || !caregiverMessage.trim() || !patientMessage.trim()}
+          >
+            <Check className="mr-1 h-4 w-4" />
+            Approve
+          </Button>
+        </div>
+      </div>
+
+      <ul className="space-y-1">
+        {review.findings.map((finding, index) => (
+          <li key={index} className="flex items-center gap-2 text-sm">
+            <Badge variant="destructive">{CHECK_LABELS[finding.check]}</Badge>
+            <span className="text-gray-500 capitalize">{finding.target}:</span>
+            <span>{finding.message}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor={`review-${review.id}-caregiver`}>Caregiver message</Label>
+          <Textarea
+            id={`review-${review.id}-caregiver`}
+            rows={8}
+            value={caregiverMessage}
+            onChange={(e) => setCaregiverMessage(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`review-${review.id}-patient`}>Patient message</Label>
+          <Textarea
+            id={`review-${review.id}-patient`}
+            rows={8}
+            value={patientMessage}
+            onChange={(e) => setPatientMessage(e.target.value)}
+          />
+          <PatientMessageTranslation
+            language={review.patientMessageLanguage}
+            translation={patientMessage === review.patientMessage ? review.patientMessageEnglish : "Translated again when approved"}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Generated messages that failed a guardrail check, waiting for someone to approve, edit or reject them
+export default function MessageReviewQueue({ batchId }: MessageReviewQueueProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/message-reviews", batchId];
+
+  const { data: reviews = [] } = useQuery<MessageReview[]>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/message-reviews?batchId=${encodeURIComponent(batchId)}`);
+      const body = await res.json();
+      return body.success ? body.data : [];
+    },
+    enabled: !!batchId,
+  });
+
+  if (reviews.length === 0) {
+    return null;
+  }
+
+  const handleDone = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/patient-prompts/${batchId}`] });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-red-500" />
+          Held for Review
+        </CardTitle>
+        <CardDescription>
+          {reviews.length} {reviews.length === 1 ? "patient's messages" : "patients' messages"} failed a guardrail
+          check and were not saved. Edit if needed, then approve or reject.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviews.map((review) => (
+          <ReviewCard key={review.id} review={review} onDone={handleDone} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,21 @@
+import { patientLanguageNames, type PatientLanguage } from "@shared/schema";
+
+interface PatientMessageTranslationProps {
+  language?: string | null;
+  translation?: string | null;
+  className?: string;
+}
+
+// English translation shown next to a patient message written in another language
+export default function PatientMessageTranslation({ language, translation, className = "" }: PatientMessageTranslationProps) {
+  if (!language || language === "en") return null;
+
+  return (
+    <div className={`border rounded-md bg-gray-50 p-3 text-sm whitespace-pre-wrap ${className}`}>
+      <p className="text-xs font-medium text-gray-500 mb-1">
+        English translation · message is in {patientLanguageNames[language as PatientLanguage] || language}
+      </p>
+      {translation || <span className="italic text-gray-400">Translation unavailable</span>}
+    </div>
+  );
+}
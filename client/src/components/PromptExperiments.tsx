@@ -0,0 +1,499 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, FlaskConical, Loader2, Plus, RotateCcw, Star, Trash2, Trophy } from "lucide-react";
+import type {
+  PatientBatch,
+  PromptExperiment,
+  PromptExperimentOutput,
+  PromptExperimentVariant,
+  PromptVersion,
+} from "@shared/schema";
+import type { ExperimentVariantSummary } from "@shared/types";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type ExperimentKind = "caregiverSystem" | "patientSystem";
+
+const KIND_LABELS: Record<ExperimentKind, string> = {
+  caregiverSystem: "Caregiver prompt",
+  patientSystem: "Patient message",
+};
+
+interface VariantDraft {
+  label: string;
+  source: string; // A prompt version ID, or "custom" for new text
+  content: string;
+}
+
+interface ExperimentDetail {
+  experiment: PromptExperiment;
+  variants: PromptExperimentVariant[];
+  outputs: PromptExperimentOutput[];
+  summary: ExperimentVariantSummary[];
+}
+
+const newVariant = (index: number): VariantDraft => ({
+  label: String.fromCharCode(65 + index), // A, B, C...
+  source: "custom",
+  content: "",
+});
+
+function ExperimentResults({ experimentId }: { experimentId: number }) {
+  const { toast } = useToast();
+  const queryKey = [`/api/prompt-experiments/${experimentId}`];
+
+  const { data } = useQuery<ExperimentDetail | null>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/prompt-experiments/${experimentId}`);
+      const body = await res.json();
+      return body.success ? body.data : null;
+    },
+    // Keep polling while outputs are still being generated
+    refetchInterval: (query) => (query.state.data?.experiment.status === "running" ? 3000 : false),
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const rateMutation = useMutation({
+    mutationFn: async ({ outputId, rating }: { outputId: number; rating: number }) => {
+      const res = await apiRequest("POST", `/api/prompt-experiments/${experimentId}/outputs/${outputId}/rate`, { rating });
+      return await res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  const winnerMutation = useMutation({
+    mutationFn: async (outputId: number) => {
+      const res = await apiRequest("POST", `/api/prompt-experiments/${experimentId}/outputs/${outputId}/winner`);
+      return await res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  const adoptMutation = useMutation({
+    mutationFn: async (variantId: number) => {
+      const res = await apiRequest("POST", `/api/prompt-experiments/${experimentId}/adopt`, { variantId });
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      toast({ title: "Success", description: body.message });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/prompt-versions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/system-prompt"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patient-system-prompt"] });
+    },
+    onError,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/prompt-experiments/${experimentId}/retry`);
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      toast({ title: "Success", description: body.message });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/prompt-experiments"] });
+    },
+    onError,
+  });
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { experiment, variants, outputs, summary } = data;
+  const outputFor = (variantId: number, patientId: string) =>
+    outputs.find((output) => output.variantId === variantId && output.patientId === patientId);
+  const failures = summary.reduce((sum, row) => sum + row.failures, 0);
+
+  return (
+    <div className="space-y-6">
+      {failures > 0 && experiment.status !== "running" && (
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={() => retryMutation.mutate()} disabled={retryMutation.isPending}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Retry {failures} failed
+          </Button>
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Variant</TableHead>
+            <TableHead className="text-right">Wins</TableHead>
+            <TableHead className="text-right">Average Rating</TableHead>
+            <TableHead className="text-right">Outputs</TableHead>
+            <TableHead className="w-32" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {summary.map((row) => (
+            <TableRow key={row.variantId}>
+              <TableCell className="font-medium">
+                {row.label}
+                {experiment.adoptedVariantId === row.variantId && (
+                  <Badge variant="secondary" className="ml-2">Adopted</Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{row.wins}</TableCell>
+              <TableCell className="text-right">
+                {row.averageRating !== null ? `${row.averageRating.toFixed(1)} (${row.ratings})` : "—"}
+              </TableCell>
+              <TableCell className="text-right">
+                {row.outputs}
+                {row.failures > 0 && <span className="text-red-600"> / {row.failures} failed</span>}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => adoptMutation.mutate(row.variantId)}
+                  disabled={adoptMutation.isPending || experiment.status === "running"}
+                >
+                  <CheckCircle2 className="w-4 h-4 mr-1" />
+                  Adopt
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {experiment.patientIds.map((patientId) => (
+        <div key={patientId} className="space-y-2">
+          <p className="text-sm font-medium">Patient {patientId}</p>
+          <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${variants.length}, minmax(0, 1fr))` }}>
+            {variants.map((variant) => {
+              const output = outputFor(variant.id, patientId);
+              return (
+                <div
+                  key={variant.id}
+                  className={`border rounded-md p-3 space-y-2 ${output?.isWinner ? "border-green-500 bg-green-50" : ""}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-semibold text-gray-500">{variant.label}</span>
+                    {output?.output && (
+                      <Button
+                        size="sm"
+                        variant={output.isWinner ? "default" : "ghost"}
+                        onClick={() => winnerMutation.mutate(output.id)}
+                        disabled={winnerMutation.isPending}
+                        title="Best output for this patient"
+                      >
+                        <Trophy className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {!output ? (
+                    <div className="flex items-center text-sm text-gray-500">
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Generating...
+                    </div>
+                  ) : output.error ? (
+                    <p className="text-sm text-red-600">{output.error}</p>
+                  ) : (
+                    <>
+                      <div className="max-h-64 overflow-y-auto text-sm whitespace-pre-wrap">{output.output}</div>
+                      <div className="flex gap-1">
+                        {[1, 2, 3, 4, 5].map((rating) => (
+                          <button
+                            key={rating}
+                            type="button"
+                            aria-label={`Rate ${rating}`}
+                            onClick={() => rateMutation.mutate({ outputId: output.id, rating })}
+                          >
+                            <Star
+                              className={`w-4 h-4 ${
+                                output.rating && rating <= output.rating
+                                  ? "fill-amber-400 text-amber-400"
+                                  : "text-gray-300"
+                              }`}
+                            />
+                          </button>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Run prompt variants side by side over sampled patients and adopt the one reviewers prefer
+export default function PromptExperiments() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [batchId, setBatchId] = useState("");
+  const [kind, setKind] = useState<ExperimentKind>("caregiverSystem");
+  const [sampleSize, setSampleSize] = useState(5);
+  const [variants, setVariants] = useState<VariantDraft[]>([newVariant(0), newVariant(1)]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: batches = [] } = useQuery<PatientBatch[]>({
+    queryKey: ["/api/batches"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/batches");
+      const body = await res.json();
+      return body.success ? body.data : [];
+    },
+  });
+
+  const { data: versions = [] } = useQuery<PromptVersion[]>({
+    queryKey: ["/api/prompt-versions", kind],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/prompt-versions?kind=${kind}`);
+      const body = await res.json();
+      return body.success ? body.data : [];
+    },
+  });
+
+  const { data: experiments = [] } = useQuery<PromptExperiment[]>({
+    queryKey: ["/api/prompt-experiments"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/prompt-experiments");
+      const body = await res.json();
+      return body.success ? body.data : [];
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/prompt-experiments", {
+        name,
+        batchId,
+        kind,
+        sampleSize,
+        variants: variants.map((variant) =>
+          variant.source === "custom"
+            ? { label: variant.label, content: variant.content }
+            : { label: variant.label, versionId: Number(variant.source) }
+        ),
+      });
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      toast({ title: "Experiment started", description: body.message });
+      setSelectedId(body.data.id);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/prompt-experiments"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: `Failed to start experiment: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  const setVariant = (index: number, changes: Partial<VariantDraft>) =>
+    setVariants((prev) => prev.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+
+  const canStart =
+    name.trim() &&
+    batchId &&
+    variants.every((variant) => variant.label.trim() && (variant.source !== "custom" || variant.content.trim()));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5" />
+            New Prompt Experiment
+          </CardTitle>
+          <CardDescription>
+            Generate with two to four prompts over the same random patients from a batch, then rate the
+            outputs side by side. Nothing changes for real patients until you adopt a variant.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="experiment-name">Name</Label>
+              <Input id="experiment-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Batch</Label>
+              <Select value={batchId} onValueChange={setBatchId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a batch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {batches.map((batch) => (
+                    <SelectItem key={batch.batchId} value={batch.batchId}>
+                      {batch.fileName} ({new Date(batch.createdAt).toLocaleDateString()})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Prompt</Label>
+              <Select
+                value={kind}
+                onValueChange={(value) => {
+                  setKind(value as ExperimentKind);
+                  // Saved versions belong to one kind of prompt
+                  setVariants((prev) => prev.map((variant) => ({ ...variant, source: "custom" })));
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KIND_LABELS) as ExperimentKind[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {KIND_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="experiment-sample">Patients</Label>
+              <Input
+                id="experiment-sample"
+                type="number"
+                min={1}
+                max={25}
+                value={sampleSize}
+                onChange={(e) => setSampleSize(Number(e.target.value) || 1)}
+              />
+            </div>
+          </div>
+
+          {variants.map((variant, index) => (
+            <div key={index} className="border rounded-md p-3 space-y-2">
+              <div className="grid grid-cols-[6rem_1fr_auto] gap-2 items-center">
+                <Input
+                  aria-label="Variant label"
+                  value={variant.label}
+                  onChange={(e) => setVariant(index, { label: e.target.value })}
+                />
+                <Select value={variant.source} onValueChange={(source) => setVariant(index, { source })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="custom">New prompt text</SelectItem>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.id)}>
+                        Version {version.version}
+                        {version.changeNote ? ` — ${version.changeNote}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setVariants((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={variants.length <= 2}
+                  title="Remove variant"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              {variant.source === "custom" && (
+                <Textarea
+                  placeholder="Prompt text for this variant"
+                  value={variant.content}
+                  onChange={(e) => setVariant(index, { content: e.target.value })}
+                  className="min-h-[150px] font-mono text-sm"
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setVariants((prev) => [...prev, newVariant(prev.length)])}
+              disabled={variants.length >= 4}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Variant
+            </Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!canStart || createMutation.isPending}>
+              {createMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <FlaskConical className="w-4 h-4 mr-2" />
+              )}
+              Start Experiment
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {experiments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Experiments</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Prompt</TableHead>
+                  <TableHead>Patients</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {experiments.map((experiment) => (
+                  <TableRow
+                    key={experiment.id}
+                    onClick={() => setSelectedId(experiment.id)}
+                    className={`cursor-pointer ${selectedId === experiment.id ? "bg-muted" : ""}`}
+                  >
+                    <TableCell className="font-medium">{experiment.name}</TableCell>
+                    <TableCell>{KIND_LABELS[experiment.kind as ExperimentKind] ?? experiment.kind}</TableCell>
+                    <TableCell>{experiment.patientIds.length}</TableCell>
+                    <TableCell>
+                      <Badge variant={experiment.status === "failed" ? "destructive" : "secondary"}>
+                        {experiment.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{new Date(experiment.createdAt).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {selectedId !== null && <ExperimentResults experimentId={selectedId} />}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Loader2, MessageSquare, Save, Undo2 } from "lucide-react";
+import type { PatientPrompt, PromptReviewEvent } from "@shared/schema";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import PatientMessageTranslation from "./PatientMessageTranslation";
+
+type ReviewEvent = PromptReviewEvent & { actorName: string | null };
+
+export const REVIEW_STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  approved: "Approved",
+  sent: "Sent",
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  assigned: "Reviewer",
+  edited: "Edited",
+  approved: "Approved",
+  changes_requested: "Changes requested",
+  comment: "Comment",
+  sent: "Sent",
+};
+
+interface PromptReviewDialogProps {
+  promptId: number | null;
+  onClose: () => void;
+}
+
+interface MessageEditorProps {
+  id: string;
+  label: string;
+  value: string;
+  original: string | null; // AI text, kept once a reviewer has edited the message
+  onChange: (value: string) => void;
+  disabled: boolean;
+}
+
+function MessageEditor({ id, label, value, original, onChange, disabled }: MessageEditorProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <div className={original !== null ? "grid gap-2 md:grid-cols-2" : ""}>
+        <Textarea id={id} rows={10} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />
+        {original !== null && (
+          <div className="border rounded-md bg-gray-50 p-2 text-sm whitespace-pre-wrap overflow-y-auto max-h-[15rem]">
+            <p className="text-xs font-medium text-gray-500 mb-1">Original AI text</p>
+            {original}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Edit, comment on and approve one generated message, with its review timeline
+export default function PromptReviewDialog({ promptId, onClose }: PromptReviewDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [caregiverMessage, setCaregiverMessage] = useState("");
+  const [patientMessage, setPatientMessage] = useState("");
+  const [comment, setComment] = useState("");
+  const queryKey = ["/api/prompt-reviews", promptId];
+
+  const { data, isLoading } = useQuery<{ prompt: PatientPrompt; events: ReviewEvent[] } | null>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/prompt-reviews/${promptId}`);
+      const body = await res.json();
+      return body.success ? body.data : null;
+    },
+    enabled: promptId !== null,
+  });
+
+  const prompt = data?.prompt;
+
+  useEffect(() => {
+    if (prompt) {
+      setCaregiverMessage(prompt.prompt);
+      setPatientMessage(prompt.patientMessage || "");
+    }
+  }, [prompt?.id, prompt?.updatedAt]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/prompt-reviews"] });
+    if (prompt) {
+      queryClient.invalidateQueries({ queryKey: [`/api/patient-prompts/${prompt.batchId}`] });
+    }
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ method, path, body }: { method: string; path: string; body?: unknown }) => {
+      const res = await apiRequest(method, `/api/prompt-reviews/${promptId}/${path}`, body);
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      if (body.message) toast({ title: body.message });
+      setComment("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update message", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isSent = prompt?.reviewStatus === "sent";
+  const edited = !!prompt && (caregiverMessage !== prompt.prompt || patientMessage !== (prompt.patientMessage || ""));
+
+  return (
+    <Dialog open={promptId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {prompt ? prompt.name : "Message"}
+            {prompt && <Badge variant="secondary">{REVIEW_STATUS_LABELS[prompt.reviewStatus] || prompt.reviewStatus}</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            {prompt ? `Patient ${prompt.patientId} · Batch ${prompt.batchId}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !prompt ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <MessageEditor
+              id="review-caregiver-message"
+              label="Caregiver message"
+              value={caregiverMessage}
+              original={prompt.originalPrompt}
+              onChange={setCaregiverMessage}
+              disabled={isSent}
+            />
+            <MessageEditor
+              id="review-patient-message"
+              label="Patient message"
+              value={patientMessage}
+              original={prompt.originalPatientMessage}
+              onChange={setPatientMessage}
+              disabled={isSent}
+            />
+            <PatientMessageTranslation
+              language={prompt.patientMessageLanguage}
+              translation={patientMessage === (prompt.patientMessage || "") ? prompt.patientMessageEnglish : "Translated again when saved"}
+            />
+            {!isSent && (
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => actionMutation.mutate({
+                    method: "PUT",
+                    path: "messages",
+                    body: { prompt: caregiverMessage, patientMessage },
+                  })}
+                  disabled={!edited || !caregiverMessage.trim() || !patientMessage.trim() || actionMutation.isPending}
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Edits
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="review-comment">Comment</Label>
+              <Textarea
+                id="review-comment"
+                rows={2}
+                placeholder="Optional for approval, required to request changes"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  onClick={() => actionMutation.mutate({ method: "POST", path: "comments", body: { comment } })}
+                  disabled={!comment.trim() || actionMutation.isPending}
+                >
+                  <MessageSquare className="mr-2 h-4 w-4" />
+                  Comment
+                </Button>
+                {prompt.reviewStatus === "in_review" && (
+                  <Button
+                    variant="outline"
+                    onClick={() => actionMutation.mutate({ method: "POST", path: "request-changes", body: { comment } })}
+                    disabled={!comment.trim() || actionMutation.isPending}
+                  >
+                    <Undo2 className="mr-2 h-4 w-4" />
+                    Request Changes
+                  </Button>
+                )}
+                {(prompt.reviewStatus === "draft" || prompt.reviewStatus === "in_review") && (
+                  <Button
+                    onClick={() => actionMutation.mutate({ method: "POST", path: "approve", body: { comment } })}
+                    disabled={edited || actionMutation.isPending}
+                    title={edited ? "Save or discard your edits first" : undefined}
+                  >
+                    <Check className="mr-2 h-4 w-4" />
+                    Approve
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {data.events.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">History</p>
+                <ul className="space-y-2 text-sm">
+                  {data.events.map((event) => (
+                    <li key={event.id} className="flex gap-3">
+                      <span className="text-gray-500 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</span>
+                      <span className="font-medium whitespace-nowrap">{EVENT_LABELS[event.type] || event.type}</span>
+                      <span className="text-gray-600">
+                        {event.actorName ? `${event.actorName}: ` : ""}
+                        {event.comment}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
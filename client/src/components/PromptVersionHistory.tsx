@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { diffLines, type DiffRow } from "@/lib/diff";
+import { ChevronDown, GitCompare, History, RotateCcw } from "lucide-react";
+import type { PromptKind, PromptVersion } from "@shared/schema";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type PromptVersionWithAuthor = PromptVersion & { authorName: string | null };
+
+interface PromptVersionHistoryProps {
+  kind: PromptKind;
+  currentText: string; // What is in the editor, compared against saved versions
+  promptQueryKey: string; // Query holding the live prompt, refetched after a rollback
+}
+
+const ROW_STYLES: Record<DiffRow["type"], { left: string; right: string }> = {
+  same: { left: "", right: "" },
+  removed: { left: "bg-red-50 text-red-800", right: "bg-gray-50" },
+  added: { left: "bg-gray-50", right: "bg-green-50 text-green-800" },
+  changed: { left: "bg-red-50 text-red-800", right: "bg-green-50 text-green-800" },
+};
+
+function SideBySideDiff({ before, after }: { before: string; after: string }) {
+  const rows = diffLines(before, after);
+  return (
+    <div className="max-h-[60vh] overflow-auto border rounded-md font-mono text-xs">
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-2 divide-x">
+          <div className={`px-2 py-0.5 whitespace-pre-wrap ${ROW_STYLES[row.type].left}`}>{row.left ?? ""}</div>
+          <div className={`px-2 py-0.5 whitespace-pre-wrap ${ROW_STYLES[row.type].right}`}>{row.right ?? ""}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Saved versions of one prompt, with a diff against the editor and one-click rollback
+export default function PromptVersionHistory({ kind, currentText, promptQueryKey }: PromptVersionHistoryProps) {
+  const { toast } = useToast();
+  const [comparing, setComparing] = useState<PromptVersionWithAuthor | null>(null);
+  const queryKey = ["/api/prompt-versions", kind];
+
+  const { data: versions = [] } = useQuery<PromptVersionWithAuthor[]>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/prompt-versions?kind=${kind}`);
+      const data = await res.json();
+      return data.success ? data.data : [];
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/prompt-versions/${id}/rollback`);
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Success", description: data.message });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: [promptQueryKey] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to roll back prompt: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  const latestId = versions[0].id;
+
+  return (
+    <>
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="px-0">
+            <History className="w-4 h-4 mr-2" />
+            Version history ({versions.length})
+            <ChevronDown className="w-4 h-4 ml-1" />
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="max-h-72 overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Version</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>Author</TableHead>
+                  <TableHead>Change Note</TableHead>
+                  <TableHead className="w-56" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((version) => (
+                  <TableRow key={version.id}>
+                    <TableCell className="font-medium">
+                      v{version.version}
+                      {version.id === latestId && (
+                        <Badge variant="secondary" className="ml-2">Live</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{new Date(version.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{version.authorName || "—"}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{version.changeNote || ""}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => setComparing(version)}>
+                        <GitCompare className="w-4 h-4 mr-1" />
+                        Compare
+                      </Button>
+                      {version.id !== latestId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => rollbackMutation.mutate(version.id)}
+                          disabled={rollbackMutation.isPending}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Roll Back
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+
+      <Dialog open={!!comparing} onOpenChange={(open) => !open && setComparing(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Version {comparing?.version} vs. editor</DialogTitle>
+            <DialogDescription>
+              Left: the saved version. Right: the text currently in the editor.
+            </DialogDescription>
+          </DialogHeader>
+          {comparing && <SideBySideDiff before={comparing.content} after={currentText} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -2,9 +2,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Eye, RefreshCw, Copy, Download } from "lucide-react";
+import { Eye, RefreshCw, Copy, Download, Send } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
 import { PatientPrompt } from "@shared/schema";
+import type { BatchProgress } from "@shared/types";
 
 interface ResultsSectionProps {
   patientPrompts: PatientPrompt[];
@@ -19,8 +21,10 @@ interface ResultsSectionProps {
   onRegeneratePrompt: (patientId: string) => void;
   onRegenerateAll: () => void;
   onExportCSV: () => void;
+  onSendToPatients: () => void; // Deliver patient messages by each patient's preferred channel
   onCopyPrompt: (prompt: string) => void;
   isPending: boolean;
+  progress?: BatchProgress | null; // Live generation progress while the batch is still processing
 }
 
 export default function ResultsSection({
@@ -36,9 +40,12 @@ export default function ResultsSection({
   onRegeneratePrompt,
   onRegenerateAll,
   onExportCSV,
+  onSendToPatients,
   onCopyPrompt,
-  isPending
+  isPending,
+  progress
 }: ResultsSectionProps) {
+  const finished = progress ? progress.processed + progress.failed : 0;
   return (
     <Card className="shadow overflow-hidden">
       <CardContent className="p-0">
@@ -55,6 +62,15 @@ export default function ResultsSection({
                 <Download className="h-4 w-4 mr-1.5 text-gray-500" />
                 Export CSV
               </Button>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={onSendToPatients} 
+                disabled={isPending || isLoading || patientPrompts.length === 0}
+              >
+                <Send className="h-4 w-4 mr-1.5 text-gray-500" />
+                Send to Patients
+              </Button>
               <Button 
                 size="sm" 
                 onClick={onRegenerateAll}
@@ -66,6 +82,19 @@ export default function ResultsSection({
             </div>
           </div>
           
+          {progress?.status === "processing" && (
+            <div className="mt-4 space-y-1">
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>Generating prompts...</span>
+                <span>
+                  {finished} of {progress.total}
+                  {progress.failed > 0 && <span className="text-red-600"> ({progress.failed} failed)</span>}
+                </span>
+              </div>
+              <Progress value={progress.total > 0 ? (finished / progress.total) * 100 : 0} />
+            </div>
+          )}
+
           <div className="mt-4">
             <div className="flex items-center">
               <span className="text-sm text-gray-500">
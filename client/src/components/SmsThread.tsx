@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, MessageSquare } from "lucide-react";
+import type { SmsMessage } from "@shared/schema";
+
+interface SmsThreadProps {
+  patientId: string;
+}
+
+const SENDER_LABELS: Record<string, string> = {
+  clinician: "Clinician",
+  patient: "Patient",
+  system: "CalicoCare",
+  unknown: "Unknown sender",
+};
+
+const INTENT_LABELS: Record<string, string> = {
+  ack: "ACK",
+  esc: "ESC",
+};
+
+export default function SmsThread({ patientId }: SmsThreadProps) {
+  const { data: messages, isLoading, error } = useQuery<SmsMessage[]>({
+    queryKey: ["/api/sms/messages", patientId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/sms/messages?patientId=${encodeURIComponent(patientId)}`);
+      const data = await res.json();
+      return data.success ? data.data : [];
+    },
+    refetchInterval: 30000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-500">Failed to load SMS messages.</p>;
+  }
+
+  if (!messages || messages.length === 0) {
+    return (
+      <div className="text-center py-6 text-gray-500 text-sm">
+        <MessageSquare className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+        No SMS messages for this patient yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 max-h-96 overflow-y-auto">
+      {messages.map((message) => {
+        const inbound = message.direction === "inbound";
+        return (
+          <div key={message.id} className={`flex ${inbound ? "justify-start" : "justify-end"}`}>
+            <div
+              className={`max-w-[80%] rounded-lg px-3 py-2 ${
+                inbound ? "bg-gray-100 text-gray-800" : "bg-blue-50 text-gray-800"
+              }`}
+            >
+              <div className="text-xs text-gray-500 mb-1 flex items-center gap-2">
+                <span className="font-medium">{SENDER_LABELS[message.senderType] || message.senderType}</span>
+                <span>{inbound ? message.fromNumber : `to ${message.toNumber}`}</span>
+                {message.intent && INTENT_LABELS[message.intent] && (
+                  <span className="px-1.5 rounded bg-purple-100 text-purple-700 font-medium">
+                    {INTENT_LABELS[message.intent]}
+                  </span>
+                )}
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+              <div className="text-[10px] text-gray-400 mt-1">{new Date(message.createdAt).toLocaleString()}</div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import type { LlmCostSettings } from "@shared/schema";
+import type { TokenUsageSummary, UsageBreakdown } from "@shared/types";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+// Empty inputs mean "no budget"
+const parseBudget = (value: string) => (value.trim() === "" ? null : Number(value));
+
+function BreakdownTable({ title, rows }: { title: string; rows: UsageBreakdown[] }) {
+  return (
+    <div>
+      <p className="text-sm font-medium mb-2">{title}</p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            <TableHead className="text-right">Calls</TableHead>
+            <TableHead className="text-right">Tokens in / out</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key}>
+              <TableCell className="font-medium">{row.key}</TableCell>
+              <TableCell className="text-right">{row.calls}</TableCell>
+              <TableCell className="text-right text-sm">
+                {row.inputTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Last 30 days of LLM spend from the usage ledger, with the prices and budgets behind it
+export default function TokenUsageSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<LlmCostSettings | null>(null);
+  const [dailyBudget, setDailyBudget] = useState("");
+  const [monthlyBudget, setMonthlyBudget] = useState("");
+  const [newModel, setNewModel] = useState("");
+
+  const { data: usage, isLoading: usageLoading } = useQuery<TokenUsageSummary | null>({
+    queryKey: ["/api/token-usage"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/token-usage");
+      const data = await res.json();
+      return data.success ? data.data : null;
+    },
+  });
+
+  const { data: costSettings } = useQuery<LlmCostSettings | null>({
+    queryKey: ["/api/settings/llm-costs"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/settings/llm-costs");
+      const data = await res.json();
+      return data.success ? data.data : null;
+    },
+  });
+
+  useEffect(() => {
+    if (costSettings) {
+      setForm(costSettings);
+      setDailyBudget(costSettings.dailyBudget?.toString() ?? "");
+      setMonthlyBudget(costSettings.monthlyBudget?.toString() ?? "");
+    }
+  }, [costSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: LlmCostSettings) => {
+      const res = await apiRequest("PUT", "/api/settings/llm-costs", {
+        ...values,
+        dailyBudget: parseBudget(dailyBudget),
+        monthlyBudget: parseBudget(monthlyBudget),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Cost settings saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/llm-costs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/token-usage"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save cost settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setPrice = (model: string, field: "inputPerMillion" | "outputPerMillion", value: string) => {
+    if (!form) return;
+    setForm({ ...form, prices: { ...form.prices, [model]: { ...form.prices[model], [field]: Number(value) || 0 } } });
+  };
+
+  const removePrice = (model: string) => {
+    if (!form) return;
+    const { [model]: _removed, ...prices } = form.prices;
+    setForm({ ...form, prices });
+  };
+
+  const addPrice = () => {
+    const model = newModel.trim();
+    if (!form || !model || form.prices[model]) return;
+    setForm({ ...form, prices: { ...form.prices, [model]: { inputPerMillion: 0, outputPerMillion: 0 } } });
+    setNewModel("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Token Usage &amp; Cost</CardTitle>
+        <CardDescription>
+          Every language model call over the last 30 days, priced per model. Calls to local
+          models are free unless you add a price for them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {usageLoading || !form ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {usage?.alerts.map((alert) => (
+              <Alert key={alert.period} variant={alert.level === "exceeded" ? "destructive" : "default"}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {alert.period === "day" ? "Today's" : "This month's"} spend of {formatCost(alert.spent)}{" "}
+                  {alert.level === "exceeded" ? "has exceeded" : "is approaching"} the {formatCost(alert.budget)} budget.
+                </AlertDescription>
+              </Alert>
+            ))}
+
+            {usage && (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-sm text-gray-500">Calls</p>
+                    <p className="text-2xl font-semibold">{usage.totals.calls}</p>
+                    {usage.totals.failedCalls > 0 && (
+                      <p className="text-xs text-red-600">{usage.totals.failedCalls} failed</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Tokens</p>
+                    <p className="text-2xl font-semibold">
+                      {(usage.totals.inputTokens + usage.totals.outputTokens).toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Cost</p>
+                    <p className="text-2xl font-semibold">{formatCost(usage.totals.cost)}</p>
+                    <p className="text-xs text-gray-500">{formatCost(usage.totals.averageCostPerCall)} per call</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Average latency</p>
+                    <p className="text-2xl font-semibold">{Math.round(usage.totals.averageLatencyMs)} ms</p>
+                  </div>
+                </div>
+
+                {usage.totals.calls > 0 && (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <BreakdownTable title="By task" rows={usage.byTask} />
+                    <BreakdownTable title="By model" rows={usage.byModel} />
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="llm-daily-budget">Daily budget (USD)</Label>
+                <Input
+                  id="llm-daily-budget"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No budget"
+                  value={dailyBudget}
+                  onChange={(e) => setDailyBudget(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="llm-monthly-budget">Monthly budget (USD)</Label>
+                <Input
+                  id="llm-monthly-budget"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No budget"
+                  value={monthlyBudget}
+                  onChange={(e) => setMonthlyBudget(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="llm-alert-threshold">Warn at (% of budget)</Label>
+                <Input
+                  id="llm-alert-threshold"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={Math.round(form.alertThreshold * 100)}
+                  onChange={(e) => setForm({ ...form, alertThreshold: Number(e.target.value) / 100 })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Prices (USD per million tokens)</p>
+              {Object.entries(form.prices).map(([model, price]) => (
+                <div key={model} className="grid grid-cols-[1fr_8rem_8rem_auto] gap-2 items-center">
+                  <span className="text-sm font-mono">{model}</span>
+                  <Input
+                    aria-label={`${model} input price`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={price.inputPerMillion}
+                    onChange={(e) => setPrice(model, "inputPerMillion", e.target.value)}
+                  />
+                  <Input
+                    aria-label={`${model} output price`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={price.outputPerMillion}
+                    onChange={(e) => setPrice(model, "outputPerMillion", e.target.value)}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => removePrice(model)} title="Remove price">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Model name, or local/<model> for a local model"
+                  value={newModel}
+                  onChange={(e) => setNewModel(e.target.value)}
+                />
+                <Button variant="outline" onClick={addPrice} disabled={!newModel.trim()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Model
+                </Button>
+              </div>
+            </div>
+
+            <Button onClick={() => saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save Cost Settings
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
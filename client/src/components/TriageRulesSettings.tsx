@@ -0,0 +1,449 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pencil, Plus, RotateCcw, Trash2 } from "lucide-react";
+import type { TriageRule } from "@shared/schema";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const OPERATORS = [
+  { value: ">", label: "greater than" },
+  { value: ">=", label: "at least" },
+  { value: "<", label: "less than" },
+  { value: "<=", label: "at most" },
+  { value: "between", label: "between" },
+  { value: "outside", label: "outside" },
+];
+
+interface RuleForm {
+  variable: string;
+  label: string;
+  condition: string;
+  minAge: string;
+  maxAge: string;
+  unit: string;
+  operator: string;
+  threshold: string;
+  thresholdHigh: string;
+  severity: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  variable: "",
+  label: "",
+  condition: "",
+  minAge: "",
+  maxAge: "",
+  unit: "",
+  operator: ">",
+  threshold: "",
+  thresholdHigh: "",
+  severity: "yellow",
+  enabled: true,
+};
+
+const isRange = (operator: string) => operator === "between" || operator === "outside";
+
+// Convert the string-based form into the API payload
+function toPayload(form: RuleForm) {
+  const optionalNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+  const optionalText = (value: string) => (value.trim() === "" ? null : value.trim());
+
+  return {
+    variable: form.variable.trim(),
+    label: optionalText(form.label),
+    condition: optionalText(form.condition),
+    minAge: optionalNumber(form.minAge),
+    maxAge: optionalNumber(form.maxAge),
+    unit: optionalText(form.unit),
+    operator: form.operator,
+    threshold: Number(form.threshold),
+    thresholdHigh: isRange(form.operator) ? optionalNumber(form.thresholdHigh) : null,
+    severity: form.severity,
+    enabled: form.enabled,
+  };
+}
+
+function toForm(rule: TriageRule): RuleForm {
+  return {
+    variable: rule.variable,
+    label: rule.label ?? "",
+    condition: rule.condition ?? "",
+    minAge: rule.minAge?.toString() ?? "",
+    maxAge: rule.maxAge?.toString() ?? "",
+    unit: rule.unit ?? "",
+    operator: rule.operator,
+    threshold: rule.threshold.toString(),
+    thresholdHigh: rule.thresholdHigh?.toString() ?? "",
+    severity: rule.severity,
+    enabled: rule.enabled,
+  };
+}
+
+// Human readable description of a rule's threshold
+export function describeRule(rule: Pick<TriageRule, "operator" | "threshold" | "thresholdHigh" | "unit">): string {
+  const unit = rule.unit ? ` ${rule.unit}` : "";
+  if (rule.operator === "between") {
+    return `between ${rule.threshold} and ${rule.thresholdHigh}${unit}`;
+  }
+  if (rule.operator === "outside") {
+    return `below ${rule.threshold} or above ${rule.thresholdHigh}${unit}`;
+  }
+  return `${rule.operator} ${rule.threshold}${unit}`;
+}
+
+export default function TriageRulesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+
+  const { data, isLoading, error } = useQuery<{ success: boolean; data: TriageRule[]; usingDefaults: boolean }>({
+    queryKey: ["/api/triage/rules"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/triage/rules");
+      return await res.json();
+    },
+  });
+
+  const rules = data?.data ?? [];
+
+  const onMutationError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async () => {
+      const payload = toPayload(form);
+      const res = editingId
+        ? await apiRequest("PUT", `/api/triage/rules/${editingId}`, payload)
+        : await apiRequest("POST", "/api/triage/rules", payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: editingId ? "Rule updated" : "Rule added" });
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/triage/rules"] });
+    },
+    onError: onMutationError("Failed to save rule"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/triage/rules/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Rule deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/triage/rules"] });
+    },
+    onError: onMutationError("Failed to delete rule"),
+  });
+
+  const restoreDefaultsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/triage/rules/restore-defaults", {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Default rules restored" });
+      queryClient.invalidateQueries({ queryKey: ["/api/triage/rules"] });
+    },
+    onError: onMutationError("Failed to restore defaults"),
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (rule: TriageRule) => {
+    setEditingId(rule.id);
+    setForm(toForm(rule));
+    setDialogOpen(true);
+  };
+
+  const updateForm = (field: keyof RuleForm, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const canSave =
+    form.variable.trim() !== "" &&
+    form.threshold.trim() !== "" &&
+    (!isRange(form.operator) || form.thresholdHigh.trim() !== "");
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Clinical Threshold Rules</CardTitle>
+            <CardDescription>
+              Thresholds used to grade readings as red or yellow during upload and triage
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => restoreDefaultsMutation.mutate()}
+              disabled={restoreDefaultsMutation.isPending}
+            >
+              {restoreDefaultsMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4 mr-1.5" />
+              )}
+              Restore Defaults
+            </Button>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-1.5" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load triage rules.</p>
+        ) : (
+          <>
+            {data?.usingDefaults && (
+              <p className="text-sm text-muted-foreground mb-4">
+                No rules are configured yet, so the built-in default thresholds are in effect.
+                Use "Restore Defaults" to copy them here and start editing.
+              </p>
+            )}
+            {rules.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Variable</TableHead>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead>Threshold</TableHead>
+                    <TableHead>Severity</TableHead>
+                    <TableHead>Enabled</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell>
+                        <div className="font-medium">{rule.label || rule.variable}</div>
+                        <div className="text-xs text-muted-foreground">matches "{rule.variable}"</div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {rule.condition ? rule.condition : "All conditions"}
+                        {(rule.minAge != null || rule.maxAge != null) && (
+                          <div className="text-xs text-muted-foreground">
+                            Ages {rule.minAge ?? 0}–{rule.maxAge ?? "+"}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{describeRule(rule)}</TableCell>
+                      <TableCell>
+                        <Badge
+                          className={
+                            rule.severity === "red"
+                              ? "bg-red-100 text-red-800 hover:bg-red-100"
+                              : "bg-yellow-100 text-yellow-800 hover:bg-yellow-100"
+                          }
+                        >
+                          {rule.severity.toUpperCase()}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{rule.enabled ? "Yes" : "No"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(rule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteRuleMutation.mutate(rule.id)}
+                          disabled={deleteRuleMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Rule" : "Add Rule"}</DialogTitle>
+            <DialogDescription>
+              The rule applies to any reading whose name contains the variable text.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-variable">Variable</Label>
+              <Input
+                id="rule-variable"
+                placeholder="glucose"
+                value={form.variable}
+                onChange={(e) => updateForm("variable", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-label">Display Name</Label>
+              <Input
+                id="rule-label"
+                placeholder="Glucose"
+                value={form.label}
+                onChange={(e) => updateForm("label", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Operator</Label>
+              <Select value={form.operator} onValueChange={(value) => updateForm("operator", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPERATORS.map((op) => (
+                    <SelectItem key={op.value} value={op.value}>
+                      {op.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-unit">Unit</Label>
+              <Input
+                id="rule-unit"
+                placeholder="mg/dL"
+                value={form.unit}
+                onChange={(e) => updateForm("unit", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-threshold">{isRange(form.operator) ? "Low Threshold" : "Threshold"}</Label>
+              <Input
+                id="rule-threshold"
+                type="number"
+                value={form.threshold}
+                onChange={(e) => updateForm("threshold", e.target.value)}
+              />
+            </div>
+            {isRange(form.operator) && (
+              <div className="space-y-2">
+                <Label htmlFor="rule-threshold-high">High Threshold</Label>
+                <Input
+                  id="rule-threshold-high"
+                  type="number"
+                  value={form.thresholdHigh}
+                  onChange={(e) => updateForm("thresholdHigh", e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select value={form.severity} onValueChange={(value) => updateForm("severity", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="red">Red (urgent)</SelectItem>
+                  <SelectItem value="yellow">Yellow (attention)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-condition">Condition (optional)</Label>
+              <Input
+                id="rule-condition"
+                placeholder="diabetes"
+                value={form.condition}
+                onChange={(e) => updateForm("condition", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-min-age">Min Age (optional)</Label>
+              <Input
+                id="rule-min-age"
+                type="number"
+                value={form.minAge}
+                onChange={(e) => updateForm("minAge", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max-age">Max Age (optional)</Label>
+              <Input
+                id="rule-max-age"
+                type="number"
+                value={form.maxAge}
+                onChange={(e) => updateForm("maxAge", e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2 col-span-2">
+              <Switch
+                id="rule-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => updateForm("enabled", checked)}
+              />
+              <Label htmlFor="rule-enabled">Enabled</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveRuleMutation.mutate()} disabled={!canSave || saveRuleMutation.isPending}>
+              {saveRuleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Download, Loader2, RotateCcw } from "lucide-react";
+import type { UploadIssue } from "@shared/schema";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface FailedPatient {
+  patientId: string;
+  name: string | null;
+  attempts: number;
+  lastError: string | null;
+}
+
+interface BatchIssues {
+  issues: UploadIssue[];
+  failedPatients: FailedPatient[];
+  summary: { errors: number; warnings: number; failedPatients: number };
+}
+
+interface UploadIssuesPanelProps {
+  batchId: string;
+}
+
+// Validation report for a batch: rows that were skipped or flagged, and patients whose generation failed
+export default function UploadIssuesPanel({ batchId }: UploadIssuesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/batches/${batchId}/issues`];
+
+  const { data, isLoading } = useQuery<BatchIssues | null>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/batches/${batchId}/issues`);
+      const body = await res.json();
+      return body.success ? body.data : null;
+    },
+    enabled: !!batchId,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/batches/${batchId}/retry-failed`);
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      toast({ title: body.message || "Retrying failed patients" });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to retry patients", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!data || (data.issues.length === 0 && data.failedPatients.length === 0)) {
+    return null;
+  }
+
+  const { summary } = data;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Upload Issues
+          </CardTitle>
+          <CardDescription>
+            {summary.errors} errors, {summary.warnings} warnings
+            {summary.failedPatients > 0 && `, ${summary.failedPatients} patients failed generation`}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => window.open(`/api/batches/${batchId}/issues/export`, "_blank")}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Error Workbook
+          </Button>
+          {summary.failedPatients > 0 && (
+            <Button
+              size="sm"
+              onClick={() => retryMutation.mutate()}
+              disabled={retryMutation.isPending}
+            >
+              {retryMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Retry Failed Patients
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {data.failedPatients.length > 0 && (
+          <div>
+            <p className="text-sm font-medium mb-2">Failed patients</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Patient ID</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Last Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.failedPatients.map((patient) => (
+                  <TableRow key={patient.patientId}>
+                    <TableCell className="font-medium">{patient.patientId}</TableCell>
+                    <TableCell>{patient.name || "Unknown"}</TableCell>
+                    <TableCell>{patient.attempts}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{patient.lastError}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {data.issues.length > 0 && (
+          <div className="max-h-96 overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Sheet</TableHead>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Patient ID</TableHead>
+                  <TableHead>Issue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.issues.map((issue) => (
+                  <TableRow key={issue.id}>
+                    <TableCell>
+                      <Badge variant={issue.severity === "error" ? "destructive" : "secondary"}>
+                        {issue.severity}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{issue.sheet}</TableCell>
+                    <TableCell className="text-sm">{issue.rowNumber ?? ""}</TableCell>
+                    <TableCell className="text-sm">{issue.patientId ?? ""}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{issue.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
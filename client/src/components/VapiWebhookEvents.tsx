@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Inbox, Loader2, RotateCcw } from "lucide-react";
+import { vapiWebhookEventStatuses, type VapiWebhookEvent } from "@shared/schema";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-blue-100 text-blue-800",
+  running: "bg-indigo-100 text-indigo-800",
+  processed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+type VapiEventsResponse = {
+  events: VapiWebhookEvent[];
+  counts: Record<string, number>;
+};
+
+// Webhooks received from Vapi and whether they were processed, with replay for failed ones
+export default function VapiWebhookEvents() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState("failed");
+
+  const { data, isLoading } = useQuery<VapiEventsResponse | null>({
+    queryKey: ["/api/vapi-events", status],
+    queryFn: async () => {
+      const params = status === "all" ? "" : `?status=${status}`;
+      const res = await apiRequest("GET", `/api/vapi-events${params}`);
+      const body = await res.json();
+      return body.success ? body.data : null;
+    },
+    refetchInterval: 15000,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/vapi-events/${id}/replay`);
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      toast({ title: body.message });
+      queryClient.invalidateQueries({ queryKey: ["/api/vapi-events"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to replay event", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const events = data?.events ?? [];
+  const counts = data?.counts ?? {};
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Vapi Webhook Events
+          </CardTitle>
+          <CardDescription>
+            End-of-call reports received from Vapi. Failed events can be replayed once the cause is fixed.
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            {vapiWebhookEventStatuses.map((value) => (
+              <SelectItem key={value} value={value}>
+                {value} ({counts[value] ?? 0})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No {status === "all" ? "" : `${status} `}events.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Call</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last error</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {new Date(event.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div className="font-mono text-xs">{event.callId}</div>
+                    <div className="text-muted-foreground">
+                      {event.payload?.message?.call?.metadata?.patientName || event.type}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_STYLES[event.status]}>
+                      {event.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {event.attempts} / {event.maxAttempts}
+                  </TableCell>
+                  <TableCell className="text-sm text-red-700 max-w-xs truncate" title={event.lastError ?? undefined}>
+                    {event.lastError}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(event.status === "failed" || event.status === "processed") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => replayMutation.mutate(event.id)}
+                        disabled={replayMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Replay
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import type { BatchProgress } from "@shared/types";
+
+/**
+ * Subscribe to a batch's prompt generation progress over Server-Sent Events.
+ * The stream closes itself once the batch is finished.
+ */
+export function useBatchProgress(batchId: string | null | undefined) {
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+
+  useEffect(() => {
+    setProgress(null);
+    if (!batchId) return;
+
+    const source = new EventSource(`/api/batches/${encodeURIComponent(batchId)}/progress/stream`);
+    const onProgress = (event: MessageEvent) => {
+      setProgress(JSON.parse(event.data) as BatchProgress);
+    };
+
+    source.addEventListener("progress", onProgress);
+    source.addEventListener("done", () => source.close());
+    // Batches that can't be streamed (e.g. not found) shouldn't reconnect forever
+    source.onerror = () => {
+      if (source.readyState === EventSource.CONNECTING) source.close();
+    };
+
+    return () => source.close();
+  }, [batchId]);
+
+  return {
+    progress,
+    isProcessing: progress?.status === "processing",
+  };
+}
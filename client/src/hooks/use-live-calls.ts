@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import type { LiveCall, LiveTranscriptLine } from "@shared/types";
+
+/**
+ * Subscribe to companion calls in progress over Server-Sent Events. Each
+ * (re)connection starts with a snapshot, so nothing is missed after a drop.
+ */
+export function useLiveCalls() {
+  const [calls, setCalls] = useState<LiveCall[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    const source = new EventSource("/api/live-calls/stream");
+
+    source.addEventListener("snapshot", (event: MessageEvent) => {
+      setCalls(JSON.parse(event.data) as LiveCall[]);
+      setConnected(true);
+    });
+    source.addEventListener("call", (event: MessageEvent) => {
+      const update = JSON.parse(event.data) as Omit<LiveCall, "transcript">;
+      setCalls((prev) =>
+        prev.some((call) => call.callId === update.callId)
+          ? prev.map((call) => (call.callId === update.callId ? { ...call, ...update } : call))
+          : [{ ...update, transcript: [] }, ...prev]
+      );
+    });
+    source.addEventListener("transcript", (event: MessageEvent) => {
+      const { callId, line } = JSON.parse(event.data) as { callId: string; line: LiveTranscriptLine };
+      setCalls((prev) =>
+        prev.map((call) => (call.callId === callId ? { ...call, transcript: [...call.transcript, line] } : call))
+      );
+    });
+    source.addEventListener("removed", (event: MessageEvent) => {
+      const { callId } = JSON.parse(event.data) as { callId: string };
+      setCalls((prev) => prev.filter((call) => call.callId !== callId));
+    });
+    // EventSource reconnects by itself; the next snapshot marks it connected again
+    source.onerror = () => setConnected(false);
+
+    return () => source.close();
+  }, []);
+
+  return { calls, connected };
+}
@@ -0,0 +1,59 @@
+export type DiffRowType = "same" | "removed" | "added" | "changed";
+
+// One row of a side-by-side diff; a missing side is a blank line on that side
+export interface DiffRow {
+  type: DiffRowType;
+  left?: string;
+  right?: string;
+}
+
+/**
+ * Line diff of two texts for side-by-side display, based on the longest
+ * common subsequence of lines. Runs of removed lines followed by added lines
+ * are paired up as "changed" rows so edits line up across the two sides.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const left = before.split("\n");
+  const right = after.split("\n");
+
+  // lcs[i][j] = length of the LCS of left[i..] and right[j..]
+  const lcs: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i][j] = left[i] === right[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: "changed", left: removed[k], right: added[k] });
+    }
+    removed.slice(paired).forEach((line) => rows.push({ type: "removed", left: line }));
+    added.slice(paired).forEach((line) => rows.push({ type: "added", right: line }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      flush();
+      rows.push({ type: "same", left: left[i], right: right[j] });
+      i++;
+      j++;
+    } else if (j >= right.length || (i < left.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(left[i++]);
+    } else {
+      added.push(right[j++]);
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -10,6 +10,9 @@ import { Phone, MessageSquare, Heart, Clock, Users, Settings, Eye } from "lucide
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import CallScheduleManager from "@/components/CallScheduleManager";
+import CallCalendar from "@/components/CallCalendar";
+import LiveCallMonitor from "@/components/LiveCallMonitor";
 
 interface Patient {
   id: string;
@@ -336,6 +339,9 @@ export default function AICompanionCalls() {
         </Card>
       </div>
 
+      {/* Calls in progress, streamed from Vapi webhooks */}
+      <LiveCallMonitor />
+
       {/* Recent AI Voice Calls */}
       <Card className="mt-6">
         <CardHeader>
@@ -380,6 +386,10 @@ export default function AICompanionCalls() {
         </CardContent>
       </Card>
 
+      {/* Recurring call schedules and their calendar */}
+      <CallScheduleManager patients={patients} />
+      <CallCalendar />
+
       {/* Patient Context Preview Dialog */}
       <Dialog open={contextPreviewOpen} onOpenChange={setContextPreviewOpen}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
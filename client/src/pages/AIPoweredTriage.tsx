@@ -4,9 +4,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Eye, RotateCw, FileDown, Copy, Maximize2, Phone, History, Clock, MessageSquare } from "lucide-react";
+import { Eye, RotateCw, FileDown, Copy, Maximize2, Phone, History, Clock, MessageSquare, CheckCircle } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import SmsThread from "@/components/SmsThread";
+import PatientMessageTranslation from "@/components/PatientMessageTranslation";
 import ReactMarkdown from 'react-markdown';
 import {
   Dialog,
@@ -18,15 +21,27 @@ import {
 
 interface PatientPrompt {
   id: number;
+  patientId: string;
   patientName: string;
   age: number;
   condition: string;
   promptText: string;
   reasoning: string;
+  patientMessage?: string | null;
+  patientMessageLanguage?: string | null;
+  patientMessageEnglish?: string | null; // English translation when the message is in another language
   isAlert: boolean;
   status: 'healthy' | 'alert';
 }
 
+interface AlertDispatchStatus {
+  id: string;
+  status: 'pending' | 'sent' | 'delivered' | 'failed' | 'healthy';
+  sentAt: string | null;
+  deliveredAt?: string | null;
+  failureReason?: string | null;
+}
+
 interface CallHistory {
   id: number;
   callId: string;
@@ -117,6 +132,7 @@ export default function AIPoweredTriage() {
   const [promptDialogOpen, setPromptDialogOpen] = useState(false);
   const [patientMessageDialogOpen, setPatientMessageDialogOpen] = useState(false);
   const [reasoningDialogOpen, setReasoningDialogOpen] = useState(false);
+  const [messagesDialogOpen, setMessagesDialogOpen] = useState(false);
   const [processedPrompts, setProcessedPrompts] = useState<PatientPrompt[]>([]);
   const [phoneNumbers, setPhoneNumbers] = useState<Record<number, string>>({});
 
@@ -258,6 +274,31 @@ export default function AIPoweredTriage() {
     staleTime: 0 // Cache for 0 seconds (immediately stale)
   });
 
+  // Query the SMS alert delivery status for the batch
+  const { data: alertStatuses } = useQuery<AlertDispatchStatus[]>({
+    queryKey: ["/api/triage/alerts", effectiveBatchId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/triage/alerts?batchId=${effectiveBatchId}`);
+      const data = await res.json();
+      return Array.isArray(data) ? data : [];
+    },
+    enabled: !!effectiveBatchId,
+    // Keep polling while Twilio has yet to report delivery for a sent alert
+    refetchInterval: (query) =>
+      query.state.data?.some(alert => alert.status === 'sent') ? 15000 : false,
+    staleTime: 0
+  });
+
+  // Alert IDs are derived from the patient prompt id on the server
+  const alertStatusByPromptId = useMemo(() => {
+    const statuses: Record<number, AlertDispatchStatus> = {};
+    (alertStatuses || []).forEach(alert => {
+      const promptId = parseInt(alert.id.replace(/^alert-/, ''));
+      if (!isNaN(promptId)) statuses[promptId] = alert;
+    });
+    return statuses;
+  }, [alertStatuses]);
+
   // Handle error state with useEffect
   useEffect(() => {
     if (promptsError) {
@@ -469,6 +510,29 @@ export default function AIPoweredTriage() {
     }
   });
 
+  // Mutation for sending an SMS alert to the configured caregiver phone
+  const sendAlertMutation = useMutation({
+    mutationFn: async (promptId: number) => {
+      const res = await apiRequest("POST", "/api/triage/send-alert", { alertId: `alert-${promptId}` });
+      return await res.json();
+    },
+    onSuccess: (response) => {
+      toast({
+        title: "Alert Sent",
+        description: `SMS alert sent for ${response.patientName}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/triage/alerts", effectiveBatchId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Alert Failed",
+        description: `Failed to send alert: ${error.message}`,
+        variant: "destructive"
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/triage/alerts", effectiveBatchId] });
+    }
+  });
+
   // Deduplicate prompts by patient name
   const uniquePatientPrompts = processedPrompts ? 
     Object.values(
@@ -562,7 +626,7 @@ export default function AIPoweredTriage() {
     const formattedPhone = cleanPhone;
 
     callPatientMutation.mutate({
-      patientId: (prompt as any).patientId || prompt.id.toString(),
+      patientId: prompt.patientId || prompt.id.toString(),
       phoneNumber: formattedPhone,
       patientData: prompt
     });
@@ -761,6 +825,54 @@ export default function AIPoweredTriage() {
                     </TableCell>
                     <TableCell className="p-2 text-right">
                       <div className="flex justify-end gap-1">
+                        {prompt.status === 'alert' && (() => {
+                          const alertStatus = alertStatusByPromptId[prompt.id];
+
+                          if (alertStatus?.status === 'sent' || alertStatus?.status === 'delivered') {
+                            const delivered = alertStatus.status === 'delivered';
+                            const timestamp = delivered ? alertStatus.deliveredAt : alertStatus.sentAt;
+                            return (
+                              <Badge
+                                variant="outline"
+                                className={`h-6 text-[10px] px-1.5 ${
+                                  delivered ? 'border-green-200 bg-green-50 text-green-700' : 'border-blue-200 bg-blue-50 text-blue-700'
+                                }`}
+                                title={`Alert ${delivered ? 'delivered' : 'sent'}${timestamp ? ` ${new Date(timestamp).toLocaleString()}` : ''}`}
+                              >
+                                {delivered && <CheckCircle className="w-3 h-3 mr-1" />}
+                                {delivered ? 'Delivered' : 'Sent'}
+                              </Badge>
+                            );
+                          }
+
+                          return (
+                            <>
+                              {alertStatus?.status === 'failed' && (
+                                <Badge
+                                  variant="outline"
+                                  className="h-6 text-[10px] px-1.5 border-red-200 bg-red-50 text-red-700"
+                                  title={alertStatus.failureReason || 'Alert delivery failed'}
+                                >
+                                  Failed
+                                </Badge>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => sendAlertMutation.mutate(prompt.id)}
+                                disabled={sendAlertMutation.isPending}
+                                className={`h-6 w-6 p-0 ${
+                                  alertStatus?.status === 'failed'
+                                    ? 'text-red-600 hover:text-red-700 hover:bg-red-50'
+                                    : 'text-orange-600 hover:text-orange-700 hover:bg-orange-50'
+                                }`}
+                                title={alertStatus?.status === 'failed' ? "Retry SMS Alert" : "Send SMS Alert"}
+                              >
+                                <MessageSquare className="w-3 h-3" />
+                              </Button>
+                            </>
+                          );
+                        })()}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -771,6 +883,18 @@ export default function AIPoweredTriage() {
                         >
                           <Phone className="w-3 h-3" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedPrompt(prompt);
+                            setMessagesDialogOpen(true);
+                          }}
+                          title="SMS Messages"
+                          className="h-6 w-6 p-0"
+                        >
+                          <History className="w-3 h-3" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -888,6 +1012,12 @@ export default function AIPoweredTriage() {
             <ReactMarkdown>{(selectedPrompt as any)?.patientMessage || "No patient message generated"}</ReactMarkdown>
           </div>
 
+          <PatientMessageTranslation
+            className="mt-4"
+            language={selectedPrompt?.patientMessageLanguage}
+            translation={selectedPrompt?.patientMessageEnglish}
+          />
+
           <div className="flex justify-end gap-2 mt-4">
             <Button 
               variant="outline" 
@@ -903,6 +1033,23 @@ export default function AIPoweredTriage() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* SMS Messages Dialog */}
+      <Dialog open={messagesDialogOpen} onOpenChange={setMessagesDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedPrompt?.patientName} - SMS Messages
+            </DialogTitle>
+            <DialogDescription>
+              Alerts sent about this patient and replies from clinicians and the patient
+            </DialogDescription>
+          </DialogHeader>
+          {selectedPrompt && (
+            <SmsThread patientId={selectedPrompt.patientId || selectedPrompt.id.toString()} />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
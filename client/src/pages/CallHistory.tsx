@@ -16,7 +16,8 @@ import {
   AlertTriangle,
   Heart,
   FileText,
-  Filter
+  Filter,
+  Flag
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -28,6 +29,9 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import SmsThread from "@/components/SmsThread";
+import CallExtractionDetails from "@/components/CallExtractionDetails";
+import type { CallExtraction, CallFlag } from "@shared/schema";
 
 interface CallHistory {
   id: number;
@@ -68,6 +72,28 @@ export default function CallHistory() {
 
   const callHistory: CallHistory[] = callHistoryData?.data || [];
 
+  // Follow-up flags raised while the selected call was watched live
+  const { data: callFlags = [] } = useQuery<CallFlag[]>({
+    queryKey: ["/api/call-history", selectedCall?.callId, "flags"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/call-history/${encodeURIComponent(selectedCall!.callId)}/flags`);
+      const body = await res.json();
+      return body.success ? body.data : [];
+    },
+    enabled: !!selectedCall,
+  });
+
+  // Medications, symptoms, mood and other details extracted from the selected call
+  const { data: callExtraction = null } = useQuery<CallExtraction | null>({
+    queryKey: ["/api/call-history", selectedCall?.callId, "extraction"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/call-history/${encodeURIComponent(selectedCall!.callId)}/extraction`);
+      const body = await res.json();
+      return body.success ? body.data : null;
+    },
+    enabled: !!selectedCall,
+  });
+
   // Test webhook function
   const testWebhook = async () => {
     setIsTestingWebhook(true);
@@ -452,6 +478,36 @@ export default function CallHistory() {
                 </Card>
               )}
 
+              {/* Structured details extracted from the transcript */}
+              {callExtraction && <CallExtractionDetails extraction={callExtraction} />}
+
+              {/* Flags raised during the live call */}
+              {callFlags.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg text-red-700">Flagged During Call</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-3">
+                      {callFlags.map((flag) => (
+                        <li key={flag.id} className="flex items-start gap-2">
+                          <Flag className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                          <div>
+                            <p className="text-gray-700">
+                              {flag.note || "Flagged for follow-up"}
+                              <span className="text-xs text-gray-500 ml-2">{new Date(flag.createdAt).toLocaleTimeString()}</span>
+                            </p>
+                            {flag.transcriptExcerpt && (
+                              <p className="text-xs text-gray-500 whitespace-pre-line mt-1">{flag.transcriptExcerpt}</p>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Follow-up Items */}
               {selectedCall.followUpItems && selectedCall.followUpItems.length > 0 && (
                 <Card>
@@ -471,6 +527,16 @@ export default function CallHistory() {
                 </Card>
               )}
 
+              {/* SMS conversation with and about this patient */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">SMS Messages</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SmsThread patientId={selectedCall.patientId} />
+                </CardContent>
+              </Card>
+
               {/* Transcript (if available) */}
               {selectedCall.transcript && (
                 <Card>
@@ -0,0 +1,568 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Clock, Loader2, Plus, Trash2, Eye, BellRing } from "lucide-react";
+import type { AlertEscalation, EscalationEvent, OnCallRotation } from "@shared/schema";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ROLE_LABELS: Record<string, string> = {
+  primary: "Primary On-Call",
+  secondary: "Secondary On-Call",
+  care_manager: "Care Manager",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  active: "bg-red-100 text-red-800",
+  exhausted: "bg-red-200 text-red-900",
+  acknowledged: "bg-green-100 text-green-800",
+  queued: "bg-yellow-100 text-yellow-800",
+  digested: "bg-gray-100 text-gray-700",
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  created: "Escalation started",
+  paged: "Paged",
+  page_failed: "Page failed",
+  skipped: "Step skipped",
+  escalated: "Escalated",
+  acknowledged: "Acknowledged",
+  exhausted: "Chain exhausted",
+  digest_queued: "Queued for digest",
+  digest_sent: "Digest sent",
+};
+
+interface EscalationPolicyConfig {
+  severity: string;
+  mode: string;
+  steps: string[];
+  ackTimeoutMinutes: number;
+  digestIntervalMinutes: number;
+  enabled: boolean;
+}
+
+interface RotationsResponse {
+  success: boolean;
+  data: OnCallRotation[];
+  current: Record<string, { name: string; phone: string } | null>;
+}
+
+// Parse "Name, +15551234567" lines into rotation members
+function parseMembers(text: string) {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [name, phone] = line.split(",").map((part) => part.trim());
+      return { name, phone };
+    });
+}
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={`border-transparent ${STATUS_STYLES[status] || "bg-gray-100 text-gray-700"}`}>
+      {status}
+    </Badge>
+  );
+}
+
+function EscalationTimeline({ escalationId }: { escalationId: number }) {
+  const { data, isLoading } = useQuery<AlertEscalation & { events: EscalationEvent[] }>({
+    queryKey: ["/api/escalations", escalationId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/escalations/${escalationId}`);
+      const json = await res.json();
+      return json.data;
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 rounded-md p-3 text-sm whitespace-pre-wrap">{data.summary}</div>
+      <ol className="relative border-l border-gray-200 ml-2">
+        {data.events.map((event) => (
+          <li key={event.id} className="mb-4 ml-4">
+            <div className="absolute w-2.5 h-2.5 bg-gray-300 rounded-full -left-[5px] mt-1.5" />
+            <div className="text-xs text-gray-500">{new Date(event.createdAt).toLocaleString()}</div>
+            <div className="text-sm font-medium">
+              {EVENT_LABELS[event.type] || event.type}
+              {event.role && <span className="text-gray-500 font-normal"> · {ROLE_LABELS[event.role] || event.role}</span>}
+            </div>
+            {event.message && <div className="text-sm text-gray-600">{event.message}</div>}
+            {event.recipient && <div className="text-xs text-gray-500">{event.recipient}</div>}
+          </li>
+        ))}
+      </ol>
+      {data.status === "active" && data.nextActionAt && (
+        <p className="text-xs text-gray-500 flex items-center">
+          <Clock className="h-3 w-3 mr-1" />
+          Escalates to the next step at {new Date(data.nextActionAt).toLocaleString()} unless acknowledged
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function Escalations() {
+  const { toast } = useToast();
+  const [timelineId, setTimelineId] = useState<number | null>(null);
+  const [rotationDialogOpen, setRotationDialogOpen] = useState(false);
+  const [rotationForm, setRotationForm] = useState({
+    name: "",
+    role: "primary",
+    members: "",
+    shiftHours: "168",
+    startsAt: new Date().toISOString().slice(0, 16),
+  });
+  const [policyDrafts, setPolicyDrafts] = useState<Record<string, EscalationPolicyConfig>>({});
+
+  const { data: escalations, isLoading: isEscalationsLoading } = useQuery<AlertEscalation[]>({
+    queryKey: ["/api/escalations"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/escalations");
+      const json = await res.json();
+      return json.success ? json.data : [];
+    },
+    refetchInterval: 30000,
+  });
+
+  const { data: rotations } = useQuery<RotationsResponse>({
+    queryKey: ["/api/on-call/rotations"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/on-call/rotations");
+      return await res.json();
+    },
+  });
+
+  const { data: policies } = useQuery<EscalationPolicyConfig[]>({
+    queryKey: ["/api/escalations/policies"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/escalations/policies");
+      const json = await res.json();
+      return json.success ? json.data : [];
+    },
+  });
+
+  useEffect(() => {
+    if (policies) {
+      setPolicyDrafts(Object.fromEntries(policies.map((p) => [p.severity, p])));
+    }
+  }, [policies]);
+
+  const onMutationError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/escalations/${id}/acknowledge`, {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Alert acknowledged", description: "Escalation has been stopped." });
+      queryClient.invalidateQueries({ queryKey: ["/api/escalations"] });
+    },
+    onError: onMutationError("Failed to acknowledge"),
+  });
+
+  const createRotationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/on-call/rotations", {
+        name: rotationForm.name,
+        role: rotationForm.role,
+        members: parseMembers(rotationForm.members),
+        shiftHours: parseInt(rotationForm.shiftHours),
+        startsAt: new Date(rotationForm.startsAt).toISOString(),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Rotation added" });
+      setRotationDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/on-call/rotations"] });
+    },
+    onError: onMutationError("Failed to add rotation"),
+  });
+
+  const deleteRotationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/on-call/rotations/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Rotation deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/on-call/rotations"] });
+    },
+    onError: onMutationError("Failed to delete rotation"),
+  });
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (policy: EscalationPolicyConfig) => {
+      const res = await apiRequest("PUT", `/api/escalations/policies/${policy.severity}`, {
+        mode: policy.mode,
+        steps: policy.steps,
+        ackTimeoutMinutes: policy.ackTimeoutMinutes,
+        digestIntervalMinutes: policy.digestIntervalMinutes,
+        enabled: policy.enabled,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Policy saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/escalations/policies"] });
+    },
+    onError: onMutationError("Failed to save policy"),
+  });
+
+  const updatePolicyDraft = (severity: string, field: keyof EscalationPolicyConfig, value: number) => {
+    setPolicyDrafts((prev) => ({ ...prev, [severity]: { ...prev[severity], [field]: value } }));
+  };
+
+  const openEscalations = (escalations || []).filter((e) => e.status === "active" || e.status === "exhausted");
+
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Alert Escalations</h1>
+        <p className="text-gray-600 mt-2">
+          Red alerts page the on-call chain until acknowledged. Yellow alerts are sent as a periodic digest.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {Object.entries(ROLE_LABELS).map(([role, label]) => (
+          <Card key={role}>
+            <CardHeader className="pb-2">
+              <CardDescription>{label}</CardDescription>
+              <CardTitle className="text-lg">{rotations?.current?.[role]?.name || "Nobody on call"}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-gray-500">{rotations?.current?.[role]?.phone || "—"}</CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Tabs defaultValue="alerts">
+        <TabsList>
+          <TabsTrigger value="alerts">
+            Alerts
+            {openEscalations.length > 0 && (
+              <Badge className="ml-2 bg-red-600 hover:bg-red-600">{openEscalations.length}</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="rotations">On-Call Rotations</TabsTrigger>
+          <TabsTrigger value="policies">Policies</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="alerts">
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Severity</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Current Step</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isEscalationsLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-gray-400 mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : !escalations || escalations.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                        No escalations yet. They start automatically when an upload contains red or yellow alerts.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    escalations.map((escalation) => (
+                      <TableRow key={escalation.id}>
+                        <TableCell className="font-medium">{escalation.patientName || escalation.patientId}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded-md text-xs font-medium ${
+                            escalation.severity === "red" ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"
+                          }`}>
+                            {escalation.severity.toUpperCase()}
+                          </span>
+                        </TableCell>
+                        <TableCell><StatusBadge status={escalation.status} /></TableCell>
+                        <TableCell className="text-sm">
+                          {escalation.severity === "red"
+                            ? policyDrafts.red?.steps[escalation.currentStep]
+                              ? ROLE_LABELS[policyDrafts.red.steps[escalation.currentStep]]
+                              : "—"
+                            : "Digest"}
+                        </TableCell>
+                        <TableCell className="text-sm">{new Date(escalation.createdAt).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {(escalation.status === "active" || escalation.status === "exhausted") && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => acknowledgeMutation.mutate(escalation.id)}
+                                disabled={acknowledgeMutation.isPending}
+                              >
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                Acknowledge
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => setTimelineId(escalation.id)} title="View Timeline">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="rotations">
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle>On-Call Rotations</CardTitle>
+                  <CardDescription>
+                    Each rotation cycles through its members every shift. If no primary rotation is set, the alert phone from Settings is used.
+                  </CardDescription>
+                </div>
+                <Button size="sm" onClick={() => setRotationDialogOpen(true)}>
+                  <Plus className="h-4 w-4 mr-1.5" />
+                  Add Rotation
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Members</TableHead>
+                    <TableHead>Shift</TableHead>
+                    <TableHead>Starts</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(rotations?.data || []).length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                        No rotations configured.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rotations!.data.map((rotation) => (
+                      <TableRow key={rotation.id}>
+                        <TableCell className="font-medium">{rotation.name}</TableCell>
+                        <TableCell>{ROLE_LABELS[rotation.role] || rotation.role}</TableCell>
+                        <TableCell className="text-sm">
+                          {rotation.members.map((m) => `${m.name} (${m.phone})`).join(", ")}
+                        </TableCell>
+                        <TableCell className="text-sm">{rotation.shiftHours}h</TableCell>
+                        <TableCell className="text-sm">{new Date(rotation.startsAt).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteRotationMutation.mutate(rotation.id)}
+                            disabled={deleteRotationMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="policies">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {["red", "yellow"].map((severity) => {
+              const policy = policyDrafts[severity];
+              if (!policy) return null;
+
+              return (
+                <Card key={severity}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <BellRing className={`h-5 w-5 mr-2 ${severity === "red" ? "text-red-500" : "text-yellow-500"}`} />
+                      {severity === "red" ? "Red Alerts" : "Yellow Alerts"}
+                    </CardTitle>
+                    <CardDescription>
+                      {policy.mode === "escalate"
+                        ? `Pages ${policy.steps.map((s) => ROLE_LABELS[s] || s).join(" → ")}`
+                        : `Digest sent to the ${ROLE_LABELS[policy.steps[0]] || policy.steps[0]}`}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {policy.mode === "escalate" ? (
+                      <div className="space-y-2">
+                        <Label htmlFor={`${severity}-timeout`}>Minutes before escalating to the next step</Label>
+                        <Input
+                          id={`${severity}-timeout`}
+                          type="number"
+                          min={1}
+                          value={policy.ackTimeoutMinutes}
+                          onChange={(e) => updatePolicyDraft(severity, "ackTimeoutMinutes", parseInt(e.target.value) || 1)}
+                        />
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor={`${severity}-digest`}>Digest interval (minutes)</Label>
+                        <Input
+                          id={`${severity}-digest`}
+                          type="number"
+                          min={1}
+                          value={policy.digestIntervalMinutes}
+                          onChange={(e) => updatePolicyDraft(severity, "digestIntervalMinutes", parseInt(e.target.value) || 1)}
+                        />
+                      </div>
+                    )}
+                    <Button onClick={() => savePolicyMutation.mutate(policy)} disabled={savePolicyMutation.isPending}>
+                      {savePolicyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Save Policy
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      {/* Escalation Timeline Dialog */}
+      <Dialog open={timelineId !== null} onOpenChange={(open) => !open && setTimelineId(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Escalation Timeline</DialogTitle>
+            <DialogDescription>Every page, escalation and acknowledgement for this alert</DialogDescription>
+          </DialogHeader>
+          {timelineId !== null && <EscalationTimeline escalationId={timelineId} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Rotation Dialog */}
+      <Dialog open={rotationDialogOpen} onOpenChange={setRotationDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add On-Call Rotation</DialogTitle>
+            <DialogDescription>Members take turns in the order listed.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rotation-name">Name</Label>
+              <Input
+                id="rotation-name"
+                placeholder="Weekday nurses"
+                value={rotationForm.name}
+                onChange={(e) => setRotationForm({ ...rotationForm, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={rotationForm.role} onValueChange={(role) => setRotationForm({ ...rotationForm, role })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rotation-members">Members (one per line: Name, +15551234567)</Label>
+              <Textarea
+                id="rotation-members"
+                rows={4}
+                placeholder={"Dr. Lee, +15551234567\nNurse Patel, +15557654321"}
+                value={rotationForm.members}
+                onChange={(e) => setRotationForm({ ...rotationForm, members: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rotation-shift">Shift length (hours)</Label>
+                <Input
+                  id="rotation-shift"
+                  type="number"
+                  min={1}
+                  value={rotationForm.shiftHours}
+                  onChange={(e) => setRotationForm({ ...rotationForm, shiftHours: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rotation-start">First shift starts</Label>
+                <Input
+                  id="rotation-start"
+                  type="datetime-local"
+                  value={rotationForm.startsAt}
+                  onChange={(e) => setRotationForm({ ...rotationForm, startsAt: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRotationDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createRotationMutation.mutate()}
+              disabled={!rotationForm.name.trim() || !rotationForm.members.trim() || createRotationMutation.isPending}
+            >
+              {createRotationMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Rotation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
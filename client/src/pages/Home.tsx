@@ -1,16 +1,29 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { FileUploadResponse } from "@shared/schema";
+import type { ColumnMapping as ColumnMappingType, FileUploadResponse } from "@shared/schema";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { FileUp, Loader2, CheckCircle2, Heart, Phone, MessageSquare, BarChart3 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import caliCatImage from "@/assets/cali-cat.png";
+import ColumnMapping, { type UploadPreview } from "@/components/ColumnMapping";
+import { Progress } from "@/components/ui/progress";
+import { useBatchProgress } from "@/hooks/use-batch-progress";
+
+const ALL_SHEETS = "__all__";
 
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<UploadPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMappingType | null>(null);
+  const [profileName, setProfileName] = useState("");
+  const [sheetChoice, setSheetChoice] = useState("");
+  const [uploadedBatchId, setUploadedBatchId] = useState<string | null>(null);
+  const { progress } = useBatchProgress(uploadedBatchId);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
@@ -20,14 +33,16 @@ export default function Home() {
       return await response.json() as FileUploadResponse;
     },
     onSuccess: (data) => {
+      const issues = data.data?.issues;
+      const issueSummary = issues && issues.errors + issues.warnings > 0
+        ? ` Found ${issues.errors} errors and ${issues.warnings} warnings in the file; see the batch's upload issues.`
+        : "";
       toast({
         title: "Success",
-        description: `File processed successfully! Redirecting to triage...`,
+        description: `File uploaded! Generating prompts for ${data.data?.queued ?? 0} patients...${issueSummary}`,
       });
-      // Redirect to triage page after successful upload
-      setTimeout(() => {
-        setLocation("/triage");
-      }, 1500);
+      // Follow generation progress; the redirect happens once the batch is finished
+      setUploadedBatchId(data.data?.batchId ?? null);
     },
     onError: (error) => {
       toast({
@@ -38,10 +53,67 @@ export default function Home() {
     }
   });
 
+  // Redirect to triage once every patient in the batch has been generated
+  useEffect(() => {
+    if (progress && progress.status !== "processing") {
+      const timer = setTimeout(() => setLocation("/triage"), 1500);
+      return () => clearTimeout(timer);
+    }
+  }, [progress?.status]);
+
+  const finished = progress ? progress.processed + progress.failed : 0;
+
+  // Read the headers and sample rows so the column mapping can be confirmed before import
+  const previewMutation = useMutation({
+    mutationFn: async ({ selected, sheet }: { selected: File; sheet?: string }) => {
+      const formData = new FormData();
+      formData.append('file', selected);
+      if (sheet) {
+        formData.append('sheet', sheet);
+      }
+      const response = await apiRequest('POST', '/api/upload/preview', null, { formData });
+      const result = await response.json();
+      return result.data as UploadPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setMapping(data.suggestedMapping);
+      setSheetChoice((current) => current || data.sheet);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Could not read file: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const clearFile = () => {
+    setFile(null);
+    setPreview(null);
+    setMapping(null);
+    setProfileName("");
+    setSheetChoice("");
+  };
+
+  // Importing every sheet previews the first one; all sheets are expected to share its columns
+  const handleSheetChange = (value: string) => {
+    setSheetChoice(value);
+    if (file && preview) {
+      previewMutation.mutate({ selected: file, sheet: value === ALL_SHEETS ? preview.sheets[0]?.name : value });
+    }
+  };
+
   // Handle file selection
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
+      const selected = e.target.files[0];
+      setFile(selected);
+      setPreview(null);
+      setMapping(null);
+      setSheetChoice("");
+      previewMutation.mutate({ selected });
     }
   };
 
@@ -56,8 +128,26 @@ export default function Home() {
       return;
     }
 
+    if (mapping && (!mapping.patientId || !mapping.name)) {
+      toast({
+        title: "Error",
+        description: "Choose the Patient ID and Name columns before uploading",
+        variant: "destructive"
+      });
+      return;
+    }
+
     const formData = new FormData();
     formData.append('file', file);
+    if (mapping) {
+      formData.append('mapping', JSON.stringify(mapping));
+    }
+    if (sheetChoice) {
+      formData.append('sheets', sheetChoice === ALL_SHEETS ? 'all' : JSON.stringify([sheetChoice]));
+    }
+    if (profileName.trim()) {
+      formData.append('saveProfileAs', profileName.trim());
+    }
     uploadMutation.mutate(formData);
   };
 
@@ -123,14 +213,14 @@ export default function Home() {
 
       <h2 className="text-2xl font-bold mb-4">Upload Patient Data</h2>
       <p className="text-gray-600 mb-6">
-        Upload an Excel file containing patient vitals and measurements to get started.
+        Upload an Excel, CSV or TSV file containing patient vitals and measurements to get started.
       </p>
 
-      <Card className="max-w-2xl mx-auto">
+      <Card className="max-w-3xl mx-auto">
         <CardHeader>
-          <CardTitle>Upload Excel File</CardTitle>
+          <CardTitle>Upload Patient File</CardTitle>
           <CardDescription>
-            Select a .xlsx file containing patient data
+            Select a .xlsx, .csv or .tsv file containing patient data
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -145,13 +235,13 @@ export default function Home() {
                   <p className="mb-2 text-sm text-gray-500">
                     <span className="font-semibold">Click to upload</span> or drag and drop
                   </p>
-                  <p className="text-xs text-gray-500">Excel (.xlsx) only</p>
+                  <p className="text-xs text-gray-500">Excel (.xlsx), CSV or TSV</p>
                 </div>
                 <input
                   id="file-upload"
                   type="file"
                   className="hidden"
-                  accept=".xlsx"
+                  accept=".xlsx,.csv,.tsv,.txt"
                   onChange={handleFileChange}
                 />
               </label>
@@ -166,17 +256,53 @@ export default function Home() {
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setFile(null)}
+                  onClick={clearFile}
                 >
                   Remove
                 </Button>
               </div>
             )}
 
+            {previewMutation.isPending && (
+              <div className="flex items-center justify-center p-4 text-sm text-gray-500">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reading columns...
+              </div>
+            )}
+
+            {preview && preview.sheets.length > 1 && (
+              <div className="space-y-1">
+                <Label>Sheet to import</Label>
+                <Select value={sheetChoice || preview.sheet} onValueChange={handleSheetChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {preview.sheets.map((sheet) => (
+                      <SelectItem key={sheet.name} value={sheet.name}>
+                        {sheet.name} ({sheet.rows} rows)
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={ALL_SHEETS}>All sheets into one batch</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {preview && mapping && (
+              <ColumnMapping
+                preview={preview}
+                mapping={mapping}
+                onMappingChange={setMapping}
+                profileName={profileName}
+                onProfileNameChange={setProfileName}
+              />
+            )}
+
             <div className="flex justify-end">
               <Button
                 onClick={handleUpload}
-                disabled={uploadMutation.isPending}
+                disabled={uploadMutation.isPending || previewMutation.isPending}
               >
                 {uploadMutation.isPending ? (
                   <>
@@ -204,10 +330,21 @@ export default function Home() {
                 <div>
                   <h3 className="text-lg font-semibold text-green-800">Upload Successful!</h3>
                   <p className="text-sm text-green-700">
-                    File processed successfully. Redirecting to triage...
+                    {progress && progress.status !== "processing"
+                      ? `Generated prompts for ${progress.processed} patients${progress.failed > 0 ? ` (${progress.failed} failed)` : ""}. Redirecting to triage...`
+                      : "Generating prompts in the background. You can leave this page; generation continues."}
                   </p>
                 </div>
               </div>
+              {progress && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-sm text-green-800">
+                    <span>Prompts generated</span>
+                    <span>{finished} of {progress.total}</span>
+                  </div>
+                  <Progress value={progress.total > 0 ? (finished / progress.total) * 100 : 0} />
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -0,0 +1,742 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, FileDown, Loader2, Pencil, Phone, User } from "lucide-react";
+import { patientLanguageNames, patientLanguages } from "@shared/schema";
+import type { AlertDispatch, CallHistory, CareTeamMember, MessageDelivery, Patient, PatientCallReport, PatientLanguage, PatientPrompt } from "@shared/schema";
+import SmsThread from "@/components/SmsThread";
+import CallExtractionTrends from "@/components/CallExtractionTrends";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface PatientDetailResponse {
+  patient: Patient;
+  prompts: (PatientPrompt & { fileName: string | null })[];
+  calls: CallHistory[];
+  alerts: AlertDispatch[];
+  callReports: PatientCallReport[];
+}
+
+interface VitalSummary {
+  variable: string;
+  unit: string | null;
+  count: number;
+  average: number;
+  minimum: number;
+  maximum: number;
+  latest: { value: number; recordedAt: string };
+  alertCount: number;
+}
+
+// Last 30 days of readings, summarised per variable
+function VitalsSummary({ patientId }: { patientId: string }) {
+  const { data, isLoading } = useQuery<{ from: string; to: string; summary: VitalSummary[] }>({
+    queryKey: ["/api/patient-registry", patientId, "vitals"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/patient-registry/${encodeURIComponent(patientId)}/vitals`);
+      const json = await res.json();
+      return json.data;
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          {new Date(data.from).toLocaleDateString()} - {new Date(data.to).toLocaleDateString()}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => window.open(`/api/patient-registry/${encodeURIComponent(patientId)}/vitals-report`, "_blank")}
+        >
+          <FileDown className="w-4 h-4 mr-2" />
+          PDF Report
+        </Button>
+      </div>
+      {data.summary.length === 0 ? (
+        <p className="text-sm text-gray-500">No readings recorded in the last 30 days.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variable</TableHead>
+              <TableHead>Readings</TableHead>
+              <TableHead>Average</TableHead>
+              <TableHead>Range</TableHead>
+              <TableHead>Latest</TableHead>
+              <TableHead>Alerts</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.summary.map((vital) => (
+              <TableRow key={vital.variable}>
+                <TableCell className="font-medium">{vital.variable}</TableCell>
+                <TableCell>{vital.count}</TableCell>
+                <TableCell>
+                  {vital.average} {vital.unit}
+                </TableCell>
+                <TableCell>
+                  {vital.minimum} - {vital.maximum}
+                </TableCell>
+                <TableCell>
+                  {vital.latest.value} {vital.unit}
+                  <span className="text-xs text-gray-500 block">{new Date(vital.latest.recordedAt).toLocaleString()}</span>
+                </TableCell>
+                <TableCell>{vital.alertCount > 0 ? <Badge variant="destructive">{vital.alertCount}</Badge> : 0}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+const ALERT_STATUS_STYLES: Record<string, string> = {
+  pending: "bg-gray-100 text-gray-700",
+  sent: "bg-blue-100 text-blue-800",
+  delivered: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const DELIVERY_STATUS_STYLES: Record<string, string> = {
+  ...ALERT_STATUS_STYLES,
+  scheduled: "bg-yellow-100 text-yellow-800",
+  sending: "bg-gray-100 text-gray-700",
+  skipped: "bg-gray-100 text-gray-500",
+};
+
+const SEVERITY_STYLES: Record<string, string> = {
+  red: "bg-red-100 text-red-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  green: "bg-green-100 text-green-800",
+};
+
+const CALL_REPORT_LABELS: Record<string, string> = {
+  vital: "Vital reading",
+  symptom: "Symptom",
+  callback: "Callback request",
+  medication: "Medication",
+};
+
+const CHANNEL_LABELS: Record<string, string> = {
+  sms: "SMS",
+  email: "Email",
+  none: "Do not message",
+};
+
+// Patient messages delivered by SMS or email, newest first
+function PatientDeliveries({ patientId }: { patientId: string }) {
+  const { data: deliveries = [], isLoading } = useQuery<MessageDelivery[]>({
+    queryKey: ["/api/patient-deliveries", patientId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/patient-deliveries?patientId=${encodeURIComponent(patientId)}`);
+      const json = await res.json();
+      return json.success ? json.data : [];
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-500">No messages have been sent to this patient.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Created</TableHead>
+          <TableHead>Channel</TableHead>
+          <TableHead>Recipient</TableHead>
+          <TableHead>Message</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map((delivery) => (
+          <TableRow key={delivery.id}>
+            <TableCell className="whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</TableCell>
+            <TableCell>
+              {CHANNEL_LABELS[delivery.channel] || delivery.channel}
+              {delivery.channel === "sms" && delivery.segmentCount > 1 && (
+                <span className="text-xs text-gray-500 block">{delivery.segmentCount} segments</span>
+              )}
+            </TableCell>
+            <TableCell>{delivery.recipient || "—"}</TableCell>
+            <TableCell className="text-sm max-w-md">
+              <span className="line-clamp-2">{delivery.body}</span>
+            </TableCell>
+            <TableCell>
+              <Badge
+                variant="outline"
+                className={`border-transparent ${DELIVERY_STATUS_STYLES[delivery.status] || "bg-gray-100 text-gray-700"}`}
+              >
+                {delivery.status}
+              </Badge>
+              {delivery.status === "scheduled" && delivery.scheduledFor && (
+                <span className="text-xs text-gray-500 block">{new Date(delivery.scheduledFor).toLocaleString()}</span>
+              )}
+              {delivery.failureReason && (
+                <span className="text-xs text-gray-500 block">{delivery.failureReason}</span>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Parse "Name, Role, +15551234567" lines into care team members
+function parseCareTeam(text: string): CareTeamMember[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [name, role, phone] = line.split(",").map((part) => part.trim());
+      return phone ? { name, role, phone } : { name, role };
+    });
+}
+
+function formatCareTeam(members: CareTeamMember[]): string {
+  return members.map((m) => [m.name, m.role, m.phone].filter(Boolean).join(", ")).join("\n");
+}
+
+export default function PatientDetail() {
+  const { patientId } = useParams();
+  const { toast } = useToast();
+  const [editOpen, setEditOpen] = useState(false);
+  const [form, setForm] = useState({
+    phoneNumber: "",
+    dateOfBirth: "",
+    preferredLanguage: "en",
+    timezone: "",
+    email: "",
+    preferredChannel: "sms",
+    quietHoursStart: "",
+    quietHoursEnd: "",
+    careTeam: "",
+    notes: "",
+  });
+
+  const { data, isLoading, error } = useQuery<PatientDetailResponse>({
+    queryKey: ["/api/patient-registry", patientId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/patient-registry/${encodeURIComponent(patientId || "")}`);
+      const json = await res.json();
+      return json.data;
+    },
+    enabled: !!patientId,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/patient-registry/${encodeURIComponent(patientId || "")}`, {
+        phoneNumber: form.phoneNumber.trim() || null,
+        dateOfBirth: form.dateOfBirth || null,
+        preferredLanguage: form.preferredLanguage,
+        timezone: form.timezone.trim() || null,
+        email: form.email.trim() || null,
+        preferredChannel: form.preferredChannel,
+        quietHoursStart: form.quietHoursStart || null,
+        quietHoursEnd: form.quietHoursEnd || null,
+        careTeam: parseCareTeam(form.careTeam),
+        notes: form.notes.trim() || null,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Patient updated", description: "Contact details have been saved." });
+      setEditOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/patient-registry"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update patient", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openEdit = () => {
+    if (!data) return;
+    const { patient } = data;
+    setForm({
+      phoneNumber: patient.phoneNumber || "",
+      dateOfBirth: patient.dateOfBirth || "",
+      // Older records may hold a code we no longer offer
+      preferredLanguage: patientLanguages.includes(patient.preferredLanguage as PatientLanguage) ? patient.preferredLanguage : "en",
+      timezone: patient.timezone || "",
+      email: patient.email || "",
+      preferredChannel: patient.preferredChannel,
+      quietHoursStart: patient.quietHoursStart || "",
+      quietHoursEnd: patient.quietHoursEnd || "",
+      careTeam: formatCareTeam(patient.careTeam),
+      notes: patient.notes || "",
+    });
+    setEditOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="space-y-4">
+        <Link href="/patients">
+          <span className="text-sm text-primary hover:underline cursor-pointer flex items-center">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back to patients
+          </span>
+        </Link>
+        <p className="text-red-500">Patient not found.</p>
+      </div>
+    );
+  }
+
+  const { patient, prompts, calls, alerts, callReports = [] } = data;
+
+  return (
+    <div className="space-y-6">
+      <Link href="/patients">
+        <span className="text-sm text-primary hover:underline cursor-pointer flex items-center">
+          <ArrowLeft className="w-4 h-4 mr-1" /> Back to patients
+        </span>
+      </Link>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <User className="w-5 h-5" />
+              {patient.name}
+            </CardTitle>
+            <CardDescription className="font-mono">{patient.patientId}</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={openEdit}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Date of Birth</dt>
+              <dd className="font-medium">{patient.dateOfBirth || "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Age</dt>
+              <dd className="font-medium">{patient.age ?? "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Phone</dt>
+              <dd className="font-medium">{patient.phoneNumber || "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Language / Timezone</dt>
+              <dd className="font-medium">
+                {patientLanguageNames[patient.preferredLanguage as PatientLanguage] || patient.preferredLanguage} · {patient.timezone || "Not set"}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Email</dt>
+              <dd className="font-medium">{patient.email || "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Messages By</dt>
+              <dd className="font-medium">{CHANNEL_LABELS[patient.preferredChannel] || patient.preferredChannel}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Quiet Hours</dt>
+              <dd className="font-medium">
+                {patient.quietHoursStart && patient.quietHoursEnd
+                  ? `${patient.quietHoursStart} - ${patient.quietHoursEnd}`
+                  : "Default (21:00 - 08:00)"}
+              </dd>
+            </div>
+            <div className="col-span-2 md:col-span-4">
+              <dt className="text-gray-500">Care Team</dt>
+              <dd>
+                {patient.careTeam.length === 0 ? (
+                  <span className="text-gray-400">No care team recorded</span>
+                ) : (
+                  <ul className="space-y-1 mt-1">
+                    {patient.careTeam.map((member, index) => (
+                      <li key={index}>
+                        <span className="font-medium">{member.name}</span>
+                        <span className="text-gray-500"> · {member.role}</span>
+                        {member.phone && <span className="text-gray-500"> · {member.phone}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </dd>
+            </div>
+            {patient.notes && (
+              <div className="col-span-2 md:col-span-4">
+                <dt className="text-gray-500">Notes</dt>
+                <dd className="whitespace-pre-wrap">{patient.notes}</dd>
+              </div>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="prompts">
+        <TabsList>
+          <TabsTrigger value="prompts">Prompts ({prompts.length})</TabsTrigger>
+          <TabsTrigger value="vitals">Vitals</TabsTrigger>
+          <TabsTrigger value="calls">Calls ({calls.length})</TabsTrigger>
+          <TabsTrigger value="alerts">Alerts ({alerts.length})</TabsTrigger>
+          <TabsTrigger value="messages">Patient Messages</TabsTrigger>
+          <TabsTrigger value="sms">SMS</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="prompts">
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              {prompts.length === 0 ? (
+                <p className="text-sm text-gray-500">No prompts generated for this patient.</p>
+              ) : (
+                prompts.map((prompt) => (
+                  <div key={prompt.id} className="border rounded-md p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="text-sm">
+                        <Link href={`/patient-prompts/${prompt.batchId}`}>
+                          <span className="text-primary hover:underline cursor-pointer font-medium">
+                            {prompt.fileName || prompt.batchId}
+                          </span>
+                        </Link>
+                        <span className="text-gray-500"> · {prompt.createdAt ? new Date(prompt.createdAt).toLocaleString() : ""}</span>
+                      </div>
+                      <Badge variant={prompt.isAlert === "true" ? "destructive" : "secondary"}>
+                        {prompt.isAlert === "true" ? "Alert" : "Healthy"}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-600 mb-2">{prompt.condition}</p>
+                    <p className="text-sm whitespace-pre-wrap line-clamp-4">{prompt.prompt}</p>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="vitals">
+          <Card>
+            <CardContent className="pt-6">
+              <VitalsSummary patientId={patient.patientId} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="calls">
+          <Card>
+            <CardContent className="pt-6">
+              {calls.length === 0 ? (
+                <p className="text-sm text-gray-500">No calls with this patient yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Summary</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {calls.map((call) => (
+                      <TableRow key={call.id}>
+                        <TableCell className="whitespace-nowrap">
+                          <Phone className="w-3 h-3 inline mr-1 text-gray-400" />
+                          {new Date(call.callDate).toLocaleString()}
+                        </TableCell>
+                        <TableCell>{call.status}</TableCell>
+                        <TableCell>{call.duration ? `${Math.round(call.duration / 60)} min` : "—"}</TableCell>
+                        <TableCell className="text-sm max-w-md">{call.summary || "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <CallExtractionTrends patientId={patient.patientId} />
+
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="text-base">Reported on Calls</CardTitle>
+              <CardDescription>Readings, symptoms, callback requests and medications the patient told the voice assistant.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {callReports.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing reported on calls yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reported</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead>Severity</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {callReports.map((report) => (
+                      <TableRow key={report.id}>
+                        <TableCell className="whitespace-nowrap">{new Date(report.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>{CALL_REPORT_LABELS[report.type] || report.type}</TableCell>
+                        <TableCell className="text-sm max-w-md">
+                          {report.summary}
+                          {report.alertReasons?.map((reason) => (
+                            <span key={reason} className="text-xs text-gray-500 block">{reason}</span>
+                          ))}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={`border-transparent ${SEVERITY_STYLES[report.severity] || "bg-gray-100 text-gray-700"}`}
+                          >
+                            {report.severity}
+                          </Badge>
+                          {report.escalationId && <span className="text-xs text-gray-500 block">Escalated</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="alerts">
+          <Card>
+            <CardContent className="pt-6">
+              {alerts.length === 0 ? (
+                <p className="text-sm text-gray-500">No alerts have been sent for this patient.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sent</TableHead>
+                      <TableHead>Severity</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {alerts.map((alert) => (
+                      <TableRow key={alert.id}>
+                        <TableCell className="whitespace-nowrap">{new Date(alert.createdAt).toLocaleString()}</TableCell>
+                        <TableCell className="capitalize">{alert.severity || "—"}</TableCell>
+                        <TableCell>{alert.recipient}</TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={`border-transparent ${ALERT_STATUS_STYLES[alert.status] || "bg-gray-100 text-gray-700"}`}
+                          >
+                            {alert.status}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="messages">
+          <Card>
+            <CardContent className="pt-6">
+              <PatientDeliveries patientId={patient.patientId} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="sms">
+          <Card>
+            <CardContent className="pt-6">
+              <SmsThread patientId={patient.patientId} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit {patient.name}</DialogTitle>
+            <DialogDescription>
+              These details are kept across uploads. Uploads only replace a phone number or date of birth when the file includes one.
+              Messages aren't sent during quiet hours (21:00 - 08:00 in the patient's timezone unless set).
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="patient-phone">Phone</Label>
+                <Input
+                  id="patient-phone"
+                  placeholder="+15551234567"
+                  value={form.phoneNumber}
+                  onChange={(e) => setForm({ ...form, phoneNumber: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="patient-dob">Date of Birth</Label>
+                <Input
+                  id="patient-dob"
+                  type="date"
+                  value={form.dateOfBirth}
+                  onChange={(e) => setForm({ ...form, dateOfBirth: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="patient-language">Preferred Language</Label>
+                <Select value={form.preferredLanguage} onValueChange={(value) => setForm({ ...form, preferredLanguage: value })}>
+                  <SelectTrigger id="patient-language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {patientLanguages.map((language) => (
+                      <SelectItem key={language} value={language}>
+                        {patientLanguageNames[language]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="patient-timezone">Timezone</Label>
+                <Input
+                  id="patient-timezone"
+                  placeholder="America/New_York"
+                  value={form.timezone}
+                  onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="patient-email">Email</Label>
+                <Input
+                  id="patient-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="patient-channel">Send Messages By</Label>
+                <Select value={form.preferredChannel} onValueChange={(value) => setForm({ ...form, preferredChannel: value })}>
+                  <SelectTrigger id="patient-channel">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="patient-quiet-start">Quiet Hours From</Label>
+                <Input
+                  id="patient-quiet-start"
+                  type="time"
+                  value={form.quietHoursStart}
+                  onChange={(e) => setForm({ ...form, quietHoursStart: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="patient-quiet-end">Quiet Hours Until</Label>
+                <Input
+                  id="patient-quiet-end"
+                  type="time"
+                  value={form.quietHoursEnd}
+                  onChange={(e) => setForm({ ...form, quietHoursEnd: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="patient-care-team">Care Team</Label>
+              <Textarea
+                id="patient-care-team"
+                rows={4}
+                placeholder={"Dr. Jane Smith, Primary care physician, +15551234567\nMary Jones, Daughter"}
+                value={form.careTeam}
+                onChange={(e) => setForm({ ...form, careTeam: e.target.value })}
+              />
+              <p className="text-xs text-gray-500">One member per line: name, role, optional phone.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="patient-notes">Notes</Label>
+              <Textarea
+                id="patient-notes"
+                rows={3}
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => updateMutation.mutate()} disabled={updateMutation.isPending}>
+              {updateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
 import ResultsSection from "@/components/ResultsSection";
+import UploadIssuesPanel from "@/components/UploadIssuesPanel";
+import MessageReviewQueue from "@/components/MessageReviewQueue";
 import PromptModal from "@/components/PromptModal";
 import { useParams, useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
@@ -8,6 +10,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { PatientPrompt } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
+import { useBatchProgress } from "@/hooks/use-batch-progress";
 
 export default function PatientPrompts() {
   const { id } = useParams();
@@ -26,6 +29,16 @@ export default function PatientPrompts() {
     enabled: !!id,
   });
 
+  // Prompts appear as the generation queue works through the batch
+  const { progress } = useBatchProgress(id);
+  useEffect(() => {
+    if (progress) {
+      queryClient.invalidateQueries({ queryKey: [`/api/patient-prompts/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/batches/${id}/issues`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/message-reviews", id] });
+    }
+  }, [progress?.failed, progress?.processed, progress?.status]);
+
   useEffect(() => {
     if (patientPrompts && patientPrompts.length > 0) {
       filterPrompts();
@@ -124,6 +137,28 @@ export default function PatientPrompts() {
     }
   });
 
+  const sendToPatientsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/patient-deliveries/batch/${id}`);
+      return response.json();
+    },
+    onSuccess: (body) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patient-deliveries"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/patient-prompts/${id}`] });
+      toast({
+        title: "Patient messages",
+        description: body.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to send patient messages: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
   const handleViewPrompt = (patient: PatientPrompt) => {
     setCurrentPatient(patient);
     setIsModalOpen(true);
@@ -141,6 +176,10 @@ export default function PatientPrompts() {
     exportCSVMutation.mutate();
   };
 
+  const handleSendToPatients = () => {
+    sendToPatientsMutation.mutate();
+  };
+
   const handleCopyPrompt = (prompt: string) => {
     navigator.clipboard.writeText(prompt);
     toast({
@@ -182,10 +221,16 @@ export default function PatientPrompts() {
         onRegeneratePrompt={handleRegeneratePrompt}
         onRegenerateAll={handleRegenerateAll}
         onExportCSV={handleExportCSV}
+        onSendToPatients={handleSendToPatients}
         onCopyPrompt={handleCopyPrompt}
-        isPending={regenerateAllMutation.isPending || regenerateSingleMutation.isPending || exportCSVMutation.isPending}
+        isPending={regenerateAllMutation.isPending || regenerateSingleMutation.isPending || exportCSVMutation.isPending || sendToPatientsMutation.isPending}
+        progress={progress}
       />
 
+      {id && <MessageReviewQueue batchId={id} />}
+
+      {id && <UploadIssuesPanel batchId={id} />}
+
       {isModalOpen && currentPatient && (
         <PromptModal
           patient={currentPatient}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import MergeReviewQueue from "@/components/MergeReviewQueue";
+import { Loader2, Search, Users } from "lucide-react";
+import type { Patient } from "@shared/schema";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+export default function Patients() {
+  const [search, setSearch] = useState("");
+
+  const { data: patients, isLoading } = useQuery<Patient[]>({
+    queryKey: ["/api/patient-registry", search],
+    queryFn: async () => {
+      const params = search.trim() ? `?search=${encodeURIComponent(search.trim())}` : "";
+      const res = await apiRequest("GET", `/api/patient-registry${params}`);
+      const data = await res.json();
+      return data.success ? data.data : [];
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Patients</h1>
+        <p className="text-gray-600 mt-1">
+          Every patient seen in any upload, with their history across batches and calls.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Patient Registry
+          </CardTitle>
+          <CardDescription>Select a patient to see their prompts, calls and alerts.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              className="pl-9"
+              placeholder="Search by name or patient ID"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !patients || patients.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Users className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+              {search ? "No patients match your search." : "No patients yet. Upload a file to get started."}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Patient ID</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Date of Birth</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Last Updated</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {patients.map((patient) => (
+                  <TableRow key={patient.id}>
+                    <TableCell className="font-mono text-sm">{patient.patientId}</TableCell>
+                    <TableCell>
+                      <Link href={`/patients/${encodeURIComponent(patient.patientId)}`}>
+                        <span className="text-primary hover:underline cursor-pointer font-medium">{patient.name}</span>
+                      </Link>
+                    </TableCell>
+                    <TableCell>{patient.dateOfBirth || "—"}</TableCell>
+                    <TableCell>{patient.phoneNumber || "—"}</TableCell>
+                    <TableCell className="uppercase text-sm">{patient.preferredLanguage}</TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {new Date(patient.updatedAt).toLocaleDateString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <MergeReviewQueue />
+    </div>
+  );
+}
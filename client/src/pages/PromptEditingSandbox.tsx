@@ -26,10 +26,14 @@ import {
   Phone,
   Volume2,
   BarChart3,
+  FlaskConical,
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import PromptVersionHistory from "@/components/PromptVersionHistory";
+import PromptExperiments from "@/components/PromptExperiments";
+import type { PromptKind } from "@shared/schema";
 
 // Hardcoded initial default prompt (copied from server/lib/openai.ts)
 const INITIAL_DEFAULT_SYSTEM_PROMPT = `You are a healthcare assistant that generates personalized patient care prompts using structured input data similar to our Demo Data. Each patient's name field includes their full name and date of birth (e.g., "John Doe (MM/DD/YYYY)"). Use the Date and Time Stamp to calculate the patient's age (ignore time of day). There is no separate age column. Your task is to:
@@ -63,8 +67,24 @@ export default function PromptEditingSandbox() {
     model: "gpt-4.1",
   });
   const [testPhoneNumber, setTestPhoneNumber] = useState("");
+  // Optional note saved with the next version of each prompt
+  const [changeNotes, setChangeNotes] = useState<Record<PromptKind, string>>({
+    caregiverSystem: "",
+    patientSystem: "",
+    trendReport: "",
+    voiceAgent: "",
+  });
   const { toast } = useToast();
 
+  const setChangeNote = (kind: PromptKind, note: string) =>
+    setChangeNotes((prev) => ({ ...prev, [kind]: note }));
+
+  // Clear the note and refresh the history once a new version is saved
+  const onPromptVersionSaved = (kind: PromptKind) => {
+    setChangeNote(kind, "");
+    queryClient.invalidateQueries({ queryKey: ["/api/prompt-versions", kind] });
+  };
+
   // Default patient prompt
   const INITIAL_DEFAULT_PATIENT_PROMPT = `You are generating a personalized health message directly for a patient. This message should be warm, reassuring, and easy to understand for the patient themselves.
 
@@ -203,10 +223,14 @@ Condition: \${patient.condition}
   // Update system prompt mutation (still needed for saving)
   const updateSystemPromptMutation = useMutation({
     mutationFn: async (prompt: string) => {
-      const res = await apiRequest("POST", "/api/system-prompt", { prompt });
+      const res = await apiRequest("POST", "/api/system-prompt", {
+        prompt,
+        changeNote: changeNotes.caregiverSystem,
+      });
       return await res.json();
     },
     onSuccess: () => {
+      onPromptVersionSaved("caregiverSystem");
       toast({
         title: "Success",
         description:
@@ -226,10 +250,14 @@ Condition: \${patient.condition}
   // Update patient system prompt mutation
   const updatePatientPromptMutation = useMutation({
     mutationFn: async (prompt: string) => {
-      const res = await apiRequest("POST", "/api/patient-system-prompt", { prompt });
+      const res = await apiRequest("POST", "/api/patient-system-prompt", {
+        prompt,
+        changeNote: changeNotes.patientSystem,
+      });
       return await res.json();
     },
     onSuccess: () => {
+      onPromptVersionSaved("patientSystem");
       toast({
         title: "Success",
         description:
@@ -249,10 +277,14 @@ Condition: \${patient.condition}
   // Update trend report prompt mutation
   const updateTrendReportPromptMutation = useMutation({
     mutationFn: async (prompt: string) => {
-      const res = await apiRequest("POST", "/api/trend-report-prompt", { prompt });
+      const res = await apiRequest("POST", "/api/trend-report-prompt", {
+        prompt,
+        changeNote: changeNotes.trendReport,
+      });
       return await res.json();
     },
     onSuccess: () => {
+      onPromptVersionSaved("trendReport");
       toast({
         title: "Success",
         description: "Trend report prompt updated successfully!",
@@ -280,10 +312,14 @@ Condition: \${patient.condition}
   // Update Voice Agent Template mutation (saves to database for call usage)
   const updateVoiceAgentTemplateMutation = useMutation({
     mutationFn: async (template: string) => {
-      const res = await apiRequest("POST", "/api/voice-agent-template", { template });
+      const res = await apiRequest("POST", "/api/voice-agent-template", {
+        template,
+        changeNote: changeNotes.voiceAgent,
+      });
       return await res.json();
     },
     onSuccess: () => {
+      onPromptVersionSaved("voiceAgent");
       queryClient.invalidateQueries({ queryKey: ["/api/voice-agent-template"] });
     },
     onError: (error: Error) => {
@@ -644,7 +680,7 @@ IMPORTANT: You have access to their latest health data and personalized care rec
       </div>
 
       <Tabs defaultValue="triage" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="triage" className="flex items-center gap-2">
             <BarChart3 className="w-4 h-4" />
             Triage Prompts
@@ -657,6 +693,10 @@ IMPORTANT: You have access to their latest health data and personalized care rec
             <BarChart3 className="w-4 h-4" />
             Trend Reports
           </TabsTrigger>
+          <TabsTrigger value="experiments" className="flex items-center gap-2">
+            <FlaskConical className="w-4 h-4" />
+            Experiments
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="triage">
@@ -679,6 +719,14 @@ IMPORTANT: You have access to their latest health data and personalized care rec
                 />
               </div>
 
+              <Input
+                aria-label="Change note"
+                placeholder="Change note (optional), e.g. why this edit was made"
+                value={changeNotes.caregiverSystem}
+                onChange={(e) => setChangeNote("caregiverSystem", e.target.value)}
+                disabled={isPromptLoading}
+              />
+
               <div className="flex gap-2">
                 <Button
                   onClick={handleSaveSystemPrompt}
@@ -722,6 +770,12 @@ IMPORTANT: You have access to their latest health data and personalized care rec
                   </AlertDescription>
                 </Alert>
               )}
+
+              <PromptVersionHistory
+                kind="caregiverSystem"
+                currentText={corePrompt}
+                promptQueryKey="/api/system-prompt"
+              />
             </CardContent>
           </Card>
 
@@ -743,6 +797,14 @@ IMPORTANT: You have access to their latest health data and personalized care rec
                 />
               </div>
 
+              <Input
+                aria-label="Change note"
+                placeholder="Change note (optional), e.g. why this edit was made"
+                value={changeNotes.patientSystem}
+                onChange={(e) => setChangeNote("patientSystem", e.target.value)}
+                disabled={isPatientPromptLoading}
+              />
+
               <div className="flex gap-2">
                 <Button
                   onClick={handleSavePatientPrompt}
@@ -771,6 +833,12 @@ IMPORTANT: You have access to their latest health data and personalized care rec
                   </AlertDescription>
                 </Alert>
               )}
+
+              <PromptVersionHistory
+                kind="patientSystem"
+                currentText={patientPrompt}
+                promptQueryKey="/api/patient-system-prompt"
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -1104,6 +1172,13 @@ IMPORTANT: You have access to their latest health data and personalized care rec
                 </p>
               </div>
 
+              <Input
+                placeholder="Change note for the system prompt (optional)"
+                value={changeNotes.voiceAgent}
+                onChange={(e) => setChangeNote("voiceAgent", e.target.value)}
+                disabled={isVapiLoading}
+              />
+
               {/* Action Buttons */}
               <div className="flex gap-2 flex-wrap">
                 <Button
@@ -1144,6 +1219,12 @@ IMPORTANT: You have access to their latest health data and personalized care rec
                   </AlertDescription>
                 </Alert>
               )}
+
+              <PromptVersionHistory
+                kind="voiceAgent"
+                currentText={vapiConfig.systemPrompt}
+                promptQueryKey="/api/voice-agent-template"
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -1167,6 +1248,14 @@ IMPORTANT: You have access to their latest health data and personalized care rec
                 />
               </div>
 
+              <Input
+                aria-label="Change note"
+                placeholder="Change note (optional), e.g. why this edit was made"
+                value={changeNotes.trendReport}
+                onChange={(e) => setChangeNote("trendReport", e.target.value)}
+                disabled={isTrendPromptLoading}
+              />
+
               <div className="flex gap-2">
                 <Button
                   onClick={handleSaveTrendReportPrompt}
@@ -1195,6 +1284,12 @@ IMPORTANT: You have access to their latest health data and personalized care rec
                 </Alert>
               )}
 
+              <PromptVersionHistory
+                kind="trendReport"
+                currentText={trendReportPrompt}
+                promptQueryKey="/api/trend-report-prompt"
+              />
+
               <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
                 <h4 className="font-semibold text-blue-900 mb-2">Trend Report Template Variables</h4>
                 <div className="text-sm text-blue-800 space-y-1">
@@ -1208,6 +1303,10 @@ IMPORTANT: You have access to their latest health data and personalized care rec
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="experiments">
+          <PromptExperiments />
+        </TabsContent>
       </Tabs>
     </div>
   );
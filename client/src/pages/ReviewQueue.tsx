@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import PromptReviewDialog, { REVIEW_STATUS_LABELS } from "@/components/PromptReviewDialog";
+import { CheckCheck, ClipboardCheck, Loader2 } from "lucide-react";
+import type { PatientBatch, PatientPrompt } from "@shared/schema";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type QueuedPrompt = PatientPrompt & { reviewerName: string | null };
+
+const ALL = "all";
+const UNASSIGNED = "unassigned";
+
+export default function ReviewQueue() {
+  const { toast } = useToast();
+  const [batchId, setBatchId] = useState(ALL);
+  const [status, setStatus] = useState(ALL);
+  const [mineOnly, setMineOnly] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [bulkComment, setBulkComment] = useState("");
+  const [openPromptId, setOpenPromptId] = useState<number | null>(null);
+
+  const { data: batches = [] } = useQuery<PatientBatch[]>({
+    queryKey: ["/api/batches"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/batches");
+      const body = await res.json();
+      return body.success ? body.data : [];
+    },
+  });
+
+  const { data: reviewers = [] } = useQuery<{ id: number; username: string }[]>({
+    queryKey: ["/api/prompt-reviews/reviewers"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/prompt-reviews/reviewers");
+      const body = await res.json();
+      return body.success ? body.data : [];
+    },
+  });
+
+  const { data: queue = [], isLoading } = useQuery<QueuedPrompt[]>({
+    queryKey: ["/api/prompt-reviews", "queue", batchId, status, mineOnly],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (batchId !== ALL) params.set("batchId", batchId);
+      if (status !== ALL) params.set("status", status);
+      if (mineOnly) params.set("reviewerId", "me");
+      const res = await apiRequest("GET", `/api/prompt-reviews?${params.toString()}`);
+      const body = await res.json();
+      return body.success ? body.data : [];
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/prompt-reviews"] });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ id, reviewerId }: { id: number; reviewerId: number | null }) => {
+      const res = await apiRequest("POST", `/api/prompt-reviews/${id}/assign`, { reviewerId });
+      return await res.json();
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Failed to assign reviewer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const bulkApproveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/prompt-reviews/bulk-approve", {
+        ids: Array.from(selected),
+        comment: bulkComment.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (body) => {
+      toast({ title: body.message });
+      setSelected(new Set());
+      setBulkComment("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to approve messages", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (id: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+
+  const allSelected = queue.length > 0 && queue.every((prompt) => selected.has(prompt.id));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Review Queue</h1>
+        <p className="text-gray-600 mt-1">
+          Generated messages waiting for review. Assign reviewers, edit messages and approve them individually or in bulk.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5" />
+            Messages to Review
+          </CardTitle>
+          <CardDescription>{queue.length} messages in draft or in review</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Batch</Label>
+              <Select value={batchId} onValueChange={(value) => { setBatchId(value); setSelected(new Set()); }}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All batches</SelectItem>
+                  {batches.map((batch) => (
+                    <SelectItem key={batch.batchId} value={batch.batchId}>
+                      {batch.fileName} ({batch.batchId})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => { setStatus(value); setSelected(new Set()); }}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Draft and in review</SelectItem>
+                  <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="in_review">In review</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="mine-only" checked={mineOnly} onCheckedChange={setMineOnly} />
+              <Label htmlFor="mine-only">Assigned to me</Label>
+            </div>
+          </div>
+
+          {selected.size > 0 && (
+            <div className="flex flex-wrap items-center gap-2 border rounded-md bg-gray-50 p-3">
+              <span className="text-sm font-medium">{selected.size} selected</span>
+              <Input
+                className="max-w-md"
+                placeholder="Approval comment (optional)"
+                value={bulkComment}
+                onChange={(e) => setBulkComment(e.target.value)}
+              />
+              <Button onClick={() => bulkApproveMutation.mutate()} disabled={bulkApproveMutation.isPending}>
+                {bulkApproveMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <CheckCheck className="mr-2 h-4 w-4" />
+                )}
+                Approve Selected
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : queue.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <ClipboardCheck className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+              Nothing waiting for review.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      aria-label="Select all"
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked ? new Set(queue.map((prompt) => prompt.id)) : new Set())
+                      }
+                    />
+                  </TableHead>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Reviewer</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map((prompt) => (
+                  <TableRow key={prompt.id}>
+                    <TableCell>
+                      <Checkbox
+                        aria-label={`Select ${prompt.name}`}
+                        checked={selected.has(prompt.id)}
+                        onCheckedChange={(checked) => toggle(prompt.id, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{prompt.name}</div>
+                      <div className="text-xs text-gray-500 font-mono">{prompt.patientId}</div>
+                    </TableCell>
+                    <TableCell className="text-sm font-mono">{prompt.batchId}</TableCell>
+                    <TableCell className="space-x-1">
+                      <Badge variant="secondary">{REVIEW_STATUS_LABELS[prompt.reviewStatus] || prompt.reviewStatus}</Badge>
+                      {(prompt.originalPrompt !== null || prompt.originalPatientMessage !== null) && (
+                        <Badge variant="outline">Edited</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={prompt.reviewerId ? String(prompt.reviewerId) : UNASSIGNED}
+                        onValueChange={(value) =>
+                          assignMutation.mutate({ id: prompt.id, reviewerId: value === UNASSIGNED ? null : parseInt(value) })
+                        }
+                      >
+                        <SelectTrigger className="w-40 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {reviewers.map((reviewer) => (
+                            <SelectItem key={reviewer.id} value={String(reviewer.id)}>
+                              {reviewer.username}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => setOpenPromptId(prompt.id)}>
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PromptReviewDialog promptId={openPromptId} onClose={() => setOpenPromptId(null)} />
+    </div>
+  );
+}
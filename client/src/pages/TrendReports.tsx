@@ -3,11 +3,13 @@ import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { 
   BarChart3, 
   Loader2, 
   Activity,
-  Sparkles
+  Sparkles,
+  FileDown
 } from "lucide-react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -26,6 +28,11 @@ interface Patient extends PatientData {
 export default function TrendReports() {
   const [selectedPatientId, setSelectedPatientId] = useState<string>("");
   const [generatedReport, setGeneratedReport] = useState<string>("");
+  // Report period, defaulting to the last 30 days
+  const [fromDate, setFromDate] = useState<string>(() =>
+    new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+  const [toDate, setToDate] = useState<string>(() => new Date().toISOString().slice(0, 10));
   const { toast } = useToast();
   
   // Query to get the latest batch
@@ -130,7 +137,7 @@ export default function TrendReports() {
   // Mutation to generate AI-powered trend report
   const generateTrendReportMutation = useMutation({
     mutationFn: async (patientId: string) => {
-      const res = await apiRequest("POST", "/api/generate-trend-report", { patientId });
+      const res = await apiRequest("POST", "/api/generate-trend-report", { patientId, from: fromDate, to: toDate });
       return await res.json();
     },
     onSuccess: (data: any) => {
@@ -227,6 +234,17 @@ export default function TrendReports() {
               </Select>
             </div>
 
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">From</label>
+                <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">To</label>
+                <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+            </div>
+
             <div className="flex gap-2">
               <Button 
                 onClick={handleGenerateReport}
@@ -246,6 +264,20 @@ export default function TrendReports() {
                 )}
               </Button>
               
+              <Button
+                variant="outline"
+                disabled={!selectedPatientId}
+                onClick={() =>
+                  window.open(
+                    `/api/patient-registry/${encodeURIComponent(selectedPatientId)}/vitals-report?from=${fromDate}&to=${toDate}`,
+                    "_blank"
+                  )
+                }
+              >
+                <FileDown className="h-4 w-4 mr-2" />
+                PDF
+              </Button>
+              
               {generatedReport && (
                 <Button 
                   onClick={handleClearReport}
@@ -23,6 +23,12 @@ import {
   AlertDescription,
   AlertTitle,
 } from "@/components/ui/alert";
+import TriageRulesSettings from "@/components/TriageRulesSettings";
+import ImportProfilesSettings from "@/components/ImportProfilesSettings";
+import LlmSettings from "@/components/LlmSettings";
+import TokenUsageSettings from "@/components/TokenUsageSettings";
+import MessageApprovalSettings from "@/components/MessageApprovalSettings";
+import VapiWebhookEvents from "@/components/VapiWebhookEvents";
 
 const SettingsPage: React.FC = () => {
   const { toast } = useToast();
@@ -377,6 +383,18 @@ const SettingsPage: React.FC = () => {
           </CardContent>
         </Card>
       </div>
+
+      <LlmSettings />
+
+      <TokenUsageSettings />
+
+      <MessageApprovalSettings />
+
+      <TriageRulesSettings />
+
+      <ImportProfilesSettings />
+
+      <VapiWebhookEvents />
     </div>
   );
 };
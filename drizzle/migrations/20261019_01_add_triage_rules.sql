@@ -0,0 +1,35 @@
+-- Add triage_rules table for configurable clinical thresholds
+CREATE TABLE IF NOT EXISTS triage_rules (
+  id SERIAL PRIMARY KEY,
+  variable TEXT NOT NULL,
+  label TEXT,
+  condition TEXT,
+  min_age INTEGER,
+  max_age INTEGER,
+  unit TEXT,
+  operator TEXT NOT NULL,
+  threshold DOUBLE PRECISION NOT NULL,
+  threshold_high DOUBLE PRECISION,
+  severity TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Seed with the thresholds that were previously hard-coded
+INSERT INTO triage_rules (variable, label, unit, operator, threshold, threshold_high, severity)
+SELECT * FROM (VALUES
+  ('glucose', 'Glucose', 'mg/dL', '>', 300, NULL, 'red'),
+  ('blood pressure', 'Blood Pressure', 'mmHg', '>', 180, NULL, 'red'),
+  ('heart rate', 'Heart Rate', 'bpm', 'outside', 40, 150, 'red'),
+  ('temperature', 'Temperature', '°F', '>', 103, NULL, 'red'),
+  ('oxygen', 'SpO2', '%', '<', 85, NULL, 'red'),
+  ('glucose', 'Glucose', 'mg/dL', 'outside', 70, 180, 'yellow'),
+  ('blood pressure', 'Blood Pressure', 'mmHg', 'outside', 90, 140, 'yellow'),
+  ('heart rate', 'Heart Rate', 'bpm', 'outside', 50, 100, 'yellow'),
+  ('temperature', 'Temperature', '°F', 'outside', 97, 99.5, 'yellow'),
+  ('oxygen', 'SpO2', '%', '<', 92, NULL, 'yellow')
+) AS defaults(variable, label, unit, operator, threshold, threshold_high, severity)
+WHERE NOT EXISTS (SELECT 1 FROM triage_rules);
+
+CREATE INDEX IF NOT EXISTS idx_triage_rules_variable ON triage_rules(variable);
@@ -0,0 +1,21 @@
+-- Add alert_dispatches table to record every SMS alert send attempt
+CREATE TABLE IF NOT EXISTS alert_dispatches (
+  id SERIAL PRIMARY KEY,
+  alert_id TEXT NOT NULL,
+  batch_id TEXT,
+  patient_id TEXT NOT NULL,
+  patient_name TEXT,
+  severity TEXT,
+  recipient TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  twilio_sid TEXT,
+  failure_reason TEXT,
+  sent_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_dispatches_alert_id ON alert_dispatches(alert_id);
+CREATE INDEX IF NOT EXISTS idx_alert_dispatches_batch_id ON alert_dispatches(batch_id);
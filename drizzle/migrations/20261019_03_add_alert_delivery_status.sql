@@ -0,0 +1,6 @@
+-- Track Twilio delivery status callbacks on alert dispatches
+ALTER TABLE alert_dispatches ADD COLUMN IF NOT EXISTS delivery_status TEXT;
+ALTER TABLE alert_dispatches ADD COLUMN IF NOT EXISTS error_code TEXT;
+ALTER TABLE alert_dispatches ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_alert_dispatches_twilio_sid ON alert_dispatches(twilio_sid);
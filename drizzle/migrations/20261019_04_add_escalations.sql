@@ -0,0 +1,65 @@
+-- Add on-call rotations, escalation policies and escalation tracking tables
+CREATE TABLE IF NOT EXISTS on_call_rotations (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL,
+  members JSONB NOT NULL,
+  shift_hours INTEGER NOT NULL DEFAULT 168,
+  starts_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  id SERIAL PRIMARY KEY,
+  severity TEXT NOT NULL UNIQUE,
+  mode TEXT NOT NULL,
+  steps TEXT[] NOT NULL,
+  ack_timeout_minutes INTEGER NOT NULL DEFAULT 15,
+  digest_interval_minutes INTEGER NOT NULL DEFAULT 60,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Red alerts page primary -> secondary -> care manager; yellow alerts go out as an hourly digest
+INSERT INTO escalation_policies (severity, mode, steps, ack_timeout_minutes, digest_interval_minutes)
+VALUES
+  ('red', 'escalate', ARRAY['primary', 'secondary', 'care_manager'], 15, 60),
+  ('yellow', 'digest', ARRAY['primary'], 15, 60)
+ON CONFLICT (severity) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS alert_escalations (
+  id SERIAL PRIMARY KEY,
+  alert_id TEXT NOT NULL,
+  batch_id TEXT,
+  patient_id TEXT NOT NULL,
+  patient_name TEXT,
+  severity TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  status TEXT NOT NULL,
+  current_step INTEGER NOT NULL DEFAULT 0,
+  ack_code TEXT,
+  next_action_at TIMESTAMP,
+  acknowledged_at TIMESTAMP,
+  acknowledged_by TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_escalations_alert_id ON alert_escalations(alert_id);
+CREATE INDEX IF NOT EXISTS idx_alert_escalations_due ON alert_escalations(status, next_action_at);
+
+CREATE TABLE IF NOT EXISTS escalation_events (
+  id SERIAL PRIMARY KEY,
+  escalation_id INTEGER NOT NULL REFERENCES alert_escalations(id),
+  type TEXT NOT NULL,
+  step INTEGER,
+  role TEXT,
+  recipient TEXT,
+  dispatch_id INTEGER REFERENCES alert_dispatches(id),
+  message TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalation_events_escalation_id ON escalation_events(escalation_id);
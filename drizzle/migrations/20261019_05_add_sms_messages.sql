@@ -0,0 +1,21 @@
+-- Add sms_messages table for outbound and inbound SMS conversation threads
+CREATE TABLE IF NOT EXISTS sms_messages (
+  id SERIAL PRIMARY KEY,
+  direction TEXT NOT NULL,
+  from_number TEXT NOT NULL,
+  to_number TEXT NOT NULL,
+  body TEXT NOT NULL,
+  twilio_sid TEXT,
+  sender_type TEXT NOT NULL,
+  intent TEXT,
+  patient_id TEXT,
+  patient_name TEXT,
+  alert_id TEXT,
+  escalation_id INTEGER REFERENCES alert_escalations(id),
+  dispatch_id INTEGER REFERENCES alert_dispatches(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_patient_id ON sms_messages(patient_id);
+CREATE INDEX IF NOT EXISTS idx_sms_messages_from_number ON sms_messages(from_number);
+CREATE INDEX IF NOT EXISTS idx_sms_messages_to_number ON sms_messages(to_number);
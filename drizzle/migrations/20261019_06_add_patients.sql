@@ -0,0 +1,56 @@
+-- Add longitudinal patients registry and link prompts, calls and alerts to it
+CREATE TABLE IF NOT EXISTS patients (
+  id SERIAL PRIMARY KEY,
+  patient_id TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  date_of_birth TEXT,
+  age INTEGER,
+  condition TEXT,
+  phone_number TEXT,
+  preferred_language TEXT NOT NULL DEFAULT 'en',
+  timezone TEXT,
+  care_team JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  last_batch_id TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patients_phone_number ON patients(phone_number);
+
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL;
+ALTER TABLE call_history ADD COLUMN IF NOT EXISTS patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL;
+ALTER TABLE alert_dispatches ADD COLUMN IF NOT EXISTS patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL;
+ALTER TABLE alert_escalations ADD COLUMN IF NOT EXISTS patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_patient_prompts_patient_record_id ON patient_prompts(patient_record_id);
+CREATE INDEX IF NOT EXISTS idx_call_history_patient_record_id ON call_history(patient_record_id);
+
+-- Backfill the registry from the most recent prompt for each patient
+INSERT INTO patients (patient_id, name, age, condition, last_batch_id)
+SELECT DISTINCT ON (patient_id) patient_id, name, age, condition, batch_id
+FROM patient_prompts
+ORDER BY patient_id, id DESC
+ON CONFLICT (patient_id) DO NOTHING;
+
+-- Pick up the phone number we last called each patient on
+UPDATE patients p
+SET phone_number = latest.phone_number
+FROM (
+  SELECT DISTINCT ON (patient_id) patient_id, phone_number
+  FROM call_history
+  ORDER BY patient_id, call_date DESC
+) latest
+WHERE latest.patient_id = p.patient_id AND p.phone_number IS NULL;
+
+UPDATE patient_prompts pp SET patient_record_id = p.id
+FROM patients p WHERE p.patient_id = pp.patient_id AND pp.patient_record_id IS NULL;
+
+UPDATE call_history ch SET patient_record_id = p.id
+FROM patients p WHERE p.patient_id = ch.patient_id AND ch.patient_record_id IS NULL;
+
+UPDATE alert_dispatches ad SET patient_record_id = p.id
+FROM patients p WHERE p.patient_id = ad.patient_id AND ad.patient_record_id IS NULL;
+
+UPDATE alert_escalations ae SET patient_record_id = p.id
+FROM patients p WHERE p.patient_id = ae.patient_id AND ae.patient_record_id IS NULL;
@@ -0,0 +1,16 @@
+-- Add vital_readings time series populated from every uploaded row
+CREATE TABLE IF NOT EXISTS vital_readings (
+  id SERIAL PRIMARY KEY,
+  patient_id TEXT NOT NULL,
+  patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+  batch_id TEXT,
+  variable TEXT NOT NULL,
+  value DOUBLE PRECISION NOT NULL,
+  unit TEXT,
+  severity TEXT NOT NULL DEFAULT 'green',
+  recorded_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT vital_readings_patient_variable_recorded_at_key UNIQUE (patient_id, variable, recorded_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vital_readings_patient_recorded_at ON vital_readings(patient_id, recorded_at);
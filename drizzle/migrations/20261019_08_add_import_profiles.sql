@@ -0,0 +1,14 @@
+-- Add import_profiles table for saved upload column mappings
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  header_signature TEXT NOT NULL,
+  headers TEXT[] NOT NULL,
+  mapping JSONB NOT NULL,
+  created_by INTEGER REFERENCES users(id),
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_profiles_header_signature ON import_profiles(header_signature);
@@ -0,0 +1,2 @@
+-- Record which file, sheets, encoding and delimiter each batch was imported from
+ALTER TABLE patient_batches ADD COLUMN IF NOT EXISTS sources JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,23 @@
+-- Queue prompt generation per patient instead of running it inside the upload request
+ALTER TABLE patient_batches ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed';
+ALTER TABLE patient_batches ADD COLUMN IF NOT EXISTS failed_patients INTEGER DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id SERIAL PRIMARY KEY,
+  batch_id TEXT NOT NULL,
+  patient_id TEXT NOT NULL,
+  patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  run_after TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT generation_jobs_batch_patient_key UNIQUE (batch_id, patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status_run_after ON generation_jobs(status, run_after);
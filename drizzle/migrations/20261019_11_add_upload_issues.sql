@@ -0,0 +1,17 @@
+-- Per-row validation results for each uploaded batch
+CREATE TABLE IF NOT EXISTS upload_issues (
+  id SERIAL PRIMARY KEY,
+  batch_id TEXT NOT NULL,
+  sheet TEXT,
+  row_number INTEGER,
+  patient_id TEXT,
+  "column" TEXT,
+  code TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  message TEXT NOT NULL,
+  value TEXT,
+  row_data JSONB,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_issues_batch_id ON upload_issues(batch_id);
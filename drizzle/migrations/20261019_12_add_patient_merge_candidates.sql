@@ -0,0 +1,16 @@
+-- Possible duplicate patients found by identity resolution, awaiting review
+CREATE TABLE IF NOT EXISTS patient_merge_candidates (
+  id SERIAL PRIMARY KEY,
+  batch_id TEXT,
+  patient_id TEXT NOT NULL,
+  candidate_patient_id TEXT NOT NULL,
+  score DOUBLE PRECISION NOT NULL,
+  reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending',
+  reviewed_by INTEGER REFERENCES users(id),
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT patient_merge_candidates_pair_key UNIQUE (patient_id, candidate_patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_merge_candidates_status ON patient_merge_candidates(status);
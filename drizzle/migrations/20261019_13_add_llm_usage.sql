@@ -0,0 +1,20 @@
+-- Persistent ledger of LLM calls with real token usage and cost
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id SERIAL PRIMARY KEY,
+  task TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  batch_id TEXT,
+  patient_id TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  usage_estimated BOOLEAN NOT NULL DEFAULT FALSE,
+  cost DOUBLE PRECISION NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_batch_id ON llm_usage(batch_id);
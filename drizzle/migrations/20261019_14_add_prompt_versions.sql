@@ -0,0 +1,43 @@
+-- Version history for the caregiver, patient, trend report and voice agent prompts
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id SERIAL PRIMARY KEY,
+  kind TEXT NOT NULL,
+  batch_id TEXT,
+  version INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  author_id INTEGER REFERENCES users(id),
+  change_note TEXT,
+  restored_from_id INTEGER,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_versions_kind_batch ON prompt_versions(kind, batch_id);
+
+-- Prompt versions each generated prompt was produced with
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS system_prompt_version_id INTEGER REFERENCES prompt_versions(id) ON DELETE SET NULL;
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS patient_system_prompt_version_id INTEGER REFERENCES prompt_versions(id) ON DELETE SET NULL;
+
+-- Seed the history from prompts saved before versioning
+INSERT INTO prompt_versions (kind, batch_id, version, content, change_note, created_at)
+SELECT 'caregiverSystem', batch_id, ROW_NUMBER() OVER (PARTITION BY batch_id ORDER BY id), prompt,
+       'Saved before version history', COALESCE(NULLIF(created_at, '')::timestamp, NOW())
+FROM system_prompts
+WHERE NOT EXISTS (SELECT 1 FROM prompt_versions WHERE kind = 'caregiverSystem');
+
+INSERT INTO prompt_versions (kind, batch_id, version, content, change_note, created_at)
+SELECT 'patientSystem', batch_id, ROW_NUMBER() OVER (PARTITION BY batch_id ORDER BY id), prompt,
+       'Saved before version history', COALESCE(NULLIF(created_at, '')::timestamp, NOW())
+FROM patient_system_prompts
+WHERE NOT EXISTS (SELECT 1 FROM prompt_versions WHERE kind = 'patientSystem');
+
+INSERT INTO prompt_versions (kind, batch_id, version, content, change_note, created_at)
+SELECT 'trendReport', batch_id, ROW_NUMBER() OVER (PARTITION BY batch_id ORDER BY id), prompt,
+       'Saved before version history', COALESCE(NULLIF(created_at, '')::timestamp, NOW())
+FROM trend_report_prompts
+WHERE NOT EXISTS (SELECT 1 FROM prompt_versions WHERE kind = 'trendReport');
+
+INSERT INTO prompt_versions (kind, batch_id, version, content, change_note)
+SELECT 'voiceAgent', NULL, 1, value, 'Saved before version history'
+FROM system_settings
+WHERE key = 'voice_agent_template'
+  AND NOT EXISTS (SELECT 1 FROM prompt_versions WHERE kind = 'voiceAgent');
@@ -0,0 +1,38 @@
+-- A/B experiments comparing prompt variants over a sample of a batch's patients
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  batch_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  patient_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'running',
+  adopted_variant_id INTEGER,
+  created_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS prompt_experiment_variants (
+  id SERIAL PRIMARY KEY,
+  experiment_id INTEGER NOT NULL REFERENCES prompt_experiments(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  version_id INTEGER REFERENCES prompt_versions(id) ON DELETE SET NULL,
+  content TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS prompt_experiment_outputs (
+  id SERIAL PRIMARY KEY,
+  experiment_id INTEGER NOT NULL REFERENCES prompt_experiments(id) ON DELETE CASCADE,
+  variant_id INTEGER NOT NULL REFERENCES prompt_experiment_variants(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL,
+  output TEXT,
+  error TEXT,
+  rating INTEGER,
+  is_winner BOOLEAN NOT NULL DEFAULT FALSE,
+  reviewed_by INTEGER REFERENCES users(id),
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT prompt_experiment_outputs_variant_patient_key UNIQUE (variant_id, patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_experiment_outputs_experiment_id ON prompt_experiment_outputs(experiment_id);
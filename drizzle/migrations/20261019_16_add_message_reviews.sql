@@ -0,0 +1,21 @@
+-- Generated messages held back by guardrail checks until a person reviews them
+CREATE TABLE IF NOT EXISTS message_reviews (
+  id SERIAL PRIMARY KEY,
+  batch_id TEXT NOT NULL,
+  patient_id TEXT NOT NULL,
+  patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+  patient_prompt_id INTEGER REFERENCES patient_prompts(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL,
+  caregiver_message TEXT NOT NULL,
+  patient_message TEXT NOT NULL,
+  findings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  system_prompt_version_id INTEGER REFERENCES prompt_versions(id) ON DELETE SET NULL,
+  patient_system_prompt_version_id INTEGER REFERENCES prompt_versions(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  reviewed_by INTEGER REFERENCES users(id),
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reviews_batch_id ON message_reviews(batch_id);
+CREATE INDEX IF NOT EXISTS idx_message_reviews_status ON message_reviews(status);
@@ -0,0 +1,23 @@
+-- Review and approval workflow for generated messages
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'draft';
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS reviewer_id INTEGER REFERENCES users(id);
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS original_prompt TEXT;
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS original_patient_message TEXT;
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS edited_by INTEGER REFERENCES users(id);
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP;
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS approved_by INTEGER REFERENCES users(id);
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP;
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS sent_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_patient_prompts_review_status ON patient_prompts(review_status);
+
+CREATE TABLE IF NOT EXISTS prompt_review_events (
+  id SERIAL PRIMARY KEY,
+  patient_prompt_id INTEGER NOT NULL REFERENCES patient_prompts(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  actor_id INTEGER REFERENCES users(id),
+  comment TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_review_events_prompt_id ON prompt_review_events(patient_prompt_id);
@@ -0,0 +1,32 @@
+-- Delivery of patient-directed messages by SMS and email
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS email TEXT;
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS preferred_channel TEXT NOT NULL DEFAULT 'sms';
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS quiet_hours_start TEXT;
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS quiet_hours_end TEXT;
+
+CREATE TABLE IF NOT EXISTS patient_message_deliveries (
+  id SERIAL PRIMARY KEY,
+  patient_id TEXT NOT NULL,
+  patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+  patient_prompt_id INTEGER REFERENCES patient_prompts(id) ON DELETE SET NULL,
+  batch_id TEXT,
+  channel TEXT NOT NULL,
+  recipient TEXT,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL,
+  segment_count INTEGER NOT NULL DEFAULT 1,
+  provider_message_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  delivered_message_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  scheduled_for TIMESTAMP,
+  failure_reason TEXT,
+  sent_by INTEGER REFERENCES users(id),
+  sent_at TIMESTAMP,
+  delivered_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_message_deliveries_patient_id ON patient_message_deliveries(patient_id);
+CREATE INDEX IF NOT EXISTS idx_patient_message_deliveries_batch_id ON patient_message_deliveries(batch_id);
+CREATE INDEX IF NOT EXISTS idx_patient_message_deliveries_status ON patient_message_deliveries(status, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_patient_message_deliveries_provider_ids ON patient_message_deliveries USING GIN (provider_message_ids);
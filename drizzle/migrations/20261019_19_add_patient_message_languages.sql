@@ -0,0 +1,6 @@
+-- Patient messages in the patient's preferred language, with an English translation for caregivers
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS patient_message_language TEXT NOT NULL DEFAULT 'en';
+ALTER TABLE patient_prompts ADD COLUMN IF NOT EXISTS patient_message_english TEXT;
+
+ALTER TABLE message_reviews ADD COLUMN IF NOT EXISTS patient_message_language TEXT NOT NULL DEFAULT 'en';
+ALTER TABLE message_reviews ADD COLUMN IF NOT EXISTS patient_message_english TEXT;
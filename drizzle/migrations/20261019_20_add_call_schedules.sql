@@ -0,0 +1,41 @@
+-- Recurring companion calls per patient
+CREATE TABLE IF NOT EXISTS call_schedules (
+  id SERIAL PRIMARY KEY,
+  patient_id TEXT NOT NULL UNIQUE,
+  patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+  days_of_week JSONB NOT NULL,
+  interval_weeks INTEGER NOT NULL DEFAULT 1,
+  window_start TEXT NOT NULL DEFAULT '10:00',
+  window_end TEXT NOT NULL DEFAULT '12:00',
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  retry_delay_minutes INTEGER NOT NULL DEFAULT 30,
+  starts_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS scheduled_calls (
+  id SERIAL PRIMARY KEY,
+  schedule_id INTEGER REFERENCES call_schedules(id) ON DELETE SET NULL,
+  patient_id TEXT NOT NULL,
+  patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+  window_starts_at TIMESTAMP NOT NULL,
+  window_ends_at TIMESTAMP NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP,
+  last_attempt_at TIMESTAMP,
+  call_id TEXT,
+  outcome TEXT,
+  failure_reason TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT scheduled_calls_schedule_window_key UNIQUE (schedule_id, window_starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_calls_patient_id ON scheduled_calls(patient_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_calls_status ON scheduled_calls(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_calls_window ON scheduled_calls(window_starts_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_calls_call_id ON scheduled_calls(call_id);
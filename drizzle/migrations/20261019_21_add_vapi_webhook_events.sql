@@ -0,0 +1,19 @@
+-- Durable inbox for verified Vapi webhook events
+CREATE TABLE IF NOT EXISTS vapi_webhook_events (
+  id SERIAL PRIMARY KEY,
+  call_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_error TEXT,
+  run_after TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP,
+  processed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT vapi_webhook_events_call_type_key UNIQUE (call_id, type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vapi_webhook_events_status_run_after ON vapi_webhook_events(status, run_after);
@@ -0,0 +1,13 @@
+-- Follow-up flags raised while watching a companion call live
+CREATE TABLE IF NOT EXISTS call_flags (
+  id SERIAL PRIMARY KEY,
+  call_id TEXT NOT NULL,
+  patient_id TEXT NOT NULL,
+  patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+  note TEXT,
+  transcript_excerpt TEXT,
+  flagged_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_flags_call_id ON call_flags(call_id);
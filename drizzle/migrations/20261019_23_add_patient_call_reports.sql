@@ -0,0 +1,17 @@
+-- Vital readings, symptoms, callback requests and medication confirmations reported through voice assistant tool calls
+CREATE TABLE IF NOT EXISTS patient_call_reports (
+  id SERIAL PRIMARY KEY,
+  call_id TEXT NOT NULL,
+  tool_call_id TEXT UNIQUE,
+  patient_id TEXT NOT NULL,
+  patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+  type TEXT NOT NULL,
+  details JSONB NOT NULL,
+  summary TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'green',
+  alert_reasons TEXT[],
+  escalation_id INTEGER REFERENCES alert_escalations(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_call_reports_patient_id ON patient_call_reports(patient_id);
@@ -0,0 +1,23 @@
+-- Typed clinical facts extracted from each call transcript
+CREATE TABLE IF NOT EXISTS call_extractions (
+  id SERIAL PRIMARY KEY,
+  call_id TEXT NOT NULL UNIQUE,
+  patient_id TEXT NOT NULL,
+  patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+  call_date TIMESTAMP NOT NULL,
+  medication_adherence TEXT NOT NULL DEFAULT 'unknown',
+  medications JSONB NOT NULL DEFAULT '[]',
+  symptoms JSONB NOT NULL DEFAULT '[]',
+  mood TEXT NOT NULL DEFAULT 'unknown',
+  mood_score INTEGER,
+  lonely BOOLEAN,
+  loneliness_notes TEXT,
+  fall_reported BOOLEAN NOT NULL DEFAULT FALSE,
+  falls JSONB NOT NULL DEFAULT '[]',
+  vitals JSONB NOT NULL DEFAULT '[]',
+  social_needs JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_extractions_patient_call_date ON call_extractions(patient_id, call_date);
@@ -0,0 +1,4 @@
+-- Twilio retries inbound webhooks; a MessageSid is only handled once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sms_messages_inbound_twilio_sid
+  ON sms_messages(twilio_sid)
+  WHERE direction = 'inbound';
@@ -0,0 +1,7 @@
+-- Undated upload rows all take the upload time; keep each row of the upload as its own reading
+ALTER TABLE vital_readings ADD COLUMN IF NOT EXISTS source_row INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE vital_readings DROP CONSTRAINT IF EXISTS vital_readings_patient_variable_recorded_at_key;
+ALTER TABLE vital_readings DROP CONSTRAINT IF EXISTS vital_readings_patient_variable_recorded_at_row_key;
+ALTER TABLE vital_readings
+  ADD CONSTRAINT vital_readings_patient_variable_recorded_at_row_key UNIQUE (patient_id, variable, recorded_at, source_row);
@@ -177,8 +177,8 @@ export function setupAuth(app: Express) {
     res.status(200).json({ success: true, user: userWithoutPassword });
   });
 
-  // Middleware to check if user is authenticated for all API routes except login/logout/health/vapi/webhook (including test)
-  app.use(/^\/api\/(?!login|logout|health|vapi\/webhook).*$/, (req, res, next) => {
+  // Middleware to check if user is authenticated for all API routes except login/logout/health/vapi/webhook (including test) and Twilio callbacks
+  app.use(/^\/api\/(?!login|logout|health|vapi\/webhook|twilio\/).*$/, (req, res, next) => {
     if (!req.isAuthenticated()) {
       console.log(`Unauthorized access attempt to ${req.originalUrl}`);
       return res.status(401).json({
@@ -4,6 +4,21 @@ import { setupVite, serveStatic, log } from "./vite";
 import { db } from "./db";
 import cors from 'cors';
 import { initializeDatabase } from "./lib/initDb";
+import { startEscalationScheduler } from "./lib/escalations";
+import { startDeliveryScheduler } from "./lib/patientDelivery";
+import { startCallScheduler } from "./lib/callScheduler";
+import { startBatchQueue } from "./lib/batchQueue";
+import { startVapiWebhookWorker } from "./lib/vapiWebhooks";
+import { resumePromptExperiments } from "./lib/promptExperiments";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Unparsed JSON body, for verifying webhook signatures
+      rawBody?: Buffer;
+    }
+  }
+}
 
 // Validate required environment variables at startup
 function validateEnvironment() {
@@ -41,7 +56,11 @@ process.on('uncaughtException', (error) => {
 });
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 app.use(cors({
   origin: process.env.NODE_ENV === 'production' ? 'https://' + process.env.REPL_SLUG + '.repl.co' : true,
@@ -144,5 +163,23 @@ app.use((req, res, next) => {
     console.log(`📱 Twilio: ${process.env.TWILIO_ACCOUNT_SID ? '✅ Configured' : '❌ Not configured'}`);
     console.log('=====================================\n');
     log(`serving on port ${port}`);
+
+    // Advance unacknowledged alert escalations and send yellow digests
+    startEscalationScheduler();
+
+    // Send patient messages held for quiet hours
+    startDeliveryScheduler();
+
+    // Place recurring companion calls and their retries
+    startCallScheduler();
+
+    // Generate prompts for uploaded batches, resuming any interrupted by a restart
+    void startBatchQueue();
+
+    // Process Vapi call reports, resuming any interrupted by a restart
+    void startVapiWebhookWorker();
+
+    // Finish prompt experiments interrupted by a restart
+    void resumePromptExperiments();
   });
 })();
\ No newline at end of file
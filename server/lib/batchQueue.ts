@@ -0,0 +1,298 @@
+import { EventEmitter } from "events";
+import { storage } from "../storage";
+import { extractReasoning, generateDualMessages, getDefaultSystemPrompt } from "./openai";
+import { startEscalationsForBatch } from "./escalations";
+import { checkGeneratedMessages } from "./guardrails";
+import type { GenerationJob } from "@shared/schema";
+import type { BatchProgress, PatientData } from "@shared/types";
+
+const SECOND = 1000;
+
+// How many patients are generated at once across all batches
+const CONCURRENCY = Math.max(parseInt(process.env.BATCH_QUEUE_CONCURRENCY || "4", 10) || 4, 1);
+
+// First retry waits this long, doubling with each attempt
+const RETRY_BASE_DELAY_MS = 30 * SECOND;
+
+// Running jobs not updated for this long belong to a worker that died
+const STALE_LOCK_MS = 10 * 60 * SECOND;
+
+/**
+ * Emits a "progress" event with a BatchProgress whenever a patient in a batch
+ * finishes, so the SSE endpoint can stream it
+ */
+export const batchProgressEvents = new EventEmitter();
+batchProgressEvents.setMaxListeners(0); // One listener per open progress stream
+
+/**
+ * Current progress for a batch, or null if the batch doesn't exist
+ */
+export async function getBatchProgress(batchId: string): Promise<BatchProgress | null> {
+  const batch = await storage.getPatientBatch(batchId);
+  if (!batch) return null;
+
+  const counts = await storage.getGenerationJobCounts(batchId);
+  return {
+    batchId,
+    status: batch.status,
+    total: batch.totalPatients ?? 0,
+    processed: batch.processedPatients ?? 0,
+    failed: batch.failedPatients ?? 0,
+    pending: (counts.pending ?? 0) + (counts.running ?? 0),
+  };
+}
+
+async function publishProgress(batchId: string): Promise<void> {
+  const progress = await getBatchProgress(batchId);
+  if (progress) {
+    batchProgressEvents.emit("progress", progress);
+  }
+}
+
+/**
+ * Queue prompt generation for each patient in a batch and wake the workers
+ */
+export async function enqueueBatch(
+  batchId: string,
+  patients: { patient: PatientData; patientRecordId?: number | null }[]
+): Promise<number> {
+  const queued = await storage.createGenerationJobs(
+    patients.map(({ patient, patientRecordId }) => ({
+      batchId,
+      patientId: patient.patientId,
+      patientRecordId: patientRecordId ?? null,
+      payload: patient,
+    }))
+  );
+
+  console.log(`Queued ${queued} patients for prompt generation in batch ${batchId}`);
+  if (queued === 0) {
+    await finishBatchIfDone(batchId);
+  }
+  await publishProgress(batchId);
+  void fillWorkers();
+  return queued;
+}
+
+// Patient names per batch, for the guardrail check that no other patient is named in a message
+const batchPatientNames = new Map<string, string[]>();
+
+async function getBatchPatientNames(batchId: string): Promise<string[]> {
+  let names = batchPatientNames.get(batchId);
+  if (!names) {
+    names = await storage.getBatchPatientNames(batchId);
+    batchPatientNames.set(batchId, names);
+  }
+  return names;
+}
+
+/**
+ * Generate the caregiver and patient messages for one patient and store
+ * them, or hold them for review if they fail a guardrail check
+ */
+async function generateForJob(job: GenerationJob): Promise<void> {
+  const patient = job.payload;
+
+  // A previous attempt may have stored the prompt, or held it for review, before the worker stopped
+  const existing = await storage.getPatientPromptByIds(job.batchId, job.patientId);
+  if (existing) return;
+  const held = await storage.getNewPromptMessageReview(job.batchId, job.patientId);
+  if (held) return;
+
+  const systemPrompt = await storage.getSystemPrompt(job.batchId);
+  const systemPromptText = systemPrompt ? systemPrompt.prompt : getDefaultSystemPrompt();
+
+  const patientSystemPrompt = await storage.getPatientSystemPrompt(job.batchId);
+  const patientSystemPromptText = patientSystemPrompt?.prompt;
+
+  // Recorded with the result so a bad output can be traced back to the prompt text
+  const systemPromptVersion = await storage.getCurrentPromptVersion("caregiverSystem", job.batchId);
+  const patientSystemPromptVersion = await storage.getCurrentPromptVersion("patientSystem", job.batchId);
+
+  const { caregiverMessage, patientMessage, patientMessageLanguage, patientMessageEnglish } = await generateDualMessages(
+    patient,
+    job.batchId,
+    systemPromptText,
+    patientSystemPromptText
+  );
+
+  const findings = checkGeneratedMessages({
+    patient,
+    caregiverMessage,
+    patientMessage: patientMessageEnglish ?? patientMessage, // Checks are written for English text
+    otherPatientNames: await getBatchPatientNames(job.batchId),
+  });
+  if (findings.length > 0) {
+    await storage.createMessageReview({
+      batchId: job.batchId,
+      patientId: job.patientId,
+      patientRecordId: job.patientRecordId,
+      payload: patient,
+      caregiverMessage,
+      patientMessage,
+      patientMessageLanguage,
+      patientMessageEnglish,
+      findings,
+      systemPromptVersionId: systemPromptVersion?.id ?? null,
+      patientSystemPromptVersionId: patientSystemPromptVersion?.id ?? null,
+    });
+    console.warn(`Held messages for patient ${job.patientId} in batch ${job.batchId} for review: ${findings.map((f) => f.message).join("; ")}`);
+    return;
+  }
+
+  const { reasoning } = extractReasoning(caregiverMessage);
+
+  await storage.createPatientPrompt({
+    batchId: job.batchId,
+    patientId: job.patientId,
+    name: patient.name || "Unknown",
+    age: patient.age || 0,
+    condition: patient.condition || "Unknown",
+    prompt: caregiverMessage,
+    patientMessage,
+    patientMessageLanguage,
+    patientMessageEnglish,
+    reasoning,
+    isAlert: patient.isAlert ? "true" : "false",
+    healthStatus: patient.healthStatus || "healthy",
+    rawData: patient,
+    patientRecordId: job.patientRecordId,
+    systemPromptVersionId: systemPromptVersion?.id ?? null,
+    patientSystemPromptVersionId: patientSystemPromptVersion?.id ?? null,
+  });
+}
+
+async function runJob(job: GenerationJob): Promise<void> {
+  try {
+    await generateForJob(job);
+    await storage.updateGenerationJob(job.id, {
+      status: "completed",
+      lastError: null,
+      completedAt: new Date(),
+    });
+    await storage.recordBatchPatientResult(job.batchId, true);
+    console.log(`Generated prompt for patient ${job.patientId} in batch ${job.batchId}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      console.warn(`Generation for patient ${job.patientId} failed (attempt ${job.attempts}), retrying in ${delay / SECOND}s:`, message);
+      await storage.updateGenerationJob(job.id, {
+        status: "pending",
+        lastError: message,
+        lockedAt: null,
+        runAfter: new Date(Date.now() + delay),
+      });
+    } else {
+      console.error(`Generation for patient ${job.patientId} in batch ${job.batchId} failed after ${job.attempts} attempts:`, message);
+      await storage.updateGenerationJob(job.id, { status: "failed", lastError: message });
+      await storage.recordBatchPatientResult(job.batchId, false);
+    }
+  }
+
+  await finishBatchIfDone(job.batchId);
+  await publishProgress(job.batchId);
+}
+
+/**
+ * Close out a batch once none of its jobs are waiting. Escalations start
+ * here because they read the prompts the jobs create.
+ */
+async function finishBatchIfDone(batchId: string): Promise<void> {
+  const counts = await storage.getGenerationJobCounts(batchId);
+  if ((counts.pending ?? 0) + (counts.running ?? 0) > 0) return;
+
+  const batch = await storage.getPatientBatch(batchId);
+  if (!batch || batch.status !== "processing") return;
+
+  const status = (counts.failed ?? 0) > 0 ? "completed_with_errors" : "completed";
+  await storage.updatePatientBatch(batchId, { status });
+  batchPatientNames.delete(batchId);
+  console.log(`Batch ${batchId} ${status.replace(/_/g, " ")}`);
+
+  // Page on-call staff for red alerts and queue yellow ones for the digest
+  startEscalationsForBatch(batchId).catch((err) => {
+    console.error(`Error starting escalations for batch ${batchId}:`, err);
+  });
+}
+
+/**
+ * Requeue a batch's failed patients with a fresh set of attempts.
+ * Patients whose prompts were generated are left alone.
+ */
+export async function retryFailedPatients(batchId: string): Promise<number> {
+  const requeued = await storage.retryFailedGenerationJobs(batchId);
+  if (requeued === 0) return 0;
+
+  await storage.updatePatientBatch(batchId, { status: "processing", failedPatients: 0 });
+  console.log(`Retrying ${requeued} failed patients in batch ${batchId}`);
+
+  await publishProgress(batchId);
+  void fillWorkers();
+  return requeued;
+}
+
+let activeJobs = 0;
+let filling = false;
+
+// Claim jobs until every worker slot is busy
+async function fillWorkers(): Promise<void> {
+  if (filling) return;
+  filling = true;
+  try {
+    while (activeJobs < CONCURRENCY) {
+      const jobs = await storage.claimGenerationJobs(CONCURRENCY - activeJobs);
+      if (jobs.length === 0) break;
+
+      for (const job of jobs) {
+        activeJobs++;
+        runJob(job)
+          .catch((error) => console.error(`Error running generation job ${job.id}:`, error))
+          .finally(() => {
+            activeJobs--;
+            void fillWorkers();
+          });
+      }
+    }
+  } catch (error) {
+    console.error("Error claiming generation jobs:", error);
+  } finally {
+    filling = false;
+  }
+}
+
+let queueTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start the generation workers. Jobs live in the database, so on startup
+ * anything left running by the previous process is put back in the queue;
+ * the poll picks up retries as their backoff expires.
+ */
+export async function startBatchQueue(intervalMs: number = 5 * SECOND): Promise<void> {
+  if (queueTimer) return;
+
+  try {
+    const requeued = await storage.requeueRunningGenerationJobs(new Date());
+    if (requeued > 0) {
+      console.log(`Resuming ${requeued} generation jobs interrupted by the last shutdown`);
+    }
+  } catch (error) {
+    console.error("Error resuming generation jobs:", error);
+  }
+
+  queueTimer = setInterval(() => {
+    storage.requeueRunningGenerationJobs(new Date(Date.now() - STALE_LOCK_MS))
+      .catch((error) => console.error("Error requeueing stale generation jobs:", error))
+      .finally(() => void fillWorkers());
+  }, intervalMs);
+  void fillWorkers();
+  console.log(`🧵 Batch generation queue running with ${CONCURRENCY} workers`);
+}
+
+export function stopBatchQueue(): void {
+  if (queueTimer) {
+    clearInterval(queueTimer);
+    queueTimer = null;
+  }
+}
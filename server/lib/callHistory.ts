@@ -0,0 +1,242 @@
+import { storage } from "../storage";
+import { callClinicalExtractionSchema, type CallClinicalExtraction } from "@shared/schema";
+import { completeForTask } from "./llm";
+
+// Parse the "clinical" part of the summary answer, or null if it's missing
+function parseClinicalExtraction(value: unknown): CallClinicalExtraction | null {
+  if (!value || typeof value !== "object") return null;
+  const parsed = callClinicalExtractionSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+export async function generateConversationSummary(
+  transcript: string,
+  vapiSummary?: string,
+  patientId?: string,
+) {
+  try {
+    const prompt = `
+Analyze this healthcare call transcript and extract key information for follow-up care.
+Provide your response in JSON format with the following structure:
+
+{
+  "summary": "Brief 2-3 sentence overview of the call",
+  "keyPoints": ["Key talking point 1", "Key talking point 2", ...],
+  "healthConcerns": ["Health concern 1", "Health concern 2", ...],
+  "followUpItems": ["Follow-up item 1", "Follow-up item 2", ...],
+  "clinical": {
+    "medicationAdherence": "yes" | "no" | "partial" | "unknown",
+    "medications": [{ "name": "Metformin", "adherence": "yes" | "no" | "partial" | "unknown", "notes": "Missed Tuesday's dose" or null }],
+    "symptoms": [{ "name": "Dizziness", "onset": "Two days ago" or null, "severity": "mild" | "moderate" | "severe" or null }],
+    "mood": "positive" | "neutral" | "low" | "distressed" | "unknown",
+    "moodScore": 1-5 (1 = very low, 5 = very good) or null,
+    "lonely": true | false | null,
+    "lonelinessNotes": "What the patient said about feeling alone" or null,
+    "falls": [{ "description": "Slipped in the bathroom", "when": "Last night" or null, "injured": true | false | null }],
+    "vitals": [{ "name": "Blood Pressure" | "Heart Rate" | "Blood Glucose" | "Weight" | "Temperature" | "Oxygen Saturation", "value": 130, "diastolic": 85 or null, "unit": "mmHg" or null }],
+    "socialNeeds": [{ "category": "food" | "transportation" | "housing" | "financial" | "caregiving" | "companionship" | "other", "description": "Needs a ride to Friday's appointment" }]
+  }
+}
+
+Write every field in English, even if the call was in another language, since the care team reads it.
+
+Focus on:
+- Patient's current health status and any new symptoms
+- Medication compliance and concerns
+- Lifestyle updates that could affect health
+- Questions or concerns the patient raised
+- Items that should be mentioned in future calls
+
+In "clinical", only record what the patient actually said on this call. Use "unknown", null or an empty list when something didn't come up, and leave "diastolic" null except for blood pressure.
+
+Transcript:
+${transcript}
+
+${vapiSummary ? `Vapi Summary: ${vapiSummary}` : ""}
+`;
+
+    const response = await completeForTask("callSummary", {
+      messages: [
+        {
+          role: "system",
+          content:
+            "You are a healthcare assistant analyzing patient call transcripts. Extract key information that would be valuable for healthcare providers and future follow-up calls.",
+        },
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      json: true,
+      temperature: 0.3,
+    }, { patientId });
+
+    const result = JSON.parse(response || "{}");
+
+    return {
+      summary: result.summary || "Call completed successfully",
+      keyPoints: result.keyPoints || [],
+      healthConcerns: result.healthConcerns || [],
+      followUpItems: result.followUpItems || [],
+      clinical: parseClinicalExtraction(result.clinical),
+      failed: false,
+    };
+  } catch (error) {
+    console.error("Error generating conversation summary:", error);
+    return {
+      summary: vapiSummary || "Call completed - summary generation failed",
+      keyPoints: [],
+      healthConcerns: [],
+      followUpItems: [],
+      clinical: null,
+      failed: true,
+    };
+  }
+}
+
+async function saveCallExtraction(callId: string, patientId: string, callDate: Date, clinical: CallClinicalExtraction) {
+  await storage.upsertCallExtraction({
+    callId,
+    patientId,
+    callDate,
+    medicationAdherence: clinical.medicationAdherence,
+    medications: clinical.medications,
+    symptoms: clinical.symptoms,
+    mood: clinical.mood,
+    moodScore: clinical.moodScore,
+    lonely: clinical.lonely,
+    lonelinessNotes: clinical.lonelinessNotes,
+    fallReported: clinical.falls.length > 0,
+    falls: clinical.falls,
+    vitals: clinical.vitals,
+    socialNeeds: clinical.socialNeeds,
+  });
+}
+
+/**
+ * Summarize a finished call and save it to call history. Throws if the call
+ * can't be stored, so the webhook event is retried.
+ */
+export async function storeCallHistoryWithDetails(
+  callId: string,
+  patientId: string,
+  patientName: string,
+  phoneNumber: string,
+  durationSeconds: number,
+  callStatusReason: string,
+  transcript: string | null,
+  vapiSummary: string | null,
+  callEndTimeISO: string,
+  callMetadata?: any,
+  source?: string,
+) {
+  console.log(
+    `💾 Storing call history for ${callId} from source: ${source || "unknown"}. Duration: ${durationSeconds}s`,
+  );
+  const aiSummary = await generateConversationSummary(
+    transcript || "",
+    vapiSummary || undefined,
+    patientId,
+  );
+
+  let finalCallStatus = "completed";
+  if (callStatusReason) {
+    switch (callStatusReason.toLowerCase()) {
+      case "customer-hangup":
+      case "assistant-hangup":
+      case "customer-ended-call":
+      case "ended":
+        finalCallStatus = "completed";
+        break;
+      case "customer-did-not-answer":
+      case "no-answer-machine-detected":
+      case "no-answer-human-detected":
+        finalCallStatus = "no-answer";
+        break;
+      case "customer-busy":
+        finalCallStatus = "busy";
+        break;
+      case "error":
+      case "failed":
+        finalCallStatus = "failed";
+        break;
+      default:
+        finalCallStatus = callStatusReason.substring(0, 50);
+    }
+  }
+
+  const patientInfoFromMeta = callMetadata?.patientId
+    ? {
+        patientId: callMetadata.patientId,
+        patientName: callMetadata.patientName || patientName,
+      }
+    : { patientId, patientName };
+
+  const record = {
+    callId,
+    patientId: patientInfoFromMeta.patientId,
+    patientName: patientInfoFromMeta.patientName,
+    phoneNumber,
+    duration: durationSeconds,
+    status: finalCallStatus,
+    transcript: transcript || "",
+    callDate: new Date(callEndTimeISO),
+  };
+  const summary = {
+    summary: aiSummary.summary,
+    keyPoints: aiSummary.keyPoints,
+    healthConcerns: aiSummary.healthConcerns,
+    followUpItems: aiSummary.followUpItems,
+  };
+
+  // A redelivered or replayed report updates the call rather than adding it twice,
+  // keeping the stored summary if this attempt's summary failed
+  if (await storage.getCallHistoryById(callId)) {
+    await storage.updateCallHistory(callId, aiSummary.failed ? record : { ...record, ...summary });
+  } else {
+    await storage.createCallHistory({ ...record, ...summary });
+  }
+
+  // Nothing to extract from a call nobody answered. A failed extraction fails
+  // the event so the worker retries it; the call history above is already saved.
+  if (transcript?.trim()) {
+    if (!aiSummary.clinical) {
+      throw new Error(`Could not extract clinical details from call ${callId}`);
+    }
+    await saveCallExtraction(callId, record.patientId, record.callDate, aiSummary.clinical);
+  }
+
+  console.log(
+    `✅ Stored call history for patient ${patientInfoFromMeta.patientName} (${callId}), Duration: ${durationSeconds}s, Status: ${finalCallStatus}`,
+  );
+}
+
+/**
+ * Extract clinical details for calls already in call history that have a
+ * transcript but no extraction, e.g. calls stored before extraction existed
+ * or whose extraction failed for good. Call history itself is left as it is.
+ * Pass the returned `nextAfterId` to continue past this page, so calls that
+ * keep failing don't block the rest; it is null once every call was seen.
+ */
+export async function backfillCallExtractions(
+  limit: number = 50,
+  afterId: number = 0,
+): Promise<{ extracted: number; failed: string[]; nextAfterId: number | null }> {
+  const calls = await storage.getCallsWithoutExtraction(limit, afterId);
+  let extracted = 0;
+  const failed: string[] = [];
+
+  for (const call of calls) {
+    const { clinical } = await generateConversationSummary(call.transcript || "", call.summary || undefined, call.patientId);
+    if (!clinical) {
+      failed.push(call.callId);
+      continue;
+    }
+    await saveCallExtraction(call.callId, call.patientId, call.callDate, clinical);
+    extracted++;
+  }
+
+  const nextAfterId = calls.length === limit ? calls[calls.length - 1].id : null;
+  console.log(`🩺 Backfilled call extractions: ${extracted} extracted, ${failed.length} failed`);
+  return { extracted, failed, nextAfterId };
+}
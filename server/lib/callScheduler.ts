@@ -0,0 +1,393 @@
+import { storage } from "../storage";
+import { startContextCall } from "./companionCalls";
+import { getDefaultTimezone } from "./patientDelivery";
+import { getPromptForOutreach, isApprovalRequired, markPromptSent } from "./promptReview";
+import type {
+  CallSchedule,
+  InsertCallSchedule,
+  InsertScheduledCall,
+  ScheduledCall,
+  ScheduledCallStatus,
+} from "@shared/schema";
+import type { CallCalendarEntry } from "@shared/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Vapi endedReason values meaning the patient never picked up
+const NO_ANSWER_OUTCOMES = new Set(["customer-did-not-answer", "customer-busy", "voicemail"]);
+
+// A placed call with no end-of-call report after this long is given up on
+const CALL_REPORT_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+// Longest range the calendar will project schedules over
+const MAX_CALENDAR_DAYS = 62;
+
+export interface CallWindow {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+type CadenceFields = Pick<CallSchedule, "daysOfWeek" | "intervalWeeks" | "windowStart" | "windowEnd" | "startsAt">;
+
+// The patient's timezone, or the default if it is missing or unknown
+function resolveTimezone(timeZone?: string | null): string {
+  if (timeZone) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return timeZone;
+    } catch {
+      // Unknown timezone on the patient record
+    }
+  }
+  return getDefaultTimezone();
+}
+
+function zonedParts(date: Date, timeZone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  return Object.fromEntries(parts.filter((part) => part.type !== "literal").map((part) => [part.type, parseInt(part.value)]));
+}
+
+// Local calendar date in the timezone, as days since 1970-01-01
+function localDay(date: Date, timeZone: string): number {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+// 0 = Sunday; 1970-01-01 was a Thursday
+function weekday(day: number): number {
+  return (day + 4) % 7;
+}
+
+// The instant a local date and HH:MM time occur in the timezone
+function zonedTime(day: number, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const local = day * DAY_MS + (hours * 60 + minutes) * 60 * 1000;
+
+  const offsetAt = (instant: number) => {
+    const { year, month, day: date, hour, minute, second } = zonedParts(new Date(instant), timeZone);
+    return Date.UTC(year, month - 1, date, hour, minute, second) - Math.floor(instant / 1000) * 1000;
+  };
+
+  // A second pass settles times next to a DST change
+  const guess = local - offsetAt(local);
+  return new Date(local - offsetAt(guess));
+}
+
+/**
+ * Call windows of a schedule that are still open at `from` and start
+ * before `to`, in order. Weeks for intervalWeeks are counted from the
+ * week the schedule starts in.
+ */
+export function getCallWindows(schedule: CadenceFields, timeZone: string | null | undefined, from: Date, to: Date): CallWindow[] {
+  const zone = resolveTimezone(timeZone);
+  const startDay = localDay(schedule.startsAt, zone);
+  const firstWeek = startDay - weekday(startDay);
+  const windows: CallWindow[] = [];
+
+  for (let day = localDay(from, zone) - 1; day <= localDay(to, zone); day++) {
+    const weeks = (day - weekday(day) - firstWeek) / 7;
+    if (weeks < 0 || weeks % schedule.intervalWeeks !== 0 || !schedule.daysOfWeek.includes(weekday(day))) {
+      continue;
+    }
+
+    const startsAt = zonedTime(day, schedule.windowStart, zone);
+    const endsAt = zonedTime(day, schedule.windowEnd, zone);
+    if (endsAt > from && startsAt < to && endsAt > schedule.startsAt) {
+      windows.push({ startsAt, endsAt });
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * The first window still open at `now` that starts after `afterWindow`
+ * (the last window already planned, if any)
+ */
+export function getNextCallWindow(
+  schedule: CadenceFields,
+  timeZone: string | null | undefined,
+  now: Date,
+  afterWindow?: Date
+): CallWindow | undefined {
+  const horizon = new Date(now.getTime() + (schedule.intervalWeeks + 1) * 7 * DAY_MS);
+  return getCallWindows(schedule, timeZone, now, horizon)
+    .find((window) => !afterWindow || window.startsAt > afterWindow);
+}
+
+// Plan the schedule's next call, unless one is already waiting or in progress
+async function planNextCall(schedule: CallSchedule, now: Date): Promise<ScheduledCall | undefined> {
+  const pending = await storage.getScheduledCalls({
+    scheduleId: schedule.id,
+    statuses: ["scheduled", "retry", "calling"],
+  });
+  if (pending.length > 0) return undefined;
+
+  const patient = await storage.getPatient(schedule.patientId);
+  const latest = await storage.getLatestScheduledCall(schedule.id);
+  const window = getNextCallWindow(schedule, patient?.timezone, now, latest?.windowStartsAt);
+  if (!window) return undefined;
+
+  return await storage.createScheduledCall({
+    scheduleId: schedule.id,
+    patientId: schedule.patientId,
+    windowStartsAt: window.startsAt,
+    windowEndsAt: window.endsAt,
+    status: "scheduled",
+    nextAttemptAt: window.startsAt,
+  });
+}
+
+/**
+ * Create or replace a patient's call schedule. Calls not yet attempted are
+ * re-planned from the new cadence and window.
+ */
+export async function saveCallSchedule(
+  patientId: string,
+  input: InsertCallSchedule,
+  createdBy?: number
+): Promise<CallSchedule> {
+  const schedule = await storage.upsertCallSchedule({ ...input, patientId, createdBy });
+  await storage.deleteUnstartedScheduledCalls(schedule.id);
+  if (schedule.enabled) {
+    await planNextCall(schedule, new Date());
+  }
+  return schedule;
+}
+
+// Retry after the schedule's delay if attempts and the call window allow, else settle on finalStatus
+async function retryOrGiveUp(
+  call: ScheduledCall,
+  now: Date,
+  updates: Partial<InsertScheduledCall>,
+  finalStatus: ScheduledCallStatus
+): Promise<ScheduledCall> {
+  const attempts = updates.attempts ?? call.attempts;
+  const schedule = await storage.getCallSchedule(call.patientId);
+  const retryAt = schedule ? new Date(now.getTime() + schedule.retryDelayMinutes * 60 * 1000) : null;
+
+  if (schedule?.enabled && schedule.id === call.scheduleId && attempts < schedule.maxAttempts && retryAt && retryAt < call.windowEndsAt) {
+    return await storage.updateScheduledCall(call.id, { ...updates, status: "retry", nextAttemptAt: retryAt });
+  }
+
+  return await storage.updateScheduledCall(call.id, { ...updates, status: finalStatus, nextAttemptAt: null });
+}
+
+// Place a claimed call through Vapi; the webhook reports how it went
+async function placeScheduledCall(call: ScheduledCall, now: Date): Promise<ScheduledCall> {
+  try {
+    const patient = await storage.getPatient(call.patientId);
+    if (!patient?.phoneNumber) {
+      return await storage.updateScheduledCall(call.id, {
+        status: "failed",
+        nextAttemptAt: null,
+        failureReason: "Patient has no phone number on file",
+      });
+    }
+
+    const prompt = await getPromptForOutreach(call.patientId);
+    if (!prompt) {
+      return await storage.updateScheduledCall(call.id, {
+        status: "failed",
+        nextAttemptAt: null,
+        failureReason: (await isApprovalRequired())
+          ? "No approved message for this patient"
+          : "No generated prompt for this patient",
+      });
+    }
+
+    const attempts = call.attempts + 1;
+    const result = await startContextCall(prompt, patient.phoneNumber, {
+      callType: "scheduled",
+      scheduledCallId: call.id,
+    });
+
+    if (!result.success) {
+      return await retryOrGiveUp(call, now, { attempts, lastAttemptAt: now, failureReason: result.message }, "failed");
+    }
+
+    await markPromptSent(prompt, "call");
+    return await storage.updateScheduledCall(call.id, {
+      status: "calling",
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt: null,
+      callId: result.callId,
+      outcome: null,
+      failureReason: null,
+    });
+  } catch (error) {
+    console.error(`Error placing scheduled call ${call.id}:`, error);
+    return await retryOrGiveUp(call, now, {
+      attempts: call.attempts + 1,
+      lastAttemptAt: now,
+      failureReason: error instanceof Error ? error.message : String(error),
+    }, "failed");
+  }
+}
+
+/**
+ * Apply a Vapi end-of-call report to the scheduled call that placed it.
+ * No-answer, busy and voicemail outcomes are retried within the window.
+ * @returns The updated call, or undefined if the call wasn't scheduled
+ */
+export async function recordScheduledCallOutcome(
+  callId: string,
+  endedReason: string,
+  now: Date = new Date()
+): Promise<ScheduledCall | undefined> {
+  const call = await storage.getScheduledCallByCallId(callId);
+  if (!call || call.status !== "calling") return undefined;
+
+  if (NO_ANSWER_OUTCOMES.has(endedReason)) {
+    return await retryOrGiveUp(call, now, { outcome: endedReason, failureReason: null }, "missed");
+  }
+  if (/error|failed/.test(endedReason)) {
+    return await retryOrGiveUp(call, now, { outcome: endedReason, failureReason: `Call ended with ${endedReason}` }, "failed");
+  }
+
+  return await storage.updateScheduledCall(call.id, { status: "completed", outcome: endedReason, failureReason: null });
+}
+
+/**
+ * Plan each schedule's next call, place calls and retries that are due,
+ * and close out calls whose window passed (e.g. while the server was down)
+ * @returns How many calls were placed
+ */
+export async function runCallSchedulerTick(now: Date = new Date()): Promise<number> {
+  for (const schedule of await storage.getCallSchedules()) {
+    if (!schedule.enabled) continue;
+    try {
+      await planNextCall(schedule, now);
+    } catch (error) {
+      console.error(`Error planning calls for schedule ${schedule.id}:`, error);
+    }
+  }
+
+  // Calls Vapi never reported back on, or that were interrupted by a restart while placing
+  for (const call of await storage.getScheduledCalls({ statuses: ["calling"] })) {
+    const since = call.lastAttemptAt ?? call.updatedAt;
+    if (now.getTime() - since.getTime() > CALL_REPORT_TIMEOUT_MS) {
+      await storage.updateScheduledCall(call.id, {
+        status: "failed",
+        failureReason: "No end-of-call report was received",
+      });
+    }
+  }
+
+  let placed = 0;
+  for (const due of await storage.getDueScheduledCalls(now)) {
+    if (now >= due.windowEndsAt) {
+      await storage.updateScheduledCall(due.id, {
+        status: "missed",
+        nextAttemptAt: null,
+        failureReason: due.attempts === 0 ? "The call window ended before the call could be placed" : due.failureReason,
+      });
+      continue;
+    }
+
+    const call = await storage.claimScheduledCall(due.id);
+    if (!call) continue; // Already picked up elsewhere
+
+    await placeScheduledCall(call, now);
+    placed++;
+  }
+
+  return placed;
+}
+
+/**
+ * Calls on the calendar between `from` and `to`: those the scheduler has
+ * planned or placed, plus upcoming windows of enabled schedules
+ */
+export async function getCallCalendar(from: Date, to: Date, patientId?: string): Promise<CallCalendarEntry[]> {
+  const maxTo = new Date(from.getTime() + MAX_CALENDAR_DAYS * DAY_MS);
+  if (to > maxTo) to = maxTo;
+
+  const [calls, schedules, registry] = await Promise.all([
+    storage.getScheduledCalls({ patientId, from, to }),
+    storage.getCallSchedules(),
+    storage.getPatients(),
+  ]);
+  const patients = new Map(registry.map((patient) => [patient.patientId, patient]));
+
+  const entries: CallCalendarEntry[] = calls.map((call) => ({
+    id: call.id,
+    scheduleId: call.scheduleId,
+    patientId: call.patientId,
+    patientName: patients.get(call.patientId)?.name || call.patientId,
+    windowStartsAt: call.windowStartsAt.toISOString(),
+    windowEndsAt: call.windowEndsAt.toISOString(),
+    status: call.status,
+    attempts: call.attempts,
+    outcome: call.outcome,
+    failureReason: call.failureReason,
+  }));
+
+  const planned = new Set(calls.map((call) => `${call.scheduleId}:${call.windowStartsAt.getTime()}`));
+  const now = new Date();
+
+  for (const schedule of schedules) {
+    if (!schedule.enabled || (patientId && schedule.patientId !== patientId)) continue;
+
+    const patient = patients.get(schedule.patientId);
+    const windows = getCallWindows(schedule, patient?.timezone, from > now ? from : now, to);
+    for (const window of windows) {
+      if (planned.has(`${schedule.id}:${window.startsAt.getTime()}`)) continue;
+      entries.push({
+        id: null,
+        scheduleId: schedule.id,
+        patientId: schedule.patientId,
+        patientName: patient?.name || schedule.patientId,
+        windowStartsAt: window.startsAt.toISOString(),
+        windowEndsAt: window.endsAt.toISOString(),
+        status: "scheduled",
+        attempts: 0,
+        outcome: null,
+        failureReason: null,
+      });
+    }
+  }
+
+  return entries.sort((a, b) => a.windowStartsAt.localeCompare(b.windowStartsAt));
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+// Place scheduled companion calls; state lives in the database, so a restart picks up where it left off
+export function startCallScheduler(intervalMs: number = 60 * 1000): void {
+  if (schedulerTimer) return;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return; // Don't overlap slow ticks
+    running = true;
+    try {
+      await runCallSchedulerTick();
+    } catch (error) {
+      console.error("Call scheduler tick failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, intervalMs);
+  void tick();
+  console.log(`⏰ Companion call scheduler running every ${Math.round(intervalMs / 1000)}s`);
+}
+
+export function stopCallScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -0,0 +1,469 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { startEscalation } from "./escalations";
+import { evaluateReading, evaluateSymptom, type Severity } from "./triageRules";
+import type { InsertVitalReading, PatientCallReport, PatientCallReportType } from "@shared/schema";
+
+const vitalTypes = ["blood pressure", "heart rate", "glucose", "oxygen", "temperature", "weight"] as const;
+type VitalType = typeof vitalTypes[number];
+
+// How each vital is stored, and the range a spoken reading must fall in to be believed
+const VITALS: Record<VitalType, { variable: string; unit: string; min: number; max: number }> = {
+  "blood pressure": { variable: "Blood Pressure", unit: "mmHg", min: 50, max: 300 }, // Systolic
+  "heart rate": { variable: "Heart Rate", unit: "bpm", min: 20, max: 250 },
+  glucose: { variable: "Glucose", unit: "mg/dL", min: 10, max: 1000 },
+  oxygen: { variable: "Oxygen Saturation", unit: "%", min: 50, max: 100 },
+  temperature: { variable: "Temperature", unit: "°F", min: 90, max: 110 },
+  weight: { variable: "Weight", unit: "lb", min: 50, max: 800 },
+};
+
+const DIASTOLIC = { variable: "Diastolic Pressure", min: 30, max: 200 };
+
+const recordVitalReadingSchema = z.object({
+  vital: z.enum(vitalTypes),
+  value: z.coerce.number(),
+  diastolic: z.coerce.number().optional(), // Blood pressure only: the "over" number
+  unit: z.string().trim().optional(),
+  takenAt: z.string().trim().optional(),
+});
+
+const reportSymptomSchema = z.object({
+  symptom: z.string().trim().min(1, "symptom is required").max(500),
+  severity: z.enum(["mild", "moderate", "severe"]).optional(),
+  painScale: z.coerce.number().int().min(0).max(10).optional(),
+  startedWhen: z.string().trim().max(200).optional(),
+});
+
+const requestCallbackSchema = z.object({
+  reason: z.string().trim().min(1, "reason is required").max(500),
+  urgency: z.enum(["routine", "soon", "urgent"]).default("routine"),
+  preferredTime: z.string().trim().max(200).optional(),
+});
+
+const confirmMedicationTakenSchema = z.object({
+  medication: z.string().trim().min(1, "medication is required").max(200),
+  taken: z.preprocess((value) => (value === "true" ? true : value === "false" ? false : value), z.boolean().default(true)),
+  takenAt: z.string().trim().optional(),
+  notes: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Function definitions the voice assistant is given on companion calls.
+ * Vapi sends calls to them to the assistant's server URL as "tool-calls"
+ * webhooks, answered by handleVapiToolCalls.
+ */
+export const VAPI_CALL_TOOLS = [
+  {
+    type: "function",
+    function: {
+      name: "recordVitalReading",
+      description: "Record a vital sign the patient reports, e.g. \"my blood pressure this morning was 150 over 90\".",
+      parameters: {
+        type: "object",
+        properties: {
+          vital: { type: "string", enum: vitalTypes, description: "Which vital sign" },
+          value: { type: "number", description: "The reading; for blood pressure the top (systolic) number" },
+          diastolic: { type: "number", description: "Blood pressure only: the bottom (diastolic) number" },
+          unit: { type: "string", description: "Unit if the patient gave one, e.g. \"C\" or \"kg\"" },
+          takenAt: { type: "string", description: "When the reading was taken, as an ISO 8601 date-time, if the patient said" },
+        },
+        required: ["vital", "value"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "reportSymptom",
+      description: "Record a symptom or health concern the patient describes.",
+      parameters: {
+        type: "object",
+        properties: {
+          symptom: { type: "string", description: "The symptom in the patient's words, in English" },
+          severity: { type: "string", enum: ["mild", "moderate", "severe"] },
+          painScale: { type: "number", description: "Pain from 0 to 10, if the patient rated it" },
+          startedWhen: { type: "string", description: "When it started, e.g. \"since yesterday\"" },
+        },
+        required: ["symptom"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "requestCallback",
+      description: "Ask the care team to call the patient back.",
+      parameters: {
+        type: "object",
+        properties: {
+          reason: { type: "string", description: "Why the patient wants a call, in English" },
+          urgency: { type: "string", enum: ["routine", "soon", "urgent"] },
+          preferredTime: { type: "string", description: "When the patient would like to be called" },
+        },
+        required: ["reason"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "confirmMedicationTaken",
+      description: "Record whether the patient took a medication.",
+      parameters: {
+        type: "object",
+        properties: {
+          medication: { type: "string", description: "The medication name" },
+          taken: { type: "boolean", description: "false if the patient missed or skipped the dose" },
+          takenAt: { type: "string", description: "When it was taken, as an ISO 8601 date-time, if the patient said" },
+          notes: { type: "string" },
+        },
+        required: ["medication"],
+      },
+    },
+  },
+];
+
+export interface ToolCallContext {
+  callId: string;
+  toolCallId: string | null;
+  patientId: string;
+  patientName: string;
+  age: number | null;
+  condition: string | null;
+}
+
+// A validated report, ready to save and grade
+interface ToolReport {
+  type: PatientCallReportType;
+  details: Record<string, any>;
+  summary: string;
+  severity: Severity;
+  alertReasons: string[];
+  readings?: InsertVitalReading[];
+  confirmation: string; // What the assistant should tell the patient for a green report
+}
+
+type ToolReportResult =
+  | { valid: true; report: ToolReport }
+  | { valid: false; message: string };
+
+// A date the patient gave, if it is real and not in the future
+function parseReportedTime(value: string | undefined, now: Date): Date {
+  const parsed = value ? new Date(value) : null;
+  return parsed && !isNaN(parsed.getTime()) && parsed <= now ? parsed : now;
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.errors.map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`).join("; ");
+}
+
+async function buildVitalReport(args: unknown, context: ToolCallContext, now: Date): Promise<ToolReportResult> {
+  const parsed = recordVitalReadingSchema.safeParse(args);
+  if (!parsed.success) return { valid: false, message: describeIssues(parsed.error) };
+
+  const { vital, diastolic, takenAt } = parsed.data;
+  const unit = (parsed.data.unit || "").toLowerCase();
+  const spec = VITALS[vital];
+  let value = parsed.data.value;
+
+  // Store one unit per vital so readings chart and grade consistently
+  if (vital === "temperature" && (unit.startsWith("c") || value <= 45)) {
+    value = Math.round((value * 9 / 5 + 32) * 10) / 10;
+  } else if (vital === "weight" && unit.startsWith("k")) {
+    value = Math.round(value * 2.20462 * 10) / 10;
+  } else if (vital === "glucose" && unit.startsWith("mmol")) {
+    value = Math.round(value * 18);
+  }
+
+  if (value < spec.min || value > spec.max) {
+    return { valid: false, message: `A ${vital} of ${parsed.data.value} is outside the range that can be recorded (${spec.min}-${spec.max} ${spec.unit})` };
+  }
+  if (diastolic != null) {
+    if (vital !== "blood pressure") {
+      return { valid: false, message: "diastolic only applies to blood pressure" };
+    }
+    if (diastolic < DIASTOLIC.min || diastolic > DIASTOLIC.max || diastolic >= value) {
+      return { valid: false, message: `${value} over ${diastolic} is not a valid blood pressure` };
+    }
+  }
+
+  const recordedAt = parseReportedTime(takenAt, now);
+  const readings: InsertVitalReading[] = [{
+    patientId: context.patientId,
+    variable: spec.variable,
+    value,
+    unit: spec.unit,
+    recordedAt,
+  }];
+  if (diastolic != null) {
+    readings.push({
+      patientId: context.patientId,
+      variable: DIASTOLIC.variable,
+      value: diastolic,
+      unit: spec.unit,
+      recordedAt,
+    });
+  }
+
+  // Grade with the same rules as uploaded readings
+  const rules = await storage.getActiveTriageRules();
+  const patientContext = { age: context.age, condition: context.condition };
+  const matches = [];
+  for (const reading of readings) {
+    const match = evaluateReading(rules, { name: reading.variable, value: reading.value }, patientContext);
+    reading.severity = match ? match.severity : "green";
+    if (match) matches.push(match);
+  }
+
+  const severity: Severity = matches.some((m) => m.severity === "red") ? "red" : matches.length > 0 ? "yellow" : "green";
+  const summary = diastolic != null
+    ? `${spec.variable} ${value}/${diastolic} ${spec.unit}`
+    : `${spec.variable} ${value} ${spec.unit}`;
+
+  return {
+    valid: true,
+    report: {
+      type: "vital",
+      details: { ...parsed.data, value, recordedAt: recordedAt.toISOString() },
+      summary,
+      severity,
+      alertReasons: matches.map((m) => m.reason),
+      readings,
+      confirmation: `Recorded ${summary}. Thank the patient for sharing it.`,
+    },
+  };
+}
+
+function buildSymptomReport(args: unknown): ToolReportResult {
+  const parsed = reportSymptomSchema.safeParse(args);
+  if (!parsed.success) return { valid: false, message: describeIssues(parsed.error) };
+
+  const { symptom, severity, painScale, startedWhen } = parsed.data;
+  const evaluation = evaluateSymptom({ description: symptom, severity, painScale });
+  const summary = [
+    symptom,
+    severity,
+    painScale != null ? `pain ${painScale}/10` : null,
+    startedWhen ? `since ${startedWhen.replace(/^since\s+/i, "")}` : null,
+  ].filter(Boolean).join(", ");
+
+  return {
+    valid: true,
+    report: {
+      type: "symptom",
+      details: parsed.data,
+      summary,
+      severity: evaluation.severity,
+      alertReasons: evaluation.reason ? [evaluation.reason] : [],
+      confirmation: "Noted the symptom for the care team. Let the patient know their care team will see it.",
+    },
+  };
+}
+
+function buildCallbackReport(args: unknown): ToolReportResult {
+  const parsed = requestCallbackSchema.safeParse(args);
+  if (!parsed.success) return { valid: false, message: describeIssues(parsed.error) };
+
+  const { reason, urgency, preferredTime } = parsed.data;
+  // What the patient wants to talk about can be a red-flag symptom on its own
+  const evaluation = evaluateSymptom({ description: reason });
+  const severity: Severity = evaluation.severity === "red" ? "red" : urgency === "urgent" ? "yellow" : evaluation.severity;
+  const alertReasons = evaluation.reason
+    ? [evaluation.reason]
+    : severity === "yellow" ? [`ATTENTION: Patient asked for an urgent callback about ${reason}`] : [];
+
+  return {
+    valid: true,
+    report: {
+      type: "callback",
+      details: parsed.data,
+      summary: `Callback requested (${urgency}): ${reason}${preferredTime ? `, preferably ${preferredTime}` : ""}`,
+      severity,
+      alertReasons,
+      confirmation: `Callback requested${preferredTime ? ` for ${preferredTime}` : ""}. Let the patient know someone from the care team will call them back.`,
+    },
+  };
+}
+
+function buildMedicationReport(args: unknown, now: Date): ToolReportResult {
+  const parsed = confirmMedicationTakenSchema.safeParse(args);
+  if (!parsed.success) return { valid: false, message: describeIssues(parsed.error) };
+
+  const { medication, taken, takenAt, notes } = parsed.data;
+  const recordedAt = parseReportedTime(takenAt, now);
+
+  return {
+    valid: true,
+    report: {
+      type: "medication",
+      details: { ...parsed.data, takenAt: taken ? recordedAt.toISOString() : null },
+      summary: `${medication} ${taken ? "taken" : "missed"}${notes ? ` (${notes})` : ""}`,
+      severity: taken ? "green" : "yellow",
+      alertReasons: taken ? [] : [`ATTENTION: Patient missed a dose of ${medication}`],
+      confirmation: taken
+        ? `Recorded that the patient took ${medication}.`
+        : `Recorded the missed dose of ${medication}. Remind the patient to follow their medication instructions and not to double up unless told to.`,
+    },
+  };
+}
+
+// What the assistant should say once a report is saved
+function spokenConfirmation(report: Pick<PatientCallReport, "severity">, confirmation: string): string {
+  if (report.severity === "red") {
+    return `${confirmation} This is concerning: tell the patient you are alerting their care team right away, and that if they feel it is an emergency they should hang up and call 911.`;
+  }
+  if (report.severity === "yellow") {
+    return `${confirmation} Tell the patient you have passed this on to their care team so they can follow up.`;
+  }
+  return confirmation;
+}
+
+/**
+ * Run one tool call from the voice assistant: validate the arguments, save a
+ * report linked to the patient, grade it with triage severity, escalate red
+ * and yellow reports, and return what the assistant should tell the patient.
+ * A retried tool call returns the original answer without saving again.
+ */
+export async function runCallTool(
+  name: string,
+  args: unknown,
+  context: ToolCallContext,
+  now: Date = new Date()
+): Promise<string> {
+  if (context.toolCallId) {
+    const existing = await storage.getPatientCallReportByToolCallId(context.toolCallId);
+    if (existing) return spokenConfirmation(existing, `Already recorded: ${existing.summary}.`);
+  }
+
+  let result: ToolReportResult;
+  switch (name) {
+    case "recordVitalReading":
+      result = await buildVitalReport(args, context, now);
+      break;
+    case "reportSymptom":
+      result = buildSymptomReport(args);
+      break;
+    case "requestCallback":
+      result = buildCallbackReport(args);
+      break;
+    case "confirmMedicationTaken":
+      result = buildMedicationReport(args, now);
+      break;
+    default:
+      return `Unknown tool ${name}. Nothing was recorded.`;
+  }
+
+  if (!result.valid) {
+    console.warn(`Rejected ${name} on call ${context.callId}: ${result.message}`);
+    return `Nothing was recorded: ${result.message}. Ask the patient to repeat it.`;
+  }
+
+  const { report } = result;
+  const saved = await storage.createPatientCallReport({
+    callId: context.callId,
+    toolCallId: context.toolCallId,
+    patientId: context.patientId,
+    type: report.type,
+    details: report.details,
+    summary: report.summary,
+    severity: report.severity,
+    alertReasons: report.alertReasons,
+  });
+  if (!saved) {
+    // The same tool call raced in on another request
+    return spokenConfirmation(report, `Already recorded: ${report.summary}.`);
+  }
+
+  if (report.readings) {
+    await storage.createVitalReadings(report.readings);
+  }
+  console.log(`📝 ${context.patientName} reported ${report.summary} on call ${context.callId} (${report.severity})`);
+
+  if (report.severity !== "green") {
+    try {
+      const escalation = await startEscalation({
+        id: `call-report-${saved.id}`,
+        severity: report.severity,
+        patientId: context.patientId,
+        patientName: context.patientName,
+        message: storage.formatSmsMessage({
+          patientName: context.patientName,
+          age: context.age,
+          variables: [{ name: report.summary, value: "reported on a companion call" }],
+          alertReasons: report.alertReasons,
+          severity: report.severity,
+        }),
+      });
+      if (escalation) {
+        await storage.updatePatientCallReport(saved.id, { escalationId: escalation.id });
+      }
+    } catch (error) {
+      // The report is saved and shows on the patient's record even if paging fails
+      console.error(`Error escalating call report ${saved.id}:`, error);
+    }
+  }
+
+  return spokenConfirmation(saved, report.confirmation);
+}
+
+// Said when the call can't be tied to a patient, so nothing is saved
+const UNLINKED_CALL_RESULT =
+  "Couldn't record this because the call isn't linked to a patient record. Let the patient know and offer to pass it on to the care team.";
+
+/**
+ * Answer a "tool-calls" (or legacy "function-call") webhook. Vapi waits for
+ * this response and gives each result to the assistant, which tells the
+ * patient in their own language.
+ */
+export async function handleVapiToolCalls(message: any): Promise<Record<string, any>> {
+  const call = message?.call;
+  const toolCalls: any[] = message.toolCallList || message.toolCalls || [];
+
+  // Reports, readings and escalations are only saved against a known patient
+  const patientId: string | undefined = call?.metadata?.patientId;
+  const patient = patientId ? await storage.getPatient(patientId) : undefined;
+  const prompt = patientId && !patient ? await storage.getLatestPatientPrompt(patientId) : undefined;
+  if (!patientId || (!patient && !prompt)) {
+    console.warn(`Rejected tool calls on call ${call?.id}: no patient ${patientId ? `matches ${patientId}` : "on the call"}`);
+    if (message.type === "function-call") return { result: UNLINKED_CALL_RESULT };
+    return { results: toolCalls.map((toolCall) => ({ toolCallId: toolCall.id, result: UNLINKED_CALL_RESULT })) };
+  }
+
+  const baseContext = {
+    callId: call?.id || "unknown",
+    patientId,
+    patientName: patient?.name || prompt?.name || call?.metadata?.patientName || patientId,
+    age: patient?.age ?? prompt?.age ?? null,
+    condition: patient?.condition ?? prompt?.condition ?? null,
+  };
+
+  // Legacy single function call, answered with one result
+  if (message.type === "function-call") {
+    const { name, parameters } = message.functionCall || {};
+    const result = await runCallTool(name, parameters, { ...baseContext, toolCallId: null });
+    return { result };
+  }
+
+  const results = [];
+  for (const toolCall of toolCalls) {
+    const fn = toolCall.function || {};
+    let args = fn.arguments ?? {};
+    try {
+      if (typeof args === "string") args = JSON.parse(args);
+      const result = await runCallTool(fn.name, args, { ...baseContext, toolCallId: toolCall.id || null });
+      results.push({ toolCallId: toolCall.id, result });
+    } catch (error) {
+      console.error(`Error running tool ${fn.name} on call ${baseContext.callId}:`, error);
+      results.push({
+        toolCallId: toolCall.id,
+        error: "Could not record this right now. Let the patient know and offer to pass it on to the care team.",
+      });
+    }
+  }
+
+  return { results };
+}
+
+export function isToolCallMessage(message: any): boolean {
+  return message?.type === "tool-calls" || message?.type === "function-call";
+}
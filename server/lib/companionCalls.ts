@@ -0,0 +1,178 @@
+import { storage } from "../storage";
+import { getCallLanguageOverrides, getPatientLanguage } from "./language";
+import { trackLiveCall } from "./liveCalls";
+import { VAPI_CALL_TOOLS } from "./callTools";
+import type { PatientPrompt } from "@shared/schema";
+
+export type ContextCallResult =
+  | { success: true; callId: string }
+  | { success: false; status: number; message: string; vapiError?: unknown };
+
+// Helper function to replace both old and new variable formats
+export function replaceVariables(template: string, variables: {
+  patientName: string;
+  patientAge: string;
+  patientCondition: string;
+  patientPrompt: string;
+  conversationHistory: string;
+}): string {
+  let result = template;
+
+  // Replace old template format (PATIENT_NAME)
+  result = result
+    .replace(/PATIENT_NAME/g, variables.patientName)
+    .replace(/PATIENT_AGE/g, variables.patientAge)
+    .replace(/PATIENT_CONDITION/g, variables.patientCondition)
+    .replace(/PATIENT_PROMPT/g, variables.patientPrompt)
+    .replace(/CONVERSATION_HISTORY/g, variables.conversationHistory);
+
+  // Replace new VAPI variable format ({{patientName}})
+  result = result
+    .replace(/\{\{patientName\}\}/g, variables.patientName)
+    .replace(/\{\{patientAge\}\}/g, variables.patientAge)
+    .replace(/\{\{patientCondition\}\}/g, variables.patientCondition)
+    .replace(/\{\{patientPrompt\}\}/g, variables.patientPrompt)
+    .replace(/\{\{conversationHistory\}\}/g, variables.conversationHistory);
+
+  return result;
+}
+
+/**
+ * Place a Vapi call carrying the patient's care context: the voice agent
+ * template filled in with the prompt and recent call history, spoken in the
+ * patient's preferred language.
+ * @param phoneNumber E.164 number to call
+ * @param metadata Extra call metadata, echoed back in Vapi webhooks
+ */
+export async function startContextCall(
+  prompt: PatientPrompt,
+  phoneNumber: string,
+  metadata: Record<string, unknown> = {}
+): Promise<ContextCallResult> {
+  const { patientId, name: patientName, prompt: triagePrompt, condition, age } = prompt;
+
+  // Get voice agent template for proper formatting
+  const voiceAgentTemplate = await storage.getVoiceAgentTemplate();
+
+  // Get comprehensive call history context for enhanced patient continuity
+  const callHistoryContext = await storage.getCallHistoryContext(patientId, 5);
+
+  // Create enhanced system prompt using helper function to support both variable formats
+  const enhancedSystemPrompt = replaceVariables(voiceAgentTemplate, {
+    patientName: patientName || patientId,
+    patientAge: age?.toString() || "unknown age",
+    patientCondition: condition || "general health assessment",
+    patientPrompt: triagePrompt || "No specific care assessment available",
+    conversationHistory: callHistoryContext.contextText,
+  });
+
+  console.log("🎯 Enhanced system prompt prepared:", {
+    templateLength: voiceAgentTemplate.length,
+    finalLength: enhancedSystemPrompt.length,
+    hasCallHistory: callHistoryContext.hasHistory,
+    recentCallsCount: callHistoryContext.recentCalls,
+    contextLength: callHistoryContext.contextText.length,
+  });
+
+  // Speak, transcribe and greet in the patient's preferred language
+  const language = await getPatientLanguage(patientId);
+  const callLanguage = getCallLanguageOverrides(language);
+
+  // Prepare call request with enhanced system prompt
+  const callRequest = {
+    phoneNumberId: process.env.VAPI_PHONE_NUMBER_ID,
+    customer: {
+      number: phoneNumber,
+    },
+    assistantId: process.env.VAPI_ASSISTANT_ID,
+    assistantOverrides: {
+      ...callLanguage.overrides,
+      // Primary method: Complete system prompt override with patient data injected
+      model: {
+        provider: "openai",
+        model: "gpt-4o-mini",
+        messages: [
+          {
+            role: "system",
+            content: enhancedSystemPrompt + callLanguage.instruction,
+          },
+        ],
+        // Let the patient report readings, symptoms, callbacks and medications mid-call
+        tools: VAPI_CALL_TOOLS,
+      },
+      // Webhook events the live call view, tool handling and end-of-call report rely on
+      serverMessages: ["transcript", "speech-update", "status-update", "tool-calls", "end-of-call-report"],
+      // Backup method: Variable values for template replacement
+      variableValues: {
+        patientName: patientName || patientId,
+        patientAge: age || 0,
+        patientCondition: condition || "general health assessment",
+        patientPrompt: triagePrompt || "No specific care assessment available",
+        conversationHistory: callHistoryContext.contextText,
+      },
+    },
+    metadata: {
+      patientId,
+      patientName,
+      callType: "context-aware",
+      hasContext: true,
+      batchId: prompt.batchId,
+      language,
+      ...metadata,
+    },
+  };
+
+  console.log("🚀 Final call request prepared:", {
+    phoneNumber,
+    assistantId: callRequest.assistantId,
+    systemPromptLength: callRequest.assistantOverrides.model.messages[0].content.length,
+    metadata: callRequest.metadata,
+  });
+
+  // Try private key first, then public key
+  const apiKey = process.env.VAPI_PRIVATE_KEY || process.env.VAPI_PUBLIC_KEY;
+  if (!apiKey) {
+    return {
+      success: false,
+      status: 500,
+      message: "VAPI API key not configured (need either VAPI_PRIVATE_KEY or VAPI_PUBLIC_KEY)",
+    };
+  }
+
+  console.log(`🔑 Using VAPI ${process.env.VAPI_PRIVATE_KEY ? "private" : "public"} key`);
+
+  const vapiResponse = await fetch("https://api.vapi.ai/call", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(callRequest),
+  });
+
+  if (!vapiResponse.ok) {
+    const errorData = await vapiResponse.json().catch(() => ({}));
+    console.error("❌ VAPI call error:", {
+      status: vapiResponse.status,
+      statusText: vapiResponse.statusText,
+      error: errorData,
+    });
+
+    return {
+      success: false,
+      status: vapiResponse.status,
+      message: errorData.message || "Failed to initiate call",
+      vapiError: errorData,
+    };
+  }
+
+  const callData = await vapiResponse.json();
+  console.log("📞 ✅ Call initiated successfully:", callData.id);
+  trackLiveCall({
+    callId: callData.id,
+    patientId,
+    patientName: patientName || patientId,
+    phoneNumber,
+  });
+  return { success: true, callId: callData.id };
+}
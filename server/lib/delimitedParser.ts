@@ -0,0 +1,154 @@
+// CSV/TSV parsing for device vendor exports, with encoding and delimiter detection
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DelimitedFile {
+  rows: (string | number | null)[][];
+  encoding: TextEncoding;
+  delimiter: string;
+}
+
+// Delimiters we try, in order of preference when counts tie
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+/**
+ * Work out the text encoding from the byte order mark, falling back to
+ * Windows-1252 when the bytes aren't valid UTF-8 (older Excel "Save as CSV")
+ */
+export function detectEncoding(buffer: Buffer): { encoding: TextEncoding; bomLength: number } {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { encoding: 'utf-8', bomLength: 3 };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { encoding: 'utf-16le', bomLength: 2 };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { encoding: 'utf-16be', bomLength: 2 };
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return { encoding: 'utf-8', bomLength: 0 };
+  } catch {
+    return { encoding: 'windows-1252', bomLength: 0 };
+  }
+}
+
+export function decodeText(buffer: Buffer): { text: string; encoding: TextEncoding } {
+  const { encoding, bomLength } = detectEncoding(buffer);
+  const body = buffer.subarray(bomLength);
+
+  if (encoding === 'utf-16be') {
+    // TextDecoder has no UTF-16BE in every Node build, so swap to little-endian first
+    const swapped = Buffer.from(body);
+    swapped.swap16();
+    return { text: new TextDecoder('utf-16le').decode(swapped), encoding };
+  }
+
+  return { text: new TextDecoder(encoding).decode(body), encoding };
+}
+
+// Count delimiter occurrences outside quoted fields
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the same, largest number of columns
+ */
+export function detectDelimiter(text: string, fallback = ','): string {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim()).slice(0, 20);
+  if (lines.length === 0) return fallback;
+
+  let best = fallback;
+  let bestScore = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    const header = counts[0];
+    if (header === 0) continue;
+
+    // Lines that agree with the header's column count
+    const consistent = counts.filter(count => count === header).length;
+    const score = consistent * 1000 + header;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Plain numbers become numbers, as they would in a workbook; identifiers with leading zeros stay text
+function toCellValue(field: string): string | number | null {
+  const value = field.trim();
+  if (value === '') return null;
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Split delimited text into rows (RFC 4180 quoting: doubled quotes, embedded delimiters and newlines)
+ */
+export function parseDelimited(text: string, delimiter: string): (string | number | null)[][] {
+  const rows: (string | number | null)[][] = [];
+  let row: (string | number | null)[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(toCellValue(field));
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    if (row.some(value => value !== null)) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Decode and parse a CSV/TSV file. TSV files default to tabs, but the
+ * delimiter is always confirmed against the content since vendors mislabel exports.
+ */
+export function readDelimitedFile(buffer: Buffer, fileName = ''): DelimitedFile {
+  const { text, encoding } = decodeText(buffer);
+  const fallback = /\.tsv$/i.test(fileName) ? '\t' : ',';
+  const delimiter = detectDelimiter(text, fallback);
+
+  return { rows: parseDelimited(text, delimiter), encoding, delimiter };
+}
@@ -0,0 +1,65 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * Read SMTP settings from the environment. A local sink such as Mailpit
+ * only needs SMTP_HOST=localhost and SMTP_PORT=1025.
+ * @returns The config, or null if SMTP_HOST is not set
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || "587");
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM || "CalicoCare <no-reply@localhost>",
+  };
+}
+
+let transporter: Transporter | null = null;
+let transporterKey = "";
+
+function getTransporter(config: SmtpConfig): Transporter {
+  // Rebuild if the environment changed (e.g. between tests)
+  const key = JSON.stringify(config);
+  if (!transporter || key !== transporterKey) {
+    transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    });
+    transporterKey = key;
+  }
+  return transporter;
+}
+
+/**
+ * Send a plain-text email
+ * @returns The SMTP message ID
+ */
+export async function sendEmail(to: string, subject: string, text: string): Promise<string> {
+  const config = getSmtpConfig();
+  if (!config) {
+    throw new Error("SMTP not configured");
+  }
+
+  const info = await getTransporter(config).sendMail({ from: config.from, to, subject, text });
+  console.log(`Email sent to ${to} (${info.messageId})`);
+  return info.messageId;
+}
@@ -5,9 +5,19 @@
  * visualizations, and insights based on patient data.
  */
 
-import { PatientData, PatientVitals, VitalMeasurement } from '@shared/types';
+import PdfPrinter from 'pdfmake';
+import { PatientVitals, VitalMeasurement } from '@shared/types';
+import { getAlertThresholds, type ThresholdRule } from './triageRules';
 
-// Remove local interfaces since we're importing them
+// PDF's built-in fonts, so no font files need to ship with the server
+const STANDARD_FONTS = {
+  Helvetica: {
+    normal: 'Helvetica',
+    bold: 'Helvetica-Bold',
+    italics: 'Helvetica-Oblique',
+    bolditalics: 'Helvetica-BoldOblique'
+  }
+};
 
 // Define types for vital signs measurements
 export interface VitalStats {
@@ -18,81 +28,14 @@ export interface VitalStats {
   alertCount: number;
 }
 
-/**
- * Generate sample vitals data for a patient report
- * This function simulates what you'd get from a real database of patient readings
- */
-export function generateSampleVitals(patientData: any, days = 30): PatientVitals {
-  const vitals = {
-    heartRate: [] as VitalMeasurement[],
-    oxygenSaturation: [] as VitalMeasurement[],
-    glucose: [] as VitalMeasurement[]
-  };
-  
-  // Base values and thresholds vary by patient condition
-  const isHealthy = patientData.healthStatus === 'healthy';
-  
-  // Base values
-  const hrBase = isHealthy ? 72 : 85;
-  const o2Base = isHealthy ? 96 : 91;
-  const glucoseBase = isHealthy ? 110 : 140;
-  
-  // Thresholds
-  const hrHighThreshold = 100; 
-  const hrLowThreshold = 60;
-  const o2LowThreshold = 90;
-  const glucoseHighThreshold = 160;
-  
-  // Generate daily readings for the specified period
-  const today = new Date();
-  const startDate = new Date(today);
-  startDate.setDate(today.getDate() - days);
-  
-  for (let i = 0; i < days; i++) {
-    const currentDate = new Date(startDate);
-    currentDate.setDate(startDate.getDate() + i);
-    
-    // Heart rate: more variation for unhealthy patients
-    const hrVariation = isHealthy ? 10 : 25;
-    const heartRate = Math.round(hrBase + (Math.random() * 2 - 1) * hrVariation);
-    const isHeartRateAlert = heartRate > hrHighThreshold || heartRate < hrLowThreshold;
-    
-    // Oxygen: less variation but lower for unhealthy patients
-    const o2Variation = isHealthy ? 2 : 3;
-    const oxygen = Math.round((o2Base + (Math.random() * 2 - 1) * o2Variation) * 10) / 10;
-    const isOxygenAlert = oxygen < o2LowThreshold;
-    
-    // Glucose: more variation for unhealthy patients
-    const glucoseVariation = isHealthy ? 20 : 40;
-    const glucose = Math.round(glucoseBase + (Math.random() * 2 - 1) * glucoseVariation);
-    const isGlucoseAlert = glucose > glucoseHighThreshold;
-    
-    vitals.heartRate.push({
-      date: currentDate,
-      value: heartRate,
-      isAlert: isHeartRateAlert
-    });
-    
-    vitals.oxygenSaturation.push({
-      date: currentDate,
-      value: oxygen,
-      isAlert: isOxygenAlert
-    });
-    
-    vitals.glucose.push({
-      date: currentDate,
-      value: glucose,
-      isAlert: isGlucoseAlert
-    });
-  }
-  
-  return vitals;
-}
-
 /**
  * Calculate statistics for a set of vital sign readings
  */
 export function calculateStats(readings: VitalMeasurement[]): VitalStats {
+  if (readings.length === 0) {
+    return { average: 0, minimum: 0, maximum: 0, stdDev: 0, alertCount: 0 };
+  }
+
   const values = readings.map(r => r.value);
   const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
   const min = Math.min(...values);
@@ -119,30 +62,37 @@ export function calculateStats(readings: VitalMeasurement[]): VitalStats {
 }
 
 /**
- * Generate plot points for a line chart
+ * Generate plot points for a line chart.
+ * Points are placed by timestamp across the report period, so gaps in
+ * monitoring show up as gaps on the chart.
  */
 export function generateChartPoints(
   readings: VitalMeasurement[], 
   width: number, 
   height: number, 
-  padding: number = 40
+  padding: number = 40,
+  period?: { from: Date; to: Date }
 ) {
+  if (readings.length === 0) return [];
+
   const values = readings.map(r => r.value);
   const min = Math.min(...values) - (Math.min(...values) * 0.05); // 5% padding
   const max = Math.max(...values) + (Math.max(...values) * 0.05); // 5% padding
-  const range = max - min;
+  const range = max - min || 1;
   
   // Available space for plotting
   const plotWidth = width - (padding * 2);
   const plotHeight = height - (padding * 2);
   
-  // Scale factors
-  const xScale = plotWidth / (readings.length - 1);
+  // Time span covered by the x-axis
+  const start = (period?.from ?? readings[0].date).getTime();
+  const end = (period?.to ?? readings[readings.length - 1].date).getTime();
+  const span = end - start;
   const yScale = plotHeight / range;
   
   // Generate coordinates
-  return readings.map((reading, index) => {
-    const x = padding + (index * xScale);
+  return readings.map((reading) => {
+    const x = padding + (span > 0 ? ((reading.date.getTime() - start) / span) * plotWidth : plotWidth / 2);
     const y = height - (padding + ((reading.value - min) * yScale)); // Flip Y axis
     
     return {
@@ -166,10 +116,15 @@ export function createLineChart(
   highThreshold: number | null = null, 
   lowThreshold: number | null = null
 ) {
-  const canvasCommands = [];
+  const canvasCommands: any[] = [];
   
   // Background
   canvasCommands.push({ type: 'rect', x: 0, y: 0, w: width, h: height, color: '#f8f9fa' });
+
+  if (points.length === 0) {
+    canvasCommands.push({ type: 'text', x: width / 2, y: height / 2, text: 'No readings in this period', align: 'center', fontSize: 10 });
+    return canvasCommands;
+  }
   
   // Draw axes
   canvasCommands.push({ type: 'line', x1: 40, y1: height - 40, x2: width - 40, y2: height - 40, lineWidth: 1, color: '#666' }); // x-axis
@@ -179,21 +134,22 @@ export function createLineChart(
   const values = points.map(p => p.value);
   const min = Math.min(...values);
   const max = Math.max(...values);
-  const range = max - min;
+  const range = max - min || 1;
 
-  // Calculate and draw trend line using linear regression
+  // Calculate and draw trend line using linear regression over the points' time positions
   const n = points.length;
-  const sumX = points.reduce((acc: number, p: any, i: number) => acc + i, 0);
+  const sumX = points.reduce((acc: number, p: any) => acc + p.x, 0);
   const sumY = points.reduce((acc: number, p: any) => acc + p.value, 0);
-  const sumXY = points.reduce((acc: number, p: any, i: number) => acc + (i * p.value), 0);
-  const sumXX = points.reduce((acc: number, p: any, i: number) => acc + (i * i), 0);
+  const sumXY = points.reduce((acc: number, p: any) => acc + (p.x * p.value), 0);
+  const sumXX = points.reduce((acc: number, p: any) => acc + (p.x * p.x), 0);
   
-  const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+  const denominator = n * sumXX - sumX * sumX;
+  const slope = denominator !== 0 ? (n * sumXY - sumX * sumY) / denominator : 0;
   const intercept = (sumY - slope * sumX) / n;
   
-  // Calculate trend line points
-  const startY = intercept;
-  const endY = slope * (n - 1) + intercept;
+  // Calculate trend line points at the left and right edges of the plot
+  const startY = slope * 40 + intercept;
+  const endY = slope * (width - 40) + intercept;
   
   const trendStartY = height - 40 - ((startY - min) / range * (height - 80));
   const trendEndY = height - 40 - ((endY - min) / range * (height - 80));
@@ -319,7 +275,7 @@ export function createLineChart(
   });
   
   // Draw x-axis labels (dates) with "Measurement Date" label
-  const dateIndices = [0, Math.floor(points.length / 2), points.length - 1];
+  const dateIndices = Array.from(new Set([0, Math.floor(points.length / 2), points.length - 1]));
   dateIndices.forEach(i => {
     const point = points[i];
     const dateStr = point.date.toLocaleDateString();
@@ -346,29 +302,61 @@ export function createLineChart(
   return canvasCommands;
 }
 
+/**
+ * Count the distinct days in the period that have at least one reading
+ */
+function countDaysWithReadings(patientVitals: PatientVitals): number {
+  const days = new Set<string>();
+  for (const series of [patientVitals.heartRate, patientVitals.oxygenSaturation, patientVitals.glucose]) {
+    series.forEach(r => days.add(r.date.toDateString()));
+  }
+  return days.size;
+}
+
+/**
+ * Summary sentence for one vital, or a note that nothing was recorded
+ */
+function describeVital(label: string, readings: VitalMeasurement[], stats: VitalStats, unit: string, alertText: string): string {
+  if (readings.length === 0) {
+    return `No ${label} readings were recorded in this period.`;
+  }
+  return `${label.charAt(0).toUpperCase() + label.slice(1)} averaged ${stats.average.toFixed(1)}${unit} across ${readings.length} readings, with ${stats.alertCount} ${alertText}.`;
+}
+
 /**
  * Generate the document definition for a comprehensive patient report
+ * covering the stored readings for the given period. Chart thresholds come
+ * from the triage rules, so the report agrees with the alerts.
  */
-export function generatePatientReportDefinition(patientData: any, patientVitals: PatientVitals) {
+export function generatePatientReportDefinition(
+  patientData: any,
+  patientVitals: PatientVitals,
+  period: { from: Date; to: Date },
+  rules: ThresholdRule[]
+) {
   // Calculate stats for each vital
   const heartRateStats = calculateStats(patientVitals.heartRate);
   const oxygenStats = calculateStats(patientVitals.oxygenSaturation);
   const glucoseStats = calculateStats(patientVitals.glucose);
   
   // Format dates for the report
-  const reportStartDate = patientVitals.heartRate[0].date;
-  const reportEndDate = patientVitals.heartRate[patientVitals.heartRate.length - 1].date;
-  const dateRange = `${reportStartDate.toLocaleDateString()} - ${reportEndDate.toLocaleDateString()}`;
+  const dateRange = `${period.from.toLocaleDateString()} - ${period.to.toLocaleDateString()}`;
+  const periodDays = Math.max(1, Math.ceil((period.to.getTime() - period.from.getTime()) / (24 * 60 * 60 * 1000)));
+  const daysWithReadings = countDaysWithReadings(patientVitals);
   
   // Generate chart data for each vital
-  const heartRatePoints = generateChartPoints(patientVitals.heartRate, 500, 200);
-  const oxygenPoints = generateChartPoints(patientVitals.oxygenSaturation, 500, 200);
-  const glucosePoints = generateChartPoints(patientVitals.glucose, 500, 200);
+  const heartRatePoints = generateChartPoints(patientVitals.heartRate, 500, 200, 40, period);
+  const oxygenPoints = generateChartPoints(patientVitals.oxygenSaturation, 500, 200, 40, period);
+  const glucosePoints = generateChartPoints(patientVitals.glucose, 500, 200, 40, period);
   
-  // Generate charts
-  const heartRateChart = createLineChart(heartRatePoints, 500, 200, 'bpm', 100, 60);
-  const oxygenChart = createLineChart(oxygenPoints, 500, 200, '%', null, 90);
-  const glucoseChart = createLineChart(glucosePoints, 500, 200, 'mg/dL', 160, null);
+  // Generate charts, with thresholds where this patient's readings start to alert
+  const context = { condition: patientData.condition, age: patientData.age };
+  const heartRateLines = getAlertThresholds(rules, 'heart rate', context);
+  const oxygenLines = getAlertThresholds(rules, 'oxygen saturation', context);
+  const glucoseLines = getAlertThresholds(rules, 'glucose', context);
+  const heartRateChart = createLineChart(heartRatePoints, 500, 200, 'bpm', heartRateLines.high, heartRateLines.low);
+  const oxygenChart = createLineChart(oxygenPoints, 500, 200, '%', oxygenLines.high, oxygenLines.low);
+  const glucoseChart = createLineChart(glucosePoints, 500, 200, 'mg/dL', glucoseLines.high, glucoseLines.low);
   
   return {
     // Set default font to Helvetica to ensure no undefined fonts are used
@@ -419,7 +407,13 @@ export function generatePatientReportDefinition(patientData: any, patientVitals:
       // Summary section
       { text: 'Summary:', style: 'sectionHeader' },
       { 
-        text: `${patientData.name} demonstrated ${heartRateStats.alertCount > 10 ? 'variable' : 'consistent'} heart rate readings with ${heartRateStats.alertCount} instances exceeding normal thresholds. Oxygen saturation averaged ${oxygenStats.average.toFixed(1)}% with ${oxygenStats.alertCount} readings below 90%. Glucose levels remained ${glucoseStats.alertCount > 5 ? 'somewhat elevated' : 'within normal range'} with an average of ${glucoseStats.average.toFixed(1)} mg/dL. ${patientData.isAlert === 'true' ? 'Some health markers require attention.' : 'Overall health markers are stable.'} Continued monitoring is recommended with special attention to ${patientData.condition}.`,
+        text: [
+          describeVital('heart rate', patientVitals.heartRate, heartRateStats, ' bpm', 'outside normal thresholds'),
+          describeVital('oxygen saturation', patientVitals.oxygenSaturation, oxygenStats, '%', 'below normal thresholds'),
+          describeVital('glucose', patientVitals.glucose, glucoseStats, ' mg/dL', 'outside normal thresholds'),
+          patientData.isAlert === 'true' ? 'Some health markers require attention.' : 'Overall health markers are stable.',
+          `Continued monitoring is recommended with special attention to ${patientData.condition}.`
+        ].join(' '),
         margin: [0, 0, 0, 15]
       },
       
@@ -487,7 +481,7 @@ export function generatePatientReportDefinition(patientData: any, patientVitals:
       { text: 'Additional Insights:', style: 'sectionHeader', pageBreak: 'before' },
       {
         ul: [
-          'Patient has maintained consistent monitoring compliance throughout the reporting period.',
+          `Readings were submitted on ${daysWithReadings} of ${periodDays} days in the reporting period.`,
           `${patientData.isAlert === 'true' ? 'Some vital signs show concerning patterns that require medical attention.' : 'No critical symptoms were reported during the monitoring period.'}`,
           `Patient condition (${patientData.condition}) is being managed ${patientData.isAlert === 'true' ? 'with some challenges' : 'effectively'}`,
           'No reported symptoms of shortness of breath, cough, phlegm, chest pain/pressure, or condition-related changes.'
@@ -537,4 +531,19 @@ export function generatePatientReportDefinition(patientData: any, patientVitals:
       }
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Render a document definition to a PDF buffer
+ */
+export function renderPdf(docDefinition: any): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const printer = new PdfPrinter(STANDARD_FONTS);
+    const doc = printer.createPdfKitDocument(docDefinition);
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    doc.end();
+  });
+}
@@ -0,0 +1,450 @@
+import { randomInt } from "crypto";
+import { storage } from "../storage";
+import type {
+  AlertEscalation,
+  EscalationPolicy,
+  OnCallMember,
+  OnCallRotation,
+} from "@shared/schema";
+
+// The subset of a policy row the scheduler needs (lets us use built-in defaults too)
+export type EscalationPolicyConfig = Pick<
+  EscalationPolicy,
+  "severity" | "mode" | "steps" | "ackTimeoutMinutes" | "digestIntervalMinutes" | "enabled"
+>;
+
+/**
+ * Built-in policies used until staff configure their own.
+ * Red alerts page primary -> secondary -> care manager, yellow alerts are batched into a digest.
+ */
+export const DEFAULT_ESCALATION_POLICIES: EscalationPolicyConfig[] = [
+  {
+    severity: "red",
+    mode: "escalate",
+    steps: ["primary", "secondary", "care_manager"],
+    ackTimeoutMinutes: 15,
+    digestIntervalMinutes: 60,
+    enabled: true,
+  },
+  {
+    severity: "yellow",
+    mode: "digest",
+    steps: ["primary"],
+    ackTimeoutMinutes: 15,
+    digestIntervalMinutes: 60,
+    enabled: true,
+  },
+];
+
+const ROLE_LABELS: Record<string, string> = {
+  primary: "primary on-call",
+  secondary: "secondary on-call",
+  care_manager: "care manager",
+};
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Policy for a severity, falling back to the built-in default
+ */
+export async function getEscalationPolicy(severity: string): Promise<EscalationPolicyConfig | null> {
+  try {
+    const policies = await storage.getEscalationPolicies();
+    const configured = policies.find((p: EscalationPolicy) => p.severity === severity);
+    if (configured) return configured;
+  } catch (error) {
+    console.error("Error loading escalation policies, using defaults:", error);
+  }
+  return DEFAULT_ESCALATION_POLICIES.find((p) => p.severity === severity) ?? null;
+}
+
+/**
+ * Work out which rotation member is on call at a given time
+ */
+export function getOnCallMember(rotation: OnCallRotation, at: Date = new Date()): OnCallMember | null {
+  const members = rotation.members || [];
+  if (!rotation.enabled || members.length === 0) return null;
+
+  const elapsed = at.getTime() - new Date(rotation.startsAt).getTime();
+  if (elapsed < 0) return null; // Rotation hasn't started yet
+
+  const shiftIndex = Math.floor(elapsed / (rotation.shiftHours * 60 * MINUTE));
+  return members[shiftIndex % members.length];
+}
+
+/**
+ * Resolve the person to page for a role. The primary role falls back to the
+ * single alert phone setting so existing deployments keep working.
+ */
+export async function resolveOnCallContact(role: string, at: Date = new Date()): Promise<OnCallMember | null> {
+  const rotations = await storage.getOnCallRotations();
+
+  for (const rotation of rotations.filter((r) => r.role === role)) {
+    const member = getOnCallMember(rotation, at);
+    if (member) return member;
+  }
+
+  if (role === "primary") {
+    const alertPhone = await storage.getAlertPhone();
+    if (alertPhone) return { name: "Alert phone", phone: alertPhone };
+  }
+
+  return null;
+}
+
+// No 0/O or 1/I, so codes survive being read off a lock screen and retyped
+const ACK_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ACK_CODE_LENGTH = 6;
+
+async function generateAckCode(): Promise<string> {
+  // Random enough not to be guessed; retry if it collides with an open escalation
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < ACK_CODE_LENGTH; i++) {
+      code += ACK_CODE_ALPHABET[randomInt(ACK_CODE_ALPHABET.length)];
+    }
+    if (!(await storage.getEscalationByAckCode(code))) return code;
+  }
+}
+
+/**
+ * Page the contact for the escalation's current step. Steps with nobody on
+ * call, or whose SMS fails, are skipped so the alert keeps moving.
+ */
+async function pageCurrentStep(escalation: AlertEscalation, policy: EscalationPolicyConfig): Promise<AlertEscalation> {
+  for (let step = escalation.currentStep; step < policy.steps.length; step++) {
+    const role = policy.steps[step];
+    const contact = await resolveOnCallContact(role);
+
+    if (!contact) {
+      await storage.createEscalationEvent({
+        escalationId: escalation.id,
+        type: "skipped",
+        step,
+        role,
+        message: `No ${ROLE_LABELS[role] || role} configured`,
+      });
+      continue;
+    }
+
+    try {
+      const dispatch = await storage.sendTrackedSms({
+        alertId: escalation.alertId,
+        batchId: escalation.batchId,
+        patientId: escalation.patientId,
+        patientName: escalation.patientName,
+        severity: escalation.severity,
+        recipient: contact.phone,
+        body: `${escalation.summary}\n\nReply ACK ${escalation.ackCode} to acknowledge.`,
+      });
+
+      await storage.createEscalationEvent({
+        escalationId: escalation.id,
+        type: "paged",
+        step,
+        role,
+        recipient: contact.phone,
+        dispatchId: dispatch.id,
+        message: `Paged ${contact.name} (${ROLE_LABELS[role] || role})`,
+      });
+
+      return await storage.updateAlertEscalation(escalation.id, {
+        currentStep: step,
+        nextActionAt: new Date(Date.now() + policy.ackTimeoutMinutes * MINUTE),
+      });
+    } catch (error) {
+      await storage.createEscalationEvent({
+        escalationId: escalation.id,
+        type: "page_failed",
+        step,
+        role,
+        recipient: contact.phone,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Nobody left to page - keep the ack code valid so a late reply still closes it
+  await storage.createEscalationEvent({
+    escalationId: escalation.id,
+    type: "exhausted",
+    step: policy.steps.length,
+    message: "Escalation chain exhausted without acknowledgement",
+  });
+
+  return await storage.updateAlertEscalation(escalation.id, {
+    status: "exhausted",
+    currentStep: policy.steps.length,
+    nextActionAt: null,
+  });
+}
+
+/**
+ * Start escalating a triage alert according to its severity's policy.
+ * Returns the existing escalation if the alert is already being handled.
+ */
+export async function startEscalation(alert: any): Promise<AlertEscalation | null> {
+  if (alert.severity !== "red" && alert.severity !== "yellow") return null;
+
+  const existing = await storage.getEscalationByAlertId(alert.id);
+  if (existing) return existing;
+
+  const policy = await getEscalationPolicy(alert.severity);
+  if (!policy || !policy.enabled) return null;
+
+  if (policy.mode === "digest") {
+    // Join the pending digest for this severity if there is one, otherwise start a new digest window
+    const [pending] = await storage.getAlertEscalations({ status: "queued", severity: alert.severity, limit: 1 });
+    const nextActionAt = pending?.nextActionAt ?? new Date(Date.now() + policy.digestIntervalMinutes * MINUTE);
+
+    const escalation = await storage.createAlertEscalation({
+      alertId: alert.id,
+      batchId: alert.batchId ?? null,
+      patientId: alert.patientId,
+      patientName: alert.patientName,
+      severity: alert.severity,
+      summary: alert.message,
+      status: "queued",
+      currentStep: 0,
+      nextActionAt,
+    });
+
+    await storage.createEscalationEvent({
+      escalationId: escalation.id,
+      type: "digest_queued",
+      message: `Queued for digest at ${nextActionAt.toISOString()}`,
+    });
+
+    return escalation;
+  }
+
+  const escalation = await storage.createAlertEscalation({
+    alertId: alert.id,
+    batchId: alert.batchId ?? null,
+    patientId: alert.patientId,
+    patientName: alert.patientName,
+    severity: alert.severity,
+    summary: alert.message,
+    status: "active",
+    currentStep: 0,
+    ackCode: await generateAckCode(),
+  });
+
+  await storage.createEscalationEvent({
+    escalationId: escalation.id,
+    type: "created",
+    message: `${alert.severity.toUpperCase()} alert escalation started`,
+  });
+
+  return await pageCurrentStep(escalation, policy);
+}
+
+/**
+ * Start escalations for every red/yellow alert in a batch
+ */
+export async function startEscalationsForBatch(batchId: string): Promise<number> {
+  const alerts = await storage.getPatientAlerts(batchId);
+  let started = 0;
+
+  for (const alert of alerts) {
+    try {
+      if (await startEscalation(alert)) started++;
+    } catch (error) {
+      console.error(`Error starting escalation for alert ${alert.id}:`, error);
+    }
+  }
+
+  console.log(`Started ${started} escalations for batch ${batchId}`);
+  return started;
+}
+
+/**
+ * The number paged most recently for an escalation - the only contact who
+ * can ACK or ESC it by SMS
+ */
+export async function getPagedRecipient(escalationId: number): Promise<string | null> {
+  const events = await storage.getEscalationEvents(escalationId);
+  const paged = events.filter((event) => event.type === "paged" && event.recipient);
+  return paged.length > 0 ? paged[paged.length - 1].recipient : null;
+}
+
+/**
+ * Mark an escalation acknowledged and stop paging
+ */
+export async function acknowledgeEscalation(escalationId: number, acknowledgedBy: string): Promise<AlertEscalation> {
+  const escalation = await storage.getAlertEscalation(escalationId);
+  if (!escalation) {
+    throw new Error(`Escalation with id ${escalationId} not found`);
+  }
+
+  if (escalation.status === "acknowledged") {
+    return escalation;
+  }
+
+  const updated = await storage.updateAlertEscalation(escalation.id, {
+    status: "acknowledged",
+    acknowledgedAt: new Date(),
+    acknowledgedBy,
+    nextActionAt: null,
+  });
+
+  await storage.createEscalationEvent({
+    escalationId: escalation.id,
+    type: "acknowledged",
+    step: escalation.currentStep,
+    message: `Acknowledged by ${acknowledgedBy}`,
+  });
+
+  return updated;
+}
+
+async function advanceEscalation(escalation: AlertEscalation, reason?: string): Promise<AlertEscalation> {
+  const policy = await getEscalationPolicy(escalation.severity);
+  if (!policy) return escalation;
+
+  const nextStep = escalation.currentStep + 1;
+  await storage.createEscalationEvent({
+    escalationId: escalation.id,
+    type: "escalated",
+    step: nextStep,
+    role: policy.steps[nextStep] ?? null,
+    message: reason || `No acknowledgement within ${policy.ackTimeoutMinutes} minutes`,
+  });
+
+  const moved = await storage.updateAlertEscalation(escalation.id, { currentStep: nextStep });
+  return await pageCurrentStep(moved, policy);
+}
+
+/**
+ * Skip the acknowledgement wait and page the next step straight away (e.g. an "ESC" reply)
+ */
+export async function escalateNow(escalationId: number, requestedBy: string): Promise<AlertEscalation> {
+  const escalation = await storage.getAlertEscalation(escalationId);
+  if (!escalation) {
+    throw new Error(`Escalation with id ${escalationId} not found`);
+  }
+
+  if (escalation.status !== "active") {
+    return escalation;
+  }
+
+  return await advanceEscalation(escalation, `Escalated early by ${requestedBy}`);
+}
+
+async function sendDueDigests(now: Date): Promise<void> {
+  const due = await storage.getDueEscalations("queued", now);
+
+  // Each severity's digest goes out under its own policy
+  const bySeverity = new Map<string, AlertEscalation[]>();
+  for (const escalation of due) {
+    bySeverity.set(escalation.severity, [...(bySeverity.get(escalation.severity) ?? []), escalation]);
+  }
+
+  for (const [severity, escalations] of Array.from(bySeverity)) {
+    await sendDigest(severity, escalations, now);
+  }
+}
+
+async function sendDigest(severity: string, due: AlertEscalation[], now: Date): Promise<void> {
+  const policy = await getEscalationPolicy(severity);
+  const interval = (policy?.digestIntervalMinutes ?? 60) * MINUTE;
+  const role = policy?.steps[0] ?? "primary";
+  const contact = await resolveOnCallContact(role);
+
+  const lines = due.map((e) => `- ${e.patientName || e.patientId}: ${e.summary.split("\n")[0]}`);
+  const body = `${severity.toUpperCase()} ALERT DIGEST (${due.length} patient${due.length === 1 ? "" : "s"})\n${lines.join("\n")}`;
+
+  try {
+    if (!contact) {
+      throw new Error(`No ${ROLE_LABELS[role] || role} configured`);
+    }
+
+    // One SMS, but a dispatch per patient so each alert's audit trail shows it
+    const dispatches = await storage.sendTrackedDigest(due.map((escalation) => ({
+      alertId: escalation.alertId,
+      batchId: escalation.batchId,
+      patientId: escalation.patientId,
+      patientName: escalation.patientName,
+      severity,
+      recipient: contact.phone,
+      body,
+    })));
+
+    for (let index = 0; index < due.length; index++) {
+      const escalation = due[index];
+      await storage.updateAlertEscalation(escalation.id, { status: "digested", nextActionAt: null });
+      await storage.createEscalationEvent({
+        escalationId: escalation.id,
+        type: "digest_sent",
+        role,
+        recipient: contact.phone,
+        dispatchId: dispatches[index].id,
+        message: `Included in digest to ${contact.name}`,
+      });
+    }
+  } catch (error) {
+    // Try again next window rather than dropping the digest
+    const retryAt = new Date(now.getTime() + interval);
+    for (const escalation of due) {
+      await storage.updateAlertEscalation(escalation.id, { nextActionAt: retryAt });
+      await storage.createEscalationEvent({
+        escalationId: escalation.id,
+        type: "page_failed",
+        role,
+        recipient: contact?.phone ?? null,
+        message: `Digest failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+}
+
+/**
+ * One scheduler pass: escalate unacknowledged red alerts and send due digests
+ */
+export async function runEscalationTick(now: Date = new Date()): Promise<void> {
+  const overdue = await storage.getDueEscalations("active", now);
+
+  for (const escalation of overdue) {
+    try {
+      await advanceEscalation(escalation);
+    } catch (error) {
+      console.error(`Error advancing escalation ${escalation.id}:`, error);
+    }
+  }
+
+  await sendDueDigests(now);
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start the escalation scheduler. All state lives in the database, so a
+ * restart simply picks up whatever became due while the server was down.
+ */
+export function startEscalationScheduler(intervalMs: number = 60 * 1000): void {
+  if (schedulerTimer) return;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return; // Don't overlap slow ticks
+    running = true;
+    try {
+      await runEscalationTick();
+    } catch (error) {
+      console.error("Escalation scheduler tick failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, intervalMs);
+  void tick();
+  console.log(`⏰ Escalation scheduler running every ${Math.round(intervalMs / 1000)}s`);
+}
+
+export function stopEscalationScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -1,310 +1,659 @@
 import ExcelJS from 'exceljs';
 import { PatientData, AggregatedPatientData } from '@shared/types';
+import type { ColumnMapping, ImportField, ImportSource, InsertUploadIssue, InsertVitalReading } from '@shared/schema';
+import { DEFAULT_TRIAGE_RULES, evaluateReading, toNumber, type ThresholdRule } from './triageRules';
+import { buildVitalReadings } from './vitals';
+import { readDelimitedFile } from './delimitedParser';
 
 // Define a type for row data that includes dynamic properties
 interface RowData extends PatientData {
   [key: string]: any;
 }
 
+// Convert a matched DOB (MM/DD/YYYY, MM-DD-YYYY or YYYY-MM-DD) to YYYY-MM-DD without timezone shifts
+function formatDateOfBirth(dobString: string): string | undefined {
+  const parts = dobString.split(/[\/-]/).map(part => parseInt(part, 10));
+  const [year, month, day] = parts[0] > 31 ? parts : [parts[2], parts[0], parts[1]];
+  if (!year || !month || !day || month > 12 || day > 31) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Normalize a phone cell to E.164, assuming US numbers when no country code is given
+function normalizePhoneNumber(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const raw = String(value).trim();
+  const digits = raw.replace(/\D/g, '');
+  if (raw.startsWith('+') && digits.length >= 8 && digits.length <= 15) return `+${digits}`;
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+// Read a date/time cell, returning null when it isn't a usable date
+function parseSheetDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = new Date(value);
+    if (!isNaN(parsed.getTime())) return parsed;
+  }
+  return null;
+}
+
+// Parse a dedicated date-of-birth cell (Excel date or text) to YYYY-MM-DD
+function parseDateOfBirthCell(value: unknown): string | undefined {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  const match = String(value ?? '').match(/(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[\/-]\d{1,2}[\/-]\d{4})/);
+  return match ? formatDateOfBirth(match[1]) : undefined;
+}
+
+// Unwrap ExcelJS rich values (rich text, formulas, hyperlinks, dates) to plain values
+function normalizeCellValue(value: any): any {
+  if (typeof value === 'object' && value !== null) {
+    if ('text' in value && value.text !== undefined) {
+      return value.text;
+    } else if ('result' in value && value.result !== undefined) {
+      return value.result;
+    } else if ('hyperlink' in value) {
+      const hyperlinkObj = value as { hyperlink: string, text?: string };
+      return hyperlinkObj.text || hyperlinkObj.hyperlink;
+    } else if (value instanceof Date) {
+      return value.toISOString();
+    }
+  }
+  return value;
+}
+
 /**
- * Process Excel file using automata-style workflow
- * S0 -> S1 -> S2 -> S3 -> S4/S5 -> S6 -> S7 -> S8
+ * Header patterns per field, most specific first. Every header is tried
+ * against a pattern before moving to the next, so "Provider ID" is only
+ * used as the patient ID when nothing looks more like one.
  */
-export async function processExcelFile(buffer: Buffer | ArrayBuffer): Promise<PatientData[]> {
-  try {
-    // S0->S1: Start Excel file processing
-    const workbook = new ExcelJS.Workbook();
-    // Convert ArrayBuffer to Buffer if needed
-    const excelBuffer = buffer instanceof Buffer ? buffer : Buffer.from(buffer);
-    await workbook.xlsx.load(excelBuffer);
+const FIELD_PATTERNS: Record<ImportField, RegExp[]> = {
+  patientId: [/^patient\s*id$/i, /patient\s*id/i, /^(mrn|id)$/i, /\bmrn\b/i, /\bid\b/i],
+  name: [/^(patient|senior)\s*name$/i, /^name$/i, /(patient|senior)\s*name/i, /name/i],
+  dateOfBirth: [/date\s*of\s*birth/i, /\bdob\b/i, /birth/i],
+  age: [/^age$/i, /\bage\b/i],
+  phone: [/phone/i, /mobile/i, /\bcell\b/i],
+  variable: [/^variable$/i, /variable/i, /condition/i, /diagnosis/i, /ailment/i],
+  value: [/^value$/i, /value/i, /reading/i, /result/i, /measurement/i],
+  unit: [/^units?$/i],
+  timestamp: [/date.*time/i, /timestamp/i, /recorded/i, /^date$/i, /\bdate\b/i],
+  isAlert: [/is\s*alert/i, /alert/i, /flag/i],
+};
 
-    const worksheet = workbook.worksheets[0];
-    if (!worksheet) {
+/**
+ * Suggest a column mapping from the headers alone. Each header is used for
+ * at most one field. Falls back to the first two columns for patient ID and
+ * name when nothing matches, as older uploads relied on that layout.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<string>();
+  const mapping: Partial<Record<ImportField, string>> = {};
+
+  for (const field of Object.keys(FIELD_PATTERNS) as ImportField[]) {
+    for (const pattern of FIELD_PATTERNS[field]) {
+      const header = headers.find(h => h && !used.has(h) && pattern.test(h.trim()));
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+
+  const unused = headers.filter(h => h && !used.has(h));
+  if (!mapping.patientId && headers[0]) {
+    mapping.patientId = headers[0];
+  }
+  if (!mapping.name) {
+    mapping.name = unused.find(h => h !== mapping.patientId) || mapping.patientId;
+  }
+
+  return mapping as ColumnMapping;
+}
+
+/**
+ * Identify a header layout regardless of column order or case, for matching saved import profiles
+ */
+export function headerSignature(headers: string[]): string {
+  return headers
+    .map(h => (h || '').trim().toLowerCase())
+    .filter(Boolean)
+    .sort()
+    .join('|');
+}
+
+// Column index for a mapped header, or -1 when the field isn't mapped
+function columnIndex(headers: string[], header: string | undefined, sheet: string): number {
+  if (!header) return -1;
+  const index = headers.indexOf(header);
+  if (index === -1) {
+    throw new Error(`Mapped column "${header}" was not found in sheet "${sheet}"`);
+  }
+  return index;
+}
+
+// Read the header row of a worksheet, naming blank headers by position
+function readHeaders(worksheet: ExcelJS.Worksheet): string[] {
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    headers[colNumber - 1] = cell.value?.toString() || `Column${colNumber}`;
+  });
+  // Fill gaps left by empty header cells so every index has a name
+  for (let i = 0; i < headers.length; i++) {
+    if (!headers[i]) headers[i] = `Column${i + 1}`;
+  }
+  return headers;
+}
+
+export type ImportFormat = ImportSource['format'];
+
+interface LoadedWorkbook {
+  workbook: ExcelJS.Workbook;
+  format: ImportFormat;
+  encoding?: string;
+  delimiter?: string;
+}
+
+export interface ImportOptions {
+  fileName?: string; // Used to tell CSV/TSV from .xlsx and recorded as provenance
+  sheets?: string[] | 'all'; // Worksheets to import; defaults to the first one
+}
+
+function formatForFile(fileName = ''): ImportFormat {
+  if (/\.tsv$/i.test(fileName)) return 'tsv';
+  if (/\.(csv|txt)$/i.test(fileName)) return 'csv';
+  return 'xlsx';
+}
+
+/**
+ * Load an .xlsx workbook, or wrap a CSV/TSV file in a one-sheet workbook
+ * so both go through the same row processing
+ */
+async function loadWorkbook(buffer: Buffer | ArrayBuffer, fileName?: string): Promise<LoadedWorkbook> {
+  const workbook = new ExcelJS.Workbook();
+  // Convert ArrayBuffer to Buffer if needed
+  const fileBuffer = buffer instanceof Buffer ? buffer : Buffer.from(buffer);
+  const format = formatForFile(fileName);
+
+  if (format === 'xlsx') {
+    await workbook.xlsx.load(fileBuffer);
+    if (workbook.worksheets.length === 0) {
       throw new Error('Excel file has no worksheets');
     }
+    return { workbook, format };
+  }
+
+  const { rows, encoding, delimiter } = readDelimitedFile(fileBuffer, fileName);
+  if (rows.length === 0) {
+    throw new Error('File has no rows');
+  }
+  const worksheet = workbook.addWorksheet('Sheet1');
+  rows.forEach(row => worksheet.addRow(row));
+
+  return { workbook, format: delimiter === '\t' ? 'tsv' : 'csv', encoding, delimiter };
+}
 
-    // Extract headers (part of S1)
-    const headerRow = worksheet.getRow(1);
-    const headers: string[] = [];
-    headerRow.eachCell((cell, colNumber) => {
-      headers[colNumber - 1] = cell.value?.toString() || `Column${colNumber}`;
+// Data rows in a worksheet, excluding the header
+function dataRowCount(worksheet: ExcelJS.Worksheet): number {
+  return Math.max(worksheet.actualRowCount - 1, 0);
+}
+
+// Worksheets to import: the named ones, every sheet with data, or just the first
+function selectWorksheets(workbook: ExcelJS.Workbook, sheets?: string[] | 'all'): ExcelJS.Worksheet[] {
+  if (sheets === 'all') {
+    const withData = workbook.worksheets.filter(worksheet => dataRowCount(worksheet) > 0);
+    if (withData.length === 0) {
+      throw new Error('Workbook has no sheets with data');
+    }
+    return withData;
+  }
+
+  if (!sheets || sheets.length === 0) {
+    return [workbook.worksheets[0]];
+  }
+
+  return sheets.map(name => {
+    const worksheet = workbook.getWorksheet(name);
+    if (!worksheet) {
+      throw new Error(`Sheet "${name}" was not found in the workbook`);
+    }
+    return worksheet;
+  });
+}
+
+export interface ExcelPreview {
+  format: ImportFormat;
+  sheets: { name: string; rows: number }[];
+  sheet: string; // The sheet the headers and sample rows come from
+  headers: string[];
+  sampleRows: Record<string, any>[];
+  totalRows: number;
+  suggestedMapping: ColumnMapping;
+}
+
+/**
+ * Read just the headers and the first few rows so the user can confirm the column mapping before import
+ */
+export async function previewExcelFile(
+  buffer: Buffer | ArrayBuffer,
+  options: { fileName?: string; sheet?: string; sampleSize?: number } = {}
+): Promise<ExcelPreview> {
+  const sampleSize = options.sampleSize ?? 5;
+  try {
+    const { workbook, format } = await loadWorkbook(buffer, options.fileName);
+    const [worksheet] = selectWorksheets(workbook, options.sheet ? [options.sheet] : undefined);
+    const headers = readHeaders(worksheet);
+    const sampleRows: Record<string, any>[] = [];
+    let totalRows = 0;
+
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      totalRows++;
+      if (sampleRows.length >= sampleSize) return;
+
+      const sample: Record<string, any> = {};
+      row.eachCell((cell, colNumber) => {
+        sample[headers[colNumber - 1]] = normalizeCellValue(cell.value);
+      });
+      sampleRows.push(sample);
     });
 
-    // Find required column indices
-    let patientIdCol = headers.findIndex(h => 
-      /patient\s*id/i.test(h) || /id/i.test(h));
-    let nameCol = headers.findIndex(h => 
-      /name/i.test(h) || /patient\s*name/i.test(h));
-    let ageCol = headers.findIndex(h => 
-      /age/i.test(h));
-    let conditionCol = headers.findIndex(h => 
-      /condition/i.test(h) || /diagnosis/i.test(h) || /ailment/i.test(h) || /variable/i.test(h));
-    let isAlertCol = headers.findIndex(h => 
-      /is\s*alert/i.test(h) || /alert/i.test(h) || /flag/i.test(h));
-    let valueCol = headers.findIndex(h => 
-      /value/i.test(h) || /reading/i.test(h) || /result/i.test(h) || /measurement/i.test(h));
-
-    // If required columns are not found, try to make an educated guess
-    if (patientIdCol === -1) patientIdCol = 0; // Assume first column is ID
-    if (nameCol === -1) nameCol = patientIdCol + 1; // Assume column after ID is name
-    if (ageCol === -1) ageCol = nameCol + 1; // Assume column after name is age
-    if (conditionCol === -1) conditionCol = ageCol + 1; // Assume column after age is condition/variable
+    return {
+      format,
+      sheets: workbook.worksheets.map(ws => ({ name: ws.name, rows: dataRowCount(ws) })),
+      sheet: worksheet.name,
+      headers,
+      sampleRows,
+      totalRows,
+      suggestedMapping: guessColumnMapping(headers),
+    };
+  } catch (error: unknown) {
+    console.error('Error previewing Excel file:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read Excel file: ${errorMessage}`);
+  }
+}
+
+// A validation problem found in a row; the upload route adds the batch ID when storing it
+export type RowIssue = Omit<InsertUploadIssue, 'batchId'>;
+
+// Cell text for issue reports, or null for an empty cell
+function cellText(value: unknown): string | null {
+  const normalized = normalizeCellValue(value);
+  if (normalized === null || normalized === undefined || String(normalized).trim() === '') return null;
+  return String(normalized);
+}
+
+export interface ProcessedExcelFile {
+  patients: PatientData[];
+  readings: InsertVitalReading[]; // Every numeric reading in the sheet, for the vitals time series
+  headers: string[]; // Headers of the first imported sheet
+  mapping: ColumnMapping; // The mapping actually used (for the first sheet when guessed)
+  sources: ImportSource[]; // One entry per imported sheet
+  issues: RowIssue[]; // Rows imported with fallbacks or left out, for the validation report
+}
+
+/**
+ * Process Excel file using automata-style workflow
+ * S0 -> S1 -> S2 -> S3 -> S4/S5 -> S6 -> S7 -> S8
+ * Rows without an explicit alert flag are graded with the clinical threshold rules.
+ * Columns come from `mapping` when given (from the mapping wizard or a saved
+ * import profile), otherwise they are guessed from each sheet's headers.
+ * CSV/TSV files are read as a single sheet; workbooks import the first sheet
+ * unless `options.sheets` names others, and all chosen sheets share one batch.
+ */
+export async function processExcelFile(
+  buffer: Buffer | ArrayBuffer,
+  rules: ThresholdRule[] = DEFAULT_TRIAGE_RULES,
+  mapping?: ColumnMapping,
+  options: ImportOptions = {}
+): Promise<ProcessedExcelFile> {
+  try {
+    // S0->S1: Start file processing
+    const { workbook, format, encoding, delimiter } = await loadWorkbook(buffer, options.fileName);
+    const worksheets = selectWorksheets(workbook, options.sheets);
 
     // S2: Prepare to iterate over rows
     const patientDataMap = new Map<string, AggregatedPatientData>();
     const allPatientsData: RowData[] = [];
+    const readings: InsertVitalReading[] = [];
+    const sources: ImportSource[] = [];
+    const issues: RowIssue[] = [];
+    const uploadedAt = new Date();
+    let firstHeaders: string[] = [];
+    let firstMapping: ColumnMapping | undefined;
+    let uploadRow = 0; // Data rows so far across every sheet, keeping undated readings apart
 
-    // Process rows (skip header)
-    worksheet.eachRow((row, rowNumber) => {
-      if (rowNumber === 1) return; // Skip header row
-
-      // Create a data object for this row
-      const rowData: RowData = {
-        patientId: '',
-        name: '',
-        age: 0,
-        condition: '',
-        variables: {},
-        issues: []
-      };
+    for (let sheetIndex = 0; sheetIndex < worksheets.length; sheetIndex++) {
+      const worksheet = worksheets[sheetIndex];
 
-      // Add all columns as raw data
-      row.eachCell((cell, colNumber) => {
-        const header = headers[colNumber - 1];
-        let value = cell.value;
-        
-        // Handle different cell types
-        if (typeof value === 'object' && value !== null) {
-          // Handle ExcelJS cell value types
-          if ('text' in value && value.text !== undefined) {
-            value = value.text;
-          } else if ('result' in value && value.result !== undefined) {
-            value = value.result;
-          } else if ('hyperlink' in value) {
-            // Safe property access with type checking
-            const hyperlinkObj = value as { hyperlink: string, text?: string };
-            value = hyperlinkObj.text || hyperlinkObj.hyperlink;
-          } else if (value instanceof Date) {
-            // Handle date objects
-            value = value.toISOString();
-          }
-        }
+      // Extract headers (part of S1)
+      const headers = readHeaders(worksheet);
+
+      // Find column indices for each field
+      const effectiveMapping = mapping ?? guessColumnMapping(headers);
+      const patientIdCol = columnIndex(headers, effectiveMapping.patientId, worksheet.name);
+      const nameCol = columnIndex(headers, effectiveMapping.name, worksheet.name);
+      const dobCol = columnIndex(headers, effectiveMapping.dateOfBirth, worksheet.name);
+      const ageCol = columnIndex(headers, effectiveMapping.age, worksheet.name);
+      const conditionCol = columnIndex(headers, effectiveMapping.variable, worksheet.name);
+      const isAlertCol = columnIndex(headers, effectiveMapping.isAlert, worksheet.name);
+      const valueCol = columnIndex(headers, effectiveMapping.value, worksheet.name);
+      const phoneCol = columnIndex(headers, effectiveMapping.phone, worksheet.name);
+      const timestampCol = columnIndex(headers, effectiveMapping.timestamp, worksheet.name);
+      const unitCol = columnIndex(headers, effectiveMapping.unit, worksheet.name);
+
+      if (!firstMapping) {
+        firstHeaders = headers;
+        firstMapping = effectiveMapping;
+      }
+      let rowCount = 0;
+
+      // Process rows (skip header)
+      worksheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return; // Skip header row
+        rowCount++;
+        uploadRow++;
+
+        // Create a data object for this row
+        const rowData: RowData = {
+          patientId: '',
+          name: '',
+          age: 0,
+          condition: '',
+          variables: {},
+          issues: []
+        };
+
+        // Add all columns as raw data
+        row.eachCell((cell, colNumber) => {
+          const header = headers[colNumber - 1];
+          const value = normalizeCellValue(cell.value);
         
-        rowData[header] = value;
+          rowData[header] = value;
         
-        // Also store in variables for later reference
-        if (rowData.variables) {
-          rowData.variables[header] = value;
-        }
-      });
+          // Also store in variables for later reference
+          if (rowData.variables) {
+            rowData.variables[header] = value;
+          }
+        });
 
-      // Map specific columns to required fields
-      rowData.patientId = String(row.getCell(patientIdCol + 1).value || `P${rowNumber - 1}`);
+        const reportIssue = (code: string, severity: 'error' | 'warning', message: string, col = -1) => {
+          issues.push({
+            sheet: worksheet.name,
+            rowNumber,
+            patientId: rowData.patientId || null,
+            column: col !== -1 ? headers[col] : null,
+            code,
+            severity,
+            message,
+            value: col !== -1 ? cellText(row.getCell(col + 1).value) : null,
+            rowData: { ...(rowData.variables || {}) },
+          });
+        };
+
+        // Map specific columns to required fields
+        // Rows without an ID get a placeholder unique to the row; identity resolution matches them up later
+        const rowPlaceholder = sheetIndex === 0 ? `P${rowNumber - 1}` : `P${sheetIndex + 1}-${rowNumber - 1}`;
+        rowData.patientId = String(row.getCell(patientIdCol + 1).value || rowPlaceholder);
+        if (!cellText(row.getCell(patientIdCol + 1).value)) {
+          rowData.patientIdGenerated = true;
+          reportIssue('missing_patient_id', 'warning', 'No patient ID; identified by name and date of birth instead', patientIdCol);
+        }
       
-      // Get senior name with DOB from name field
-      const nameWithDOB = String(row.getCell(nameCol + 1).value || 'Unknown');
-      rowData.name = nameWithDOB;
+        // Get senior name with DOB from name field
+        const nameWithDOB = String(row.getCell(nameCol + 1).value || 'Unknown');
+        rowData.name = nameWithDOB;
+        if (!cellText(row.getCell(nameCol + 1).value)) {
+          reportIssue('missing_name', 'warning', 'No patient name; imported as "Unknown"', nameCol);
+        }
       
-      // Extract age from DOB in the name field
-      try {
-        // Extract DOB from name field - Try multiple date patterns that could be in the name
-        // First try standard pattern with parentheses (MM/DD/YYYY)
-        let dobMatch = nameWithDOB.match(/\((\d{1,2}\/\d{1,2}\/\d{4})\)/);
+        // Extract age from DOB in the name field
+        try {
+          // Extract DOB from name field - Try multiple date patterns that could be in the name
+          // First try standard pattern with parentheses (MM/DD/YYYY)
+          let dobMatch = nameWithDOB.match(/\((\d{1,2}\/\d{1,2}\/\d{4})\)/);
         
-        // If not found, try without parentheses
-        if (!dobMatch) {
-          dobMatch = nameWithDOB.match(/(\d{1,2}\/\d{1,2}\/\d{4})/);
-        }
+          // If not found, try without parentheses
+          if (!dobMatch) {
+            dobMatch = nameWithDOB.match(/(\d{1,2}\/\d{1,2}\/\d{4})/);
+          }
         
-        // Try alternate formats (YYYY-MM-DD)
-        if (!dobMatch) {
-          dobMatch = nameWithDOB.match(/\((\d{4}-\d{1,2}-\d{1,2})\)/);
-        }
+          // Try alternate formats (YYYY-MM-DD)
+          if (!dobMatch) {
+            dobMatch = nameWithDOB.match(/\((\d{4}-\d{1,2}-\d{1,2})\)/);
+          }
         
-        // Try without parentheses
-        if (!dobMatch) {
-          dobMatch = nameWithDOB.match(/(\d{4}-\d{1,2}-\d{1,2})/);
-        }
+          // Try without parentheses
+          if (!dobMatch) {
+            dobMatch = nameWithDOB.match(/(\d{4}-\d{1,2}-\d{1,2})/);
+          }
         
-        // Try format MM-DD-YYYY
-        if (!dobMatch) {
-          dobMatch = nameWithDOB.match(/\((\d{1,2}-\d{1,2}-\d{4})\)/);
-        }
+          // Try format MM-DD-YYYY
+          if (!dobMatch) {
+            dobMatch = nameWithDOB.match(/\((\d{1,2}-\d{1,2}-\d{4})\)/);
+          }
         
-        // Without parentheses
-        if (!dobMatch) {
-          dobMatch = nameWithDOB.match(/(\d{1,2}-\d{1,2}-\d{4})/);
-        }
+          // Without parentheses
+          if (!dobMatch) {
+            dobMatch = nameWithDOB.match(/(\d{1,2}-\d{1,2}-\d{4})/);
+          }
         
-        if (dobMatch && dobMatch[1]) {
-          const dobString = dobMatch[1];
-          console.log(`Found DOB: ${dobString} in name: ${nameWithDOB}`);
-          const dob = new Date(dobString);
+          if (dobMatch && dobMatch[1]) {
+            const dobString = dobMatch[1];
+            console.log(`Found DOB: ${dobString} in name: ${nameWithDOB}`);
+            rowData.dateOfBirth = formatDateOfBirth(dobString);
           
-          // Get date and time stamp field if it exists (for comparison)
-          const dateTimeStampHeader = headers.find(h => 
-            /date.*time/i.test(h) || /timestamp/i.test(h) || /recorded/i.test(h));
-          
-          let currentDate = new Date(); // Default to current date
-          
-          // If we have a date/time stamp column, use that instead
-          if (dateTimeStampHeader) {
-            const colIndex = headers.indexOf(dateTimeStampHeader);
-            if (colIndex !== -1) {
-              const dateTimeValue = row.getCell(colIndex + 1).value;
-              if (dateTimeValue instanceof Date) {
-                currentDate = dateTimeValue;
-              } else if (typeof dateTimeValue === 'string') {
-                const parsedDate = new Date(dateTimeValue);
-                if (!isNaN(parsedDate.getTime())) {
-                  currentDate = parsedDate;
-                }
-              }
-            }
+            // Extract just the name part (remove the DOB in parentheses)
+            // Handle all the potential date formats we checked for
+            rowData.name = nameWithDOB
+              .replace(/\s*\(\d{1,2}\/\d{1,2}\/\d{4}\)\s*/, '') // MM/DD/YYYY in parentheses
+              .replace(/\s*\d{1,2}\/\d{1,2}\/\d{4}\s*/, '')     // MM/DD/YYYY without parentheses
+              .replace(/\s*\(\d{4}-\d{1,2}-\d{1,2}\)\s*/, '')   // YYYY-MM-DD in parentheses
+              .replace(/\s*\d{4}-\d{1,2}-\d{1,2}\s*/, '')       // YYYY-MM-DD without parentheses
+              .replace(/\s*\(\d{1,2}-\d{1,2}-\d{4}\)\s*/, '')   // MM-DD-YYYY in parentheses
+              .replace(/\s*\d{1,2}-\d{1,2}-\d{4}\s*/, '')       // MM-DD-YYYY without parentheses
+              .trim();
           }
-          
+        } catch (error) {
+          console.warn(`Failed to extract DOB from name '${nameWithDOB}':`, error);
+        }
+
+        // A dedicated date-of-birth column takes precedence over one embedded in the name
+        if (dobCol !== -1) {
+          const dobCell = row.getCell(dobCol + 1).value;
+          const parsedDob = parseDateOfBirthCell(dobCell);
+          if (!parsedDob && cellText(dobCell)) {
+            reportIssue('invalid_date_of_birth', 'warning', 'Date of birth could not be read', dobCol);
+          }
+          rowData.dateOfBirth = parsedDob || rowData.dateOfBirth;
+        }
+
+        if (timestampCol !== -1) {
+          const timestampCell = row.getCell(timestampCol + 1).value;
+          if (!parseSheetDate(timestampCell) && cellText(timestampCell)) {
+            reportIssue('invalid_timestamp', 'warning', 'Date/time could not be read; the upload time was used', timestampCol);
+          }
+        }
+
+        if (valueCol !== -1) {
+          const valueCell = row.getCell(valueCol + 1).value;
+          if (toNumber(normalizeCellValue(valueCell)) === null && cellText(valueCell)) {
+            reportIssue('non_numeric_value', 'error', 'Value is not a number, so it was not recorded or graded', valueCol);
+          }
+        }
+
+        if (rowData.dateOfBirth) {
+          // Compare against the row's date/time stamp if it has one, otherwise today
+          const currentDate = (timestampCol !== -1 && parseSheetDate(row.getCell(timestampCol + 1).value)) || new Date();
+          const dob = new Date(`${rowData.dateOfBirth}T00:00:00`);
+        
           // Calculate age based on the difference between dates
-          const ageInYears = Math.floor((currentDate.getTime() - dob.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
-          rowData.age = ageInYears;
-          
-          // Extract just the name part (remove the DOB in parentheses)
-          // Handle all the potential date formats we checked for
-          rowData.name = nameWithDOB
-            .replace(/\s*\(\d{1,2}\/\d{1,2}\/\d{4}\)\s*/, '') // MM/DD/YYYY in parentheses
-            .replace(/\s*\d{1,2}\/\d{1,2}\/\d{4}\s*/, '')     // MM/DD/YYYY without parentheses
-            .replace(/\s*\(\d{4}-\d{1,2}-\d{1,2}\)\s*/, '')   // YYYY-MM-DD in parentheses
-            .replace(/\s*\d{4}-\d{1,2}-\d{1,2}\s*/, '')       // YYYY-MM-DD without parentheses
-            .replace(/\s*\(\d{1,2}-\d{1,2}-\d{4}\)\s*/, '')   // MM-DD-YYYY in parentheses
-            .replace(/\s*\d{1,2}-\d{1,2}-\d{4}\s*/, '')       // MM-DD-YYYY without parentheses
-            .trim();
+          rowData.age = Math.floor((currentDate.getTime() - dob.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+        } else if (ageCol !== -1) {
+          // Fallback to an explicit age column if available
+          const ageValue = row.getCell(ageCol + 1).value;
+          rowData.age = typeof ageValue === 'number' ? ageValue : 
+                        typeof ageValue === 'string' ? parseInt(ageValue, 10) || 0 : 0;
         }
-      } catch (error) {
-        console.warn(`Failed to extract age from name '${nameWithDOB}':`, error);
-        // Fallback to any explicit age column if available
-        const ageValue = row.getCell(ageCol + 1).value;
-        rowData.age = typeof ageValue === 'number' ? ageValue : 
-                      typeof ageValue === 'string' ? parseInt(ageValue, 10) || 0 : 0;
-      }
       
-      // Get the condition (variable)
-      rowData.condition = String(row.getCell(conditionCol + 1).value || 'Unknown');
+        // Get the condition (variable)
+        rowData.condition = conditionCol !== -1 ? String(row.getCell(conditionCol + 1).value || 'Unknown') : 'Unknown';
 
-      // S3: Evaluate 'Is Alert' field 
-      let isAlert = false;
-      if (isAlertCol !== -1) {
-        const alertValue = row.getCell(isAlertCol + 1).value;
-        isAlert = alertValue === true || 
-                 alertValue === 1 || 
-                 alertValue === 'true' || 
-                 alertValue === 'yes' || 
-                 alertValue === 'Y';
-      } else {
-        // If no explicit IsAlert column, try to infer from other data
-        // Don't assume all rows are alerts - try to determine based on value thresholds
-        // Check if there's a "Value" column and use it to determine alert status
-        if (valueCol !== -1) {
-          const value = row.getCell(valueCol + 1).value;
-          const variable = String(row.getCell(conditionCol + 1).value || '').toLowerCase();
-          
-          // Only mark as alert if we have valid variable and value
-          if (value !== null && value !== undefined && typeof value !== 'object') {
-            const numValue = typeof value === 'number' ? value : 
-                            typeof value === 'string' ? parseFloat(value) || 0 : 0;
-            
-            // Apply some reasonable thresholds based on common health variables
-            if (
-              (variable.includes('glucose') && numValue > 180) || 
-              (variable.includes('blood pressure') && numValue > 140) ||
-              (variable.includes('heart rate') && (numValue > 100 || numValue < 50)) ||
-              (variable.includes('temperature') && numValue > 99.5) ||
-              (variable.includes('oxygen') && numValue < 92)
-            ) {
-              isAlert = true;
+        // Optional contact number for the patient registry
+        if (phoneCol !== -1) {
+          const phone = normalizePhoneNumber(row.getCell(phoneCol + 1).value);
+          if (phone) rowData.phoneNumber = phone;
+        }
+
+        // Keep every numeric reading for the vitals history, timestamped from the sheet.
+        // Undated rows all share the upload time, so their position in the upload keeps them apart.
+        const sheetRecordedAt = timestampCol !== -1 ? parseSheetDate(row.getCell(timestampCol + 1).value) : null;
+        const recordedAt = sheetRecordedAt || uploadedAt;
+        // Mapped variable/value columns are passed under the names the reading extractor looks for
+        const readingVariables: Record<string, any> = { ...(rowData.variables || {}) };
+        if (conditionCol !== -1 && valueCol !== -1) {
+          delete readingVariables[headers[conditionCol]];
+          delete readingVariables[headers[valueCol]];
+          readingVariables.Variable = row.getCell(conditionCol + 1).value;
+          readingVariables.Value = normalizeCellValue(row.getCell(valueCol + 1).value);
+        }
+        readings.push(...buildVitalReadings({
+          patientId: rowData.patientId,
+          variables: readingVariables,
+          recordedAt,
+          sourceRow: sheetRecordedAt ? 0 : uploadRow,
+          unit: unitCol !== -1 ? String(row.getCell(unitCol + 1).value ?? '').trim() || null : null,
+          ignoreKeys: [patientIdCol, nameCol, dobCol, ageCol, timestampCol, unitCol, phoneCol, isAlertCol]
+            .filter(col => col !== -1)
+            .map(col => headers[col]),
+        }, rules, { age: rowData.age, condition: rowData.condition }));
+
+        // S3: Evaluate 'Is Alert' field 
+        let isAlert = false;
+        let ruleReason: string | null = null;
+        if (isAlertCol !== -1) {
+          const alertValue = row.getCell(isAlertCol + 1).value;
+          isAlert = alertValue === true || 
+                   alertValue === 1 || 
+                   alertValue === 'true' || 
+                   alertValue === 'yes' || 
+                   alertValue === 'Y';
+        } else {
+          // If no explicit IsAlert column, try to infer from other data
+          // Don't assume all rows are alerts - grade the value with the threshold rules
+          // Check if there's a "Value" column and use it to determine alert status
+          if (valueCol !== -1) {
+            const value = toNumber(row.getCell(valueCol + 1).value);
+            const variable = String(row.getCell(conditionCol + 1).value || '');
+
+            // Only mark as alert if we have valid variable and value
+            if (variable && value !== null) {
+              const match = evaluateReading(rules, { name: variable, value }, { age: rowData.age, condition: rowData.condition });
+              if (match) {
+                isAlert = true;
+                ruleReason = match.reason;
+              }
             }
+          } else {
+            // Without any way to determine alert status, default to false
+            isAlert = false;
           }
-        } else {
-          // Without any way to determine alert status, default to false
-          isAlert = false;
         }
-      }
-      rowData.isAlert = isAlert;
+        rowData.isAlert = isAlert;
 
-      // Store the row data for reference regardless of alert status
-      allPatientsData.push(rowData);
+        // Store the row data for reference regardless of alert status
+        allPatientsData.push(rowData);
 
-      // S4/S5: Process or skip based on alert status
-      if (isAlert) {
-        // Generate issue description
-        // Find the Variable and Value fields in the data
-        let variableName = rowData.condition || '';
-        let variableValue = '';
+        // S4/S5: Process or skip based on alert status
+        if (isAlert) {
+          // Generate issue description
+          // Find the Variable and Value fields in the data
+          let variableName = rowData.condition || '';
+          let variableValue = '';
         
-        // Look for Value or Result field in the variables
-        if (rowData.variables) {
-          const valueField = Object.keys(rowData.variables).find(key => 
-            /value/i.test(key) || /result/i.test(key) || /reading/i.test(key));
+          // Look for Value or Result field in the variables
+          if (rowData.variables) {
+            const valueField = Object.keys(rowData.variables).find(key => 
+              /value/i.test(key) || /result/i.test(key) || /reading/i.test(key));
           
-          if (valueField) {
-            variableValue = rowData.variables[valueField];
+            if (valueField) {
+              variableValue = rowData.variables[valueField];
+            }
           }
-        }
         
-        // Format the issue description based on available data
-        let issue = '';
-        if (variableName && variableValue) {
-          issue = `${variableName}: ${variableValue}`;
-        } else if (variableName) {
-          issue = `Issue with ${variableName}`;
-        } else {
-          issue = 'Unspecified health concern';
-        }
+          // Format the issue description based on available data
+          let issue = '';
+          if (variableName && variableValue) {
+            issue = `${variableName}: ${variableValue}`;
+          } else if (variableName) {
+            issue = `Issue with ${variableName}`;
+          } else {
+            issue = 'Unspecified health concern';
+          }
         
-        // Add any other relevant variable details
-        if (rowData.variables) {
-          const variableDetails = Object.entries(rowData.variables)
-            .filter(([key, _]) => 
-              key !== 'patientId' && 
-              key !== 'name' && 
-              key !== 'age' && 
-              !/value/i.test(key) && 
-              !/variable/i.test(key) &&
-              !/condition/i.test(key))
-            .map(([key, value]) => `${key}: ${value}`)
-            .join(', ');
+          // Add any other relevant variable details
+          if (rowData.variables) {
+            const variableDetails = Object.entries(rowData.variables)
+              .filter(([key, _]) => 
+                key !== 'patientId' && 
+                key !== 'name' && 
+                key !== 'age' && 
+                !/value/i.test(key) && 
+                !/variable/i.test(key) &&
+                !/condition/i.test(key))
+              .map(([key, value]) => `${key}: ${value}`)
+              .join(', ');
           
-          if (variableDetails) {
-            issue += ` (${variableDetails})`;
+            if (variableDetails) {
+              issue += ` (${variableDetails})`;
+            }
           }
-        }
         
-        // Initialize or update the aggregated patient data
-        if (!patientDataMap.has(rowData.patientId)) {
-          patientDataMap.set(rowData.patientId, {
-            patientId: rowData.patientId,
-            name: rowData.name,
-            age: rowData.age,
-            variables: [rowData.variables || {}],
-            conditions: [rowData.condition],
-            issues: [issue],
-            alertReasons: [`Alert triggered for ${rowData.condition}`],
-            rawData: [rowData]
-          });
-        } else {
-          const patientData = patientDataMap.get(rowData.patientId)!;
+          // Initialize or update the aggregated patient data
+          if (!patientDataMap.has(rowData.patientId)) {
+            patientDataMap.set(rowData.patientId, {
+              patientId: rowData.patientId,
+              patientIdGenerated: rowData.patientIdGenerated,
+              name: rowData.name,
+              age: rowData.age,
+              dateOfBirth: rowData.dateOfBirth,
+              phoneNumber: rowData.phoneNumber,
+              variables: [rowData.variables || {}],
+              conditions: [rowData.condition],
+              issues: [issue],
+              alertReasons: [ruleReason || `Alert triggered for ${rowData.condition}`],
+              rawData: [rowData]
+            });
+          } else {
+            const patientData = patientDataMap.get(rowData.patientId)!;
           
-          // Update patient data with this row's information
-          patientData.variables.push(rowData.variables || {});
-          if (!patientData.conditions.includes(rowData.condition)) {
-            patientData.conditions.push(rowData.condition);
+            // Update patient data with this row's information
+            patientData.variables.push(rowData.variables || {});
+            if (!patientData.conditions.includes(rowData.condition)) {
+              patientData.conditions.push(rowData.condition);
+            }
+            patientData.issues.push(issue);
+            patientData.dateOfBirth = patientData.dateOfBirth || rowData.dateOfBirth;
+            patientData.phoneNumber = patientData.phoneNumber || rowData.phoneNumber;
+            patientData.alertReasons.push(ruleReason || `Alert triggered for ${rowData.condition}`);
+            patientData.rawData.push(rowData);
           }
-          patientData.issues.push(issue);
-          patientData.alertReasons.push(`Alert triggered for ${rowData.condition}`);
-          patientData.rawData.push(rowData);
+        } else {
+          // S5: Skip non-alert rows - no action needed
         }
-      } else {
-        // S5: Skip non-alert rows - no action needed
-      }
-    });
+      });
+
+      sources.push({
+        fileName: options.fileName || 'unknown',
+        format,
+        encoding,
+        delimiter,
+        sheet: worksheet.name,
+        rows: rowCount,
+      });
+    }
 
     // S6: Aggregate data by unique PatientID
     const aggregatedPatients: PatientData[] = [];
@@ -332,8 +681,11 @@ export async function processExcelFile(buffer: Buffer | ArrayBuffer): Promise<Pa
       
       const aggregatedPatient: PatientData = {
         patientId: patientData.patientId,
+        patientIdGenerated: patientData.patientIdGenerated,
         name: patientData.name,
         age: patientData.age,
+        dateOfBirth: patientData.dateOfBirth,
+        phoneNumber: patientData.phoneNumber,
         // Combine all conditions into a single string
         condition: patientData.conditions.join(', '),
         // Store all issues
@@ -353,42 +705,27 @@ export async function processExcelFile(buffer: Buffer | ArrayBuffer): Promise<Pa
       aggregatedPatients.push(aggregatedPatient);
     });
 
-    // S7-S8: Final output preparation
-    
-    // For testing purposes, if no patients have alerts, or we want to include healthy patients
-    if (aggregatedPatients.length === 0 || aggregatedPatients.length < 5) {
-      // Group by patientId and take the first 20 unique patients
-      const uniquePatients = new Map<string, PatientData>();
-      
-      // First add all patients that have alerts
-      for (const patient of aggregatedPatients) {
-        uniquePatients.set(patient.patientId, patient);
-      }
-      
-      // Then add some patients without alerts (showing them as healthy)
-      for (const patient of allPatientsData) {
-        if (!uniquePatients.has(patient.patientId)) {
-          // Mark this patient as healthy (no issues)
-          patient.isAlert = false; 
-          patient.issues = [];
-          // Add a note so we know this is a healthy patient
-          patient.healthStatus = "healthy";
-          // Override the condition to show "Healthy" instead of the original condition
-          patient.condition = "Healthy";
-          // Set the severity explicitly to green
-          patient.severity = "green";
-          // Add alertReasons with a healthy message
-          patient.alertReasons = ["All readings within normal range"];
-          
-          uniquePatients.set(patient.patientId, patient);
-          if (uniquePatients.size >= 20) break;
-        }
-      }
-      
-      return Array.from(uniquePatients.values());
+    // S7-S8: Final output preparation - every patient in the upload is returned,
+    // those without any alert row as healthy (first row seen for the patient)
+    const returnedIds = new Set(aggregatedPatients.map(patient => patient.patientId));
+    for (const patient of allPatientsData) {
+      if (returnedIds.has(patient.patientId)) continue;
+      returnedIds.add(patient.patientId);
+
+      const healthyPatient: RowData = {
+        ...patient,
+        isAlert: false,
+        issues: [],
+        healthStatus: "healthy",
+        // Show "Healthy" instead of the row's condition
+        condition: "Healthy",
+        severity: "green",
+        alertReasons: ["All readings within normal range"],
+      };
+      aggregatedPatients.push(healthyPatient);
     }
-    
-    return aggregatedPatients;
+
+    return { patients: aggregatedPatients, readings, headers: firstHeaders, mapping: firstMapping!, sources, issues };
   } catch (error: unknown) {
     console.error('Error processing Excel file:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,178 @@
+import { extractReasoning } from "./openai";
+import type { GuardrailFinding, PatientData } from "@shared/types";
+
+// Highest Flesch-Kincaid grade allowed in patient-facing text; seniors read it without help
+export const READING_GRADE_CEILING = 8;
+
+// Sentences that tell a reader an alerting patient is fine
+const REASSURANCE_PATTERNS = [
+  /\bno (?:cause for )?concerns?\b/i,
+  /\bnothing to worry about\b/i,
+  /\beverything (?:looks|is|seems) (?:normal|fine|good|great)\b/i,
+  /\ball (?:of (?:your|the) )?(?:readings|vitals|values|results) (?:are |were )?(?:within|in) (?:the )?normal range\b/i,
+  /\bno (?:further )?(?:action|follow-up|follow up) (?:is )?(?:needed|required|necessary)\b/i,
+];
+
+// Sentences that raise an alarm a green patient doesn't warrant
+const ALARM_PATTERNS = [
+  /\bcall 911\b/i,
+  /\bemergency\b/i,
+  /\b(?:seek|get) (?:immediate|urgent) (?:medical )?(?:care|attention|help)\b/i,
+  /\bcritical(?:ly)?\b/i,
+  /\burgent(?:ly)?\b/i,
+];
+
+// Dosing instructions belong to the care team, never the patient message
+const DOSING_PATTERNS = [
+  /\b\d+(?:\.\d+)?\s?(?:mg|mcg|µg|g|ml|mL|units?|iu|IU)\b/,
+  /\b(?:take|taking) (?:an? )?(?:extra|additional|another|double|half|\d+) (?:dose|pill|tablet|capsule)s?\b/i,
+  /\b(?:increase|decrease|reduce|lower|raise|double|adjust|skip|stop) (?:your |the )?(?:dose|dosage|medication|medicine|insulin|pills?)\b/i,
+  /\bstop taking\b/i,
+];
+
+// Model fallbacks in openai.ts when nothing came back
+const EMPTY_OUTPUTS = ["No prompt generated", "No message generated"];
+
+export type Severity = "red" | "yellow" | "green";
+
+/**
+ * red / yellow / green for a patient, from the CRITICAL / ATTENTION prefixes
+ * triage puts on the alert reasons
+ */
+export function patientSeverity(patient: PatientData): Severity {
+  if (!patient.isAlert) return "green";
+  return (patient.alertReasons || []).some((reason) => reason.startsWith("CRITICAL")) ? "red" : "yellow";
+}
+
+function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (cleaned.length <= 3) return 1;
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(groups?.length ?? 1, 1);
+}
+
+/**
+ * Flesch-Kincaid grade level of a text
+ */
+export function readingGrade(text: string): number {
+  const words = text.match(/[A-Za-z]+(?:'[A-Za-z]+)?/g) || [];
+  if (words.length === 0) return 0;
+  const sentences = Math.max((text.match(/[.!?]+(?:\s|$)/g) || []).length, 1);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  return 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "Smith, John" is written "John Smith" in prose, so look for both orders
+function nameVariants(name: string): string[] {
+  const trimmed = name.replace(/\s*\(.*\)\s*$/, "").trim(); // Drop a "(MM/DD/YYYY)" suffix
+  const [last, first] = trimmed.split(",").map((part) => part.trim());
+  return first ? [trimmed, `${first} ${last}`] : [trimmed];
+}
+
+/**
+ * Other patients' names that appear in a text. Single-word names are ignored
+ * since they are too likely to be ordinary words.
+ */
+export function findLeakedNames(text: string, patientName: string, otherNames: string[]): string[] {
+  const own = new Set(nameVariants(patientName).map((variant) => variant.toLowerCase()));
+  const leaked = new Set<string>();
+
+  for (const name of otherNames) {
+    for (const variant of nameVariants(name)) {
+      if (variant.split(/\s+/).length < 2 || own.has(variant.toLowerCase())) continue;
+      if (new RegExp(`\\b${escapeRegExp(variant)}\\b`, "i").test(text)) {
+        leaked.add(name);
+      }
+    }
+  }
+  return Array.from(leaked);
+}
+
+export interface GuardrailInput {
+  patient: PatientData;
+  caregiverMessage: string;
+  patientMessage: string;
+  otherPatientNames: string[]; // Everyone else in the batch
+}
+
+/**
+ * Run every post-generation check on a patient's caregiver and patient
+ * messages. An empty list means both messages can be stored as they are.
+ */
+export function checkGeneratedMessages({
+  patient,
+  caregiverMessage,
+  patientMessage,
+  otherPatientNames,
+}: GuardrailInput): GuardrailFinding[] {
+  const findings: GuardrailFinding[] = [];
+  // Only what the patient receives is checked, not the model's reasoning section
+  const patientText = extractReasoning(patientMessage).displayPrompt;
+  const messages = [
+    { target: "caregiver" as const, text: caregiverMessage },
+    { target: "patient" as const, text: patientText },
+  ];
+
+  // Severity: reassurance for an alert, or alarm for a green patient
+  const severity = patientSeverity(patient);
+  for (const { target, text } of messages) {
+    const patterns = severity === "green" ? ALARM_PATTERNS : REASSURANCE_PATTERNS;
+    const match = patterns.map((pattern) => text.match(pattern)).find((found) => found);
+    if (match) {
+      findings.push({
+        check: "severity",
+        target,
+        message: `Says "${match[0]}" for a ${severity} patient`,
+      });
+    }
+  }
+
+  // Dosing advice in patient-facing text
+  const dosing = DOSING_PATTERNS.map((pattern) => patientText.match(pattern)).find((found) => found);
+  if (dosing) {
+    findings.push({
+      check: "dosing",
+      target: "patient",
+      message: `Contains medication dosing advice ("${dosing[0]}")`,
+    });
+  }
+
+  // Reading level of patient-facing text
+  const grade = readingGrade(patientText);
+  if (grade > READING_GRADE_CEILING) {
+    findings.push({
+      check: "readingLevel",
+      target: "patient",
+      message: `Reading grade ${grade.toFixed(1)} is above the grade ${READING_GRADE_CEILING} ceiling`,
+    });
+  }
+
+  // Required sections
+  const { displayPrompt, reasoning } = extractReasoning(caregiverMessage);
+  if (!displayPrompt.trim() || EMPTY_OUTPUTS.includes(caregiverMessage.trim())) {
+    findings.push({ check: "sections", target: "caregiver", message: "Message body is missing" });
+  } else if (!reasoning) {
+    findings.push({ check: "sections", target: "caregiver", message: "Reasoning section is missing" });
+  }
+  if (!patientText.trim() || EMPTY_OUTPUTS.includes(patientText.trim())) {
+    findings.push({ check: "sections", target: "patient", message: "Message is empty" });
+  }
+
+  // Other patients' names
+  for (const { target, text } of messages) {
+    const leaked = findLeakedNames(text, patient.name, otherPatientNames);
+    if (leaked.length > 0) {
+      findings.push({
+        check: "nameLeak",
+        target,
+        message: `Mentions other patients: ${leaked.join(", ")}`,
+      });
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,269 @@
+import type { PatientData } from "@shared/types";
+
+// Matches at or above this score are merged without asking anyone
+export const AUTO_MATCH_SCORE = 0.9;
+
+// Matches between this and AUTO_MATCH_SCORE go to the merge-review queue
+export const REVIEW_MATCH_SCORE = 0.7;
+
+// Without a DOB to confirm it, even an identical name is only a review candidate
+const NAME_ONLY_WEIGHT = 0.85;
+
+/**
+ * What identity resolution compares: a patient from an upload or the registry
+ */
+export interface IdentityRecord {
+  patientId: string;
+  patientIdGenerated?: boolean; // No real ID to trust, e.g. an upload row without one
+  name: string;
+  dateOfBirth?: string | null; // YYYY-MM-DD
+}
+
+export interface IdentityMatch {
+  score: number; // 0-1
+  reasons: string[];
+}
+
+export interface MergeReview {
+  patientId: string;
+  candidatePatientId: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface ResolvedIdentities {
+  patients: PatientData[];
+  aliases: Map<string, string>; // Patient ID in the upload -> the ID it was resolved to
+  reviews: MergeReview[];
+}
+
+/**
+ * Lowercase, strip accents, punctuation and titles, and sort the name parts,
+ * so "Smith, John A." and "john a smith" compare equal
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((part) => part && !/^(mr|mrs|ms|miss|dr|jr|sr|ii|iii)$/.test(part))
+    .sort()
+    .join(" ");
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 0-1 similarity of two names after normalizing, based on edit distance
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+// Placeholder names tell us nothing about who the patient is
+function isUnknownName(name: string): boolean {
+  const normalized = normalizeName(name);
+  return !normalized || normalized === "unknown";
+}
+
+/**
+ * Score how likely two records are the same person. A shared real patient ID
+ * is conclusive; otherwise the score comes from the name, confirmed or ruled
+ * out by the date of birth. Two different real IDs are never merged
+ * automatically, only sent for review.
+ */
+export function scoreIdentityMatch(a: IdentityRecord, b: IdentityRecord): IdentityMatch {
+  if (!a.patientIdGenerated && !b.patientIdGenerated && a.patientId === b.patientId) {
+    return { score: 1, reasons: ["Same patient ID"] };
+  }
+  if (isUnknownName(a.name) || isUnknownName(b.name)) {
+    return { score: 0, reasons: ["No name to compare"] };
+  }
+
+  const similarity = nameSimilarity(a.name, b.name);
+  const reasons = [similarity === 1 ? "Same name" : `Similar name (${Math.round(similarity * 100)}%)`];
+  let score: number;
+
+  if (a.dateOfBirth && b.dateOfBirth) {
+    if (a.dateOfBirth === b.dateOfBirth) {
+      score = 0.5 + 0.5 * similarity;
+      reasons.push("Same date of birth");
+    } else {
+      score = similarity * 0.3;
+      reasons.push("Different date of birth");
+    }
+  } else {
+    score = similarity * NAME_ONLY_WEIGHT;
+    reasons.push("No date of birth to confirm");
+  }
+
+  if (!a.patientIdGenerated && !b.patientIdGenerated) {
+    score = Math.min(score, AUTO_MATCH_SCORE - 0.01);
+    reasons.push("Different patient IDs");
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Fold one upload record into another, keeping every row, reading and issue
+ */
+export function mergePatientRecords(target: PatientData, source: PatientData): PatientData {
+  const conditions = Array.from(
+    new Set(
+      [target.condition, source.condition]
+        .flatMap((condition) => (condition || "").split(", "))
+        .filter((condition) => condition && condition !== "Unknown" && condition !== "Healthy")
+    )
+  );
+  const isAlert = !!target.isAlert || !!source.isAlert;
+
+  return {
+    ...target,
+    name: isUnknownName(target.name) ? source.name : target.name,
+    dateOfBirth: target.dateOfBirth || source.dateOfBirth,
+    phoneNumber: target.phoneNumber || source.phoneNumber,
+    age: target.age || source.age,
+    condition: conditions.length > 0 ? conditions.join(", ") : target.condition,
+    variables: { ...(source.variables || {}), ...(target.variables || {}) },
+    issues: [...(target.issues || []), ...(source.issues || [])],
+    alertReasons: isAlert
+      ? [...(target.isAlert ? target.alertReasons || [] : []), ...(source.isAlert ? source.alertReasons || [] : [])]
+      : target.alertReasons,
+    rawData: [...(target.rawData || []), ...(source.rawData || [])],
+    isAlert,
+    healthStatus: isAlert ? "alert" : "healthy",
+  };
+}
+
+// Highest-scoring record that isn't `record` itself
+function bestMatch(record: IdentityRecord, candidates: IdentityRecord[]): { candidate: IdentityRecord; match: IdentityMatch } | null {
+  let best: { candidate: IdentityRecord; match: IdentityMatch } | null = null;
+  for (const candidate of candidates) {
+    if (candidate === record) continue;
+    const match = scoreIdentityMatch(record, candidate);
+    if (!best || match.score > best.match.score) {
+      best = { candidate, match };
+    }
+  }
+  return best;
+}
+
+/**
+ * Work out who each patient in an upload is. Records are first matched
+ * against each other, then against the registry:
+ * - the same real patient ID is always the same patient
+ * - a record without an ID is merged into a confident match (name + DOB),
+ *   or otherwise given a fresh ID from `newPatientId`
+ * - uncertain matches are kept apart and returned as merge reviews
+ * No record is ever dropped; merged records keep all of their rows.
+ */
+export function resolveIdentities(
+  uploaded: PatientData[],
+  registry: IdentityRecord[],
+  newPatientId: () => string
+): ResolvedIdentities {
+  const aliases = new Map<string, string>();
+  const reviews: MergeReview[] = [];
+  const resolved: PatientData[] = [];
+
+  // Records with real IDs go first so rows without one merge into them
+  const ordered = [...uploaded].sort((a, b) => Number(!!a.patientIdGenerated) - Number(!!b.patientIdGenerated));
+
+  // Within the upload
+  for (const patient of ordered) {
+    const match = bestMatch(patient, resolved);
+    if (match && patient.patientIdGenerated && match.match.score >= AUTO_MATCH_SCORE) {
+      const index = resolved.indexOf(match.candidate as PatientData);
+      resolved[index] = mergePatientRecords(resolved[index], patient);
+      aliases.set(patient.patientId, resolved[index].patientId);
+      continue;
+    }
+    if (match && match.match.score >= REVIEW_MATCH_SCORE) {
+      reviews.push({
+        patientId: patient.patientId,
+        candidatePatientId: match.candidate.patientId,
+        score: match.match.score,
+        reasons: match.match.reasons,
+      });
+    }
+    resolved.push(patient);
+  }
+
+  // Against the registry
+  const registered = new Set(registry.map((record) => record.patientId));
+  for (let i = 0; i < resolved.length; i++) {
+    const patient = resolved[i];
+    if (!patient.patientIdGenerated && registered.has(patient.patientId)) continue;
+
+    const match = bestMatch(patient, registry);
+    let patientId = patient.patientId;
+    if (match && patient.patientIdGenerated && match.match.score >= AUTO_MATCH_SCORE) {
+      patientId = match.candidate.patientId;
+    } else {
+      if (patient.patientIdGenerated) {
+        // Placeholders like "P3" repeat across uploads, so they can't be registry keys
+        patientId = newPatientId();
+      }
+      if (match && match.match.score >= REVIEW_MATCH_SCORE) {
+        reviews.push({
+          patientId,
+          candidatePatientId: match.candidate.patientId,
+          score: match.match.score,
+          reasons: match.match.reasons,
+        });
+      }
+    }
+
+    if (patientId !== patient.patientId) {
+      for (const review of reviews) {
+        if (review.patientId === patient.patientId) review.patientId = patientId;
+        if (review.candidatePatientId === patient.patientId) review.candidatePatientId = patientId;
+      }
+      for (const [from, to] of Array.from(aliases.entries())) {
+        if (to === patient.patientId) aliases.set(from, patientId);
+      }
+      aliases.set(patient.patientId, patientId);
+      resolved[i] = { ...patient, patientId, patientIdGenerated: false };
+    }
+  }
+
+  // Two placeholder records can resolve to the same registry patient
+  const byId = new Map<string, PatientData>();
+  for (const patient of resolved) {
+    const existing = byId.get(patient.patientId);
+    byId.set(patient.patientId, existing ? mergePatientRecords(existing, patient) : patient);
+  }
+
+  // The same pair can be raised from both sides, and merged records no longer need review
+  const seenPairs = new Set<string>();
+  const uniqueReviews = reviews.filter((review) => {
+    if (review.patientId === review.candidatePatientId) return false;
+    const pair = [review.patientId, review.candidatePatientId].sort().join("|");
+    if (seenPairs.has(pair)) return false;
+    seenPairs.add(pair);
+    return true;
+  });
+
+  return { patients: Array.from(byId.values()), aliases, reviews: uniqueReviews };
+}
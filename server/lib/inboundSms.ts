@@ -0,0 +1,140 @@
+import { storage } from "../storage";
+import type { AlertEscalation, InsertSmsMessage } from "@shared/schema";
+import { acknowledgeEscalation, escalateNow, getPagedRecipient } from "./escalations";
+
+// Clinician reply keywords, optionally followed by the alert's code: "ACK", "ACK K7P2QX", "esc k7p2qx"
+const KEYWORD_PATTERN = /^\s*(ACK|ESC)\b\s*([A-Z0-9]{4,8})?\s*$/i;
+
+export interface InboundSms {
+  from: string;
+  to: string;
+  body: string;
+  twilioSid?: string | null;
+}
+
+export interface InboundSmsResult {
+  senderType: "clinician" | "patient" | "unknown";
+  intent: "ack" | "esc" | "reply";
+  patientId: string | null;
+  reply: string | null; // Text to send back to the sender, if any
+  duplicate: boolean; // Twilio retried a message we already handled
+}
+
+/**
+ * Find the escalation a clinician reply refers to: an explicit code wins,
+ * otherwise the open escalation for the last alert we texted them about.
+ */
+async function findEscalationForReply(code: string | undefined, alertId: string | null): Promise<AlertEscalation | undefined> {
+  if (code) {
+    return await storage.getEscalationByAckCode(code.toUpperCase());
+  }
+  if (alertId) {
+    const escalation = await storage.getEscalationByAlertId(alertId);
+    if (escalation && (escalation.status === "active" || escalation.status === "exhausted")) {
+      return escalation;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Match an inbound SMS to the alert or patient it belongs to, act on
+ * clinician keywords and record it (and any reply) in the conversation log.
+ * Only the contact currently paged for an escalation can ACK or ESC it, and
+ * a message Twilio delivers twice is only acted on once.
+ */
+export async function handleInboundSms(sms: InboundSms): Promise<InboundSmsResult> {
+  const message: InsertSmsMessage = {
+    direction: "inbound",
+    fromNumber: sms.from,
+    toNumber: sms.to,
+    body: sms.body,
+    twilioSid: sms.twilioSid ?? null,
+    senderType: "unknown",
+    intent: "reply",
+    patientId: null,
+    patientName: null,
+    alertId: null,
+    escalationId: null,
+    dispatchId: null,
+  };
+  let reply: string | null = null;
+
+  // Record the message before acting on it so a retried webhook finds it and stops
+  const recorded = await storage.createInboundSmsMessage(message);
+  if (!recorded) {
+    console.log(`Ignoring duplicate inbound SMS ${sms.twilioSid} from ${sms.from}`);
+    return { senderType: "unknown", intent: "reply", patientId: null, reply: null, duplicate: true };
+  }
+
+  // Anyone we've sent an alert to is a clinician
+  const dispatch = await storage.getLatestDispatchToRecipient(sms.from);
+
+  if (dispatch) {
+    message.senderType = "clinician";
+    message.dispatchId = dispatch.id;
+    message.alertId = dispatch.alertId;
+    message.patientId = dispatch.patientId;
+    message.patientName = dispatch.patientName;
+
+    const keyword = sms.body.match(KEYWORD_PATTERN);
+    if (keyword) {
+      const intent = keyword[1].toLowerCase() as "ack" | "esc";
+      const escalation = await findEscalationForReply(keyword[2], dispatch.alertId);
+      message.intent = intent;
+
+      if (!escalation) {
+        reply = keyword[2] ? `No open alert matches code ${keyword[2]}.` : "No open alert found to update.";
+      } else {
+        message.escalationId = escalation.id;
+        message.alertId = escalation.alertId;
+        message.patientId = escalation.patientId;
+        message.patientName = escalation.patientName;
+
+        const patientLabel = escalation.patientName || escalation.patientId;
+        if ((await getPagedRecipient(escalation.id)) !== sms.from) {
+          reply = `Only the clinician currently paged can update the alert for ${patientLabel}.`;
+        } else if (intent === "ack") {
+          await acknowledgeEscalation(escalation.id, sms.from);
+          reply = `Acknowledged alert for ${patientLabel}. Thank you.`;
+        } else {
+          await escalateNow(escalation.id, sms.from);
+          reply = `Escalating alert for ${patientLabel} to the next contact.`;
+        }
+      }
+    }
+  } else {
+    const patient = await storage.findPatientByPhone(sms.from);
+    if (patient) {
+      message.senderType = "patient";
+      message.patientId = patient.patientId;
+      message.patientName = patient.patientName;
+    }
+  }
+
+  await storage.updateSmsMessage(recorded.id, message);
+
+  if (reply) {
+    await storage.createSmsMessage({
+      direction: "outbound",
+      fromNumber: sms.to,
+      toNumber: sms.from,
+      body: reply,
+      senderType: "system",
+      patientId: message.patientId,
+      patientName: message.patientName,
+      alertId: message.alertId,
+      escalationId: message.escalationId,
+    });
+  }
+
+  console.log(`Inbound SMS from ${message.senderType} ${sms.from} (intent: ${message.intent}, patient: ${message.patientId || "unmatched"})`);
+
+  return {
+    senderType: message.senderType as InboundSmsResult["senderType"],
+    intent: message.intent as InboundSmsResult["intent"],
+    patientId: message.patientId ?? null,
+    reply,
+    duplicate: false,
+  };
+}
@@ -0,0 +1,96 @@
+import { storage } from "../storage";
+import { completeForTask } from "./llm";
+import { patientLanguageNames, patientLanguages, type PatientLanguage } from "@shared/schema";
+
+// Transcriber and voice per language for Vapi calls. English calls keep the
+// assistant's own configuration.
+const CALL_LANGUAGE_CONFIG: Record<Exclude<PatientLanguage, "en">, {
+  transcriber: { provider: string; model: string; language: string };
+  voice: { provider: string; voiceId: string };
+}> = {
+  es: {
+    transcriber: { provider: "deepgram", model: "nova-2", language: "es" },
+    voice: { provider: "azure", voiceId: "es-US-PalomaNeural" },
+  },
+  vi: {
+    transcriber: { provider: "deepgram", model: "nova-2", language: "vi" },
+    voice: { provider: "azure", voiceId: "vi-VN-HoaiMyNeural" },
+  },
+};
+
+// Unknown or legacy language codes fall back to English
+export function normalizeLanguage(code?: string | null): PatientLanguage {
+  const normalized = (code || "").trim().toLowerCase().split(/[-_]/)[0];
+  return patientLanguages.includes(normalized as PatientLanguage) ? (normalized as PatientLanguage) : "en";
+}
+
+export function getLanguageName(code?: string | null): string {
+  return patientLanguageNames[normalizeLanguage(code)];
+}
+
+// The patient's preferred language from the registry, English if unregistered
+export async function getPatientLanguage(patientId: string): Promise<PatientLanguage> {
+  const patient = await storage.getPatient(patientId);
+  return normalizeLanguage(patient?.preferredLanguage);
+}
+
+/**
+ * Added to the patient system prompt so the message is written natively in
+ * the patient's language rather than translated. Empty for English.
+ */
+export function getPatientMessageInstruction(language: PatientLanguage): string {
+  if (language === "en") return "";
+  const name = patientLanguageNames[language];
+  return `\n\nLANGUAGE: The patient's preferred language is ${name}. Write the message itself entirely in natural, everyday ${name} as a native speaker would, not as a translation. Write the "**Reasoning:**" section in English, since it is read by the care team.`;
+}
+
+/**
+ * Translate a patient message into English for the care team
+ * @returns The translation, or null if it couldn't be produced
+ */
+export async function translateToEnglish(
+  text: string,
+  language: PatientLanguage,
+  context: { batchId?: string; patientId?: string } = {}
+): Promise<string | null> {
+  if (language === "en" || !text.trim()) return null;
+
+  try {
+    const translation = await completeForTask("patientMessage", {
+      messages: [
+        {
+          role: "system",
+          content: `Translate the following ${patientLanguageNames[language]} message to a patient into English for their care team. Keep the meaning, tone and any numbers exactly; do not add or leave out anything. Reply with the translation only.`,
+        },
+        { role: "user", content: text },
+      ],
+      temperature: 0.2,
+      maxTokens: 600,
+    }, context);
+    return translation.trim() || null;
+  } catch (error) {
+    console.error(`Error translating ${language} patient message to English:`, error);
+    return null;
+  }
+}
+
+/**
+ * Vapi assistant overrides and a system prompt addition for calling a
+ * patient in their language. English calls get no overrides.
+ */
+export function getCallLanguageOverrides(language: PatientLanguage): {
+  overrides: Record<string, unknown>;
+  instruction: string;
+} {
+  if (language === "en") return { overrides: {}, instruction: "" };
+
+  const name = patientLanguageNames[language];
+  return {
+    overrides: {
+      ...CALL_LANGUAGE_CONFIG[language],
+      // The assistant's configured greeting is English, so let the model greet in the patient's language
+      firstMessageMode: "assistant-speaks-first-with-model-generated-message",
+    },
+    instruction: `\n\nLANGUAGE: Speak with the patient only in ${name}, starting with your greeting. The care information above is in English for reference; put it into simple, natural ${name} when you talk.`,
+  };
+}
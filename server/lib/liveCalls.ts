@@ -0,0 +1,196 @@
+import { EventEmitter } from "events";
+import { storage } from "../storage";
+import type { CallFlag } from "@shared/schema";
+import type { LiveCall, LiveCallFlag, LiveTranscriptLine } from "@shared/types";
+
+const MINUTE = 60 * 1000;
+
+// Ended calls stay on screen this long so the last lines can still be read
+const ENDED_RETENTION_MS = 5 * MINUTE;
+
+// Calls with no events for this long ended without Vapi telling us
+const STALE_CALL_MS = 2 * 60 * MINUTE;
+
+// Transcript lines saved with a follow-up flag
+const FLAG_EXCERPT_LINES = 6;
+
+/**
+ * Emits "call" with a LiveCall minus its transcript whenever a call's status,
+ * speaker or flags change, "transcript" with { callId, line } for each
+ * finished utterance and "removed" with { callId } once a call is dropped,
+ * so the SSE endpoint can stream them
+ */
+export const liveCallEvents = new EventEmitter();
+liveCallEvents.setMaxListeners(0); // One listener per open monitor
+
+// Calls in progress, by Vapi call ID. Kept in memory: the history is stored
+// from the end-of-call report, this is only what coordinators watch live.
+const liveCalls = new Map<string, LiveCall>();
+
+function toRole(role: unknown): "assistant" | "user" {
+  return role === "user" ? "user" : "assistant";
+}
+
+function toLiveFlag(flag: CallFlag): LiveCallFlag {
+  return {
+    id: flag.id,
+    note: flag.note,
+    flaggedBy: flag.flaggedBy,
+    createdAt: flag.createdAt.toISOString(),
+  };
+}
+
+function publishCall(call: LiveCall): void {
+  const { transcript, ...update } = call;
+  liveCallEvents.emit("call", update);
+}
+
+function pruneLiveCalls(now: number = Date.now()): void {
+  for (const [callId, call] of Array.from(liveCalls)) {
+    const idle = now - new Date(call.updatedAt).getTime();
+    if ((call.status === "ended" && idle > ENDED_RETENTION_MS) || idle > STALE_CALL_MS) {
+      liveCalls.delete(callId);
+      liveCallEvents.emit("removed", { callId });
+    }
+  }
+}
+
+/**
+ * Start showing a call we just placed, before Vapi reports on it
+ */
+export function trackLiveCall(call: {
+  callId: string;
+  patientId: string;
+  patientName: string;
+  phoneNumber: string;
+}): void {
+  const now = new Date().toISOString();
+  const live: LiveCall = {
+    ...call,
+    status: "queued",
+    endedReason: null,
+    speaking: null,
+    partial: null,
+    transcript: [],
+    flags: [],
+    startedAt: now,
+    updatedAt: now,
+  };
+  liveCalls.set(call.callId, live);
+  publishCall(live);
+}
+
+/**
+ * Apply a status-update, speech-update, transcript or end-of-call-report
+ * webhook message to the call it belongs to. Vapi only sends the first three
+ * when they are enabled in the assistant's server messages.
+ */
+export function recordLiveCallEvent(message: any): void {
+  const call = message?.call;
+  const type: string = message?.type || "";
+  if (!call?.id) return;
+
+  const isTranscript = type.startsWith("transcript"); // Also "transcript[transcriptType=\"final\"]"
+  let live = liveCalls.get(call.id);
+  if (!live) {
+    if (type !== "status-update" && type !== "speech-update" && !isTranscript) return;
+    const now = new Date().toISOString();
+    live = {
+      callId: call.id,
+      patientId: call.metadata?.patientId || "unknown",
+      patientName: call.metadata?.patientName || "Unknown Patient",
+      phoneNumber: call.customer?.number || "",
+      status: call.status || "in-progress",
+      endedReason: null,
+      speaking: null,
+      partial: null,
+      transcript: [],
+      flags: [],
+      startedAt: call.startedAt || now,
+      updatedAt: now,
+    };
+    liveCalls.set(call.id, live);
+  }
+
+  if (type === "status-update") {
+    live.status = message.status || live.status;
+    if (live.status === "ended") {
+      live.endedReason = message.endedReason || null;
+      live.speaking = null;
+      live.partial = null;
+    }
+  } else if (type === "speech-update") {
+    const role = toRole(message.role);
+    if (message.status === "started") {
+      live.speaking = role;
+    } else if (live.speaking === role) {
+      live.speaking = null;
+    }
+  } else if (isTranscript) {
+    const role = toRole(message.role);
+    const text = String(message.transcript || "").trim();
+    if (!text) return;
+
+    if (message.transcriptType === "final" || type.includes("final")) {
+      const line: LiveTranscriptLine = { role, text, at: new Date().toISOString() };
+      live.transcript.push(line);
+      if (live.partial?.role === role) live.partial = null;
+      liveCallEvents.emit("transcript", { callId: live.callId, line });
+    } else {
+      live.partial = { role, text };
+    }
+  } else if (type === "end-of-call-report") {
+    live.status = "ended";
+    live.endedReason = message.endedReason || live.endedReason;
+    live.speaking = null;
+    live.partial = null;
+  } else {
+    return;
+  }
+
+  live.updatedAt = new Date().toISOString();
+  publishCall(live);
+  pruneLiveCalls();
+}
+
+/**
+ * Calls in progress or recently ended, newest first
+ */
+export function getLiveCalls(): LiveCall[] {
+  pruneLiveCalls();
+  return Array.from(liveCalls.values())
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Flag a live call for follow-up, saving what was said just before.
+ * Undefined if the call isn't being monitored.
+ */
+export async function flagLiveCall(
+  callId: string,
+  note: string | undefined,
+  flaggedBy?: number
+): Promise<LiveCallFlag | undefined> {
+  const live = liveCalls.get(callId);
+  if (!live) return undefined;
+
+  const excerpt = live.transcript
+    .slice(-FLAG_EXCERPT_LINES)
+    .map((line) => `${line.role === "user" ? "Patient" : "Assistant"}: ${line.text}`)
+    .join("\n");
+
+  const flag = await storage.createCallFlag({
+    callId,
+    patientId: live.patientId,
+    note: note || undefined,
+    transcriptExcerpt: excerpt || null,
+    flaggedBy,
+  });
+
+  const liveFlag = toLiveFlag(flag);
+  live.flags.push(liveFlag);
+  live.updatedAt = new Date().toISOString();
+  publishCall(live);
+  console.log(`🚩 Call ${callId} flagged for follow-up${note ? `: ${note}` : ""}`);
+  return liveFlag;
+}
@@ -0,0 +1,331 @@
+import OpenAI from "openai";
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import {
+  llmCostSettingsSchema,
+  llmProviders,
+  llmSettingsSchema,
+  type LlmCostSettings,
+  type LlmProviderName,
+  type LlmSettings,
+  type LlmTask,
+} from "@shared/schema";
+import { calculateUsageCost, DEFAULT_MODEL_PRICES, estimateTokens, priceForModel } from "./tokenUsageEstimator";
+import type { BudgetAlert, TokenUsageSummary } from "@shared/types";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON object response
+}
+
+export interface CompletionResult {
+  text: string;
+  usage?: { inputTokens: number; outputTokens: number }; // As reported by the provider
+}
+
+// What a call was for, so its cost can be attributed in the usage ledger
+export interface UsageContext {
+  batchId?: string | null;
+  patientId?: string | null;
+}
+
+/**
+ * A text generation backend. Every task goes through complete(), so the
+ * provider and model can be swapped per task from settings.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  complete(model: string, request: CompletionRequest): Promise<CompletionResult>;
+}
+
+// Anything speaking the OpenAI chat completions API: OpenAI itself, Ollama, llama.cpp server, vLLM
+class OpenAICompatibleProvider implements LlmProvider {
+  constructor(readonly name: LlmProviderName, private client: OpenAI) {}
+
+  async complete(model: string, request: CompletionRequest): Promise<CompletionResult> {
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+    });
+    return {
+      text: completion.choices[0]?.message?.content ?? "",
+      usage: completion.usage
+        ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Returns the same text for the same request without any network access,
+ * so uploads and the generation queue can be exercised offline
+ */
+class FakeProvider implements LlmProvider {
+  readonly name = "fake" as const;
+
+  async complete(model: string, request: CompletionRequest): Promise<CompletionResult> {
+    const digest = createHash("sha256")
+      .update(JSON.stringify([model, request.messages]))
+      .digest("hex")
+      .slice(0, 12);
+
+    if (request.json) {
+      return { text: JSON.stringify({ fake: true, model, digest }) };
+    }
+
+    const lastUser = [...request.messages].reverse().find((message) => message.role === "user");
+    const excerpt = (lastUser?.content ?? "").trim().split("\n").slice(0, 3).join(" ").slice(0, 200);
+    return { text: `[fake ${model} ${digest}] ${excerpt}\n\nReasoning: deterministic fake response for offline testing.` };
+  }
+}
+
+// Models the application used before they were configurable
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  localBaseUrl: process.env.LOCAL_LLM_BASE_URL || null,
+  localApiKey: null,
+  tasks: {
+    caregiverPrompt: { provider: "openai", model: "gpt-5-mini" },
+    patientMessage: { provider: "openai", model: "gpt-5-mini" },
+    trendReport: { provider: "openai", model: "gpt-5-mini" },
+    callSummary: { provider: "openai", model: "gpt-4o-mini" },
+  },
+};
+
+const SETTINGS_KEY = "llmSettings";
+const COST_SETTINGS_KEY = "llmCosts";
+
+export const DEFAULT_LLM_COST_SETTINGS: LlmCostSettings = {
+  prices: DEFAULT_MODEL_PRICES,
+  dailyBudget: null,
+  monthlyBudget: null,
+  alertThreshold: 0.8,
+};
+
+/**
+ * Saved LLM settings, falling back to the defaults. LLM_PROVIDER forces one
+ * provider for every task (e.g. "fake" in offline test runs).
+ */
+export async function getLlmSettings(): Promise<LlmSettings> {
+  let settings = DEFAULT_LLM_SETTINGS;
+
+  const saved = await storage.getSetting(SETTINGS_KEY);
+  if (saved) {
+    try {
+      const parsed = llmSettingsSchema.safeParse(JSON.parse(saved));
+      if (parsed.success) {
+        settings = parsed.data;
+      } else {
+        console.warn("Ignoring invalid saved LLM settings:", parsed.error.message);
+      }
+    } catch (error) {
+      console.warn("Ignoring unreadable saved LLM settings:", error);
+    }
+  }
+
+  const forced = process.env.LLM_PROVIDER as LlmProviderName | undefined;
+  if (forced && llmProviders.includes(forced)) {
+    settings = {
+      ...settings,
+      tasks: Object.fromEntries(
+        Object.entries(settings.tasks).map(([task, choice]) => [task, { ...choice, provider: forced }])
+      ) as LlmSettings["tasks"],
+    };
+  }
+
+  return settings;
+}
+
+export async function saveLlmSettings(settings: LlmSettings): Promise<LlmSettings> {
+  await storage.updateSetting(SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+}
+
+/**
+ * Saved prices and budgets, falling back to list prices with no budget
+ */
+export async function getLlmCostSettings(): Promise<LlmCostSettings> {
+  const saved = await storage.getSetting(COST_SETTINGS_KEY);
+  if (!saved) return DEFAULT_LLM_COST_SETTINGS;
+
+  try {
+    const parsed = llmCostSettingsSchema.safeParse(JSON.parse(saved));
+    if (parsed.success) return parsed.data;
+    console.warn("Ignoring invalid saved LLM cost settings:", parsed.error.message);
+  } catch (error) {
+    console.warn("Ignoring unreadable saved LLM cost settings:", error);
+  }
+  return DEFAULT_LLM_COST_SETTINGS;
+}
+
+export async function saveLlmCostSettings(settings: LlmCostSettings): Promise<LlmCostSettings> {
+  await storage.updateSetting(COST_SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+}
+
+let openaiProvider: LlmProvider | null = null;
+const fakeProvider = new FakeProvider();
+
+function getProvider(name: LlmProviderName, settings: LlmSettings): LlmProvider {
+  switch (name) {
+    case "openai":
+      openaiProvider ??= new OpenAICompatibleProvider(
+        "openai",
+        new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "" })
+      );
+      return openaiProvider;
+    case "local":
+      if (!settings.localBaseUrl) {
+        throw new Error("Local LLM endpoint is not configured");
+      }
+      // Local servers usually ignore the key, but the client requires one
+      return new OpenAICompatibleProvider(
+        "local",
+        new OpenAI({ baseURL: settings.localBaseUrl, apiKey: settings.localApiKey || "local" })
+      );
+    case "fake":
+      return fakeProvider;
+  }
+}
+
+/**
+ * What a call costs per million tokens. OpenAI models use the price table;
+ * the fake provider is always free, and local models are free unless an
+ * admin priced them as "local/<model>".
+ */
+function priceForCall(provider: LlmProviderName, model: string, prices: LlmCostSettings["prices"]) {
+  switch (provider) {
+    case "openai":
+      return priceForModel(model, prices);
+    case "local":
+      return prices[`local/${model}`] ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    case "fake":
+      return { inputPerMillion: 0, outputPerMillion: 0 };
+  }
+}
+
+// Add a call to the usage ledger; a failure to record never fails the call itself
+async function recordUsage(
+  task: LlmTask,
+  provider: LlmProviderName,
+  model: string,
+  request: CompletionRequest,
+  context: UsageContext,
+  latencyMs: number,
+  result: CompletionResult | null,
+  error?: unknown
+): Promise<void> {
+  try {
+    let inputTokens = result?.usage?.inputTokens ?? 0;
+    let outputTokens = result?.usage?.outputTokens ?? 0;
+    const usageEstimated = !!result && !result.usage;
+    if (usageEstimated) {
+      inputTokens = estimateTokens(request.messages.map((message) => message.content).join("\n"));
+      outputTokens = estimateTokens(result.text);
+    }
+
+    const { prices } = await getLlmCostSettings();
+    const { totalCost } = calculateUsageCost(inputTokens, outputTokens, priceForCall(provider, model, prices));
+
+    await storage.createLlmUsage({
+      task,
+      provider,
+      model,
+      batchId: context.batchId ?? null,
+      patientId: context.patientId ?? null,
+      inputTokens,
+      outputTokens,
+      usageEstimated,
+      cost: totalCost,
+      latencyMs,
+      success: !error,
+      error: error ? (error instanceof Error ? error.message : String(error)) : null,
+    });
+  } catch (recordError) {
+    console.error(`Error recording LLM usage for ${task}:`, recordError);
+  }
+}
+
+/**
+ * Run a completion with the provider and model configured for a task and
+ * record it in the usage ledger
+ */
+export async function completeForTask(
+  task: LlmTask,
+  request: CompletionRequest,
+  context: UsageContext = {}
+): Promise<string> {
+  const settings = await getLlmSettings();
+  const { provider, model } = settings.tasks[task];
+
+  const startedAt = Date.now();
+  try {
+    const result = await getProvider(provider, settings).complete(model, request);
+    await recordUsage(task, provider, model, request, context, Date.now() - startedAt, result);
+    return result.text;
+  } catch (error) {
+    await recordUsage(task, provider, model, request, context, Date.now() - startedAt, null, error);
+    throw error;
+  }
+}
+
+// A budget alert once spend reaches the threshold share of the budget
+function budgetAlert(period: BudgetAlert["period"], spent: number, budget: number | null | undefined, threshold: number): BudgetAlert | null {
+  if (!budget) return null;
+  if (spent >= budget) return { period, spent, budget, level: "exceeded" };
+  if (spent >= budget * threshold) return { period, spent, budget, level: "warning" };
+  return null;
+}
+
+/**
+ * Ledger totals and breakdowns for a period, plus today's and this month's
+ * spend against the configured budgets
+ */
+export async function getTokenUsageSummary(from: Date, to: Date): Promise<TokenUsageSummary> {
+  const now = new Date();
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+  const [totals, byDay, byBatch, byTask, byModel, today, thisMonth, costSettings] = await Promise.all([
+    storage.getLlmUsageTotals(from, to),
+    storage.getLlmUsageBreakdown(from, to, "day"),
+    storage.getLlmUsageBreakdown(from, to, "batch"),
+    storage.getLlmUsageBreakdown(from, to, "task"),
+    storage.getLlmUsageBreakdown(from, to, "model"),
+    storage.getLlmUsageTotals(startOfDay, now),
+    storage.getLlmUsageTotals(startOfMonth, now),
+    getLlmCostSettings(),
+  ]);
+
+  const alerts = [
+    budgetAlert("day", today.cost, costSettings.dailyBudget, costSettings.alertThreshold),
+    budgetAlert("month", thisMonth.cost, costSettings.monthlyBudget, costSettings.alertThreshold),
+  ].filter((alert): alert is BudgetAlert => alert !== null);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: {
+      ...totals,
+      averageCostPerCall: totals.calls > 0 ? totals.cost / totals.calls : 0,
+    },
+    byDay,
+    byBatch,
+    byTask,
+    byModel,
+    budget: {
+      daily: { spent: today.cost, budget: costSettings.dailyBudget ?? null },
+      monthly: { spent: thisMonth.cost, budget: costSettings.monthlyBudget ?? null },
+    },
+    alerts,
+  };
+}
@@ -1,41 +1,18 @@
-import OpenAI from "openai";
-import {
-  logPromptCostEstimate,
-  estimateSinglePromptUsage,
-} from "./tokenUsageEstimator";
 import { PatientData } from "@shared/types";
 import { DatabaseStorage } from "../storage";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "" });
+import { completeForTask } from "./llm";
+import {
+  getPatientLanguage,
+  getPatientMessageInstruction,
+  normalizeLanguage,
+  translateToEnglish,
+} from "./language";
+import type { PatientLanguage } from "@shared/schema";
 
 // Use a cache to store generated prompts by condition type with size limit
 const promptCache = new Map<string, string>();
 const MAX_CACHE_SIZE = 1000; // Prevent memory leaks
 
-// Track token usage statistics
-let totalInputTokens = 0;
-let totalOutputTokens = 0;
-let totalApiCalls = 0;
-let totalEstimatedCost = 0;
-
-// Function to get token usage statistics
-export function getTokenUsageStats() {
-  return {
-    totalApiCalls,
-    totalInputTokens,
-    totalOutputTokens,
-    totalEstimatedCost,
-    averageCostPerCall:
-      totalApiCalls > 0 ? totalEstimatedCost / totalApiCalls : 0,
-    inputTokensPerCall:
-      totalApiCalls > 0 ? totalInputTokens / totalApiCalls : 0,
-    outputTokensPerCall:
-      totalApiCalls > 0 ? totalOutputTokens / totalApiCalls : 0,
-    timestamp: new Date().toISOString(),
-  };
-}
-
 // Utility function to extract reasoning from prompt text
 export function extractReasoning(promptText: string): {
   displayPrompt: string;
@@ -169,15 +146,30 @@ export function getDefaultPatientSystemPrompt(): string {
   return defaultPatientSystemPrompt;
 }
 
+// The patient message language: from the patient data if given, else the registry
+async function resolvePatientLanguage(patient: PatientData): Promise<PatientLanguage> {
+  return patient.preferredLanguage
+    ? normalizeLanguage(patient.preferredLanguage)
+    : await getPatientLanguage(patient.patientId);
+}
+
 /**
- * Generates both caregiver and patient messages for a patient
+ * Generates both caregiver and patient messages for a patient. The patient
+ * message is written in the patient's preferred language; the caregiver
+ * message stays English, and a non-English patient message comes with an
+ * English translation for the care team.
  */
 export async function generateDualMessages(
   patient: PatientData,
   batchId?: string,
   customSystemPrompt?: string,
   customPatientSystemPrompt?: string,
-): Promise<{ caregiverMessage: string; patientMessage: string }> {
+): Promise<{
+  caregiverMessage: string;
+  patientMessage: string;
+  patientMessageLanguage: PatientLanguage;
+  patientMessageEnglish: string | null;
+}> {
   // If no custom patient system prompt provided, fetch from database
   let finalPatientSystemPrompt = customPatientSystemPrompt;
   
@@ -191,10 +183,20 @@ export async function generateDualMessages(
   // Generate caregiver message
   const caregiverMessage = await generatePrompt(patient, batchId, customSystemPrompt);
   
-  // Generate patient message with the correct prompt
-  const patientMessage = await generatePatientMessageInternal(patient, batchId, finalPatientSystemPrompt);
+  // Generate patient message with the correct prompt, in the patient's language
+  const patientMessageLanguage = await resolvePatientLanguage(patient);
+  const patientMessage = await generatePatientMessageInternal(
+    { ...patient, preferredLanguage: patientMessageLanguage },
+    batchId,
+    finalPatientSystemPrompt,
+  );
+  const patientMessageEnglish = await translateToEnglish(
+    extractReasoning(patientMessage).displayPrompt,
+    patientMessageLanguage,
+    { batchId, patientId: patient.patientId },
+  );
   
-  return { caregiverMessage, patientMessage };
+  return { caregiverMessage, patientMessage, patientMessageLanguage, patientMessageEnglish };
 }
 
 /**
@@ -218,10 +220,10 @@ async function generatePatientMessageInternal(
     
     // Fall back to default if no saved prompt found
     systemPrompt = systemPrompt || defaultPatientSystemPrompt;
+    systemPrompt += getPatientMessageInstruction(await resolvePatientLanguage(patient));
 
-    // Generate a new patient message using OpenAI
-    const completion = await openai.chat.completions.create({
-      model: "gpt-5-mini",
+    // Generate a new patient message with the configured provider
+    const fullMessage = await completeForTask("patientMessage", {
       messages: [
         {
           role: "system",
@@ -243,28 +245,8 @@ ${patient.variables ? `Additional Variables: ${JSON.stringify(patient.variables,
         },
       ],
       temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    const fullMessage =
-      completion.choices[0]?.message?.content || "No message generated";
-
-    // Log token usage estimate for patient messages
-    const usageData = estimateSinglePromptUsage(systemPrompt, fullMessage);
-    totalInputTokens += usageData.inputTokens;
-    totalOutputTokens += usageData.outputTokens;
-    totalEstimatedCost += usageData.totalCost;
-    totalApiCalls++;
-
-    console.log(`=== Patient Message OpenAI API Cost Estimate ===`);
-    console.log(
-      `Input tokens: ${usageData.inputTokens} (est. $${usageData.inputCost.toFixed(6)})`,
-    );
-    console.log(
-      `Output tokens: ${usageData.outputTokens} (est. $${usageData.outputCost.toFixed(6)})`,
-    );
-    console.log(`Total estimated cost: $${usageData.totalCost.toFixed(6)}`);
-    console.log(`===============================================`);
+      maxTokens: 500,
+    }, { batchId, patientId: patient.patientId }) || "No message generated";
 
     return fullMessage;
   } catch (error) {
@@ -292,9 +274,8 @@ export async function generatePrompt(
     // Use custom system prompt if provided, otherwise use default
     const systemPrompt = customSystemPrompt || defaultSystemPrompt;
 
-    // Generate a new prompt using OpenAI
-    const completion = await openai.chat.completions.create({
-      model: "gpt-5-mini",
+    // Generate a new prompt with the configured provider
+    const fullPrompt = await completeForTask("caregiverPrompt", {
       messages: [
         {
           role: "system",
@@ -316,11 +297,8 @@ ${patient.variables ? `Additional Variables: ${JSON.stringify(patient.variables,
         },
       ],
       temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    const fullPrompt =
-      completion.choices[0]?.message?.content || "No prompt generated";
+      maxTokens: 500,
+    }, { batchId, patientId: patient.patientId }) || "No prompt generated";
 
     // Extract reasoning from the prompt
     const { displayPrompt, reasoning } = extractReasoning(fullPrompt);
@@ -363,23 +341,6 @@ ${patient.variables ? `Additional Variables: ${JSON.stringify(patient.variables,
       promptCache.set(cacheKey, fullPrompt);
     }
 
-    // Log token usage estimate
-    const usageData = estimateSinglePromptUsage(systemPrompt, fullPrompt);
-    totalInputTokens += usageData.inputTokens;
-    totalOutputTokens += usageData.outputTokens;
-    totalEstimatedCost += usageData.totalCost;
-    totalApiCalls++;
-
-    console.log(`=== OpenAI API Cost Estimate ===`);
-    console.log(
-      `Input tokens: ${usageData.inputTokens} (est. $${usageData.inputCost.toFixed(6)})`,
-    );
-    console.log(
-      `Output tokens: ${usageData.outputTokens} (est. $${usageData.outputCost.toFixed(6)})`,
-    );
-    console.log(`Total estimated cost: $${usageData.totalCost.toFixed(6)}`);
-    console.log(`=============================`);
-
     return fullPrompt;
   } catch (error) {
     console.error("Error generating prompt:", error);
@@ -408,10 +369,10 @@ export async function generatePatientMessage(
     
     // Fall back to default if no saved prompt found
     systemPrompt = systemPrompt || defaultPatientSystemPrompt;
+    systemPrompt += getPatientMessageInstruction(await resolvePatientLanguage(patient));
 
-    // Generate a new patient message using OpenAI
-    const completion = await openai.chat.completions.create({
-      model: "gpt-5-mini",
+    // Generate a new patient message with the configured provider
+    const fullMessage = await completeForTask("patientMessage", {
       messages: [
         {
           role: "system",
@@ -433,28 +394,8 @@ ${patient.variables ? `Additional Variables: ${JSON.stringify(patient.variables,
         },
       ],
       temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    const fullMessage =
-      completion.choices[0]?.message?.content || "No message generated";
-
-    // Log token usage estimate for patient messages
-    const usageData = estimateSinglePromptUsage(systemPrompt, fullMessage);
-    totalInputTokens += usageData.inputTokens;
-    totalOutputTokens += usageData.outputTokens;
-    totalEstimatedCost += usageData.totalCost;
-    totalApiCalls++;
-
-    console.log(`=== Patient Message OpenAI API Cost Estimate ===`);
-    console.log(
-      `Input tokens: ${usageData.inputTokens} (est. $${usageData.inputCost.toFixed(6)})`,
-    );
-    console.log(
-      `Output tokens: ${usageData.outputTokens} (est. $${usageData.outputCost.toFixed(6)})`,
-    );
-    console.log(`Total estimated cost: $${usageData.totalCost.toFixed(6)}`);
-    console.log(`===============================================`);
+      maxTokens: 500,
+    }, { batchId, patientId: patient.patientId }) || "No message generated";
 
     // Extract reasoning from the message
     const { displayPrompt } = extractReasoning(fullMessage);
@@ -500,40 +441,18 @@ async function generatePlaceholders(
 
   while (attempts < maxAttempts) {
     try {
-      // Calculate input tokens for tracking
-      totalApiCalls++;
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-5-mini",
+      // Template placeholders fill in the caregiver prompt, so they use its model
+      const response = await completeForTask("caregiverPrompt", {
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt },
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 500,
+        json: true,
+        maxTokens: 500,
         temperature: 0.5,
       });
 
-      const content = response.choices[0]?.message?.content?.trim() || "";
-
-      // Estimate tokens and log
-      const usageData = estimateSinglePromptUsage(
-        systemPrompt + userPrompt,
-        content,
-      );
-      totalInputTokens += usageData.inputTokens;
-      totalOutputTokens += usageData.outputTokens;
-      totalEstimatedCost += usageData.totalCost;
-
-      console.log(`=== OpenAI Template Placeholder API Cost Estimate ===`);
-      console.log(
-        `Input tokens: ${usageData.inputTokens} (est. $${usageData.inputCost.toFixed(6)})`,
-      );
-      console.log(
-        `Output tokens: ${usageData.outputTokens} (est. $${usageData.outputCost.toFixed(6)})`,
-      );
-      console.log(`Total estimated cost: $${usageData.totalCost.toFixed(6)}`);
-      console.log(`===================================================`);
+      const content = response.trim();
 
       try {
         // Parse the JSON response
@@ -0,0 +1,398 @@
+import { storage } from "../storage";
+import { sendSms } from "./twilio";
+import { sendEmail } from "./email";
+import { extractReasoning } from "./openai";
+import { normalizeLanguage } from "./language";
+import { isApprovalRequired, isApproved, markPromptSent } from "./promptReview";
+import type { MessageDelivery, Patient, PatientLanguage, PatientPrompt } from "@shared/schema";
+
+// Used when a patient has no quiet hours of their own
+export const DEFAULT_QUIET_HOURS = { start: "21:00", end: "08:00" };
+
+const EMAIL_SUBJECTS: Record<PatientLanguage, string> = {
+  en: "A message from your care team",
+  es: "Un mensaje de su equipo de atención",
+  vi: "Tin nhắn từ nhóm chăm sóc của bạn",
+};
+
+// Deliveries in "sending" not updated for this long belong to a process that died
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+// Room kept in each segment for the " (12/34)" counter
+const SEGMENT_SUFFIX_RESERVE = 8;
+
+// GSM 03.38 basic character set; extension characters take two septets
+const GSM_BASIC =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?" +
+  "¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+const GSM_EXTENSION = "^{}\\[~]|€\f";
+
+function isGsm7(text: string): boolean {
+  return Array.from(text).every((char) => GSM_BASIC.includes(char) || GSM_EXTENSION.includes(char));
+}
+
+// Size of one UTF-16 code unit in the encoding the message will use
+function charWeight(char: string, gsm: boolean): number {
+  return gsm && GSM_EXTENSION.includes(char) ? 2 : 1;
+}
+
+function smsLength(text: string, gsm: boolean): number {
+  let length = 0;
+  for (const char of text) length += charWeight(char, gsm);
+  return length;
+}
+
+/**
+ * Split a message into SMS-sized segments. Plain GSM text fits 160
+ * characters (70 once it needs Unicode); longer messages are cut at word
+ * boundaries and numbered "(1/3)" so they read in order on any phone.
+ */
+export function splitSmsSegments(text: string): string[] {
+  const body = text.trim();
+  const gsm = isGsm7(body);
+  if (smsLength(body, gsm) <= (gsm ? 160 : 70)) return [body];
+
+  const limit = (gsm ? 153 : 67) - SEGMENT_SUFFIX_RESERVE;
+  const parts: string[] = [];
+  let rest = body;
+
+  while (rest) {
+    if (smsLength(rest, gsm) <= limit) {
+      parts.push(rest);
+      break;
+    }
+
+    let cut = 0;
+    let used = 0;
+    while (cut < rest.length && used + charWeight(rest[cut], gsm) <= limit) {
+      used += charWeight(rest[cut], gsm);
+      cut++;
+    }
+    // Don't split an emoji's surrogate pair
+    const lastCode = rest.charCodeAt(cut - 1);
+    if (lastCode >= 0xd800 && lastCode <= 0xdbff) cut--;
+
+    // Prefer the last whitespace, unless that would leave a very short segment
+    let space = cut;
+    while (space > 0 && !/\s/.test(rest[space])) space--;
+    if (space > limit / 2) cut = space;
+
+    parts.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+
+  return parts.map((part, i) => `${part} (${i + 1}/${parts.length})`);
+}
+
+/**
+ * The text a patient actually receives: the generated message without its
+ * Reasoning section (meant for the care team) or markdown emphasis
+ */
+export function toPatientText(patientMessage: string): string {
+  return extractReasoning(patientMessage).displayPrompt
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/^#+\s*/gm, "")
+    .trim();
+}
+
+// Used when a patient has no timezone of their own
+export function getDefaultTimezone(): string {
+  return process.env.DEFAULT_PATIENT_TIMEZONE || "America/New_York";
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes since local midnight in the given IANA timezone
+function localMinutes(date: Date, timeZone: string): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+      .formatToParts(date);
+  } catch {
+    // Unknown timezone on the patient record
+    parts = new Intl.DateTimeFormat("en-US", { timeZone: getDefaultTimezone(), hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+      .formatToParts(date);
+  }
+  const value = (type: string) => parseInt(parts.find((part) => part.type === type)?.value ?? "0");
+  return value("hour") * 60 + value("minute");
+}
+
+/**
+ * When the patient's quiet hours end, if `now` falls inside them. Quiet
+ * hours are local to the patient's timezone and may wrap past midnight;
+ * equal start and end times mean the patient has none.
+ * @returns The end of quiet hours, or null if messages can go out now
+ */
+export function getQuietHoursEnd(
+  patient: Pick<Patient, "timezone" | "quietHoursStart" | "quietHoursEnd"> | undefined,
+  now: Date = new Date()
+): Date | null {
+  const start = toMinutes(patient?.quietHoursStart || DEFAULT_QUIET_HOURS.start);
+  const end = toMinutes(patient?.quietHoursEnd || DEFAULT_QUIET_HOURS.end);
+  if (start === end) return null;
+
+  const current = localMinutes(now, patient?.timezone || getDefaultTimezone());
+  const quiet = start < end ? current >= start && current < end : current >= start || current < end;
+  if (!quiet) return null;
+
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  const endsAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  endsAt.setSeconds(0, 0);
+  return endsAt;
+}
+
+/**
+ * Why a prompt's patient message can't be sent right now, or null if it can.
+ * Used before creating a delivery so nothing unreviewed is queued.
+ */
+export async function getDeliveryBlocker(prompt: PatientPrompt): Promise<string | null> {
+  if (!prompt.patientMessage || !toPatientText(prompt.patientMessage)) {
+    return `No patient message was generated for ${prompt.name}`;
+  }
+  if ((await isApprovalRequired()) && !isApproved(prompt)) {
+    return `The message for ${prompt.name} hasn't been approved`;
+  }
+  return null;
+}
+
+/**
+ * Deliver a prompt's patient message on the patient's preferred channel.
+ * Patients who opted out are recorded as skipped; during quiet hours the
+ * delivery is scheduled for when they end. Callers check
+ * getDeliveryBlocker first.
+ */
+export async function deliverPatientMessage(
+  prompt: PatientPrompt,
+  options: { sentBy?: number; now?: Date } = {}
+): Promise<MessageDelivery> {
+  const patient = await storage.getPatient(prompt.patientId);
+  const channel = patient?.preferredChannel ?? "sms";
+  const body = toPatientText(prompt.patientMessage!);
+
+  const base = {
+    patientId: prompt.patientId,
+    patientRecordId: prompt.patientRecordId,
+    patientPromptId: prompt.id,
+    batchId: prompt.batchId,
+    channel,
+    body,
+    sentBy: options.sentBy ?? null,
+  };
+
+  if (channel === "none") {
+    return await storage.createMessageDelivery({
+      ...base,
+      status: "skipped",
+      failureReason: "Patient opted out of messages",
+    });
+  }
+
+  const recipient = channel === "email" ? patient?.email : patient?.phoneNumber;
+  if (!recipient) {
+    return await storage.createMessageDelivery({
+      ...base,
+      status: "failed",
+      failureReason: `No ${channel === "email" ? "email address" : "phone number"} on file`,
+    });
+  }
+
+  // A resend picks up a delivery that failed partway, so its sent segments aren't sent twice
+  const [previous] = await storage.getMessageDeliveries({ patientPromptId: prompt.id, limit: 1 });
+  const resumable = previous?.status === "failed" && previous.providerMessageIds.length > 0 &&
+    previous.providerMessageIds.length < previous.segmentCount && previous.channel === channel && previous.recipient === recipient && previous.body === body
+    ? previous
+    : undefined;
+
+  const segmentCount = channel === "sms" ? splitSmsSegments(body).length : 1;
+  const quietHoursEnd = getQuietHoursEnd(patient, options.now);
+  if (quietHoursEnd) {
+    const scheduled = { status: "scheduled", scheduledFor: quietHoursEnd, failureReason: null };
+    return resumable
+      ? await storage.updateMessageDelivery(resumable.id, scheduled)
+      : await storage.createMessageDelivery({ ...base, recipient, segmentCount, ...scheduled });
+  }
+
+  const delivery = resumable
+    ? await storage.updateMessageDelivery(resumable.id, { status: "sending", failureReason: null })
+    : await storage.createMessageDelivery({ ...base, recipient, segmentCount, status: "sending" });
+  return await sendDelivery(delivery, prompt);
+}
+
+/**
+ * Send a delivery that is in "sending", recording the provider IDs or the
+ * failure. Each SMS segment's ID is saved as it goes out, and segments
+ * already recorded on the delivery are not sent again.
+ */
+async function sendDelivery(delivery: MessageDelivery, prompt?: PatientPrompt): Promise<MessageDelivery> {
+  const providerMessageIds = [...delivery.providerMessageIds];
+
+  try {
+    if (delivery.channel === "email") {
+      providerMessageIds.push(await sendEmail(delivery.recipient!, EMAIL_SUBJECTS[normalizeLanguage(prompt?.patientMessageLanguage)], delivery.body));
+    } else {
+      const segments = splitSmsSegments(delivery.body);
+      for (const segment of segments.slice(providerMessageIds.length)) {
+        const message = await sendSms(delivery.recipient!, segment);
+        providerMessageIds.push(message.sid);
+        await storage.updateMessageDelivery(delivery.id, { providerMessageIds });
+
+        // Log to the conversation thread so patient replies show up alongside
+        try {
+          await storage.createSmsMessage({
+            direction: "outbound",
+            fromNumber: message.from,
+            toNumber: delivery.recipient!,
+            body: segment,
+            twilioSid: message.sid,
+            senderType: "system",
+            patientId: delivery.patientId,
+            patientName: prompt?.name ?? null,
+          });
+        } catch (logError) {
+          console.error("Error logging outbound SMS:", logError);
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Error delivering patient message ${delivery.id} by ${delivery.channel}:`, error);
+    return await storage.updateMessageDelivery(delivery.id, {
+      status: "failed",
+      providerMessageIds,
+      failureReason: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const sent = await storage.updateMessageDelivery(delivery.id, {
+    status: "sent",
+    providerMessageIds,
+    segmentCount: providerMessageIds.length,
+    sentAt: new Date(),
+  });
+
+  if (prompt) {
+    await markPromptSent(prompt, `patient ${delivery.channel}`, delivery.sentBy ?? undefined);
+  }
+
+  return sent;
+}
+
+/**
+ * Deliver the patient message of every prompt in a batch. Prompts without a
+ * message, unapproved ones (when approval is required) and ones already
+ * delivered or waiting on quiet hours are skipped.
+ */
+export async function deliverBatchPatientMessages(
+  batchId: string,
+  sentBy?: number
+): Promise<{ sent: number; scheduled: number; skipped: number; failed: number }> {
+  const result = { sent: 0, scheduled: 0, skipped: 0, failed: 0 };
+
+  const prompts = await storage.getPatientPromptsByBatchId(batchId);
+  const existing = await storage.getMessageDeliveries({ batchId, limit: 10000 });
+  const delivered = new Set(
+    existing
+      .filter((delivery) => ["scheduled", "sending", "sent", "delivered"].includes(delivery.status))
+      .map((delivery) => delivery.patientPromptId)
+  );
+
+  for (const prompt of prompts) {
+    if (delivered.has(prompt.id) || (await getDeliveryBlocker(prompt))) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const delivery = await deliverPatientMessage(prompt, { sentBy });
+      if (delivery.status === "sent") result.sent++;
+      else if (delivery.status === "scheduled") result.scheduled++;
+      else if (delivery.status === "skipped") result.skipped++;
+      else result.failed++;
+    } catch (error) {
+      console.error(`Error delivering patient message for ${prompt.patientId}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Send deliveries whose quiet hours have ended, and resume ones a crashed
+ * process left in "sending". A message edited or unapproved since it was
+ * scheduled is skipped rather than sent stale.
+ * @returns How many deliveries were processed
+ */
+export async function runDeliveryTick(now: Date = new Date()): Promise<number> {
+  const requeued = await storage.requeueSendingMessageDeliveries(new Date(now.getTime() - STALE_SENDING_MS), now);
+  if (requeued > 0) {
+    console.log(`Resuming ${requeued} patient message deliveries interrupted while sending`);
+  }
+
+  const due = await storage.getDueMessageDeliveries(now);
+  let processed = 0;
+
+  for (const scheduled of due) {
+    const delivery = await storage.claimMessageDelivery(scheduled.id);
+    if (!delivery) continue; // Already picked up elsewhere
+
+    try {
+      const prompt = delivery.patientPromptId ? await storage.getPatientPromptById(delivery.patientPromptId) : undefined;
+      if (prompt && toPatientText(prompt.patientMessage || "") !== delivery.body) {
+        await storage.updateMessageDelivery(delivery.id, {
+          status: "skipped",
+          failureReason: "Message was edited after it was scheduled",
+        });
+      } else if (prompt && (await getDeliveryBlocker(prompt))) {
+        await storage.updateMessageDelivery(delivery.id, {
+          status: "skipped",
+          failureReason: "Message is no longer approved",
+        });
+      } else {
+        await sendDelivery(delivery, prompt);
+      }
+    } catch (error) {
+      console.error(`Error sending scheduled delivery ${delivery.id}:`, error);
+      await storage.updateMessageDelivery(delivery.id, {
+        status: "failed",
+        failureReason: error instanceof Error ? error.message : String(error),
+      });
+    }
+    processed++;
+  }
+
+  return processed;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+// Send scheduled patient messages as quiet hours end
+export function startDeliveryScheduler(intervalMs: number = 60 * 1000): void {
+  if (schedulerTimer) return;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return; // Don't overlap slow ticks
+    running = true;
+    try {
+      await runDeliveryTick();
+    } catch (error) {
+      console.error("Delivery scheduler tick failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, intervalMs);
+  void tick();
+  console.log(`⏰ Patient message scheduler running every ${Math.round(intervalMs / 1000)}s`);
+}
+
+export function stopDeliveryScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -0,0 +1,130 @@
+import { storage } from "../storage";
+import { generatePatientMessage, generatePrompt } from "./openai";
+import type { PromptExperimentOutput, PromptExperimentVariant, PromptKind } from "@shared/schema";
+import type { ExperimentVariantSummary, PatientData } from "@shared/types";
+
+// Experiments currently generating in this process, so one isn't run twice at once
+const running = new Set<number>();
+
+/**
+ * Pick up to `size` items at random, without repeats
+ */
+export function samplePatients<T>(items: T[], size: number): T[] {
+  const pool = [...items];
+  const count = Math.min(size, pool.length);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
+
+function generateWithVariant(kind: PromptKind, patient: PatientData, batchId: string, content: string): Promise<string> {
+  return kind === "patientSystem"
+    ? generatePatientMessage(patient, batchId, content)
+    : generatePrompt(patient, batchId, content);
+}
+
+/**
+ * Generate every missing output of an experiment, one patient and variant at
+ * a time. Outputs already stored are kept, so an interrupted run can resume;
+ * failed outputs are generated again and replaced in place.
+ */
+export async function runPromptExperiment(experimentId: number): Promise<void> {
+  if (running.has(experimentId)) return;
+  running.add(experimentId);
+
+  try {
+    const experiment = await storage.getPromptExperiment(experimentId);
+    if (!experiment) return;
+
+    const variants = await storage.getPromptExperimentVariants(experimentId);
+    const done = new Set<string>();
+    // Failed outputs by variant and patient; a retry overwrites the row, since there is one per pair
+    const failed = new Map<string, number>();
+    for (const output of await storage.getPromptExperimentOutputs(experimentId)) {
+      const key = `${output.variantId}|${output.patientId}`;
+      if (output.output !== null) done.add(key);
+      else failed.set(key, output.id);
+    }
+
+    for (const patientId of experiment.patientIds) {
+      const prompt = await storage.getPatientPromptByIds(experiment.batchId, patientId);
+      // rawData holds the patient as uploaded; older rows only have the basic fields
+      const patient = (prompt?.rawData as PatientData | null) ?? {
+        patientId,
+        name: prompt?.name ?? "Unknown",
+        age: prompt?.age ?? 0,
+        condition: prompt?.condition ?? "Unknown",
+      };
+
+      for (const variant of variants) {
+        const key = `${variant.id}|${patientId}`;
+        if (done.has(key)) continue;
+
+        const failedId = failed.get(key);
+        const save = (result: { output: string; error: null } | { error: string }) =>
+          failedId !== undefined
+            ? storage.updatePromptExperimentOutput(failedId, result)
+            : storage.createPromptExperimentOutput({ experimentId, variantId: variant.id, patientId, ...result });
+
+        try {
+          const output = await generateWithVariant(experiment.kind as PromptKind, patient, experiment.batchId, variant.content);
+          await save({ output, error: null });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`Experiment ${experimentId}: variant "${variant.label}" failed for patient ${patientId}:`, message);
+          await save({ error: message });
+        }
+      }
+    }
+
+    const outputs = await storage.getPromptExperimentOutputs(experimentId);
+    const status = outputs.some((output) => output.output !== null) ? "completed" : "failed";
+    await storage.updatePromptExperiment(experimentId, { status, completedAt: new Date() });
+    console.log(`Prompt experiment ${experimentId} ${status}`);
+  } catch (error) {
+    console.error(`Error running prompt experiment ${experimentId}:`, error);
+    await storage.updatePromptExperiment(experimentId, { status: "failed", completedAt: new Date() }).catch(() => {});
+  } finally {
+    running.delete(experimentId);
+  }
+}
+
+/**
+ * Restart experiments a previous process left running
+ */
+export async function resumePromptExperiments(): Promise<void> {
+  try {
+    const experiments = await storage.getPromptExperimentsByStatus("running");
+    for (const experiment of experiments) {
+      console.log(`Resuming prompt experiment ${experiment.id}`);
+      void runPromptExperiment(experiment.id);
+    }
+  } catch (error) {
+    console.error("Error resuming prompt experiments:", error);
+  }
+}
+
+/**
+ * Wins, ratings and failures per variant, in variant order
+ */
+export function summarizeExperiment(
+  variants: PromptExperimentVariant[],
+  outputs: PromptExperimentOutput[]
+): ExperimentVariantSummary[] {
+  return variants.map((variant) => {
+    const own = outputs.filter((output) => output.variantId === variant.id);
+    const ratings = own.map((output) => output.rating).filter((rating): rating is number => rating !== null);
+    return {
+      variantId: variant.id,
+      label: variant.label,
+      versionId: variant.versionId,
+      outputs: own.filter((output) => output.output !== null).length,
+      failures: own.filter((output) => output.error !== null).length,
+      wins: own.filter((output) => output.isWinner).length,
+      ratings: ratings.length,
+      averageRating: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+    };
+  });
+}
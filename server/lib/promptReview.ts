@@ -0,0 +1,215 @@
+import { storage } from "../storage";
+import { extractReasoning } from "./openai";
+import { normalizeLanguage, translateToEnglish } from "./language";
+import type { PatientPrompt, ReviewStatus } from "@shared/schema";
+
+// Settings key for "outreach, calls and exports only use approved messages"
+const REQUIRE_APPROVAL_KEY = "require_approved_messages";
+
+// Review states each state can move to. Edits and regeneration also send an
+// approved message back to in_review / draft.
+const TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  draft: ["in_review", "approved"],
+  in_review: ["draft", "approved"],
+  approved: ["sent"],
+  sent: [],
+};
+
+export function canTransition(from: string, to: ReviewStatus): boolean {
+  return (TRANSITIONS[from as ReviewStatus] ?? []).includes(to);
+}
+
+// Whether a message counts as reviewed for outreach, calls and exports
+export function isApproved(prompt: Pick<PatientPrompt, "reviewStatus">): boolean {
+  return prompt.reviewStatus === "approved" || prompt.reviewStatus === "sent";
+}
+
+export async function isApprovalRequired(): Promise<boolean> {
+  return (await storage.getSetting(REQUIRE_APPROVAL_KEY)) === "true";
+}
+
+export async function setApprovalRequired(required: boolean): Promise<boolean> {
+  await storage.updateSetting(REQUIRE_APPROVAL_KEY, required ? "true" : "false");
+  return required;
+}
+
+function assertTransition(prompt: PatientPrompt, to: ReviewStatus): void {
+  if (!canTransition(prompt.reviewStatus, to)) {
+    throw new Error(`Message for ${prompt.name} can't move from ${prompt.reviewStatus} to ${to}`);
+  }
+}
+
+/**
+ * Assign (or with null, unassign) a reviewer. Assigning a draft puts it in
+ * review; unassigning a message in review returns it to draft.
+ */
+export async function assignReviewer(prompt: PatientPrompt, reviewerId: number | null, actorId?: number): Promise<PatientPrompt> {
+  let reviewStatus = prompt.reviewStatus;
+  if (reviewerId && prompt.reviewStatus === "draft") reviewStatus = "in_review";
+  if (!reviewerId && prompt.reviewStatus === "in_review") reviewStatus = "draft";
+
+  const updated = await storage.updatePromptReview(prompt.id, { reviewerId, reviewStatus });
+
+  const reviewer = reviewerId ? await storage.getUser(reviewerId) : undefined;
+  await storage.createPromptReviewEvent({
+    patientPromptId: prompt.id,
+    type: "assigned",
+    actorId: actorId ?? null,
+    comment: reviewer ? `Assigned to ${reviewer.username}` : "Reviewer removed",
+  });
+
+  return updated;
+}
+
+/**
+ * Replace the caregiver and/or patient message with reviewer edits. The first
+ * edit keeps the AI text in original*; an approved message goes back to review.
+ * An edited non-English patient message is translated again for the care team.
+ */
+export async function editMessages(
+  prompt: PatientPrompt,
+  edits: { prompt?: string; patientMessage?: string },
+  actorId?: number
+): Promise<PatientPrompt> {
+  if (prompt.reviewStatus === "sent") {
+    throw new Error(`Message for ${prompt.name} was already sent`);
+  }
+
+  const promptChanged = edits.prompt !== undefined && edits.prompt !== prompt.prompt;
+  const patientMessageChanged = edits.patientMessage !== undefined && edits.patientMessage !== prompt.patientMessage;
+  if (!promptChanged && !patientMessageChanged) return prompt;
+
+  const updated = await storage.updatePromptReview(prompt.id, {
+    ...(promptChanged && {
+      prompt: edits.prompt,
+      reasoning: extractReasoning(edits.prompt!).reasoning,
+      originalPrompt: prompt.originalPrompt ?? prompt.prompt,
+    }),
+    ...(patientMessageChanged && {
+      patientMessage: edits.patientMessage,
+      patientMessageEnglish: await translateToEnglish(
+        extractReasoning(edits.patientMessage!).displayPrompt,
+        normalizeLanguage(prompt.patientMessageLanguage),
+        { batchId: prompt.batchId, patientId: prompt.patientId }
+      ),
+      originalPatientMessage: prompt.originalPatientMessage ?? prompt.patientMessage,
+    }),
+    editedBy: actorId ?? null,
+    editedAt: new Date(),
+    ...(prompt.reviewStatus === "approved" && {
+      reviewStatus: prompt.reviewerId ? "in_review" : "draft",
+      approvedBy: null,
+      approvedAt: null,
+    }),
+  });
+
+  await storage.createPromptReviewEvent({
+    patientPromptId: prompt.id,
+    type: "edited",
+    actorId: actorId ?? null,
+    comment: [promptChanged && "caregiver message", patientMessageChanged && "patient message"]
+      .filter(Boolean)
+      .join(" and "),
+  });
+
+  return updated;
+}
+
+export async function approvePrompt(prompt: PatientPrompt, actorId?: number, comment?: string): Promise<PatientPrompt> {
+  assertTransition(prompt, "approved");
+
+  const updated = await storage.updatePromptReview(prompt.id, {
+    reviewStatus: "approved",
+    approvedBy: actorId ?? null,
+    approvedAt: new Date(),
+  });
+  await storage.createPromptReviewEvent({
+    patientPromptId: prompt.id,
+    type: "approved",
+    actorId: actorId ?? null,
+    comment: comment || null,
+  });
+
+  return updated;
+}
+
+// Send a message in review back to draft with the reviewer's comment
+export async function requestChanges(prompt: PatientPrompt, comment: string, actorId?: number): Promise<PatientPrompt> {
+  assertTransition(prompt, "draft");
+
+  const updated = await storage.updatePromptReview(prompt.id, { reviewStatus: "draft" });
+  await storage.createPromptReviewEvent({
+    patientPromptId: prompt.id,
+    type: "changes_requested",
+    actorId: actorId ?? null,
+    comment,
+  });
+
+  return updated;
+}
+
+/**
+ * Approve many messages at once. Ones that can't be approved (missing,
+ * already approved or sent) are skipped.
+ */
+export async function bulkApprove(
+  promptIds: number[],
+  actorId?: number,
+  comment?: string
+): Promise<{ approved: number; skipped: number }> {
+  let approved = 0;
+  let skipped = 0;
+
+  for (const id of promptIds) {
+    const prompt = await storage.getPatientPromptById(id);
+    if (!prompt || !canTransition(prompt.reviewStatus, "approved")) {
+      skipped++;
+      continue;
+    }
+    await approvePrompt(prompt, actorId, comment);
+    approved++;
+  }
+
+  return { approved, skipped };
+}
+
+/**
+ * Record that an approved message went out (SMS alert or call). Unapproved
+ * messages used while approval isn't required are left as they are.
+ */
+export async function markPromptSent(prompt: PatientPrompt, channel: string, actorId?: number): Promise<void> {
+  if (prompt.reviewStatus === "sent") return;
+  if (prompt.reviewStatus === "approved") {
+    await storage.updatePromptReview(prompt.id, { reviewStatus: "sent", sentAt: new Date() });
+  }
+  await storage.createPromptReviewEvent({
+    patientPromptId: prompt.id,
+    type: "sent",
+    actorId: actorId ?? null,
+    comment: channel,
+  });
+}
+
+// Triage alert ids are "alert-<patient prompt id>"
+export async function getAlertPrompt(alertId: string): Promise<PatientPrompt | undefined> {
+  const promptId = parseInt(String(alertId).replace(/^alert-/, ""));
+  return isNaN(promptId) ? undefined : await storage.getPatientPromptById(promptId);
+}
+
+/**
+ * The patient prompt outreach and calls should use: the batch's prompt if
+ * given, else the latest one. When approval is required only approved
+ * messages qualify, falling back to the latest approved prompt.
+ */
+export async function getPromptForOutreach(patientId: string, batchId?: string): Promise<PatientPrompt | undefined> {
+  const required = await isApprovalRequired();
+
+  if (batchId) {
+    const prompt = await storage.getPatientPromptByIds(batchId, patientId);
+    if (prompt && (!required || isApproved(prompt))) return prompt;
+  }
+
+  return required
+    ? await storage.getLatestApprovedPatientPrompt(patientId)
+    : await storage.getLatestPatientPrompt(patientId);
+}
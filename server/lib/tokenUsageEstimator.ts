@@ -1,8 +1,20 @@
 import { get_encoding } from '@dqbd/tiktoken';
+import type { ModelPrice } from '@shared/schema';
 
-// Constants for GPT-4.1-nano model pricing
-const GPT41_NANO_INPUT_COST_PER_1K_TOKENS = 0.0001;  // $0.0001 per 1K input tokens
-const GPT41_NANO_OUTPUT_COST_PER_1K_TOKENS = 0.0004; // $0.0004 per 1K output tokens
+/**
+ * List prices (USD per million tokens) used until an admin saves their own
+ * in the llmCosts setting. Models not listed here, such as local ones, cost nothing.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5-mini': { inputPerMillion: 0.25, outputPerMillion: 2.0 },
+  'gpt-5': { inputPerMillion: 1.25, outputPerMillion: 10.0 },
+  'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10.0 },
+};
+
+const FREE: ModelPrice = { inputPerMillion: 0, outputPerMillion: 0 };
 
 interface TokenUsage {
   inputTokens: number;
@@ -58,32 +70,48 @@ export function estimateTokens(text: string): number {
 }
 
 /**
- * Estimates the cost and token usage for a single prompt
- * @param inputText The input text sent to the model
- * @param outputText The output text received from the model
- * @returns Token usage and cost information
+ * Price of a model from a price table, matching dated snapshots
+ * (e.g. "gpt-4o-mini-2024-07-18") to their base model
  */
-export function estimateSinglePromptUsage(inputText: string, outputText: string): TokenUsage {
-  const inputTokens = estimateTokens(inputText);
-  const outputTokens = estimateTokens(outputText);
-  
-  const inputCost = (inputTokens / 1000) * GPT41_NANO_INPUT_COST_PER_1K_TOKENS;
-  const outputCost = (outputTokens / 1000) * GPT41_NANO_OUTPUT_COST_PER_1K_TOKENS;
-  const totalCost = inputCost + outputCost;
-  
+export function priceForModel(model: string, prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES): ModelPrice {
+  if (prices[model]) return prices[model];
+  const base = Object.keys(prices)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return base ? prices[base] : FREE;
+}
+
+/**
+ * Cost of a call from its token counts
+ */
+export function calculateUsageCost(inputTokens: number, outputTokens: number, price: ModelPrice): TokenUsage {
+  const inputCost = (inputTokens / 1_000_000) * price.inputPerMillion;
+  const outputCost = (outputTokens / 1_000_000) * price.outputPerMillion;
   return {
     inputTokens,
     outputTokens,
     inputCost,
     outputCost,
-    totalCost
+    totalCost: inputCost + outputCost
   };
 }
 
+/**
+ * Estimates the cost and token usage for a single prompt
+ * @param inputText The input text sent to the model
+ * @param outputText The output text received from the model
+ * @param price Price of the model that ran the prompt
+ * @returns Token usage and cost information
+ */
+export function estimateSinglePromptUsage(inputText: string, outputText: string, price: ModelPrice): TokenUsage {
+  return calculateUsageCost(estimateTokens(inputText), estimateTokens(outputText), price);
+}
+
 /**
  * Generates a usage report for a batch of patient prompts
  * @param batchId The ID of the batch
  * @param patientData Array of patient data including inputs and generated prompts
+ * @param price Price of the model that generated the prompts
  * @returns A comprehensive usage report
  */
 export function generateBatchUsageReport(
@@ -92,14 +120,15 @@ export function generateBatchUsageReport(
     patientId: string;
     inputText: string;
     prompt: string;
-  }>
+  }>,
+  price: ModelPrice
 ): PromptUsageReport {
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
   let totalCost = 0;
   
   const usageByPatient = patientData.map(patient => {
-    const usage = estimateSinglePromptUsage(patient.inputText, patient.prompt);
+    const usage = estimateSinglePromptUsage(patient.inputText, patient.prompt, price);
     totalInputTokens += usage.inputTokens;
     totalOutputTokens += usage.outputTokens;
     totalCost += usage.totalCost;
@@ -149,16 +178,3 @@ export function generateBatchUsageReport(
     }
   };
 }
-
-/**
- * Logs a cost estimation directly to the OpenAI completion request
- * This function can be used to add logging to existing OpenAI calls
- */
-export function logPromptCostEstimate(inputText: string, outputText: string): void {
-  const usage = estimateSinglePromptUsage(inputText, outputText);
-  console.log('\n=== OpenAI API Cost Estimate ===');
-  console.log(`Input tokens: ${usage.inputTokens} (est. $${usage.inputCost.toFixed(6)})`);
-  console.log(`Output tokens: ${usage.outputTokens} (est. $${usage.outputCost.toFixed(6)})`);
-  console.log(`Total estimated cost: $${usage.totalCost.toFixed(6)}`);
-  console.log('===============================\n');
-}
\ No newline at end of file
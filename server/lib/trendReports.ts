@@ -1,15 +1,31 @@
-import OpenAI from "openai";
 import { storage } from "../storage";
+import { completeForTask } from "./llm";
+import type { VitalSummary } from "./vitals";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+export interface VitalHistory {
+  from: Date;
+  to: Date;
+  summary: VitalSummary[];
+}
 
+/**
+ * Generate a trend report. When stored vitals history is available it is sent
+ * as the patient's variables, so the model sees the whole period rather than
+ * a single upload.
+ */
 export async function generateTrendReport(
   patientData: any,
-  batchId?: string
+  batchId?: string,
+  history?: VitalHistory
 ): Promise<string> {
   try {
+    const variables = history && history.summary.length > 0
+      ? {
+          period: `${history.from.toISOString().slice(0, 10)} to ${history.to.toISOString().slice(0, 10)}`,
+          measurements: history.summary,
+        }
+      : patientData.variables;
+
     // Get the trend report prompt
     const trendPrompt = await storage.getTrendReportPrompt(batchId);
     const systemPrompt = trendPrompt?.prompt || storage.getDefaultTrendReportPrompt();
@@ -24,7 +40,7 @@ export async function generateTrendReport(
       .replace(/\$\{patient\.isAlert \? 'Alert: Yes' : 'Alert: No'\}/g, 
         patientData.isAlert ? 'Alert: Yes' : 'Alert: No')
       .replace(/\$\{patient\.variables \? `Additional Variables: \$\{JSON\.stringify\(patient\.variables, null, 2\)\}` : ''\}/g,
-        patientData.variables ? `Additional Variables: ${JSON.stringify(patientData.variables, null, 2)}` : '');
+        variables ? `Additional Variables: ${JSON.stringify(variables, null, 2)}` : '');
 
     // Use the system prompt part
     const systemPromptPart = systemPrompt.split('role: "user"')[0] || 
@@ -41,8 +57,7 @@ Your task is to:
 3. Create an insights paragraph of around 30 words, the generated summary should be encased between the beginning start tag of <insights> and end tag of </insights>. 
    For the provided data, extract a final insights paragraph that should make reference to the patient's condition.`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5-mini",
+    const report = await completeForTask("trendReport", {
       messages: [
         {
           role: "system",
@@ -54,10 +69,10 @@ Your task is to:
         },
       ],
       temperature: 0.7,
-      max_tokens: 500,
-    });
+      maxTokens: 500,
+    }, { batchId, patientId: patientData.patientId });
 
-    return response.choices[0].message.content || "Failed to generate trend report";
+    return report || "Failed to generate trend report";
   } catch (error) {
     console.error("Error generating trend report:", error);
     throw new Error(`Failed to generate trend report: ${error instanceof Error ? error.message : String(error)}`);
@@ -0,0 +1,318 @@
+import type { TriageRule } from "@shared/schema";
+
+export type Severity = "red" | "yellow" | "green";
+
+// The subset of a rule row the evaluator needs (lets us evaluate built-in defaults too)
+export type ThresholdRule = Pick<
+  TriageRule,
+  | "variable"
+  | "label"
+  | "condition"
+  | "minAge"
+  | "maxAge"
+  | "unit"
+  | "operator"
+  | "threshold"
+  | "thresholdHigh"
+  | "severity"
+  | "enabled"
+>;
+
+export interface Reading {
+  name: string;
+  value: number;
+}
+
+export interface PatientContext {
+  condition?: string | null;
+  age?: number | null;
+}
+
+export interface ReadingEvaluation {
+  reading: Reading;
+  rule: ThresholdRule;
+  severity: Exclude<Severity, "green">;
+  reason: string;
+}
+
+export interface TriageEvaluation {
+  severity: Severity;
+  isAlert: boolean;
+  alertReasons: string[];
+  matches: ReadingEvaluation[];
+}
+
+function rule(
+  variable: string,
+  label: string,
+  unit: string,
+  operator: string,
+  threshold: number,
+  severity: "red" | "yellow",
+  thresholdHigh: number | null = null,
+): ThresholdRule {
+  return {
+    variable,
+    label,
+    condition: null,
+    minAge: null,
+    maxAge: null,
+    unit,
+    operator,
+    threshold,
+    thresholdHigh,
+    severity,
+    enabled: true,
+  };
+}
+
+/**
+ * Built-in thresholds used until clinical staff configure their own rules.
+ * These mirror the bands that were previously hard-coded in triage and ingestion.
+ */
+export const DEFAULT_TRIAGE_RULES: ThresholdRule[] = [
+  // RED - critical values requiring immediate action
+  rule("glucose", "Glucose", "mg/dL", ">", 300, "red"),
+  rule("blood pressure", "Blood Pressure", "mmHg", ">", 180, "red"),
+  rule("heart rate", "Heart Rate", "bpm", "outside", 40, "red", 150),
+  rule("temperature", "Temperature", "°F", ">", 103, "red"),
+  rule("oxygen", "SpO2", "%", "<", 85, "red"),
+  // YELLOW - concerning but not immediately life-threatening
+  rule("glucose", "Glucose", "mg/dL", "outside", 70, "yellow", 180),
+  rule("blood pressure", "Blood Pressure", "mmHg", "outside", 90, "yellow", 140),
+  rule("heart rate", "Heart Rate", "bpm", "outside", 50, "yellow", 100),
+  rule("temperature", "Temperature", "°F", "outside", 97, "yellow", 99.5),
+  rule("oxygen", "SpO2", "%", "<", 92, "yellow"),
+];
+
+const IDENTITY_KEYS = /^(patient\s*id|id|name|senior\s*name|patient\s*name|age|condition)$/i;
+
+/**
+ * Convert a cell value to a number if possible
+ */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string") {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Extract numeric readings from a row of variables.
+ * Supports both the long sheet layout ("Variable" + "Value" columns) and
+ * wide layouts where each column header is a measurement name.
+ */
+export function extractReadings(variables: Record<string, any> | null | undefined): Reading[] {
+  if (!variables) return [];
+
+  const readings: Reading[] = [];
+  const keys = Object.keys(variables);
+
+  const variableKey = keys.find((k) => /variable/i.test(k));
+  const valueKey = keys.find((k) => /value|reading|result|measurement/i.test(k));
+
+  if (variableKey && valueKey) {
+    const value = toNumber(variables[valueKey]);
+    if (variables[variableKey] && value !== null) {
+      readings.push({ name: String(variables[variableKey]), value });
+    }
+  }
+
+  for (const key of keys) {
+    if (key === variableKey || key === valueKey || IDENTITY_KEYS.test(key.trim())) continue;
+    const value = toNumber(variables[key]);
+    if (value !== null) {
+      readings.push({ name: key, value });
+    }
+  }
+
+  return readings;
+}
+
+function ruleApplies(rule: ThresholdRule, reading: Reading, context: PatientContext): boolean {
+  if (!rule.enabled) return false;
+  if (!reading.name.toLowerCase().includes(rule.variable.trim().toLowerCase())) return false;
+
+  if (rule.condition) {
+    const condition = (context.condition || "").toLowerCase();
+    if (!condition.includes(rule.condition.trim().toLowerCase())) return false;
+  }
+
+  if (rule.minAge != null || rule.maxAge != null) {
+    // Age-banded rules only apply when we actually know the patient's age
+    if (!context.age) return false;
+    if (rule.minAge != null && context.age < rule.minAge) return false;
+    if (rule.maxAge != null && context.age > rule.maxAge) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check a value against a rule's operator and thresholds
+ */
+export function compareToRule(rule: ThresholdRule, value: number): boolean {
+  const high = rule.thresholdHigh ?? rule.threshold;
+  switch (rule.operator) {
+    case ">":
+      return value > rule.threshold;
+    case ">=":
+      return value >= rule.threshold;
+    case "<":
+      return value < rule.threshold;
+    case "<=":
+      return value <= rule.threshold;
+    case "between":
+      return value >= rule.threshold && value <= high;
+    case "outside":
+      return value < rule.threshold || value > high;
+    default:
+      console.warn(`Unknown triage rule operator: ${rule.operator}`);
+      return false;
+  }
+}
+
+/**
+ * Evaluate a single reading and return the most severe matching rule, if any
+ */
+export function evaluateReading(
+  rules: ThresholdRule[],
+  reading: Reading,
+  context: PatientContext = {},
+): ReadingEvaluation | null {
+  // Check red rules first so a critical value is never reported as yellow
+  const ordered = [...rules].sort((a, b) => (a.severity === "red" ? 0 : 1) - (b.severity === "red" ? 0 : 1));
+
+  for (const candidate of ordered) {
+    if (!ruleApplies(candidate, reading, context) || !compareToRule(candidate, reading.value)) continue;
+
+    const severity = candidate.severity === "red" ? "red" : "yellow";
+    const prefix = severity === "red" ? "CRITICAL" : "ATTENTION";
+    const unit = candidate.unit ? ` ${candidate.unit}` : "";
+    return {
+      reading,
+      rule: candidate,
+      severity,
+      reason: `${prefix}: ${reading.name} is ${reading.value}${unit}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Evaluate a set of readings for one patient and roll them up into a severity
+ */
+export function evaluateReadings(
+  rules: ThresholdRule[],
+  readings: Reading[],
+  context: PatientContext = {},
+): TriageEvaluation {
+  const matches: ReadingEvaluation[] = [];
+
+  for (const reading of readings) {
+    const match = evaluateReading(rules, reading, context);
+    if (match) matches.push(match);
+  }
+
+  let severity: Severity = "green";
+  if (matches.some((m) => m.severity === "red")) {
+    severity = "red";
+  } else if (matches.length > 0) {
+    severity = "yellow";
+  }
+
+  // Critical reasons first so SMS formatting picks them up
+  const alertReasons = [
+    ...matches.filter((m) => m.severity === "red"),
+    ...matches.filter((m) => m.severity === "yellow"),
+  ].map((m) => m.reason);
+
+  return {
+    severity,
+    isAlert: matches.length > 0,
+    alertReasons: Array.from(new Set(alertReasons)),
+    matches,
+  };
+}
+
+/**
+ * Where readings of a vital start to alert for this patient, for drawing
+ * threshold lines on charts: the lowest upper bound and the highest lower
+ * bound among the rules that apply. "between" rules have no single line.
+ */
+export function getAlertThresholds(
+  rules: ThresholdRule[],
+  name: string,
+  context: PatientContext = {},
+): { high: number | null; low: number | null } {
+  let high: number | null = null;
+  let low: number | null = null;
+  const lowerHigh = (value: number) => { high = high === null ? value : Math.min(high, value); };
+  const raiseLow = (value: number) => { low = low === null ? value : Math.max(low, value); };
+
+  for (const candidate of rules) {
+    if (!ruleApplies(candidate, { name, value: 0 }, context)) continue;
+
+    if (candidate.operator === ">" || candidate.operator === ">=") {
+      lowerHigh(candidate.threshold);
+    } else if (candidate.operator === "<" || candidate.operator === "<=") {
+      raiseLow(candidate.threshold);
+    } else if (candidate.operator === "outside") {
+      raiseLow(candidate.threshold);
+      lowerHigh(candidate.thresholdHigh ?? candidate.threshold);
+    }
+  }
+
+  return { high, low };
+}
+
+// Symptoms that need a clinician now, whatever severity the patient gives them
+const RED_SYMPTOMS = [
+  /chest\s*(pain|pressure|tightness)/i,
+  /short(ness)?\s*of\s*breath|can'?t\s*breathe|trouble\s*breathing|difficulty\s*breathing/i,
+  /faint(ed|ing)?|passed\s*out|los[st]\s*consciousness/i,
+  /slurred\s*speech|face\s*droop|numb(ness)?\s*(on\s*one\s*side|in\s*(my|the)\s*(face|arm|leg))|stroke/i,
+  /cough(ing)?\s*(up\s*)?blood|vomit(ing)?\s*blood|severe\s*bleeding/i,
+  /confus(ed|ion)|suicid/i,
+];
+
+// Symptoms worth a look from the care team within a day
+const YELLOW_SYMPTOMS = [
+  /dizz(y|iness)|lightheaded/i,
+  /fever|chills/i,
+  /swell(ing|en)/i,
+  /nause(a|ous)|vomit/i,
+  /pain|ache/i,
+  /fall|fell/i,
+  /rash|wound|bleed/i,
+];
+
+/**
+ * Grade a symptom a patient described. Red-flag symptoms are always red; a
+ * severe symptom, pain of 7/10 or more, or a concerning symptom the patient
+ * doesn't call mild is yellow.
+ */
+export function evaluateSymptom(symptom: {
+  description: string;
+  severity?: "mild" | "moderate" | "severe";
+  painScale?: number;
+}): { severity: Severity; reason: string | null } {
+  const { description } = symptom;
+  if (RED_SYMPTOMS.some((pattern) => pattern.test(description))) {
+    return { severity: "red", reason: `CRITICAL: Patient reports ${description}` };
+  }
+
+  const severePain = symptom.painScale != null && symptom.painScale >= 7;
+  const concerning = symptom.severity !== "mild" && YELLOW_SYMPTOMS.some((pattern) => pattern.test(description));
+  if (symptom.severity === "severe" || severePain || concerning) {
+    const detail = severePain ? ` (pain ${symptom.painScale}/10)` : symptom.severity ? ` (${symptom.severity})` : "";
+    return { severity: "yellow", reason: `ATTENTION: Patient reports ${description}${detail}` };
+  }
+
+  return { severity: "green", reason: null };
+}
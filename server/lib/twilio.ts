@@ -0,0 +1,114 @@
+import type { Request } from "express";
+import twilio from "twilio";
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  phoneNumber: string;
+}
+
+/**
+ * Read Twilio credentials from the environment
+ * @returns The config, or null if any credential is missing
+ */
+export function getTwilioConfig(): TwilioConfig | null {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const phoneNumber = process.env.TWILIO_PHONE_NUMBER;
+
+  if (!accountSid || !authToken || !phoneNumber) {
+    return null;
+  }
+
+  return { accountSid, authToken, phoneNumber };
+}
+
+/**
+ * Public base URL Twilio uses to reach this server.
+ * PUBLIC_BASE_URL wins, then the Replit domain, then the local dev server.
+ */
+export function getPublicBaseUrl(): string {
+  if (process.env.PUBLIC_BASE_URL) {
+    return process.env.PUBLIC_BASE_URL.replace(/\/+$/, "");
+  }
+  if (process.env.REPLIT_DOMAINS) {
+    return `https://${process.env.REPLIT_DOMAINS.split(",")[0]}`;
+  }
+  return "http://localhost:5000";
+}
+
+export const TWILIO_STATUS_CALLBACK_PATH = "/api/twilio/status-callback";
+
+export function getStatusCallbackUrl(): string {
+  return `${getPublicBaseUrl()}${TWILIO_STATUS_CALLBACK_PATH}`;
+}
+
+export interface SentSms {
+  sid: string;
+  status: string;
+  from: string;
+}
+
+export interface FakeSms {
+  sid: string;
+  from: string;
+  to: string;
+  body: string;
+  sentAt: Date;
+}
+
+// Messages "sent" while SMS_PROVIDER=fake, oldest first, for local runs and tests
+export const fakeSmsOutbox: FakeSms[] = [];
+let fakeSmsCount = 0;
+
+/**
+ * SMS_PROVIDER=fake records messages in fakeSmsOutbox instead of calling
+ * Twilio, so SMS flows can be exercised without credentials
+ */
+export function isFakeSmsProvider(): boolean {
+  return process.env.SMS_PROVIDER === "fake";
+}
+
+/**
+ * Send one SMS through Twilio (or the fake provider), asking Twilio to
+ * report carrier delivery back to the status callback
+ */
+export async function sendSms(to: string, body: string): Promise<SentSms> {
+  if (isFakeSmsProvider()) {
+    const from = process.env.TWILIO_PHONE_NUMBER || "+15550000000";
+    const sid = `SMfake${Date.now().toString(36)}${(++fakeSmsCount).toString(36)}`;
+    fakeSmsOutbox.push({ sid, from, to, body, sentAt: new Date() });
+    console.log(`[fake SMS] ${sid} to ${to}: ${body}`);
+    return { sid, status: "sent", from };
+  }
+
+  const twilioConfig = getTwilioConfig();
+  if (!twilioConfig) {
+    throw new Error("Twilio credentials not configured");
+  }
+
+  const client = twilio(twilioConfig.accountSid, twilioConfig.authToken);
+  const message = await client.messages.create({
+    body,
+    from: twilioConfig.phoneNumber,
+    to,
+    statusCallback: getStatusCallbackUrl(),
+  });
+
+  return { sid: message.sid, status: message.status, from: twilioConfig.phoneNumber };
+}
+
+/**
+ * Validate the X-Twilio-Signature header of an incoming webhook.
+ * Twilio signs the exact public URL it called, so we rebuild it from the
+ * configured base URL rather than trusting the Host header behind a proxy.
+ */
+export function isValidTwilioRequest(req: Request, authToken: string): boolean {
+  const signature = req.header("X-Twilio-Signature");
+  if (!signature) {
+    return false;
+  }
+
+  const url = `${getPublicBaseUrl()}${req.originalUrl}`;
+  return twilio.validateRequest(authToken, signature, url, req.body || {});
+}
@@ -0,0 +1,333 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+import { storage } from "../storage";
+import { storeCallHistoryWithDetails } from "./callHistory";
+import { recordScheduledCallOutcome } from "./callScheduler";
+import { recordLiveCallEvent } from "./liveCalls";
+import type { VapiWebhookEvent } from "@shared/schema";
+
+const SECOND = 1000;
+
+// Events are stored and processed; every other type is acknowledged and dropped
+const HANDLED_EVENT_TYPES = ["end-of-call-report"];
+
+// How many events are processed at once
+const CONCURRENCY = 2;
+
+// Vapi may still be finalizing the call when the report arrives without timestamps
+const DEFERRED_FETCH_DELAY_MS = 10 * SECOND;
+
+// First retry waits this long, doubling with each attempt
+const RETRY_BASE_DELAY_MS = 30 * SECOND;
+
+// Running events not updated for this long belong to a worker that died
+const STALE_LOCK_MS = 10 * 60 * SECOND;
+
+export type WebhookVerification =
+  | { valid: true }
+  | { valid: false; status: number; message: string };
+
+function safeEqual(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a);
+  const bBuf = Buffer.from(b);
+  return aBuf.length === bBuf.length && timingSafeEqual(aBuf, bBuf);
+}
+
+/**
+ * Check that a webhook came from Vapi. Vapi either sends the server URL
+ * secret as-is in X-Vapi-Secret, or signs the raw body with it (HMAC-SHA256,
+ * hex) in X-Vapi-Signature. Without VAPI_WEBHOOK_SECRET every request is
+ * accepted outside production so local testing keeps working.
+ */
+export function verifyVapiWebhook(req: Request): WebhookVerification {
+  const secret = process.env.VAPI_WEBHOOK_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      return { valid: false, status: 503, message: "Vapi webhook secret is not configured" };
+    }
+    console.warn("⚠️ VAPI_WEBHOOK_SECRET is not set; accepting unverified Vapi webhook");
+    return { valid: true };
+  }
+
+  const providedSecret = req.header("X-Vapi-Secret");
+  if (providedSecret && safeEqual(providedSecret, secret)) {
+    return { valid: true };
+  }
+
+  const signature = req.header("X-Vapi-Signature");
+  if (signature && req.rawBody) {
+    const expected = createHmac("sha256", secret).update(req.rawBody).digest("hex");
+    if (safeEqual(signature.replace(/^sha256=/, ""), expected)) {
+      return { valid: true };
+    }
+  }
+
+  return { valid: false, status: 401, message: "Invalid Vapi webhook signature" };
+}
+
+function getCallDuration(startedAt?: string, endedAt?: string): number | null {
+  const started = startedAt ? new Date(startedAt).getTime() : 0;
+  const ended = endedAt ? new Date(endedAt).getTime() : 0;
+  if (started > 0 && ended > started) {
+    return Math.floor((ended - started) / 1000);
+  }
+  return null;
+}
+
+export type WebhookIntakeResult =
+  | { outcome: "queued"; event: VapiWebhookEvent }
+  | { outcome: "duplicate" | "ignored" }
+  | { outcome: "invalid"; message: string };
+
+/**
+ * Pass a verified webhook to the live call monitor, then save it in the
+ * inbox and wake the worker if it needs processing. A report Vapi
+ * sends again for the same call is recognised by its call ID and type and
+ * not stored twice.
+ */
+export async function receiveVapiWebhook(body: any): Promise<WebhookIntakeResult> {
+  const message = body?.message;
+  if (!message?.type) {
+    return { outcome: "invalid", message: "Malformed webhook" };
+  }
+
+  // Status, speech and transcript updates only feed the live call monitor
+  recordLiveCallEvent(message);
+
+  if (!HANDLED_EVENT_TYPES.includes(message.type)) {
+    return { outcome: "ignored" };
+  }
+
+  const callId = message.call?.id;
+  if (!callId) {
+    return { outcome: "invalid", message: "Missing call ID in webhook" };
+  }
+
+  // Without usable timestamps the duration comes from the Vapi API, which lags the report
+  const hasDuration = getCallDuration(message.call.startedAt, message.call.endedAt) !== null;
+  const event = await storage.createVapiWebhookEvent({
+    callId,
+    type: message.type,
+    payload: body,
+    runAfter: new Date(Date.now() + (hasDuration ? 0 : DEFERRED_FETCH_DELAY_MS)),
+  });
+  if (!event) {
+    console.log(`Vapi ${message.type} for call ${callId} already received, skipping`);
+    return { outcome: "duplicate" };
+  }
+
+  console.log(`📥 Queued Vapi ${message.type} for call ${callId}`);
+  void fillWorkers();
+  return { outcome: "queued", event };
+}
+
+// Call details from the Vapi API, for reports that arrived without timestamps
+async function fetchCallDetails(callId: string): Promise<any | null> {
+  const vapiToken = process.env.VAPI_PRIVATE_KEY || process.env.VAPI_PUBLIC_KEY;
+  if (!vapiToken) {
+    console.error(`❌ Call ${callId}: No VAPI token available to fetch call details`);
+    return null;
+  }
+
+  const response = await fetch(`https://api.vapi.ai/call/${callId}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${vapiToken}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Error fetching call details from Vapi API: ${response.status} - ${errorText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Store the call history for an end-of-call report and record the outcome
+ * of the scheduled call it belongs to. Both steps are safe to repeat, so a
+ * failed event can be retried or replayed.
+ */
+async function handleEndOfCallReport(event: VapiWebhookEvent): Promise<void> {
+  const { message } = event.payload;
+  const call = message.call;
+  const callId = event.callId;
+  const patientId = call.metadata?.patientId || "unknown";
+  const patientName = call.metadata?.patientName || "Unknown Patient";
+  const phoneNumber = call.customer?.number || "";
+  const callEndedReason = message.endedReason || call.status || "unknown";
+
+  // Scheduled companion calls retry on no-answer and busy
+  await recordScheduledCallOutcome(callId, callEndedReason);
+
+  const webhookDuration = getCallDuration(call.startedAt, call.endedAt);
+  if (webhookDuration !== null) {
+    console.log(`⏱️ Duration from webhook: ${webhookDuration}s (startedAt: ${call.startedAt}, endedAt: ${call.endedAt})`);
+    await storeCallHistoryWithDetails(
+      callId,
+      patientId,
+      patientName,
+      phoneNumber,
+      webhookDuration,
+      callEndedReason,
+      message.transcript,
+      message.summary,
+      call.endedAt,
+      call.metadata,
+      "direct_webhook_timestamps",
+    );
+    return;
+  }
+
+  console.warn(`⚠️ Call ${callId}: Webhook timestamps unusable (status: ${call.status}), fetching call details`);
+  const callDetails = await fetchCallDetails(callId);
+  if (!callDetails) {
+    await storeCallHistoryWithDetails(
+      callId,
+      patientId,
+      patientName,
+      phoneNumber,
+      0,
+      callEndedReason,
+      message.transcript,
+      message.summary,
+      call.endedAt || new Date().toISOString(),
+      call.metadata,
+      "missing_vapi_token",
+    );
+    return;
+  }
+
+  let durationSeconds = getCallDuration(callDetails.startedAt, callDetails.endedAt);
+  if (durationSeconds === null) {
+    durationSeconds = getCallDuration(callDetails.createdAt, callDetails.updatedAt);
+  }
+  if (durationSeconds === null) {
+    console.warn(`⚠️ Call ${callId}: Vapi API also missing sufficient timestamps. Using 0 duration.`);
+  } else {
+    console.log(`⏱️ Call ${callId}: Duration from Vapi API: ${durationSeconds}s`);
+  }
+
+  await storeCallHistoryWithDetails(
+    callId,
+    patientId,
+    patientName,
+    phoneNumber,
+    durationSeconds ?? 0,
+    callDetails.endedReason || callEndedReason,
+    message.transcript,
+    message.summary,
+    callDetails.endedAt || callDetails.updatedAt || new Date().toISOString(),
+    callDetails.metadata,
+    "deferred_fetch_success",
+  );
+}
+
+async function runEvent(event: VapiWebhookEvent): Promise<void> {
+  try {
+    if (event.type === "end-of-call-report") {
+      await handleEndOfCallReport(event);
+    }
+    await storage.updateVapiWebhookEvent(event.id, {
+      status: "processed",
+      lastError: null,
+      processedAt: new Date(),
+    });
+    console.log(`Processed Vapi ${event.type} for call ${event.callId}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (event.attempts < event.maxAttempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (event.attempts - 1);
+      console.warn(`Vapi ${event.type} for call ${event.callId} failed (attempt ${event.attempts}), retrying in ${delay / SECOND}s:`, message);
+      await storage.updateVapiWebhookEvent(event.id, {
+        status: "pending",
+        lastError: message,
+        lockedAt: null,
+        runAfter: new Date(Date.now() + delay),
+      });
+    } else {
+      console.error(`Vapi ${event.type} for call ${event.callId} failed after ${event.attempts} attempts:`, message);
+      await storage.updateVapiWebhookEvent(event.id, { status: "failed", lastError: message });
+    }
+  }
+}
+
+/**
+ * Process a failed (or already processed) event again with a fresh set of
+ * attempts. Undefined if the event doesn't exist or is still in the inbox.
+ */
+export async function replayVapiWebhookEvent(id: number): Promise<VapiWebhookEvent | undefined> {
+  const event = await storage.replayVapiWebhookEvent(id);
+  if (event) {
+    console.log(`Replaying Vapi ${event.type} for call ${event.callId}`);
+    void fillWorkers();
+  }
+  return event;
+}
+
+let activeEvents = 0;
+let filling = false;
+
+// Claim events until every worker slot is busy
+async function fillWorkers(): Promise<void> {
+  if (filling) return;
+  filling = true;
+  try {
+    while (activeEvents < CONCURRENCY) {
+      const events = await storage.claimVapiWebhookEvents(CONCURRENCY - activeEvents);
+      if (events.length === 0) break;
+
+      for (const event of events) {
+        activeEvents++;
+        runEvent(event)
+          .catch((error) => console.error(`Error running Vapi webhook event ${event.id}:`, error))
+          .finally(() => {
+            activeEvents--;
+            void fillWorkers();
+          });
+      }
+    }
+  } catch (error) {
+    console.error("Error claiming Vapi webhook events:", error);
+  } finally {
+    filling = false;
+  }
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start processing the webhook inbox. Events live in the database, so on
+ * startup anything left running by the previous process is put back in the
+ * inbox; the poll picks up deferred reports and retries as they come due.
+ */
+export async function startVapiWebhookWorker(intervalMs: number = 5 * SECOND): Promise<void> {
+  if (workerTimer) return;
+
+  try {
+    const requeued = await storage.requeueRunningVapiWebhookEvents(new Date());
+    if (requeued > 0) {
+      console.log(`Resuming ${requeued} Vapi webhook events interrupted by the last shutdown`);
+    }
+  } catch (error) {
+    console.error("Error resuming Vapi webhook events:", error);
+  }
+
+  workerTimer = setInterval(() => {
+    storage.requeueRunningVapiWebhookEvents(new Date(Date.now() - STALE_LOCK_MS))
+      .catch((error) => console.error("Error requeueing stale Vapi webhook events:", error))
+      .finally(() => void fillWorkers());
+  }, intervalMs);
+  void fillWorkers();
+  console.log("📥 Vapi webhook worker running");
+}
+
+export function stopVapiWebhookWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
@@ -0,0 +1,155 @@
+import type { InsertVitalReading, VitalReading } from "@shared/schema";
+import type { PatientVitals, VitalMeasurement } from "@shared/types";
+import {
+  evaluateReading,
+  extractReadings,
+  type PatientContext,
+  type ThresholdRule,
+} from "./triageRules";
+
+// Which sheet variables feed each chart in the PDF report
+export const REPORT_VITAL_PATTERNS: Record<keyof PatientVitals, RegExp> = {
+  heartRate: /heart\s*rate|pulse|\bhr\b/i,
+  oxygenSaturation: /oxygen|spo2|o2\s*sat/i,
+  glucose: /glucose|blood\s*sugar/i,
+};
+
+export interface VitalSummary {
+  variable: string;
+  unit: string | null;
+  count: number;
+  average: number;
+  minimum: number;
+  maximum: number;
+  first: { value: number; recordedAt: string };
+  latest: { value: number; recordedAt: string };
+  alertCount: number;
+}
+
+/**
+ * Turn one uploaded row into vital readings, graded with the triage rules.
+ * Columns that are not measurements (timestamp, unit, contact details) are
+ * excluded by the caller via `ignoreKeys`. Rows without their own date/time
+ * pass `sourceRow` so they stay separate readings at the upload time.
+ */
+export function buildVitalReadings(
+  row: {
+    patientId: string;
+    variables?: Record<string, any>;
+    recordedAt: Date;
+    sourceRow?: number;
+    unit?: string | null;
+    ignoreKeys?: string[];
+  },
+  rules: ThresholdRule[],
+  context: PatientContext = {}
+): InsertVitalReading[] {
+  const variables = { ...(row.variables || {}) };
+  for (const key of row.ignoreKeys || []) {
+    delete variables[key];
+  }
+
+  return extractReadings(variables).map((reading) => {
+    const match = evaluateReading(rules, reading, context);
+    return {
+      patientId: row.patientId,
+      variable: reading.name.trim(),
+      value: reading.value,
+      unit: row.unit || unitForVariable(reading.name, rules),
+      severity: match ? match.severity : "green",
+      recordedAt: row.recordedAt,
+      sourceRow: row.sourceRow ?? 0,
+    };
+  });
+}
+
+// Borrow the unit from the first rule that covers this variable
+export function unitForVariable(variable: string, rules: ThresholdRule[]): string | null {
+  const name = variable.toLowerCase();
+  const rule = rules.find((r) => r.unit && name.includes(r.variable.trim().toLowerCase()));
+  return rule?.unit ?? null;
+}
+
+/**
+ * Group stored readings into the series the PDF report charts, oldest first
+ */
+export function toPatientVitals(readings: VitalReading[]): PatientVitals {
+  const vitals: PatientVitals = {
+    heartRate: [],
+    oxygenSaturation: [],
+    glucose: [],
+  };
+
+  const sorted = [...readings].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  for (const reading of sorted) {
+    const key = (Object.keys(REPORT_VITAL_PATTERNS) as (keyof PatientVitals)[])
+      .find((k) => REPORT_VITAL_PATTERNS[k].test(reading.variable));
+    if (!key) continue;
+
+    const measurement: VitalMeasurement = {
+      date: reading.recordedAt,
+      value: reading.value,
+      isAlert: reading.severity !== "green",
+    };
+    vitals[key].push(measurement);
+  }
+
+  return vitals;
+}
+
+/**
+ * Per-variable statistics over a period, used to give trend reports the
+ * patient's actual history rather than a single batch snapshot
+ */
+export function summarizeVitalHistory(readings: VitalReading[]): VitalSummary[] {
+  const byVariable = new Map<string, VitalReading[]>();
+  for (const reading of readings) {
+    const series = byVariable.get(reading.variable) || [];
+    series.push(reading);
+    byVariable.set(reading.variable, series);
+  }
+
+  return Array.from(byVariable.entries()).map(([variable, series]) => {
+    const sorted = series.sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+    const values = sorted.map((r) => r.value);
+    const first = sorted[0];
+    const latest = sorted[sorted.length - 1];
+
+    return {
+      variable,
+      unit: latest.unit,
+      count: sorted.length,
+      average: Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10,
+      minimum: Math.min(...values),
+      maximum: Math.max(...values),
+      first: { value: first.value, recordedAt: first.recordedAt.toISOString() },
+      latest: { value: latest.value, recordedAt: latest.recordedAt.toISOString() },
+      alertCount: sorted.filter((r) => r.severity !== "green").length,
+    };
+  });
+}
+
+// Bare YYYY-MM-DD dates are read as local days; the end date includes that whole day
+function parsePeriodDate(value: string, endOfDay: boolean): Date {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}`);
+  }
+  return new Date(value);
+}
+
+/**
+ * Resolve a report period from optional from/to strings, defaulting to the last `days` days
+ */
+export function resolveReportPeriod(from?: string, to?: string, days = 30): { from: Date; to: Date } {
+  const end = to ? parsePeriodDate(to, true) : new Date();
+  const start = from ? parsePeriodDate(from, false) : new Date(end.getTime() - days * 24 * 60 * 60 * 1000);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error("Invalid date range");
+  }
+  if (start > end) {
+    throw new Error("Start date must be before end date");
+  }
+
+  return { from: start, to: end };
+}
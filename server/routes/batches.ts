@@ -1,6 +1,12 @@
 import { Express, Request, Response } from "express";
+import ExcelJS from "exceljs";
 import { storage } from "../storage";
 import { getDefaultSystemPrompt, setDefaultSystemPrompt, getDefaultPatientSystemPrompt, setDefaultPatientSystemPrompt } from "../lib/openai";
+import { batchProgressEvents, getBatchProgress, retryFailedPatients } from "../lib/batchQueue";
+import type { BatchProgress } from "@shared/types";
+
+// Interval for SSE comments that keep proxies from closing an idle progress stream
+const PROGRESS_HEARTBEAT_MS = 15 * 1000;
 
 export function registerBatchRoutes(app: Express): void {
   // Get all patient batches
@@ -76,6 +82,270 @@ export function registerBatchRoutes(app: Express): void {
     }
   });
 
+  // Current generation progress for a batch
+  app.get("/api/batches/:batchId/progress", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, data: null, error: "Authentication required" });
+      }
+
+      const progress = await getBatchProgress(req.params.batchId);
+      if (!progress) {
+        return res.status(404).json({
+          success: false,
+          data: null,
+          error: `Batch ${req.params.batchId} not found`,
+        });
+      }
+
+      res.status(200).json({ success: true, data: progress });
+    } catch (err) {
+      console.error("Error fetching batch progress:", err);
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: `Error fetching batch progress: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Server-Sent Events stream of generation progress; closes once the batch is finished
+  app.get("/api/batches/:batchId/progress/stream", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, data: null, error: "Authentication required" });
+      }
+
+      const { batchId } = req.params;
+      const initial = await getBatchProgress(batchId);
+      if (!initial) {
+        return res.status(404).json({
+          success: false,
+          data: null,
+          error: `Batch ${batchId} not found`,
+        });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no", // Stop nginx-style proxies buffering the stream
+      });
+
+      const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), PROGRESS_HEARTBEAT_MS);
+      const close = () => {
+        clearInterval(heartbeat);
+        batchProgressEvents.off("progress", onProgress);
+        res.end();
+      };
+
+      const send = (progress: BatchProgress) => {
+        res.write(`event: progress\ndata: ${JSON.stringify(progress)}\n\n`);
+        if (progress.status !== "processing") {
+          res.write(`event: done\ndata: ${JSON.stringify(progress)}\n\n`);
+          close();
+        }
+      };
+
+      const onProgress = (progress: BatchProgress) => {
+        if (progress.batchId === batchId) send(progress);
+      };
+
+      batchProgressEvents.on("progress", onProgress);
+      req.on("close", close);
+      send(initial);
+    } catch (err) {
+      console.error("Error streaming batch progress:", err);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          data: null,
+          error: `Error streaming batch progress: ${err instanceof Error ? err.message : String(err)}`,
+        });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // Validation report: row-level issues from the import plus patients whose generation failed
+  app.get("/api/batches/:batchId/issues", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, data: null, error: "Authentication required" });
+      }
+
+      const { batchId } = req.params;
+      const [issues, failedJobs] = await Promise.all([
+        storage.getUploadIssues(batchId),
+        storage.getFailedGenerationJobs(batchId),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          issues,
+          failedPatients: failedJobs.map((job) => ({
+            patientId: job.patientId,
+            name: job.payload?.name ?? null,
+            attempts: job.attempts,
+            lastError: job.lastError,
+          })),
+          summary: {
+            errors: issues.filter((issue) => issue.severity === "error").length,
+            warnings: issues.filter((issue) => issue.severity === "warning").length,
+            failedPatients: failedJobs.length,
+          },
+        },
+      });
+    } catch (err) {
+      console.error("Error fetching batch issues:", err);
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: `Error fetching batch issues: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Download the validation report as a workbook: each problem row with its original values
+  app.get("/api/batches/:batchId/issues/export", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, data: null, error: "Authentication required" });
+      }
+
+      const { batchId } = req.params;
+      const [issues, failedJobs] = await Promise.all([
+        storage.getUploadIssues(batchId),
+        storage.getFailedGenerationJobs(batchId),
+      ]);
+
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet("Issues");
+
+      // Original columns follow the annotation columns, in the order first seen
+      const originalHeaders: string[] = [];
+      for (const issue of issues) {
+        for (const header of Object.keys(issue.rowData || {})) {
+          if (!originalHeaders.includes(header)) originalHeaders.push(header);
+        }
+      }
+
+      worksheet.columns = [
+        { header: "Severity", key: "severity", width: 10 },
+        { header: "Issue", key: "message", width: 50 },
+        { header: "Sheet", key: "sheet", width: 15 },
+        { header: "Row", key: "rowNumber", width: 8 },
+        { header: "Column", key: "column", width: 18 },
+        { header: "Patient ID", key: "patientId", width: 15 },
+        ...originalHeaders.map((header) => ({ header, key: `original:${header}`, width: 15 })),
+      ];
+
+      for (const issue of issues) {
+        const row = worksheet.addRow({
+          severity: issue.severity,
+          message: issue.message,
+          sheet: issue.sheet,
+          rowNumber: issue.rowNumber,
+          column: issue.column,
+          patientId: issue.patientId,
+          ...Object.fromEntries(
+            Object.entries(issue.rowData || {}).map(([header, value]) => [`original:${header}`, value])
+          ),
+        });
+        row.getCell("severity").font = { bold: true, color: { argb: issue.severity === "error" ? "FFC00000" : "FFB26B00" } };
+      }
+
+      worksheet.getRow(1).font = { bold: true };
+      worksheet.getRow(1).fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FFE0E0E0" },
+      };
+
+      if (failedJobs.length > 0) {
+        const failedSheet = workbook.addWorksheet("Failed Patients");
+        failedSheet.columns = [
+          { header: "Patient ID", key: "patientId", width: 15 },
+          { header: "Name", key: "name", width: 25 },
+          { header: "Attempts", key: "attempts", width: 10 },
+          { header: "Last Error", key: "lastError", width: 60 },
+        ];
+        for (const job of failedJobs) {
+          failedSheet.addRow({
+            patientId: job.patientId,
+            name: job.payload?.name,
+            attempts: job.attempts,
+            lastError: job.lastError,
+          });
+        }
+        failedSheet.getRow(1).font = { bold: true };
+      }
+
+      res.setHeader(
+        "Content-Type",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      );
+      res.setHeader("Content-Disposition", `attachment; filename="upload-issues-${batchId}.xlsx"`);
+
+      await workbook.xlsx.write(res);
+      res.end();
+    } catch (err) {
+      console.error("Error exporting batch issues:", err);
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: `Error exporting batch issues: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Regenerate only the patients whose prompt generation failed
+  app.post("/api/batches/:batchId/retry-failed", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, data: null, error: "Authentication required" });
+      }
+
+      const { batchId } = req.params;
+      const batch = await storage.getPatientBatch(batchId);
+      if (!batch) {
+        return res.status(404).json({
+          success: false,
+          data: null,
+          error: `Batch ${batchId} not found`,
+        });
+      }
+
+      const requeued = await retryFailedPatients(batchId);
+
+      res.status(200).json({
+        success: true,
+        data: { batchId, requeued },
+        message: requeued > 0 ? `Retrying ${requeued} failed patients` : "No failed patients to retry",
+      });
+    } catch (err) {
+      console.error("Error retrying failed patients:", err);
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: `Error retrying failed patients: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
   // Get simplified core prompt - ALWAYS returns the exact prompt from openai.ts
   app.get("/api/system-prompt", async (req: Request, res: Response) => {
     try {
@@ -124,7 +394,7 @@ export function registerBatchRoutes(app: Express): void {
           .json({ success: false, message: "Authentication required" });
       }
 
-      const { prompt } = req.body;
+      const { prompt, changeNote } = req.body;
 
       if (!prompt || typeof prompt !== 'string') {
         return res.status(400).json({
@@ -141,7 +411,10 @@ export function registerBatchRoutes(app: Express): void {
       }
 
       // Save to database
-      const updatedPrompt = await storage.updateSystemPrompt(prompt);
+      const updatedPrompt = await storage.updateSystemPrompt(prompt, undefined, {
+        authorId: req.user?.id,
+        changeNote,
+      });
 
       // Also update the in-memory version that's used directly by the OpenAI module
       setDefaultSystemPrompt(prompt);
@@ -175,7 +448,10 @@ export function registerBatchRoutes(app: Express): void {
       const defaultPrompt = getDefaultSystemPrompt();
 
       // Update the system prompt in the database
-      const updatedPrompt = await storage.updateSystemPrompt(defaultPrompt);
+      const updatedPrompt = await storage.updateSystemPrompt(defaultPrompt, undefined, {
+        authorId: req.user?.id,
+        changeNote: "Reset to default",
+      });
 
       // Also update the in-memory version
       setDefaultSystemPrompt(defaultPrompt);
@@ -247,7 +523,7 @@ export function registerBatchRoutes(app: Express): void {
           .json({ success: false, message: "Authentication required" });
       }
 
-      const { prompt } = req.body;
+      const { prompt, changeNote } = req.body;
 
       if (!prompt || typeof prompt !== 'string') {
         return res.status(400).json({
@@ -264,7 +540,10 @@ export function registerBatchRoutes(app: Express): void {
       }
 
       // Save to database
-      const updatedPrompt = await storage.updatePatientSystemPrompt(prompt);
+      const updatedPrompt = await storage.updatePatientSystemPrompt(prompt, undefined, {
+        authorId: req.user?.id,
+        changeNote,
+      });
 
       // Also update the in-memory version that's used directly by the OpenAI module
       setDefaultPatientSystemPrompt(prompt);
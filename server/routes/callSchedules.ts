@@ -0,0 +1,146 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { insertCallScheduleSchema } from "@shared/schema";
+import { getCallCalendar, saveCallSchedule } from "../lib/callScheduler";
+
+export function registerCallScheduleRoutes(app: Express): void {
+  // === CALL SCHEDULE ENDPOINTS ===
+
+  // Every patient's call schedule
+  app.get("/api/call-schedules", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const [schedules, registry] = await Promise.all([
+        storage.getCallSchedules(),
+        storage.getPatients(),
+      ]);
+      const patients = new Map(registry.map((patient) => [patient.patientId, patient]));
+
+      return res.status(200).json({
+        success: true,
+        data: schedules.map((schedule) => ({
+          ...schedule,
+          patientName: patients.get(schedule.patientId)?.name || schedule.patientId,
+          timezone: patients.get(schedule.patientId)?.timezone || null,
+        })),
+      });
+    } catch (err) {
+      console.error("Error fetching call schedules:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching call schedules: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Create or replace a patient's call schedule
+  app.put("/api/call-schedules/:patientId", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const { patientId } = req.params;
+      const patient = await storage.getPatient(patientId);
+      if (!patient) {
+        return res.status(404).json({
+          success: false,
+          message: `Patient ${patientId} not found`,
+        });
+      }
+
+      const validationResult = insertCallScheduleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid call schedule",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const schedule = await saveCallSchedule(patientId, validationResult.data, req.user?.id);
+
+      return res.status(200).json({
+        success: true,
+        data: schedule,
+        message: patient.phoneNumber
+          ? "Call schedule saved"
+          : "Call schedule saved. Add a phone number for this patient before the first call.",
+      });
+    } catch (err) {
+      console.error("Error saving call schedule:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error saving call schedule: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Stop calling a patient on a schedule
+  app.delete("/api/call-schedules/:patientId", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const deleted = await storage.deleteCallSchedule(req.params.patientId);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          message: "Call schedule not found",
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: "Call schedule removed",
+      });
+    } catch (err) {
+      console.error("Error removing call schedule:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error removing call schedule: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Placed, missed and upcoming scheduled calls between two dates
+  app.get("/api/call-calendar", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const from = new Date(req.query.from as string);
+      const to = new Date(req.query.to as string);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+        return res.status(400).json({
+          success: false,
+          message: "from and to must be dates, with to after from",
+        });
+      }
+
+      const patientId = typeof req.query.patientId === "string" && req.query.patientId ? req.query.patientId : undefined;
+      const entries = await getCallCalendar(from, to, patientId);
+
+      return res.status(200).json({ success: true, data: entries });
+    } catch (err) {
+      console.error("Error fetching call calendar:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching call calendar: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import { Express, Request, Response } from "express";
 import { storage } from "../storage";
+import { backfillCallExtractions } from "../lib/callHistory";
 
 export function registerCallRoutes(app: Express): void {
   // === CALL HISTORY ENDPOINTS ===
@@ -79,6 +80,87 @@ export function registerCallRoutes(app: Express): void {
     }
   });
 
+  // Follow-up flags raised while the call was monitored live
+  app.get("/api/call-history/:callId/flags", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required"
+        });
+      }
+
+      const flags = await storage.getCallFlags(req.params.callId);
+
+      return res.status(200).json({
+        success: true,
+        data: flags
+      });
+
+    } catch (error) {
+      console.error("❌ Error fetching call flags:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch call flags"
+      });
+    }
+  });
+
+  // Medication adherence, symptoms, mood, falls, vitals and social needs extracted from the call
+  app.get("/api/call-history/:callId/extraction", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required"
+        });
+      }
+
+      const extraction = await storage.getCallExtraction(req.params.callId);
+
+      return res.status(200).json({
+        success: true,
+        data: extraction ?? null
+      });
+
+    } catch (error) {
+      console.error("❌ Error fetching call extraction:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch call extraction"
+      });
+    }
+  });
+
+  // Extract clinical details for stored calls that don't have any yet, a page at a time;
+  // send back the returned nextAfterId for the next page
+  app.post("/api/call-history/extractions/backfill", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required"
+        });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.body?.limit) || 50, 1), 200);
+      const afterId = Math.max(parseInt(req.body?.afterId) || 0, 0);
+      const result = await backfillCallExtractions(limit, afterId);
+
+      return res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      console.error("❌ Error backfilling call extractions:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to backfill call extractions"
+      });
+    }
+  });
+
   // Update call notes or status
   app.patch("/api/call-history/:callId", async (req: Request, res: Response) => {
     try {
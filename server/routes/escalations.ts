@@ -0,0 +1,370 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import {
+  escalationRoles,
+  insertEscalationPolicySchema,
+  insertOnCallRotationSchema,
+} from "@shared/schema";
+import {
+  DEFAULT_ESCALATION_POLICIES,
+  acknowledgeEscalation,
+  resolveOnCallContact,
+  startEscalation,
+} from "../lib/escalations";
+
+export function registerEscalationRoutes(app: Express): void {
+  // === ON-CALL ROTATION ENDPOINTS ===
+
+  // List rotations along with who is currently on call for each role
+  app.get("/api/on-call/rotations", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const rotations = await storage.getOnCallRotations();
+      const current: Record<string, { name: string; phone: string } | null> = {};
+      for (const role of escalationRoles) {
+        current[role] = await resolveOnCallContact(role);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: rotations,
+        current,
+      });
+    } catch (err) {
+      console.error("Error fetching on-call rotations:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching on-call rotations: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Create a rotation
+  app.post("/api/on-call/rotations", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const validationResult = insertOnCallRotationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid on-call rotation",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const rotation = await storage.createOnCallRotation(validationResult.data);
+
+      return res.status(201).json({
+        success: true,
+        data: rotation,
+        message: "On-call rotation created",
+      });
+    } catch (err) {
+      console.error("Error creating on-call rotation:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error creating on-call rotation: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Update a rotation
+  app.put("/api/on-call/rotations/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid rotation ID",
+        });
+      }
+
+      const validationResult = insertOnCallRotationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid on-call rotation",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const rotation = await storage.updateOnCallRotation(id, validationResult.data);
+
+      return res.status(200).json({
+        success: true,
+        data: rotation,
+        message: "On-call rotation updated",
+      });
+    } catch (err) {
+      console.error("Error updating on-call rotation:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error updating on-call rotation: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Delete a rotation
+  app.delete("/api/on-call/rotations/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid rotation ID",
+        });
+      }
+
+      await storage.deleteOnCallRotation(id);
+
+      return res.status(200).json({
+        success: true,
+        message: "On-call rotation deleted",
+      });
+    } catch (err) {
+      console.error("Error deleting on-call rotation:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error deleting on-call rotation: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // === ESCALATION POLICY ENDPOINTS ===
+
+  // Get the policy for each severity (built-in defaults fill any gaps)
+  app.get("/api/escalations/policies", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const configured = await storage.getEscalationPolicies();
+      const policies = DEFAULT_ESCALATION_POLICIES.map(
+        (fallback) => configured.find((p) => p.severity === fallback.severity) ?? fallback
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: policies,
+      });
+    } catch (err) {
+      console.error("Error fetching escalation policies:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching escalation policies: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Save the policy for a severity
+  app.put("/api/escalations/policies/:severity", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const validationResult = insertEscalationPolicySchema.safeParse({
+        ...req.body,
+        severity: req.params.severity,
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid escalation policy",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const policy = await storage.upsertEscalationPolicy(validationResult.data);
+
+      return res.status(200).json({
+        success: true,
+        data: policy,
+        message: "Escalation policy saved",
+      });
+    } catch (err) {
+      console.error("Error saving escalation policy:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error saving escalation policy: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // === ESCALATION ENDPOINTS ===
+
+  // List escalations (optionally filtered by status or batch)
+  app.get("/api/escalations", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const escalations = await storage.getAlertEscalations({
+        status: req.query.status as string | undefined,
+        batchId: req.query.batchId as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: escalations,
+      });
+    } catch (err) {
+      console.error("Error fetching escalations:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching escalations: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Escalate a triage alert manually
+  app.post("/api/escalations", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const { alertId } = req.body;
+      if (!alertId) {
+        return res.status(400).json({
+          success: false,
+          message: "Alert ID is required",
+        });
+      }
+
+      const alert = await storage.getPatientAlertById(alertId);
+      if (!alert) {
+        return res.status(404).json({
+          success: false,
+          message: `No alert found with ID ${alertId}`,
+        });
+      }
+
+      const escalation = await startEscalation(alert);
+      if (!escalation) {
+        return res.status(400).json({
+          success: false,
+          message: `No escalation policy applies to ${alert.severity} alerts`,
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: escalation,
+        message: "Escalation started",
+      });
+    } catch (err) {
+      console.error("Error starting escalation:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error starting escalation: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Get an escalation with its timeline
+  app.get("/api/escalations/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid escalation ID",
+        });
+      }
+
+      const escalation = await storage.getAlertEscalation(id);
+      if (!escalation) {
+        return res.status(404).json({
+          success: false,
+          message: "Escalation not found",
+        });
+      }
+
+      const events = await storage.getEscalationEvents(id);
+
+      return res.status(200).json({
+        success: true,
+        data: { ...escalation, events },
+      });
+    } catch (err) {
+      console.error("Error fetching escalation:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching escalation: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Acknowledge an escalation from the UI
+  app.post("/api/escalations/:id/acknowledge", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid escalation ID",
+        });
+      }
+
+      const escalation = await acknowledgeEscalation(id, req.user?.username || "dashboard user");
+
+      return res.status(200).json({
+        success: true,
+        data: escalation,
+        message: "Escalation acknowledged",
+      });
+    } catch (err) {
+      console.error("Error acknowledging escalation:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error acknowledging escalation: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
@@ -0,0 +1,172 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { saveImportProfileSchema, type ColumnMapping } from "@shared/schema";
+import { headerSignature } from "../lib/excelProcessor";
+
+// Mapped headers that are not among the profile's headers
+function unknownMappedHeaders(mapping: ColumnMapping, headers: string[]): string[] {
+  return Object.values(mapping).filter(
+    (header): header is string => !!header && !headers.includes(header)
+  );
+}
+
+export function registerImportProfileRoutes(app: Express): void {
+  // === IMPORT PROFILE ENDPOINTS ===
+
+  // All saved column mappings
+  app.get("/api/import-profiles", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const profiles = await storage.getImportProfiles();
+
+      return res.status(200).json({
+        success: true,
+        data: profiles,
+      });
+    } catch (err) {
+      console.error("Error fetching import profiles:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching import profiles: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Save a mapping for a header layout (replaces a profile with the same name)
+  app.post("/api/import-profiles", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const validationResult = saveImportProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid import profile",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const { headers, mapping } = validationResult.data;
+      const unknown = unknownMappedHeaders(mapping, headers);
+      if (unknown.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `Mapped columns not in headers: ${unknown.join(", ")}`,
+        });
+      }
+
+      const profile = await storage.saveImportProfile({
+        ...validationResult.data,
+        headerSignature: headerSignature(headers),
+        createdBy: req.user?.id,
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: profile,
+        message: "Import profile saved",
+      });
+    } catch (err) {
+      console.error("Error saving import profile:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error saving import profile: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Update a profile's name, headers or mapping
+  app.put("/api/import-profiles/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid profile ID",
+        });
+      }
+
+      const validationResult = saveImportProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid import profile",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const { headers, mapping } = validationResult.data;
+      const unknown = unknownMappedHeaders(mapping, headers);
+      if (unknown.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `Mapped columns not in headers: ${unknown.join(", ")}`,
+        });
+      }
+
+      const profile = await storage.updateImportProfile(id, {
+        ...validationResult.data,
+        headerSignature: headerSignature(headers),
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: profile,
+        message: "Import profile updated",
+      });
+    } catch (err) {
+      console.error("Error updating import profile:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error updating import profile: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Delete a profile
+  app.delete("/api/import-profiles/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid profile ID",
+        });
+      }
+
+      await storage.deleteImportProfile(id);
+
+      return res.status(200).json({
+        success: true,
+        message: "Import profile deleted",
+      });
+    } catch (err) {
+      console.error("Error deleting import profile:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error deleting import profile: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
@@ -4,12 +4,25 @@ import { registerUploadRoutes } from "./upload";
 import { registerPromptRoutes } from "./prompts";
 import { registerBatchRoutes } from "./batches";
 import { registerSandboxRoutes } from "./sandbox";
+import { registerPromptVersionRoutes } from "./promptVersions";
+import { registerPromptExperimentRoutes } from "./promptExperiments";
+import { registerMessageReviewRoutes } from "./messageReviews";
+import { registerPromptReviewRoutes } from "./promptReviews";
 import { registerTriageRoutes } from "./triage";
 import { registerVapiRoutes } from "./vapi";
 import { registerReportRoutes } from "./reports";
 import { registerSettingsRoutes } from "./settings";
 import { registerCallRoutes } from "./calls";
 import { registerTrendReportRoutes } from "./trendReports";
+import { registerTwilioRoutes } from "./twilio";
+import { registerEscalationRoutes } from "./escalations";
+import { registerSmsRoutes } from "./sms";
+import { registerPatientDeliveryRoutes } from "./patientDeliveries";
+import { registerCallScheduleRoutes } from "./callSchedules";
+import { registerVapiEventRoutes } from "./vapiEvents";
+import { registerLiveCallRoutes } from "./liveCalls";
+import { registerPatientRoutes } from "./patients";
+import { registerImportProfileRoutes } from "./importProfiles";
 
 /**
  * Register all application routes
@@ -22,21 +35,60 @@ export function registerAllRoutes(app: Express): void {
   // File upload and processing routes
   registerUploadRoutes(app);
   
+  // Saved upload column mappings
+  registerImportProfileRoutes(app);
+  
   // Patient prompts management routes
   registerPromptRoutes(app);
   
   // Batch management routes
   registerBatchRoutes(app);
   
+  // Longitudinal patient registry routes
+  registerPatientRoutes(app);
+  
   // Prompt editing sandbox routes
   registerSandboxRoutes(app);
   
+  // Prompt version history and rollback
+  registerPromptVersionRoutes(app);
+  
+  // A/B prompt experiments
+  registerPromptExperimentRoutes(app);
+  
+  // Generated messages held back by guardrail checks
+  registerMessageReviewRoutes(app);
+  
+  // Review and approval workflow for generated messages
+  registerPromptReviewRoutes(app);
+  
   // Triage and alerts routes
   registerTriageRoutes(app);
   
+  // Escalation policies, on-call rotations and alert escalations
+  registerEscalationRoutes(app);
+  
+  // SMS conversation threads
+  registerSmsRoutes(app);
+  
+  // Patient message delivery by SMS and email
+  registerPatientDeliveryRoutes(app);
+  
+  // Twilio SMS webhooks (signature-verified)
+  registerTwilioRoutes(app);
+  
   // VAPI voice calling routes
   registerVapiRoutes(app);
   
+  // Recurring companion call schedules and the calls calendar
+  registerCallScheduleRoutes(app);
+  
+  // Vapi webhook inbox and replay of failed events
+  registerVapiEventRoutes(app);
+  
+  // Live transcripts of calls in progress and mid-call follow-up flags
+  registerLiveCallRoutes(app);
+  
   // Monthly reports routes
   registerReportRoutes(app);
   
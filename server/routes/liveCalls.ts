@@ -0,0 +1,123 @@
+import { Express, Request, Response } from "express";
+import { insertCallFlagSchema } from "@shared/schema";
+import type { LiveTranscriptLine } from "@shared/types";
+import { flagLiveCall, getLiveCalls, liveCallEvents } from "../lib/liveCalls";
+
+// Comment lines keep proxies from closing an idle stream
+const LIVE_CALLS_HEARTBEAT_MS = 15 * 1000;
+
+export function registerLiveCallRoutes(app: Express): void {
+  // === LIVE CALL MONITORING ENDPOINTS ===
+
+  // Calls in progress or recently ended, with their transcripts so far
+  app.get("/api/live-calls", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      return res.status(200).json({ success: true, data: getLiveCalls() });
+    } catch (err) {
+      console.error("Error fetching live calls:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching live calls: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Server-Sent Events: a "snapshot" of live calls, then "call", "transcript" and "removed" updates
+  app.get("/api/live-calls/stream", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no", // Stop nginx-style proxies buffering the stream
+      });
+
+      const onCall = (call: unknown) => {
+        res.write(`event: call\ndata: ${JSON.stringify(call)}\n\n`);
+      };
+      const onTranscript = (update: { callId: string; line: LiveTranscriptLine }) => {
+        res.write(`event: transcript\ndata: ${JSON.stringify(update)}\n\n`);
+      };
+      const onRemoved = (update: { callId: string }) => {
+        res.write(`event: removed\ndata: ${JSON.stringify(update)}\n\n`);
+      };
+
+      const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), LIVE_CALLS_HEARTBEAT_MS);
+      const close = () => {
+        clearInterval(heartbeat);
+        liveCallEvents.off("call", onCall);
+        liveCallEvents.off("transcript", onTranscript);
+        liveCallEvents.off("removed", onRemoved);
+        res.end();
+      };
+
+      liveCallEvents.on("call", onCall);
+      liveCallEvents.on("transcript", onTranscript);
+      liveCallEvents.on("removed", onRemoved);
+      req.on("close", close);
+      res.write(`event: snapshot\ndata: ${JSON.stringify(getLiveCalls())}\n\n`);
+    } catch (err) {
+      console.error("Error streaming live calls:", err);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          message: `Error streaming live calls: ${err instanceof Error ? err.message : String(err)}`,
+        });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // Flag a call for follow-up while it is in progress
+  app.post("/api/live-calls/:callId/flags", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const validationResult = insertCallFlagSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid follow-up flag",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const flag = await flagLiveCall(req.params.callId, validationResult.data.note, req.user?.id);
+      if (!flag) {
+        return res.status(404).json({
+          success: false,
+          message: "Call is not being monitored",
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: flag,
+        message: "Call flagged for follow-up",
+      });
+    } catch (err) {
+      console.error("Error flagging call:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error flagging call: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
@@ -0,0 +1,172 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { extractReasoning } from "../lib/openai";
+import { normalizeLanguage, translateToEnglish } from "../lib/language";
+
+export function registerMessageReviewRoutes(app: Express): void {
+  // Generated messages held back by a guardrail check, pending ones by default
+  app.get("/api/message-reviews", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const batchId = typeof req.query.batchId === "string" ? req.query.batchId : undefined;
+      const status = typeof req.query.status === "string" ? req.query.status : "pending";
+
+      const reviews = await storage.getMessageReviews({
+        batchId,
+        status: status === "all" ? undefined : status,
+      });
+      return res.status(200).json({ success: true, data: reviews });
+    } catch (err) {
+      console.error("Error fetching message reviews:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching message reviews: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Approve held messages, optionally edited, and store them as the patient's prompt
+  app.post("/api/message-reviews/:id/approve", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid review ID" });
+      }
+
+      const { caregiverMessage, patientMessage } = req.body ?? {};
+      if (
+        (caregiverMessage !== undefined && (typeof caregiverMessage !== "string" || !caregiverMessage.trim())) ||
+        (patientMessage !== undefined && (typeof patientMessage !== "string" || !patientMessage.trim()))
+      ) {
+        return res.status(400).json({ success: false, message: "Edited messages can't be empty" });
+      }
+
+      const review = await storage.getMessageReview(id);
+      if (!review) {
+        return res.status(404).json({ success: false, message: "Review not found" });
+      }
+      if (review.status !== "pending") {
+        return res.status(409).json({ success: false, message: `This review was already ${review.status}` });
+      }
+
+      const prompt = caregiverMessage ?? review.caregiverMessage;
+      const message = patientMessage ?? review.patientMessage;
+      const { reasoning } = extractReasoning(prompt);
+      const patient = review.payload;
+      const language = normalizeLanguage(review.patientMessageLanguage);
+      // A reviewer's edit to a non-English message needs a fresh translation
+      const patientMessageEnglish = message === review.patientMessage
+        ? review.patientMessageEnglish
+        : await translateToEnglish(extractReasoning(message).displayPrompt, language, {
+            batchId: review.batchId,
+            patientId: review.patientId,
+          });
+
+      if (review.patientPromptId) {
+        // A regeneration: replace the messages on the existing prompt
+        await storage.updatePatientPrompt(review.patientPromptId, {
+          prompt,
+          patientMessage: message,
+          patientMessageLanguage: language,
+          patientMessageEnglish,
+          reasoning,
+          systemPromptVersionId: review.systemPromptVersionId,
+          patientSystemPromptVersionId: review.patientSystemPromptVersionId,
+        });
+      } else {
+        await storage.createPatientPrompt({
+          batchId: review.batchId,
+          patientId: review.patientId,
+          name: patient.name || "Unknown",
+          age: patient.age || 0,
+          condition: patient.condition || "Unknown",
+          prompt,
+          patientMessage: message,
+          patientMessageLanguage: language,
+          patientMessageEnglish,
+          reasoning,
+          isAlert: patient.isAlert ? "true" : "false",
+          healthStatus: patient.healthStatus || "healthy",
+          rawData: patient,
+          patientRecordId: review.patientRecordId,
+          systemPromptVersionId: review.systemPromptVersionId,
+          patientSystemPromptVersionId: review.patientSystemPromptVersionId,
+        });
+      }
+
+      const updated = await storage.updateMessageReview(id, {
+        caregiverMessage: prompt,
+        patientMessage: message,
+        patientMessageEnglish,
+        status: "approved",
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Messages approved and saved",
+        data: updated,
+      });
+    } catch (err) {
+      console.error("Error approving message review:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error approving message review: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Reject held messages; nothing is stored for the patient
+  app.post("/api/message-reviews/:id/reject", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid review ID" });
+      }
+
+      const review = await storage.getMessageReview(id);
+      if (!review) {
+        return res.status(404).json({ success: false, message: "Review not found" });
+      }
+      if (review.status !== "pending") {
+        return res.status(409).json({ success: false, message: `This review was already ${review.status}` });
+      }
+
+      const updated = await storage.updateMessageReview(id, {
+        status: "rejected",
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Messages rejected",
+        data: updated,
+      });
+    } catch (err) {
+      console.error("Error rejecting message review:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error rejecting message review: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
@@ -0,0 +1,126 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import {
+  deliverBatchPatientMessages,
+  deliverPatientMessage,
+  getDeliveryBlocker,
+} from "../lib/patientDelivery";
+
+export function registerPatientDeliveryRoutes(app: Express): void {
+  // === PATIENT MESSAGE DELIVERY ENDPOINTS ===
+
+  // Delivery history, by patient and/or batch, newest first
+  app.get("/api/patient-deliveries", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const patientId = typeof req.query.patientId === "string" && req.query.patientId ? req.query.patientId : undefined;
+      const batchId = typeof req.query.batchId === "string" && req.query.batchId ? req.query.batchId : undefined;
+
+      const deliveries = await storage.getMessageDeliveries({
+        patientId,
+        batchId,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      return res.status(200).json({ success: true, data: deliveries });
+    } catch (err) {
+      console.error("Error fetching patient message deliveries:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching patient message deliveries: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Send one prompt's patient message on the patient's preferred channel
+  app.post("/api/patient-deliveries", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const promptId = req.body?.promptId;
+      if (!Number.isInteger(promptId)) {
+        return res.status(400).json({ success: false, message: "promptId is required" });
+      }
+
+      const prompt = await storage.getPatientPromptById(promptId);
+      if (!prompt) {
+        return res.status(404).json({ success: false, message: "Prompt not found" });
+      }
+
+      const blocker = await getDeliveryBlocker(prompt);
+      if (blocker) {
+        return res.status(409).json({ success: false, message: blocker });
+      }
+
+      const pending = await storage.getMessageDeliveries({ patientPromptId: prompt.id });
+      if (pending.some((delivery) => delivery.status === "scheduled" || delivery.status === "sending")) {
+        return res.status(409).json({
+          success: false,
+          message: `The message for ${prompt.name} is already waiting to be sent`,
+        });
+      }
+
+      const delivery = await deliverPatientMessage(prompt, { sentBy: req.user?.id });
+
+      return res.status(delivery.status === "failed" ? 502 : 200).json({
+        success: delivery.status !== "failed",
+        data: delivery,
+        message:
+          delivery.status === "scheduled"
+            ? `Scheduled for ${delivery.scheduledFor?.toISOString()} (quiet hours)`
+            : delivery.status === "failed" || delivery.status === "skipped"
+              ? delivery.failureReason
+              : `Message sent by ${delivery.channel}`,
+      });
+    } catch (err) {
+      console.error("Error delivering patient message:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error delivering patient message: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Send every patient message in a batch that hasn't gone out yet
+  app.post("/api/patient-deliveries/batch/:batchId", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const { batchId } = req.params;
+      if (!(await storage.getPatientBatch(batchId))) {
+        return res.status(404).json({ success: false, message: "Batch not found" });
+      }
+
+      const result = await deliverBatchPatientMessages(batchId, req.user?.id);
+
+      return res.status(200).json({
+        success: true,
+        data: result,
+        message:
+          `Sent ${result.sent} patient messages` +
+          (result.scheduled > 0 ? `, ${result.scheduled} scheduled after quiet hours` : "") +
+          (result.skipped > 0 ? `, ${result.skipped} skipped` : "") +
+          (result.failed > 0 ? `, ${result.failed} failed` : ""),
+      });
+    } catch (err) {
+      console.error("Error delivering batch patient messages:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error delivering batch patient messages: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
@@ -0,0 +1,402 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { updatePatientSchema } from "@shared/schema";
+import { resolveReportPeriod, summarizeVitalHistory, toPatientVitals } from "../lib/vitals";
+import { generatePatientReportDefinition, renderPdf } from "../lib/enhancedPdfGenerator";
+
+export function registerPatientRoutes(app: Express): void {
+  // === PATIENT REGISTRY ENDPOINTS ===
+
+  // All registered patients, optionally filtered by name or ID
+  app.get("/api/patient-registry", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const patients = await storage.getPatients({
+        search: req.query.search as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: patients,
+      });
+    } catch (err) {
+      console.error("Error fetching patient registry:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching patient registry: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // One patient with every prompt, call and alert across all batches
+  app.get("/api/patient-registry/:patientId", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const { patientId } = req.params;
+      const patient = await storage.getPatient(patientId);
+
+      if (!patient) {
+        return res.status(404).json({
+          success: false,
+          message: `Patient ${patientId} not found`,
+        });
+      }
+
+      const [prompts, calls, alerts, batches, callReports] = await Promise.all([
+        storage.getPatientPromptHistory(patientId),
+        storage.getCallHistoryByPatient(patientId),
+        storage.getAlertDispatches({ patientId }),
+        storage.getAllPatientBatches(),
+        storage.getPatientCallReports({ patientId }),
+      ]);
+
+      const batchFileNames = new Map(batches.map((batch) => [batch.batchId, batch.fileName]));
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          patient,
+          prompts: prompts.map((prompt) => ({
+            ...prompt,
+            fileName: batchFileNames.get(prompt.batchId) || null,
+          })),
+          calls,
+          alerts,
+          callReports,
+        },
+      });
+    } catch (err) {
+      console.error("Error fetching patient:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching patient: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Update contact details, language, timezone and care team
+  app.put("/api/patient-registry/:patientId", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const validationResult = updatePatientSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid patient details",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const { patientId } = req.params;
+      const existing = await storage.getPatient(patientId);
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: `Patient ${patientId} not found`,
+        });
+      }
+
+      const patient = await storage.updatePatient(patientId, validationResult.data);
+
+      return res.status(200).json({
+        success: true,
+        data: patient,
+      });
+    } catch (err) {
+      console.error("Error updating patient:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error updating patient: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Vital readings for a period (defaults to the last 30 days)
+  app.get("/api/patient-registry/:patientId/vitals", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      let period;
+      try {
+        period = resolveReportPeriod(req.query.from as string | undefined, req.query.to as string | undefined);
+      } catch (err) {
+        return res.status(400).json({
+          success: false,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+
+      const readings = await storage.getVitalReadings({
+        patientId: req.params.patientId,
+        from: period.from,
+        to: period.to,
+        variable: req.query.variable as string | undefined,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          from: period.from.toISOString(),
+          to: period.to.toISOString(),
+          readings,
+          summary: summarizeVitalHistory(readings),
+        },
+      });
+    } catch (err) {
+      console.error("Error fetching vital readings:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching vital readings: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Clinical details extracted from the patient's calls for a period (defaults to the last 90 days)
+  app.get("/api/patient-registry/:patientId/call-extractions", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      let period;
+      try {
+        period = resolveReportPeriod(req.query.from as string | undefined, req.query.to as string | undefined, 90);
+      } catch (err) {
+        return res.status(400).json({
+          success: false,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+
+      const extractions = await storage.getCallExtractions({
+        patientId: req.params.patientId,
+        from: period.from,
+        to: period.to,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          from: period.from.toISOString(),
+          to: period.to.toISOString(),
+          extractions,
+        },
+      });
+    } catch (err) {
+      console.error("Error fetching call extractions:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching call extractions: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // PDF trend report charting the patient's stored readings for a period
+  app.get("/api/patient-registry/:patientId/vitals-report", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      let period;
+      try {
+        period = resolveReportPeriod(req.query.from as string | undefined, req.query.to as string | undefined);
+      } catch (err) {
+        return res.status(400).json({
+          success: false,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+
+      const { patientId } = req.params;
+      const patient = await storage.getPatient(patientId);
+      if (!patient) {
+        return res.status(404).json({
+          success: false,
+          message: `Patient ${patientId} not found`,
+        });
+      }
+
+      const [readings, latestPrompt, rules] = await Promise.all([
+        storage.getVitalReadings({ patientId, from: period.from, to: period.to }),
+        storage.getLatestPatientPrompt(patientId),
+        storage.getActiveTriageRules(),
+      ]);
+
+      const docDefinition = generatePatientReportDefinition(
+        {
+          name: patient.name,
+          age: patient.age,
+          condition: patient.condition || latestPrompt?.condition || "Unknown",
+          isAlert: latestPrompt?.isAlert ?? "false",
+        },
+        toPatientVitals(readings),
+        period,
+        rules
+      );
+      const pdf = await renderPdf(docDefinition);
+
+      const fileName = `trend-report-${patientId}-${period.to.toISOString().slice(0, 10)}.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+      return res.send(pdf);
+    } catch (err) {
+      console.error("Error generating vitals report:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error generating vitals report: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // === MERGE REVIEW ENDPOINTS ===
+
+  // Possible duplicate patients, with both records for comparison
+  app.get("/api/patient-merges", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const status = (req.query.status as string | undefined) || "pending";
+      const candidates = await storage.getPatientMergeCandidates(status === "all" ? undefined : status);
+
+      const data = await Promise.all(candidates.map(async (candidate) => ({
+        ...candidate,
+        patient: await storage.getPatient(candidate.patientId) ?? null,
+        candidatePatient: await storage.getPatient(candidate.candidatePatientId) ?? null,
+      })));
+
+      return res.status(200).json({
+        success: true,
+        data,
+      });
+    } catch (err) {
+      console.error("Error fetching merge candidates:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching merge candidates: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Merge a pair into one patient; by default the newer record folds into the existing one
+  app.post("/api/patient-merges/:id/merge", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid merge candidate ID",
+        });
+      }
+
+      const candidate = await storage.getPatientMergeCandidate(id);
+      if (!candidate) {
+        return res.status(404).json({
+          success: false,
+          message: `Merge candidate ${id} not found`,
+        });
+      }
+      if (candidate.status !== "pending") {
+        return res.status(409).json({
+          success: false,
+          message: `Merge candidate ${id} was already ${candidate.status}`,
+        });
+      }
+
+      const keepPatient = req.body?.keep === "patient";
+      const sourceId = keepPatient ? candidate.candidatePatientId : candidate.patientId;
+      const targetId = keepPatient ? candidate.patientId : candidate.candidatePatientId;
+
+      const patient = await storage.mergePatients(sourceId, targetId);
+      await storage.updatePatientMergeCandidate(id, {
+        status: "merged",
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+      });
+      console.log(`Merged patient ${sourceId} into ${targetId}`);
+
+      return res.status(200).json({
+        success: true,
+        data: patient,
+        message: `Merged ${sourceId} into ${targetId}`,
+      });
+    } catch (err) {
+      console.error("Error merging patients:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error merging patients: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Mark a pair as different people so it isn't raised again
+  app.post("/api/patient-merges/:id/dismiss", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid merge candidate ID",
+        });
+      }
+
+      const candidate = await storage.updatePatientMergeCandidate(id, {
+        status: "dismissed",
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: candidate,
+        message: "Marked as different patients",
+      });
+    } catch (err) {
+      console.error("Error dismissing merge candidate:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error dismissing merge candidate: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
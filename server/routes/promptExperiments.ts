@@ -0,0 +1,318 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { runPromptExperiment, samplePatients, summarizeExperiment } from "../lib/promptExperiments";
+import { setDefaultPatientSystemPrompt, setDefaultSystemPrompt } from "../lib/openai";
+import { createPromptExperimentSchema, type PromptKind } from "@shared/schema";
+
+export function registerPromptExperimentRoutes(app: Express): void {
+  // All experiments, newest first
+  app.get("/api/prompt-experiments", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const experiments = await storage.getPromptExperiments();
+      return res.status(200).json({ success: true, data: experiments });
+    } catch (err) {
+      console.error("Error fetching prompt experiments:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching prompt experiments: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Create an experiment over a random sample of a batch's patients and start generating
+  app.post("/api/prompt-experiments", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const validationResult = createPromptExperimentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid experiment",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const { name, batchId, kind, sampleSize, variants } = validationResult.data;
+
+      const batch = await storage.getPatientBatch(batchId);
+      if (!batch) {
+        return res.status(404).json({ success: false, message: "Batch not found" });
+      }
+
+      const prompts = await storage.getPatientPromptsByBatchId(batchId);
+      const patientIds = Array.from(new Set(prompts.map((prompt) => prompt.patientId)));
+      if (patientIds.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "This batch has no generated patients to sample",
+        });
+      }
+
+      // Copy each variant's text in so the experiment doesn't change if the version is edited later
+      const resolvedVariants = [];
+      for (const variant of variants) {
+        let content = variant.content;
+        if (variant.versionId !== undefined) {
+          const version = await storage.getPromptVersion(variant.versionId);
+          if (!version || version.kind !== kind) {
+            return res.status(400).json({
+              success: false,
+              message: `Variant "${variant.label}" refers to a prompt version that doesn't exist or is a different kind of prompt`,
+            });
+          }
+          content = version.content;
+        }
+        resolvedVariants.push({ label: variant.label, versionId: variant.versionId ?? null, content: content! });
+      }
+
+      const experiment = await storage.createPromptExperiment(
+        {
+          name,
+          batchId,
+          kind,
+          patientIds: samplePatients(patientIds, sampleSize),
+          status: "running",
+          createdBy: req.user?.id,
+        },
+        resolvedVariants
+      );
+
+      void runPromptExperiment(experiment.id);
+
+      return res.status(201).json({
+        success: true,
+        message: `Experiment started on ${experiment.patientIds.length} patients`,
+        data: experiment,
+      });
+    } catch (err) {
+      console.error("Error creating prompt experiment:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error creating prompt experiment: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // An experiment with its variants, every output and the per-variant results
+  app.get("/api/prompt-experiments/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid experiment ID" });
+      }
+
+      const experiment = await storage.getPromptExperiment(id);
+      if (!experiment) {
+        return res.status(404).json({ success: false, message: "Experiment not found" });
+      }
+
+      const [variants, outputs] = await Promise.all([
+        storage.getPromptExperimentVariants(id),
+        storage.getPromptExperimentOutputs(id),
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          experiment,
+          variants,
+          outputs,
+          summary: summarizeExperiment(variants, outputs),
+        },
+      });
+    } catch (err) {
+      console.error("Error fetching prompt experiment:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching prompt experiment: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Generate the experiment's failed outputs again
+  app.post("/api/prompt-experiments/:id/retry", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid experiment ID" });
+      }
+
+      const experiment = await storage.getPromptExperiment(id);
+      if (!experiment) {
+        return res.status(404).json({ success: false, message: "Experiment not found" });
+      }
+      if (experiment.status === "running") {
+        return res.status(409).json({ success: false, message: "Experiment is still running" });
+      }
+
+      const outputs = await storage.getPromptExperimentOutputs(id);
+      const failures = outputs.filter((output) => output.output === null).length;
+      if (failures === 0) {
+        return res.status(400).json({ success: false, message: "Experiment has no failed outputs" });
+      }
+
+      const updated = await storage.updatePromptExperiment(id, { status: "running", completedAt: null });
+      void runPromptExperiment(id);
+
+      return res.status(200).json({
+        success: true,
+        message: `Retrying ${failures} failed output${failures === 1 ? "" : "s"}`,
+        data: updated,
+      });
+    } catch (err) {
+      console.error("Error retrying prompt experiment:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error retrying prompt experiment: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Rate one output 1-5, or clear the rating with null
+  app.post("/api/prompt-experiments/:id/outputs/:outputId/rate", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      const outputId = parseInt(req.params.outputId);
+      const { rating } = req.body;
+      if (isNaN(id) || isNaN(outputId)) {
+        return res.status(400).json({ success: false, message: "Invalid experiment or output ID" });
+      }
+      if (rating !== null && !(Number.isInteger(rating) && rating >= 1 && rating <= 5)) {
+        return res.status(400).json({ success: false, message: "Rating must be a whole number from 1 to 5" });
+      }
+
+      const existing = await storage.getPromptExperimentOutput(outputId);
+      if (!existing || existing.experimentId !== id) {
+        return res.status(404).json({ success: false, message: "Output not found in this experiment" });
+      }
+
+      const output = await storage.updatePromptExperimentOutput(outputId, {
+        rating,
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+      });
+
+      return res.status(200).json({ success: true, data: output });
+    } catch (err) {
+      console.error("Error rating experiment output:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error rating experiment output: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Pick the best output for a patient
+  app.post("/api/prompt-experiments/:id/outputs/:outputId/winner", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      const outputId = parseInt(req.params.outputId);
+      if (isNaN(id) || isNaN(outputId)) {
+        return res.status(400).json({ success: false, message: "Invalid experiment or output ID" });
+      }
+
+      const existing = await storage.getPromptExperimentOutput(outputId);
+      if (!existing || existing.experimentId !== id) {
+        return res.status(404).json({ success: false, message: "Output not found in this experiment" });
+      }
+
+      const output = await storage.pickPromptExperimentWinner(outputId, req.user?.id);
+
+      return res.status(200).json({ success: true, data: output });
+    } catch (err) {
+      console.error("Error picking experiment winner:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error picking experiment winner: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Make a variant the live global prompt, recorded as a new prompt version
+  app.post("/api/prompt-experiments/:id/adopt", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid experiment ID" });
+      }
+
+      const experiment = await storage.getPromptExperiment(id);
+      if (!experiment) {
+        return res.status(404).json({ success: false, message: "Experiment not found" });
+      }
+
+      const variants = await storage.getPromptExperimentVariants(id);
+      const variant = variants.find((candidate) => candidate.id === req.body?.variantId);
+      if (!variant) {
+        return res.status(400).json({ success: false, message: "Variant not found in this experiment" });
+      }
+
+      const version = await storage.savePrompt(experiment.kind as PromptKind, variant.content, undefined, {
+        authorId: req.user?.id,
+        changeNote: `Adopted "${variant.label}" from experiment "${experiment.name}"`,
+        restoredFromId: variant.versionId,
+      });
+      await storage.updatePromptExperiment(id, { adoptedVariantId: variant.id });
+
+      // The global prompts are also cached in memory by the OpenAI module
+      if (experiment.kind === "caregiverSystem") {
+        setDefaultSystemPrompt(version.content);
+      } else {
+        setDefaultPatientSystemPrompt(version.content);
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: `"${variant.label}" is now the live prompt (version ${version.version})`,
+        data: version,
+      });
+    } catch (err) {
+      console.error("Error adopting experiment variant:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error adopting experiment variant: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
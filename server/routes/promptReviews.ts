@@ -0,0 +1,314 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import {
+  approvePrompt,
+  assignReviewer,
+  bulkApprove,
+  canTransition,
+  editMessages,
+  requestChanges,
+} from "../lib/promptReview";
+import { reviewStatuses, type ReviewStatus } from "@shared/schema";
+
+export function registerPromptReviewRoutes(app: Express): void {
+  // Messages waiting for review (draft and in review by default)
+  app.get("/api/prompt-reviews", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const batchId = typeof req.query.batchId === "string" && req.query.batchId ? req.query.batchId : undefined;
+      const reviewerId = req.query.reviewerId === "me" ? req.user?.id : parseInt(req.query.reviewerId as string) || undefined;
+      const status = req.query.status as string | undefined;
+      if (status && !reviewStatuses.includes(status as ReviewStatus)) {
+        return res.status(400).json({ success: false, message: `Unknown review status: ${status}` });
+      }
+
+      const prompts = await storage.getPromptReviewQueue({
+        batchId,
+        reviewerId,
+        statuses: status ? [status as ReviewStatus] : undefined,
+      });
+      return res.status(200).json({ success: true, data: prompts });
+    } catch (err) {
+      console.error("Error fetching review queue:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching review queue: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // People who can be assigned as reviewers
+  app.get("/api/prompt-reviews/reviewers", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const reviewers = await storage.getUserSummaries();
+      return res.status(200).json({ success: true, data: reviewers });
+    } catch (err) {
+      console.error("Error fetching reviewers:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching reviewers: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Approve many messages at once
+  app.post("/api/prompt-reviews/bulk-approve", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const { ids, comment } = req.body ?? {};
+      if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => Number.isInteger(id))) {
+        return res.status(400).json({ success: false, message: "Prompt IDs array is required" });
+      }
+
+      const result = await bulkApprove(ids, req.user?.id, typeof comment === "string" ? comment : undefined);
+
+      return res.status(200).json({
+        success: true,
+        data: result,
+        message:
+          `Approved ${result.approved} messages` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} that were already approved or sent` : ""),
+      });
+    } catch (err) {
+      console.error("Error bulk approving messages:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error bulk approving messages: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // One message with its review timeline
+  app.get("/api/prompt-reviews/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid prompt ID" });
+      }
+
+      const prompt = await storage.getPatientPromptById(id);
+      if (!prompt) {
+        return res.status(404).json({ success: false, message: "Prompt not found" });
+      }
+
+      const events = await storage.getPromptReviewEvents(id);
+      return res.status(200).json({ success: true, data: { prompt, events } });
+    } catch (err) {
+      console.error("Error fetching message review:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching message review: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Assign a reviewer, or remove the assignment with null
+  app.post("/api/prompt-reviews/:id/assign", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      const { reviewerId } = req.body ?? {};
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid prompt ID" });
+      }
+      if (reviewerId !== null && !Number.isInteger(reviewerId)) {
+        return res.status(400).json({ success: false, message: "reviewerId must be a user ID or null" });
+      }
+
+      const prompt = await storage.getPatientPromptById(id);
+      if (!prompt) {
+        return res.status(404).json({ success: false, message: "Prompt not found" });
+      }
+      if (reviewerId !== null && !(await storage.getUser(reviewerId))) {
+        return res.status(400).json({ success: false, message: "Reviewer not found" });
+      }
+
+      const updated = await assignReviewer(prompt, reviewerId, req.user?.id);
+      return res.status(200).json({ success: true, data: updated });
+    } catch (err) {
+      console.error("Error assigning reviewer:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error assigning reviewer: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Edit the caregiver and/or patient message; the AI text is kept alongside
+  app.put("/api/prompt-reviews/:id/messages", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid prompt ID" });
+      }
+
+      const { prompt: caregiverMessage, patientMessage } = req.body ?? {};
+      if (
+        (caregiverMessage !== undefined && (typeof caregiverMessage !== "string" || !caregiverMessage.trim())) ||
+        (patientMessage !== undefined && (typeof patientMessage !== "string" || !patientMessage.trim()))
+      ) {
+        return res.status(400).json({ success: false, message: "Edited messages can't be empty" });
+      }
+
+      const prompt = await storage.getPatientPromptById(id);
+      if (!prompt) {
+        return res.status(404).json({ success: false, message: "Prompt not found" });
+      }
+      if (prompt.reviewStatus === "sent") {
+        return res.status(409).json({ success: false, message: "This message was already sent" });
+      }
+
+      const updated = await editMessages(prompt, { prompt: caregiverMessage, patientMessage }, req.user?.id);
+      return res.status(200).json({ success: true, message: "Message saved", data: updated });
+    } catch (err) {
+      console.error("Error editing message:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error editing message: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Approve a message, with an optional comment
+  app.post("/api/prompt-reviews/:id/approve", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid prompt ID" });
+      }
+
+      const prompt = await storage.getPatientPromptById(id);
+      if (!prompt) {
+        return res.status(404).json({ success: false, message: "Prompt not found" });
+      }
+      if (!canTransition(prompt.reviewStatus, "approved")) {
+        return res.status(409).json({ success: false, message: `This message is already ${prompt.reviewStatus}` });
+      }
+
+      const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+      const updated = await approvePrompt(prompt, req.user?.id, comment || undefined);
+      return res.status(200).json({ success: true, message: "Message approved", data: updated });
+    } catch (err) {
+      console.error("Error approving message:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error approving message: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Send a message in review back to draft; a comment saying why is required
+  app.post("/api/prompt-reviews/:id/request-changes", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid prompt ID" });
+      }
+      if (!comment) {
+        return res.status(400).json({ success: false, message: "A comment is required" });
+      }
+
+      const prompt = await storage.getPatientPromptById(id);
+      if (!prompt) {
+        return res.status(404).json({ success: false, message: "Prompt not found" });
+      }
+      if (!canTransition(prompt.reviewStatus, "draft")) {
+        return res.status(409).json({ success: false, message: `Only messages in review can be sent back (this one is ${prompt.reviewStatus})` });
+      }
+
+      const updated = await requestChanges(prompt, comment, req.user?.id);
+      return res.status(200).json({ success: true, message: "Changes requested", data: updated });
+    } catch (err) {
+      console.error("Error requesting changes:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error requesting changes: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Leave a review comment without changing the message's state
+  app.post("/api/prompt-reviews/:id/comments", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid prompt ID" });
+      }
+      if (!comment) {
+        return res.status(400).json({ success: false, message: "Comment is required" });
+      }
+
+      const prompt = await storage.getPatientPromptById(id);
+      if (!prompt) {
+        return res.status(404).json({ success: false, message: "Prompt not found" });
+      }
+
+      const event = await storage.createPromptReviewEvent({
+        patientPromptId: id,
+        type: "comment",
+        actorId: req.user?.id ?? null,
+        comment,
+      });
+      return res.status(201).json({ success: true, data: event });
+    } catch (err) {
+      console.error("Error adding review comment:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error adding review comment: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
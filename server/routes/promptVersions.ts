@@ -0,0 +1,78 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { setDefaultPatientSystemPrompt, setDefaultSystemPrompt } from "../lib/openai";
+import { promptKinds, type PromptKind } from "@shared/schema";
+
+export function registerPromptVersionRoutes(app: Express): void {
+  // Version history of one prompt kind, newest first (global unless batchId is given)
+  app.get("/api/prompt-versions", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const kind = req.query.kind as PromptKind;
+      if (!promptKinds.includes(kind)) {
+        return res.status(400).json({
+          success: false,
+          message: `Kind must be one of: ${promptKinds.join(", ")}`,
+        });
+      }
+
+      const batchId = (req.query.batchId as string) || undefined;
+      const versions = await storage.getPromptVersions(kind, batchId);
+
+      return res.status(200).json({ success: true, data: versions });
+    } catch (err) {
+      console.error("Error fetching prompt versions:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching prompt versions: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Make an earlier version live again; this is recorded as a new version
+  app.post("/api/prompt-versions/:id/rollback", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: "Invalid prompt version ID" });
+      }
+
+      const target = await storage.getPromptVersion(id);
+      if (!target) {
+        return res.status(404).json({ success: false, message: "Prompt version not found" });
+      }
+
+      const restored = await storage.restorePromptVersion(id, req.user?.id);
+
+      // The global caregiver and patient prompts are also cached in memory by the OpenAI module
+      if (!restored.batchId && restored.kind === "caregiverSystem") {
+        setDefaultSystemPrompt(restored.content);
+      } else if (!restored.batchId && restored.kind === "patientSystem") {
+        setDefaultPatientSystemPrompt(restored.content);
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: `Rolled back to version ${target.version}`,
+        data: restored,
+      });
+    } catch (err) {
+      console.error("Error rolling back prompt version:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error rolling back prompt version: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
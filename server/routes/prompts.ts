@@ -1,6 +1,9 @@
 import { Express, Request, Response } from "express";
 import { storage } from "../storage";
-import { generatePrompt, generateDualMessages, extractReasoning, getDefaultSystemPrompt, getTokenUsageStats } from "../lib/openai";
+import { generatePrompt, generateDualMessages, extractReasoning, getDefaultSystemPrompt } from "../lib/openai";
+import { getTokenUsageSummary } from "../lib/llm";
+import { checkGeneratedMessages } from "../lib/guardrails";
+import { isApproved, isApprovalRequired } from "../lib/promptReview";
 import { createObjectCsvStringifier } from "csv-writer";
 import { db } from "../db";
 import { patientPrompts } from "@shared/schema";
@@ -72,6 +75,7 @@ export function registerPromptRoutes(app: Express): void {
         // Fetch the custom system prompt for this batch if available
         const systemPrompt = await storage.getSystemPrompt(batchId);
         const customSystemPrompt = systemPrompt?.prompt;
+        const systemPromptVersion = await storage.getCurrentPromptVersion("caregiverSystem", batchId);
 
         console.log(`Regenerating prompt for patient ${patientId} with ${customSystemPrompt ? 'custom' : 'default'} system prompt`);
 
@@ -80,6 +84,7 @@ export function registerPromptRoutes(app: Express): void {
         // Update prompt in storage (assuming this returns the updated prompt or ID)
         const updatedPrompt = await storage.updatePatientPrompt(patientPrompt.id, {
           prompt: newPrompt,
+          systemPromptVersionId: systemPromptVersion?.id ?? null,
         });
 
         // Extract reasoning from the generated prompt
@@ -139,6 +144,7 @@ export function registerPromptRoutes(app: Express): void {
       // Fetch the custom system prompt for this batch if available
       const systemPrompt = await storage.getSystemPrompt(batchId);
       const customSystemPrompt = systemPrompt?.prompt;
+      const systemPromptVersion = await storage.getCurrentPromptVersion("caregiverSystem", batchId);
 
       console.log(`Regenerating ${prompts.length} prompts with ${customSystemPrompt ? 'custom' : 'default'} system prompt`);
 
@@ -203,7 +209,8 @@ export function registerPromptRoutes(app: Express): void {
           // Update in the database with both the full prompt and the extracted reasoning
           await storage.updatePatientPrompt(prompt.id, {
             prompt: newPrompt,
-            reasoning: reasoning
+            reasoning: reasoning,
+            systemPromptVersionId: systemPromptVersion?.id ?? null,
           });
           successCount++;
         } catch (err) {
@@ -245,12 +252,15 @@ export function registerPromptRoutes(app: Express): void {
     try {
       const { batchId } = req.params;
 
-      const prompts = await storage.getPatientPromptsByBatchId(batchId);
+      // Unreviewed messages stay out of exports when approval is required
+      const requireApproval = await isApprovalRequired();
+      const prompts = (await storage.getPatientPromptsByBatchId(batchId))
+        .filter((prompt) => !requireApproval || isApproved(prompt));
 
       if (!prompts.length) {
         // Return empty array instead of 404 for CSV export
         return res.status(200).json({
-          message: "No prompts to export",
+          message: requireApproval ? "No approved prompts to export" : "No prompts to export",
           data: []
         });
       }
@@ -294,8 +304,8 @@ export function registerPromptRoutes(app: Express): void {
     }
   });
 
-  // Get token usage statistics - requires authentication
-  app.get("/api/token-usage", (req: Request, res: Response) => {
+  // Token usage and cost from the LLM ledger (defaults to the last 30 days), with budget alerts
+  app.get("/api/token-usage", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res
@@ -303,17 +313,22 @@ export function registerPromptRoutes(app: Express): void {
           .json({ success: false, message: "Authentication required" });
       }
 
-      const stats = getTokenUsageStats();
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from
+        ? new Date(req.query.from as string)
+        : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        return res.status(400).json({
+          success: false,
+          message: "from and to must be dates with from before to",
+        });
+      }
+
+      const summary = await getTokenUsageSummary(from, to);
 
       res.status(200).json({
         success: true,
-        data: {
-          ...stats,
-          totalEstimatedCost: parseFloat(stats.totalEstimatedCost.toFixed(6)),
-          averageCostPerCall: parseFloat(stats.averageCostPerCall.toFixed(6)),
-          inputTokensPerCall: Math.round(stats.inputTokensPerCall),
-          outputTokensPerCall: Math.round(stats.outputTokensPerCall),
-        },
+        data: summary,
       });
     } catch (err) {
       console.error("Error getting token usage stats:", err);
@@ -441,6 +456,7 @@ export function registerPromptRoutes(app: Express): void {
       // Try to get the system prompt from database first, fall back to default
       const systemPrompt = await storage.getSystemPrompt(batchId);
       const systemPromptText = systemPrompt ? systemPrompt.prompt : getDefaultSystemPrompt();
+      const systemPromptVersion = await storage.getCurrentPromptVersion("caregiverSystem", batchId);
 
       // Extract patient data from the stored prompt
       let patientData: any = {
@@ -476,7 +492,8 @@ export function registerPromptRoutes(app: Express): void {
       console.log(`Updating prompt ${promptId} in database`);
       const updatedPrompt = await storage.updatePatientPrompt(promptId, {
         prompt: newPromptText, // Store the full generated prompt
-        reasoning: reasoning
+        reasoning: reasoning,
+        systemPromptVersionId: systemPromptVersion?.id ?? null,
       });
 
       // Format the response using the standard wrapper
@@ -542,10 +559,12 @@ export function registerPromptRoutes(app: Express): void {
       // Fetch the custom system prompt for this batch if available
       const systemPrompt = await storage.getSystemPrompt(batchId);
       const customSystemPrompt = systemPrompt?.prompt;
+      const systemPromptVersion = await storage.getCurrentPromptVersion("caregiverSystem", batchId);
 
       // Fetch the custom patient system prompt for this batch if available
       const patientSystemPrompt = await storage.getPatientSystemPrompt(batchId);
       const customPatientSystemPrompt = patientSystemPrompt?.prompt;
+      const patientSystemPromptVersion = await storage.getCurrentPromptVersion("patientSystem", batchId);
 
       console.log(`Regenerating ${prompts.length} prompts with ${customSystemPrompt ? 'custom' : 'default'} system prompt and ${customPatientSystemPrompt ? 'custom' : 'default'} patient system prompt`);
 
@@ -566,7 +585,9 @@ export function registerPromptRoutes(app: Express): void {
       console.log(`Found ${uniquePrompts.length} unique patients to regenerate prompts for`);
 
       let successCount = 0;
+      let heldCount = 0;
       const failedPrompts: Array<{id: number, name: string, error: string}> = [];
+      const batchPatientNames = uniquePrompts.map((prompt) => prompt.name);
 
       for (const prompt of uniquePrompts) {
         try {
@@ -597,19 +618,50 @@ export function registerPromptRoutes(app: Express): void {
           }
 
           // Generate both caregiver and patient messages using dual message system
-          const { caregiverMessage, patientMessage } = await generateDualMessages(
+          const { caregiverMessage, patientMessage, patientMessageLanguage, patientMessageEnglish } = await generateDualMessages(
             patientData, 
             batchId, 
             customSystemPrompt, 
             customPatientSystemPrompt
           );
+
+          // Messages that fail a guardrail check wait for review; the stored prompt is left as it was
+          const findings = checkGeneratedMessages({
+            patient: patientData,
+            caregiverMessage,
+            patientMessage: patientMessageEnglish ?? patientMessage, // Checks are written for English text
+            otherPatientNames: batchPatientNames,
+          });
+          if (findings.length > 0) {
+            await storage.createMessageReview({
+              batchId,
+              patientId: prompt.patientId,
+              patientRecordId: prompt.patientRecordId,
+              patientPromptId: prompt.id,
+              payload: patientData,
+              caregiverMessage,
+              patientMessage,
+              patientMessageLanguage,
+              patientMessageEnglish,
+              findings,
+              systemPromptVersionId: systemPromptVersion?.id ?? null,
+              patientSystemPromptVersionId: patientSystemPromptVersion?.id ?? null,
+            });
+            heldCount++;
+            continue;
+          }
+
           const { displayPrompt, reasoning } = extractReasoning(caregiverMessage);
 
           // Update in the database with both messages and reasoning
           await storage.updatePatientPrompt(prompt.id, {
             prompt: caregiverMessage,
             patientMessage: patientMessage,
-            reasoning: reasoning
+            patientMessageLanguage,
+            patientMessageEnglish,
+            reasoning: reasoning,
+            systemPromptVersionId: systemPromptVersion?.id ?? null,
+            patientSystemPromptVersionId: patientSystemPromptVersion?.id ?? null,
           });
           successCount++;
         } catch (err) {
@@ -622,16 +674,17 @@ export function registerPromptRoutes(app: Express): void {
         }
       }
 
-      console.log(`Successfully regenerated ${successCount} of ${uniquePrompts.length} prompts${failedPrompts.length > 0 ? `, ${failedPrompts.length} failed` : ''}`);
+      console.log(`Successfully regenerated ${successCount} of ${uniquePrompts.length} prompts${heldCount > 0 ? `, ${heldCount} held for review` : ''}${failedPrompts.length > 0 ? `, ${failedPrompts.length} failed` : ''}`);
 
       res.status(200).json({
         success: true,
         data: {
           regenerated: successCount,
+          heldForReview: heldCount,
           total: uniquePrompts.length,
           failedPrompts: failedPrompts.length > 0 ? failedPrompts : []
         },
-        message: `Successfully regenerated ${successCount} of ${uniquePrompts.length} prompts${failedPrompts.length > 0 ? `. ${failedPrompts.length} failed.` : '.'}`
+        message: `Successfully regenerated ${successCount} of ${uniquePrompts.length} prompts${heldCount > 0 ? `. ${heldCount} held for review` : ''}${failedPrompts.length > 0 ? `. ${failedPrompts.length} failed.` : '.'}`
       });
     } catch (err) {
       console.error("Error regenerating prompts:", err);
@@ -150,6 +150,7 @@ export function registerSandboxRoutes(app: Express): void {
       // Fetch system prompt if available
       const systemPrompt = await storage.getSystemPrompt(batchId);
       const customSystemPrompt = systemPrompt?.prompt;
+      const systemPromptVersion = await storage.getCurrentPromptVersion("caregiverSystem", batchId);
 
       console.log(`Regenerating template-based prompt for patient ${patientId} with ${customSystemPrompt ? 'custom' : 'default'} system prompt`);
 
@@ -164,6 +165,7 @@ export function registerSandboxRoutes(app: Express): void {
       // Update the patient's prompt in the database
       const updatedPatient = await storage.updatePatientPrompt(prompt.id, {
         prompt: newPrompt,
+        systemPromptVersionId: systemPromptVersion?.id ?? null,
       });
 
       return res.status(200).json({
@@ -216,7 +218,7 @@ export function registerSandboxRoutes(app: Express): void {
           .json({ success: false, message: "Authentication required" });
       }
 
-      const { prompt, batchId } = req.body;
+      const { prompt, batchId, changeNote } = req.body;
 
       if (!prompt) {
         return res.status(400).json({
@@ -225,7 +227,10 @@ export function registerSandboxRoutes(app: Express): void {
         });
       }
 
-      const updatedPrompt = await storage.updateSystemPrompt(prompt, batchId);
+      const updatedPrompt = await storage.updateSystemPrompt(prompt, batchId, {
+        authorId: req.user?.id,
+        changeNote,
+      });
 
       return res.status(200).json({
         success: true,
@@ -428,6 +433,7 @@ export function registerSandboxRoutes(app: Express): void {
 
         // Get the system prompt
         const systemPrompt = await storage.getSystemPrompt(batchId);
+        const systemPromptVersion = await storage.getCurrentPromptVersion("caregiverSystem", batchId);
         if (!systemPrompt) {
           return res.status(404).json({
             success: false,
@@ -496,6 +502,7 @@ export function registerSandboxRoutes(app: Express): void {
         // Update the patient's prompt in the database
         const updatedPatient = await storage.updatePatientPrompt(prompt.id, {
           prompt: newPrompt,
+          systemPromptVersionId: systemPromptVersion?.id ?? null,
         });
 
         return res.status(200).json({
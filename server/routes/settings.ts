@@ -1,6 +1,14 @@
 import { Express, Request, Response } from "express";
 import { storage } from "../storage";
-import { phoneSchema } from "@shared/schema";
+import { llmCostSettingsSchema, llmSettingsSchema, llmTasks, phoneSchema, type LlmTask } from "@shared/schema";
+import {
+  completeForTask,
+  getLlmCostSettings,
+  getLlmSettings,
+  saveLlmCostSettings,
+  saveLlmSettings,
+} from "../lib/llm";
+import { isApprovalRequired, setApprovalRequired } from "../lib/promptReview";
 
 export function registerSettingsRoutes(app: Express): void {
   // === SYSTEM SETTINGS ENDPOINTS ===
@@ -71,6 +79,221 @@ export function registerSettingsRoutes(app: Express): void {
     }
   });
 
+  // Provider and model for each generation task (the local API key is never sent back)
+  app.get("/api/settings/llm", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const { localApiKey, ...settings } = await getLlmSettings();
+
+      return res.status(200).json({
+        success: true,
+        data: { ...settings, hasLocalApiKey: !!localApiKey },
+      });
+    } catch (err) {
+      console.error("Error fetching LLM settings:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching LLM settings: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Save LLM settings; leaving out localApiKey keeps the saved one
+  app.put("/api/settings/llm", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const validationResult = llmSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid LLM settings",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const settings = validationResult.data;
+      if (Object.values(settings.tasks).some((choice) => choice.provider === "local") && !settings.localBaseUrl) {
+        return res.status(400).json({
+          success: false,
+          message: "A local endpoint URL is required when a task uses the local provider",
+        });
+      }
+      if (settings.localApiKey === undefined) {
+        settings.localApiKey = (await getLlmSettings()).localApiKey;
+      }
+
+      const { localApiKey, ...saved } = await saveLlmSettings(settings);
+
+      return res.status(200).json({
+        success: true,
+        message: "LLM settings updated successfully",
+        data: { ...saved, hasLocalApiKey: !!localApiKey },
+      });
+    } catch (err) {
+      console.error("Error updating LLM settings:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error updating LLM settings: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Send a one-line request through a task's provider to check it is reachable
+  app.post("/api/settings/llm/test", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const task = req.body?.task as LlmTask;
+      if (!llmTasks.includes(task)) {
+        return res.status(400).json({
+          success: false,
+          message: `Task must be one of: ${llmTasks.join(", ")}`,
+        });
+      }
+
+      const startedAt = Date.now();
+      const reply = await completeForTask(task, {
+        messages: [{ role: "user", content: "Reply with the single word: ready" }],
+        maxTokens: 10,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: { task, reply, latencyMs: Date.now() - startedAt },
+      });
+    } catch (err) {
+      console.error("Error testing LLM provider:", err);
+      return res.status(502).json({
+        success: false,
+        message: `Provider test failed: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Per-model prices and spend budgets used by the token usage ledger
+  app.get("/api/settings/llm-costs", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: await getLlmCostSettings(),
+      });
+    } catch (err) {
+      console.error("Error fetching LLM cost settings:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching LLM cost settings: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Save prices and budgets; new prices apply to calls recorded from now on
+  app.put("/api/settings/llm-costs", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const validationResult = llmCostSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid LLM cost settings",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const saved = await saveLlmCostSettings(validationResult.data);
+
+      return res.status(200).json({
+        success: true,
+        message: "LLM cost settings updated successfully",
+        data: saved,
+      });
+    } catch (err) {
+      console.error("Error updating LLM cost settings:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error updating LLM cost settings: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Whether outreach, calls and exports only use approved messages
+  app.get("/api/settings/message-approval", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: { requireApproval: await isApprovalRequired() },
+      });
+    } catch (err) {
+      console.error("Error fetching message approval setting:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching message approval setting: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  app.put("/api/settings/message-approval", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const { requireApproval } = req.body ?? {};
+      if (typeof requireApproval !== "boolean") {
+        return res.status(400).json({
+          success: false,
+          message: "requireApproval must be true or false",
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: requireApproval
+          ? "Only approved messages will be used for outreach, calls and exports"
+          : "Messages no longer need approval before use",
+        data: { requireApproval: await setApprovalRequired(requireApproval) },
+      });
+    } catch (err) {
+      console.error("Error updating message approval setting:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error updating message approval setting: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
   // Get phone number configuration
   app.get("/api/settings/phone", async (req: Request, res: Response) => {
     try {
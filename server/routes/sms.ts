@@ -0,0 +1,69 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+
+export function registerSmsRoutes(app: Express): void {
+  // === SMS CONVERSATION ENDPOINTS ===
+
+  // Latest message of each conversation
+  app.get("/api/sms/threads", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const threads = await storage.getSmsThreads(limit);
+
+      return res.status(200).json({
+        success: true,
+        data: threads,
+      });
+    } catch (err) {
+      console.error("Error fetching SMS threads:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching SMS threads: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Messages in one conversation, by patient or phone number
+  app.get("/api/sms/messages", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const patientId = req.query.patientId as string | undefined;
+      const phone = req.query.phone as string | undefined;
+
+      if (!patientId && !phone) {
+        return res.status(400).json({
+          success: false,
+          message: "patientId or phone is required",
+        });
+      }
+
+      const messages = await storage.getSmsMessages({
+        patientId,
+        phone,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: messages,
+      });
+    } catch (err) {
+      console.error("Error fetching SMS messages:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching SMS messages: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
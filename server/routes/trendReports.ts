@@ -1,6 +1,7 @@
 import { Express, Request, Response } from "express";
 import { storage } from "../storage";
 import { generateTrendReport } from "../lib/trendReports";
+import { resolveReportPeriod, summarizeVitalHistory } from "../lib/vitals";
 
 export function registerTrendReportRoutes(app: Express): void {
   // Get trend report prompt
@@ -41,7 +42,7 @@ export function registerTrendReportRoutes(app: Express): void {
         });
       }
 
-      const { prompt, batchId } = req.body;
+      const { prompt, batchId, changeNote } = req.body;
       
       if (!prompt || typeof prompt !== 'string') {
         return res.status(400).json({
@@ -50,7 +51,10 @@ export function registerTrendReportRoutes(app: Express): void {
         });
       }
 
-      const updatedPrompt = await storage.updateTrendReportPrompt(prompt, batchId);
+      const updatedPrompt = await storage.updateTrendReportPrompt(prompt, batchId, {
+        authorId: req.user?.id,
+        changeNote,
+      });
       
       return res.status(200).json({
         success: true,
@@ -76,7 +80,7 @@ export function registerTrendReportRoutes(app: Express): void {
         });
       }
 
-      const { patientId, batchId } = req.body;
+      const { patientId, batchId, from, to } = req.body;
 
       if (!patientId) {
         return res.status(400).json({
@@ -85,6 +89,16 @@ export function registerTrendReportRoutes(app: Express): void {
         });
       }
 
+      let period;
+      try {
+        period = resolveReportPeriod(from, to);
+      } catch (err) {
+        return res.status(400).json({
+          success: false,
+          message: err instanceof Error ? err.message : String(err)
+        });
+      }
+
       // Get patient data
       let patientData;
       if (batchId) {
@@ -100,8 +114,12 @@ export function registerTrendReportRoutes(app: Express): void {
         });
       }
 
+      // Use the stored readings for the period, not just this batch's snapshot
+      const readings = await storage.getVitalReadings({ patientId, from: period.from, to: period.to });
+      const summary = summarizeVitalHistory(readings);
+
       // Generate the trend report using OpenAI
-      const trendReport = await generateTrendReport(patientData, batchId);
+      const trendReport = await generateTrendReport(patientData, batchId, { ...period, summary });
 
       return res.status(200).json({
         success: true,
@@ -112,6 +130,11 @@ export function registerTrendReportRoutes(app: Express): void {
             patientId: patientData.patientId,
             age: patientData.age,
             condition: patientData.condition
+          },
+          period: {
+            from: period.from.toISOString(),
+            to: period.to.toISOString(),
+            readings: readings.length
           }
         }
       });
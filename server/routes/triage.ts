@@ -1,5 +1,7 @@
 import { Express, Request, Response } from "express";
 import { storage } from "../storage";
+import { insertTriageRuleSchema } from "@shared/schema";
+import { getAlertPrompt, isApproved, isApprovalRequired, markPromptSent } from "../lib/promptReview";
 
 export function registerTriageRoutes(app: Express): void {
   // === TRIAGE ENDPOINTS ===
@@ -47,7 +49,18 @@ export function registerTriageRoutes(app: Express): void {
         });
       }
 
-      const result = await storage.sendAlert(alertId);
+      const prompt = await getAlertPrompt(alertId);
+      if (prompt && !isApproved(prompt) && (await isApprovalRequired())) {
+        return res.status(409).json({
+          success: false,
+          message: `The message for ${prompt.name} hasn't been approved yet`,
+        });
+      }
+
+      const result = await storage.sendAlert(alertId, req.user?.id);
+      if (prompt) {
+        await markPromptSent(prompt, "sms", req.user?.id);
+      }
 
       return res.status(200).json({
         success: true,
@@ -81,12 +94,42 @@ export function registerTriageRoutes(app: Express): void {
         });
       }
 
-      const result = await storage.sendAllAlerts(alertIds);
+      // Alerts whose message isn't approved are held back when approval is required
+      const requireApproval = await isApprovalRequired();
+      const prompts = new Map<string, Awaited<ReturnType<typeof getAlertPrompt>>>();
+      for (const alertId of alertIds) {
+        prompts.set(alertId, await getAlertPrompt(alertId));
+      }
+      const sendable = alertIds.filter((alertId) => {
+        const prompt = prompts.get(alertId);
+        return !requireApproval || !prompt || isApproved(prompt);
+      });
+      const unapproved = alertIds.length - sendable.length;
+
+      const startedAt = new Date();
+      const result = await storage.sendAllAlerts(sendable, req.user?.id);
+
+      // Mark the messages that just went out as sent
+      const dispatches = await storage.getLatestAlertDispatches(sendable);
+      for (const alertId of sendable) {
+        const dispatch = dispatches.get(alertId);
+        const prompt = prompts.get(alertId);
+        if (prompt && dispatch?.status === "sent" && dispatch.createdAt >= startedAt) {
+          await markPromptSent(prompt, "sms", req.user?.id);
+        }
+      }
 
       return res.status(200).json({
         success: true,
         sent: result.sent,
-        message: `Successfully sent ${result.sent} alerts`,
+        skipped: result.skipped,
+        failed: result.failed,
+        unapproved,
+        message:
+          `Successfully sent ${result.sent} alerts` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} already sent` : "") +
+          (unapproved > 0 ? `, held back ${unapproved} without an approved message` : "") +
+          (result.failed > 0 ? `, ${result.failed} failed` : ""),
       });
     } catch (err) {
       console.error("Error sending alerts:", err);
@@ -96,4 +139,191 @@ export function registerTriageRoutes(app: Express): void {
       });
     }
   });
+
+  // Audit trail of SMS alert dispatches (optionally filtered by alert or batch)
+  app.get("/api/triage/dispatches", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const dispatches = await storage.getAlertDispatches({
+        alertId: req.query.alertId as string | undefined,
+        batchId: req.query.batchId as string | undefined,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: dispatches,
+      });
+    } catch (err) {
+      console.error("Error fetching alert dispatches:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching alert dispatches: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // === TRIAGE RULE ENDPOINTS ===
+
+  // List configured clinical threshold rules
+  app.get("/api/triage/rules", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const rules = await storage.getTriageRules();
+
+      return res.status(200).json({
+        success: true,
+        data: rules,
+        usingDefaults: rules.length === 0,
+      });
+    } catch (err) {
+      console.error("Error fetching triage rules:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching triage rules: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Create a rule
+  app.post("/api/triage/rules", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const validationResult = insertTriageRuleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid triage rule",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const rule = await storage.createTriageRule(validationResult.data);
+
+      return res.status(201).json({
+        success: true,
+        data: rule,
+        message: "Triage rule created",
+      });
+    } catch (err) {
+      console.error("Error creating triage rule:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error creating triage rule: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Replace a rule
+  app.put("/api/triage/rules/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid rule ID",
+        });
+      }
+
+      const validationResult = insertTriageRuleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid triage rule",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const rule = await storage.updateTriageRule(id, validationResult.data);
+
+      return res.status(200).json({
+        success: true,
+        data: rule,
+        message: "Triage rule updated",
+      });
+    } catch (err) {
+      console.error("Error updating triage rule:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error updating triage rule: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Delete a rule
+  app.delete("/api/triage/rules/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid rule ID",
+        });
+      }
+
+      await storage.deleteTriageRule(id);
+
+      return res.status(200).json({
+        success: true,
+        message: "Triage rule deleted",
+      });
+    } catch (err) {
+      console.error("Error deleting triage rule:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error deleting triage rule: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Replace all rules with the built-in default thresholds
+  app.post("/api/triage/rules/restore-defaults", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const rules = await storage.restoreDefaultTriageRules();
+
+      return res.status(200).json({
+        success: true,
+        data: rules,
+        message: "Default triage rules restored",
+      });
+    } catch (err) {
+      console.error("Error restoring default triage rules:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error restoring default triage rules: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
 }
@@ -0,0 +1,112 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import twilio from "twilio";
+import { getTwilioConfig, isValidTwilioRequest } from "../lib/twilio";
+import { handleInboundSms } from "../lib/inboundSms";
+
+export function registerTwilioRoutes(app: Express): void {
+  // === TWILIO WEBHOOKS ===
+  // These are called by Twilio, not the browser, so they are excluded from
+  // session auth and verified with X-Twilio-Signature instead.
+
+  // Delivery status callback for outbound SMS alerts and patient messages
+  app.post("/api/twilio/status-callback", async (req: Request, res: Response) => {
+    try {
+      const twilioConfig = getTwilioConfig();
+      if (!twilioConfig) {
+        return res.status(503).json({
+          success: false,
+          message: "Twilio is not configured",
+        });
+      }
+
+      if (!isValidTwilioRequest(req, twilioConfig.authToken)) {
+        console.warn("Rejected Twilio status callback with invalid signature");
+        return res.status(403).json({
+          success: false,
+          message: "Invalid Twilio signature",
+        });
+      }
+
+      const { MessageSid, MessageStatus, ErrorCode } = req.body;
+
+      if (!MessageSid || !MessageStatus) {
+        return res.status(400).json({
+          success: false,
+          message: "MessageSid and MessageStatus are required",
+        });
+      }
+
+      console.log(`Twilio status callback: ${MessageSid} -> ${MessageStatus}${ErrorCode ? ` (error ${ErrorCode})` : ""}`);
+
+      // Alerts first, then segments of patient messages
+      const tracked =
+        (await storage.recordAlertDeliveryStatus(MessageSid, MessageStatus, ErrorCode)) ??
+        (await storage.recordMessageDeliveryStatus(MessageSid, MessageStatus, ErrorCode));
+
+      // Always acknowledge so Twilio doesn't keep retrying messages we didn't track
+      return res.status(200).json({
+        success: true,
+        matched: !!tracked,
+        status: tracked?.status,
+      });
+    } catch (err) {
+      console.error("Error handling Twilio status callback:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error handling Twilio status callback: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Inbound SMS replies to our Twilio number (clinician ACK/ESC keywords and patient replies)
+  app.post("/api/twilio/inbound-sms", async (req: Request, res: Response) => {
+    try {
+      const twilioConfig = getTwilioConfig();
+      if (!twilioConfig) {
+        return res.status(503).json({
+          success: false,
+          message: "Twilio is not configured",
+        });
+      }
+
+      if (!isValidTwilioRequest(req, twilioConfig.authToken)) {
+        console.warn("Rejected inbound SMS with invalid signature");
+        return res.status(403).json({
+          success: false,
+          message: "Invalid Twilio signature",
+        });
+      }
+
+      const { From, To, Body, MessageSid } = req.body;
+
+      if (!From || typeof Body !== "string") {
+        return res.status(400).json({
+          success: false,
+          message: "From and Body are required",
+        });
+      }
+
+      const result = await handleInboundSms({
+        from: From,
+        to: To || twilioConfig.phoneNumber,
+        body: Body,
+        twilioSid: MessageSid,
+      });
+
+      const twiml = new twilio.twiml.MessagingResponse();
+      if (result.reply) {
+        twiml.message(result.reply);
+      }
+
+      res.type("text/xml");
+      return res.status(200).send(twiml.toString());
+    } catch (err) {
+      console.error("Error handling inbound SMS:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error handling inbound SMS: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
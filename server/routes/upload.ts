@@ -2,11 +2,17 @@ import { Express, Request, Response } from "express";
 import multer from "multer";
 import path from "path";
 import { nanoid } from "nanoid";
-import { processExcelFile } from "../lib/excelProcessor";
-import { generatePrompt, extractReasoning, generateDualMessages } from "../lib/openai";
+import { headerSignature, previewExcelFile, processExcelFile, type ImportOptions, type RowIssue } from "../lib/excelProcessor";
 import { storage } from "../storage";
+import { enqueueBatch } from "../lib/batchQueue";
+import { resolveIdentities } from "../lib/identityResolution";
+import type { PatientData } from "@shared/types";
 import { db } from "../db";
 import { sql as SQL } from "drizzle-orm";
+import { columnMappingSchema, type ColumnMapping, type ImportProfile } from "@shared/schema";
+
+// Workbooks plus the delimited exports device vendors send
+const SUPPORTED_EXTENSIONS = [".xlsx", ".csv", ".tsv", ".txt"];
 
 // Set up multer for file uploads
 const upload = multer({
@@ -16,14 +22,86 @@ const upload = multer({
   },
   fileFilter: (_req: any, file: any, cb: any) => {
     const ext = path.extname(file.originalname).toLowerCase();
-    if (ext !== ".xlsx") {
-      return cb(new Error(`Invalid file type: ${ext}. Only Excel (.xlsx) files are allowed`));
+    if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+      return cb(new Error(`Invalid file type: ${ext}. Only Excel (.xlsx), CSV and TSV files are allowed`));
     }
     cb(null, true);
   },
 });
 
+// Parse the optional `mapping` form field, which the wizard sends as JSON
+function parseMappingField(value: unknown): { mapping?: ColumnMapping; errors?: unknown } {
+  if (!value) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = typeof value === "string" ? JSON.parse(value) : value;
+  } catch {
+    return { errors: [{ message: "Column mapping is not valid JSON" }] };
+  }
+
+  const validationResult = columnMappingSchema.safeParse(parsed);
+  if (!validationResult.success) {
+    return { errors: validationResult.error.errors };
+  }
+  return { mapping: validationResult.data };
+}
+
+// Parse the optional `sheets` form field: "all", a JSON array of names, or a single sheet name
+function parseSheetsField(value: unknown): ImportOptions["sheets"] {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  if (value === "all") return "all";
+
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Not JSON - treat it as a sheet name
+  }
+  return [value];
+}
+
 export function registerUploadRoutes(app: Express): void {
+  // Headers, a few sample rows and a suggested column mapping, so the user can confirm it before importing
+  app.post("/api/upload/preview", upload.single("file"), async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      if (!req.file || req.file.size === 0) {
+        return res
+          .status(400)
+          .json({ success: false, message: "No file uploaded" });
+      }
+
+      const preview = await previewExcelFile(req.file.buffer, {
+        fileName: req.file.originalname,
+        sheet: typeof req.body?.sheet === "string" && req.body.sheet ? req.body.sheet : undefined,
+      });
+
+      // A saved profile for this header layout takes precedence over the guessed mapping
+      const profile = await storage.getImportProfileBySignature(headerSignature(preview.headers));
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          ...preview,
+          suggestedMapping: profile ? profile.mapping : preview.suggestedMapping,
+          profile: profile || null,
+        },
+      });
+    } catch (err) {
+      console.error("Error previewing upload:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error previewing file: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
   // API endpoint for file upload
   app.post("/api/upload", upload.single("file"), async (req: Request, res: Response) => {
     try {
@@ -59,6 +137,43 @@ export function registerUploadRoutes(app: Express): void {
       }
 
       const file = req.file;
+
+      // Column mapping: explicit from the wizard, else a chosen or matching saved profile, else guessed
+      const { mapping: requestedMapping, errors: mappingErrors } = parseMappingField(req.body?.mapping);
+      if (mappingErrors) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid column mapping",
+          errors: mappingErrors,
+        });
+      }
+
+      const sheets = parseSheetsField(req.body?.sheets);
+
+      let profile: ImportProfile | undefined;
+      if (!requestedMapping) {
+        if (req.body?.profileId) {
+          profile = await storage.getImportProfile(parseInt(req.body.profileId));
+          if (!profile) {
+            return res.status(404).json({
+              success: false,
+              message: `Import profile ${req.body.profileId} not found`,
+            });
+          }
+        } else {
+          const { headers } = await previewExcelFile(file.buffer, {
+            fileName: file.originalname,
+            sheet: Array.isArray(sheets) ? sheets[0] : undefined,
+            sampleSize: 0,
+          });
+          profile = await storage.getImportProfileBySignature(headerSignature(headers));
+        }
+      }
+      const mapping = requestedMapping ?? profile?.mapping;
+      if (profile) {
+        console.log(`Applying import profile "${profile.name}" to ${file.originalname}`);
+      }
+
       const batchId = nanoid();
       const timestamp = new Date().toISOString();
 
@@ -69,60 +184,80 @@ export function registerUploadRoutes(app: Express): void {
         batchId,
         fileName: file.originalname,
         createdAt: timestamp,
+        status: "processing",
       });
 
       try {
         // Process the Excel file and extract patient data
         console.log("Processing Excel file...");
-        const patientData = await processExcelFile(file.buffer);
+        const triageRules = await storage.getActiveTriageRules();
+        const processed = await processExcelFile(file.buffer, triageRules, mapping, {
+          fileName: file.originalname,
+          sheets,
+        });
+        const { patients: patientData, readings } = processed;
         console.log(`Successfully processed ${patientData.length} rows from Excel file`);
 
-        // Deduplicate patients by name to ensure we only process each patient once
-        const patientMap = new Map<string, typeof patientData[0]>();
-
-        // First pass: organize patients by name and keep only the most complete record
-        for (const patient of patientData) {
-          const patientName = patient.name || 'Unknown';
-
-          // If this is a duplicate patient name, decide which record to keep
-          if (patientMap.has(patientName)) {
-            const existing = patientMap.get(patientName)!;
-
-            // Determine if the new record has more complete data
-            const existingVarsCount = existing.variables ? Object.keys(existing.variables).length : 0;
-            const newVarsCount = patient.variables ? Object.keys(patient.variables).length : 0;
-            const existingIssuesCount = existing.issues ? existing.issues.length : 0;
-            const newIssuesCount = patient.issues ? patient.issues.length : 0;
-
-            // Keep the record with more data points
-            if (newVarsCount > existingVarsCount || newIssuesCount > existingIssuesCount) {
-              console.log(`Found more detailed record for ${patientName}, replacing previous entry`);
-              patientMap.set(patientName, patient);
-            }
-          } else {
-            // First time seeing this patient
-            patientMap.set(patientName, patient);
+        if (profile) {
+          await storage.markImportProfileUsed(profile.id);
+        }
+
+        // Remember this mapping for the next file with the same layout
+        const saveProfileAs = typeof req.body?.saveProfileAs === "string" ? req.body.saveProfileAs.trim() : "";
+        if (saveProfileAs) {
+          try {
+            profile = await storage.saveImportProfile({
+              name: saveProfileAs,
+              headerSignature: headerSignature(processed.headers),
+              headers: processed.headers,
+              mapping: processed.mapping,
+              createdBy: req.user?.id,
+            });
+            console.log(`Saved import profile "${profile.name}"`);
+          } catch (err) {
+            console.error(`Error saving import profile "${saveProfileAs}":`, err);
           }
         }
 
-        // Get unique patient records
-        const uniquePatients = Array.from(patientMap.values());
-        console.log(`Filtered ${patientData.length} rows to ${uniquePatients.length} unique patients`);
+        // Validation problems found while parsing, plus any found below
+        const issues: RowIssue[] = [...processed.issues];
 
-        // Update batch record with total unique patients
+        // Work out who each record is: rows without an ID are matched by name and DOB,
+        // and uncertain matches are kept separate and queued for review
+        const registryIdentities = await storage.getPatientIdentities();
+        const resolution = resolveIdentities(patientData, registryIdentities, () => `P${nanoid(6)}`);
+        const uniquePatients = resolution.patients;
+        console.log(`Resolved ${patientData.length} records to ${uniquePatients.length} patients (${resolution.reviews.length} possible duplicates)`);
+
+        // Readings and issues follow their records to the resolved patient
+        for (const reading of readings) {
+          reading.patientId = resolution.aliases.get(reading.patientId) ?? reading.patientId;
+        }
+        for (const issue of issues) {
+          if (issue.patientId) issue.patientId = resolution.aliases.get(issue.patientId) ?? issue.patientId;
+        }
+        for (const review of resolution.reviews) {
+          issues.push({
+            patientId: review.patientId,
+            code: "possible_duplicate",
+            severity: "warning",
+            message: `May be the same person as patient ${review.candidatePatientId} (${review.reasons.join(", ")}); queued for merge review`,
+          });
+        }
+
+        // Update batch record with total unique patients and where they came from
         await db.execute(SQL`
           UPDATE patient_batches
-          SET total_patients = ${uniquePatients.length}
+          SET total_patients = ${uniquePatients.length},
+              sources = ${JSON.stringify(processed.sources)}::jsonb
           WHERE batch_id = ${batchId}
         `);
 
-        const successfullyStored = [];
+        // Register each patient now, then queue their prompt generation for the background workers
+        const queuedPatients: { patient: PatientData; patientRecordId: number | null }[] = [];
 
-        // Process each unique patient record
         for (const patient of uniquePatients) {
           try {
-            console.log(`Processing patient: [REDACTED]`);
-
             // Ensure patient has a unique ID
             const patientId = patient.patientId || `P${nanoid(6)}`;
 
@@ -135,74 +270,80 @@ export function registerUploadRoutes(app: Express): void {
               variables: patient.variables || {},
             };
 
-            // Get the system prompts for this batch if they exist
-            const systemPrompt = await storage.getSystemPrompt(batchId);
-            const systemPromptText = systemPrompt ? systemPrompt.prompt : getDefaultSystemPrompt();
-
-            const patientSystemPrompt = await storage.getPatientSystemPrompt(batchId);
-            const patientSystemPromptText = patientSystemPrompt?.prompt;
-
-            console.log(`Generating dual messages for patient ID: ${patientId}...`);
-            // Generate both caregiver and patient messages
-            const { caregiverMessage, patientMessage } = await generateDualMessages(
-              patientWithMetadata,
-              batchId,
-              systemPromptText,
-              patientSystemPromptText
-            );
-
-            // Extract reasoning from the caregiver message
-            const { displayPrompt, reasoning } = extractReasoning(caregiverMessage);
-
-            console.log(`Storing prompt for patient ${patientId}...`);
-            console.log(`Attempting to create prompt record for patient ${patientId} in batch ${batchId}`);
-            // Create the patient prompt record in the database
-            await storage.createPatientPrompt({
-              batchId,
+            // Keep the longitudinal registry in step with this upload
+            const registryPatient = await storage.upsertPatient({
               patientId,
               name: patient.name || "Unknown",
-              age: patient.age || 0,
-              condition: patient.condition || "Unknown",
-              prompt: caregiverMessage,
-              patientMessage: patientMessage,
-              reasoning,
-              isAlert: patient.isAlert ? "true" : "false",
-              healthStatus: patient.healthStatus || "healthy",
-              rawData: patientWithMetadata,
+              age: patient.age || null,
+              condition: patient.condition || null,
+              dateOfBirth: patient.dateOfBirth || null,
+              phoneNumber: patient.phoneNumber || null,
+              lastBatchId: batchId,
             });
 
-            console.log(`Successfully created prompt record for patient ${patientId} in batch ${batchId}`);
-
-            // Update processed patients count
-            console.log(`Updating processed patients count for batch ${batchId}...`);
-            await db.execute(SQL`
-              UPDATE patient_batches
-              SET processed_patients = processed_patients + 1
-              WHERE batch_id = ${batchId}
-            `);
-
-            successfullyStored.push(patientId);
-            console.log(`Successfully stored patient ${patientId}`);
+            queuedPatients.push({ patient: patientWithMetadata, patientRecordId: registryPatient.id });
           } catch (err) {
-            console.error(`Error storing patient data:`, err);
-            console.error(`Failed to process and store data for patient [REDACTED] (ID: ${patient.patientId || 'None'}) in batch ${batchId}`);
+            issues.push({
+              patientId: patient.patientId || null,
+              code: "registration_failed",
+              severity: "error",
+              message: `Could not be saved: ${err instanceof Error ? err.message : String(err)}`,
+            });
+            console.error(`Error registering patient data:`, err);
+            console.error(`Failed to register patient [REDACTED] (ID: ${patient.patientId || 'None'}) in batch ${batchId}`);
             // Continue with other patients even if one fails
           }
         }
 
-        console.log(`Upload complete. Processed ${patientData.length} patients, stored ${successfullyStored.length} records`);
-        // Use standard wrapper for success
-        res.status(200).json({
+        try {
+          await storage.createPatientMergeCandidates(
+            resolution.reviews.map((review) => ({ ...review, batchId }))
+          );
+        } catch (err) {
+          console.error(`Error queueing merge reviews for batch ${batchId}:`, err);
+        }
+
+        // Add every reading to the vitals history (after the registry upserts so they link to patients)
+        try {
+          const storedReadings = await storage.createVitalReadings(
+            readings.map((reading) => ({ ...reading, batchId }))
+          );
+          console.log(`Stored ${storedReadings} of ${readings.length} vital readings for batch ${batchId}`);
+        } catch (err) {
+          console.error(`Error storing vital readings for batch ${batchId}:`, err);
+        }
+
+        try {
+          await storage.createUploadIssues(issues.map((issue) => ({ ...issue, batchId })));
+        } catch (err) {
+          console.error(`Error storing validation issues for batch ${batchId}:`, err);
+        }
+        const errorCount = issues.filter((issue) => issue.severity === "error").length;
+        console.log(`Batch ${batchId} has ${errorCount} validation errors and ${issues.length - errorCount} warnings`);
+
+        // Escalations start once the queue has generated every prompt in the batch
+        const queued = await enqueueBatch(batchId, queuedPatients);
+        console.log(`Upload complete. Processed ${patientData.length} patients, queued ${queued} for generation`);
+
+        // Use standard wrapper for success; progress is streamed from /api/batches/:batchId/progress
+        res.status(202).json({
           success: true,
           data: {
             batchId,
             processed: patientData.length,
-            stored: successfullyStored.length,
+            queued,
+            issues: { errors: errorCount, warnings: issues.length - errorCount },
+            mapping: processed.mapping,
+            sources: processed.sources,
+            profile: profile ? { id: profile.id, name: profile.name } : null,
           },
-          message: `Processed ${patientData.length} patients, stored ${successfullyStored.length} records`,
+          message: `Processed ${patientData.length} patients, queued ${queued} for prompt generation`,
         });
       } catch (err) {
         console.error("Error in Excel processing or patient storing:", err);
+        await storage.updatePatientBatch(batchId, { status: "failed" }).catch((updateErr) => {
+          console.error(`Error marking batch ${batchId} as failed:`, updateErr);
+        });
         // Ensure error response uses standard wrapper
         res.status(500).json({
           success: false,
@@ -1,34 +1,15 @@
 import { Express, Request, Response } from "express";
 import { storage } from "../storage";
 import { formatPhoneNumberE164 } from "./vapiHelpers";
-
-// Helper function to replace both old and new variable formats
-function replaceVariables(template: string, variables: {
-  patientName: string;
-  patientAge: string;
-  patientCondition: string;
-  patientPrompt: string;
-  conversationHistory: string;
-}): string {
-  let result = template;
-  
-  // Replace old template format (PATIENT_NAME)
-  result = result
-    .replace(/PATIENT_NAME/g, variables.patientName)
-    .replace(/PATIENT_AGE/g, variables.patientAge)
-    .replace(/PATIENT_CONDITION/g, variables.patientCondition)
-    .replace(/PATIENT_PROMPT/g, variables.patientPrompt)
-    .replace(/CONVERSATION_HISTORY/g, variables.conversationHistory);
-    
-  // Replace new VAPI variable format ({{patientName}})
-  result = result
-    .replace(/\{\{patientName\}\}/g, variables.patientName)
-    .replace(/\{\{patientAge\}\}/g, variables.patientAge)
-    .replace(/\{\{patientCondition\}\}/g, variables.patientCondition)
-    .replace(/\{\{patientPrompt\}\}/g, variables.patientPrompt)
-    .replace(/\{\{conversationHistory\}\}/g, variables.conversationHistory);
-    
-  return result;
+import { getPromptForOutreach, isApprovalRequired, markPromptSent } from "../lib/promptReview";
+import { getCallLanguageOverrides, getPatientLanguage } from "../lib/language";
+import { replaceVariables, startContextCall } from "../lib/companionCalls";
+
+// 404 message when a patient has no prompt a call may use
+async function noPromptMessage(patientId: string, fallback: string): Promise<string> {
+  return (await isApprovalRequired())
+    ? `No approved message for patient ${patientId}. Approve one in the review queue before calling.`
+    : fallback;
 }
 
 export function registerVapiCallRoutes(app: Express): void {
@@ -57,22 +38,13 @@ export function registerVapiCallRoutes(app: Express): void {
         callConfig,
       });
 
-      // Fetch the latest patient prompt data from the database
-      let patientData;
-      if (batchId) {
-        // Try specific batch first
-        patientData = await storage.getPatientPromptByIds(batchId, patientId);
-      }
-
-      // If no batch-specific data found, get latest across all batches
-      if (!patientData) {
-        patientData = await storage.getLatestPatientPrompt(patientId);
-      }
+      // Fetch the batch's patient prompt, else the latest (approved only, when required)
+      const patientData = await getPromptForOutreach(patientId, batchId);
 
       if (!patientData) {
         return res.status(404).json({
           success: false,
-          message: `Patient not found: ${patientId}. No triage data available for this patient.`,
+          message: await noPromptMessage(patientId, `Patient not found: ${patientId}. No triage data available for this patient.`),
         });
       }
 
@@ -84,148 +56,27 @@ export function registerVapiCallRoutes(app: Express): void {
         hasRawData: !!patientData.rawData,
       });
 
-      const {
-        name: patientName,
-        prompt: triagePrompt,
-        condition,
-        age,
-      } = patientData;
-
-      // Get voice agent template for proper formatting
-      const voiceAgentTemplate = await storage.getVoiceAgentTemplate();
-
-      // Get comprehensive call history context for enhanced patient continuity
-      const callHistoryContext = await storage.getCallHistoryContext(
-        patientId as string,
-        5,
-      );
-
-      // Create enhanced system prompt using helper function to support both variable formats
-      const enhancedSystemPrompt = replaceVariables(voiceAgentTemplate, {
-        patientName: patientName || patientId,
-        patientAge: age?.toString() || "unknown age",
-        patientCondition: condition || "general health assessment",
-        patientPrompt: triagePrompt || "No specific care assessment available",
-        conversationHistory: callHistoryContext.contextText,
-      });
-
-      console.log("🎯 Enhanced system prompt prepared:", {
-        templateLength: voiceAgentTemplate.length,
-        finalLength: enhancedSystemPrompt.length,
-        hasCallHistory: callHistoryContext.hasHistory,
-        recentCallsCount: callHistoryContext.recentCalls,
-        contextLength: callHistoryContext.contextText.length,
-      });
-
       const formattedPhoneNumber = formatPhoneNumberE164(phoneNumber);
       console.log(
         `📞 Phone number formatting: ${phoneNumber} → ${formattedPhoneNumber}`,
       );
 
-      // Prepare call request with enhanced system prompt
-      const callRequest = {
-        phoneNumberId: process.env.VAPI_PHONE_NUMBER_ID,
-        customer: {
-          number: formattedPhoneNumber,
-        },
-        assistantId: process.env.VAPI_ASSISTANT_ID,
-        assistantOverrides: {
-          // Primary method: Complete system prompt override with patient data injected
-          model: {
-            provider: "openai",
-            model: "gpt-4o-mini",
-            messages: [
-              {
-                role: "system",
-                content: enhancedSystemPrompt,
-              },
-            ],
-          },
-          // Backup method: Variable values for template replacement
-          variableValues: {
-            patientName: patientName || patientId,
-            patientAge: age || 0,
-            patientCondition: condition || "general health assessment",
-            patientPrompt:
-              triagePrompt || "No specific care assessment available",
-            conversationHistory: callHistoryContext.contextText,
-          },
-        },
-        metadata: {
-          patientId: patientData.patientId,
-          patientName: patientName,
-          callType: "context-aware",
-          hasContext: true,
-          batchId: patientData.batchId,
-        },
-      };
-
-      console.log("🚀 Final call request prepared:", {
-        phoneNumber: formattedPhoneNumber,
-        assistantId: callRequest.assistantId,
-        hasSystemPrompt:
-          !!callRequest.assistantOverrides.model.messages[0].content,
-        systemPromptLength:
-          callRequest.assistantOverrides.model.messages[0].content.length,
-        hasVariableValues: !!callRequest.assistantOverrides.variableValues,
-        metadata: callRequest.metadata,
-      });
-
-      // Check for VAPI keys
-      const vapiPrivateKey = process.env.VAPI_PRIVATE_KEY;
-      const vapiPublicKey = process.env.VAPI_PUBLIC_KEY;
-
-      if (!vapiPrivateKey && !vapiPublicKey) {
-        return res.status(500).json({
+      const result = await startContextCall(patientData, formattedPhoneNumber);
+      if (!result.success) {
+        return res.status(result.status).json({
           success: false,
-          message:
-            "VAPI API key not configured (need either VAPI_PRIVATE_KEY or VAPI_PUBLIC_KEY)",
+          message: result.message,
+          vapiError: result.vapiError,
         });
       }
 
-      // Try private key first, then public key
-      const apiKey = vapiPrivateKey || vapiPublicKey;
-      const keyType = vapiPrivateKey ? "private" : "public";
-
-      console.log(`🔑 Using VAPI ${keyType} key for context-aware call`);
-
-      // Make call to VAPI
-      const vapiResponse = await fetch("https://api.vapi.ai/call", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(callRequest),
-      });
-
-      if (!vapiResponse.ok) {
-        const errorData = await vapiResponse.json();
-        console.error(`❌ VAPI context-aware call error:`, {
-          status: vapiResponse.status,
-          statusText: vapiResponse.statusText,
-          error: errorData,
-          keyType,
-        });
-
-        return res.status(vapiResponse.status).json({
-          success: false,
-          message: errorData.message || "Failed to initiate context-aware call",
-          vapiError: errorData,
-        });
-      }
-
-      const callData = await vapiResponse.json();
-      console.log(
-        "🏥 ✅ Context-aware call initiated successfully:",
-        callData.id,
-      );
+      await markPromptSent(patientData, "call", req.user?.id);
 
       return res.status(200).json({
         success: true,
         message: "Call initiated successfully with full patient context",
-        callId: callData.id,
-        patientName: patientName,
+        callId: result.callId,
+        patientName: patientData.name,
         hasContext: true,
       });
     } catch (error) {
@@ -278,22 +129,13 @@ export function registerVapiCallRoutes(app: Express): void {
         callType,
       });
 
-      // Always fetch patient context data (unified approach)
-      let patientData;
-      if (batchId) {
-        // Try specific batch first
-        patientData = await storage.getPatientPromptByIds(batchId, patientId);
-      }
-
-      // If no batch-specific data found, get latest across all batches
-      if (!patientData) {
-        patientData = await storage.getLatestPatientPrompt(patientId);
-      }
+      // Always fetch patient context data (unified approach; approved only, when required)
+      const patientData = await getPromptForOutreach(patientId, batchId);
 
       if (!patientData) {
         return res.status(404).json({
           success: false,
-          message: `Patient not found: ${patientId}. No patient data available for this patient.`,
+          message: await noPromptMessage(patientId, `Patient not found: ${patientId}. No patient data available for this patient.`),
         });
       }
 
@@ -305,160 +147,27 @@ export function registerVapiCallRoutes(app: Express): void {
         hasRawData: !!patientData.rawData,
       });
 
-      const {
-        name: patientName,
-        prompt: triagePrompt,
-        condition,
-        age,
-      } = patientData;
-
-      // Get voice agent template for proper formatting
-      const voiceAgentTemplate = await storage.getVoiceAgentTemplate();
-
-      // Get comprehensive call history context for enhanced patient continuity
-      const callHistoryContext = await storage.getCallHistoryContext(
-        patientId as string,
-        5,
-      );
-
-      // Create enhanced system prompt using helper function to support both variable formats
-      const enhancedSystemPrompt = replaceVariables(voiceAgentTemplate, {
-        patientName: patientName || patientId,
-        patientAge: age?.toString() || "unknown age",
-        patientCondition: condition || "general health assessment",
-        patientPrompt: triagePrompt || "No specific care assessment available",
-        conversationHistory: callHistoryContext.contextText,
-      });
-
-      console.log("🎯 Enhanced system prompt prepared:", {
-        templateLength: voiceAgentTemplate.length,
-        finalLength: enhancedSystemPrompt.length,
-        hasCallHistory: callHistoryContext.hasHistory,
-        recentCallsCount: callHistoryContext.recentCalls,
-        contextLength: callHistoryContext.contextText.length,
-      });
-
       const formattedPhoneNumber = formatPhoneNumberE164(phoneNumber);
       console.log(
         `📞 Phone number formatting: ${phoneNumber} → ${formattedPhoneNumber}`,
       );
 
-      // Prepare call request with enhanced system prompt
-      const callRequest = {
-        phoneNumberId: process.env.VAPI_PHONE_NUMBER_ID,
-        customer: {
-          number: formattedPhoneNumber,
-        },
-        assistantId: process.env.VAPI_ASSISTANT_ID,
-        assistantOverrides: {
-          // Primary method: Complete system prompt override with patient data injected
-          model: {
-            provider: "openai",
-            model: "gpt-4o-mini",
-            messages: [
-              {
-                role: "system",
-                content: enhancedSystemPrompt,
-              },
-            ],
-          },
-          // Backup method: Variable values for template replacement
-          variableValues: {
-            patientName: patientName || patientId,
-            patientAge: age || 0,
-            patientCondition: condition || "general health assessment",
-            patientPrompt:
-              triagePrompt || "No specific care assessment available",
-            conversationHistory: callHistoryContext.contextText,
-          },
-        },
-        metadata: {
-          patientId: patientData.patientId,
-          patientName: patientName,
-          callType: callType,
-          hasContext: true,
-          batchId: patientData.batchId,
-        },
-      };
-
-      console.log("🚀 Final call request prepared:", {
-        phoneNumber: formattedPhoneNumber,
-        assistantId: callRequest.assistantId,
-        hasSystemPrompt:
-          !!callRequest.assistantOverrides.model.messages[0].content,
-        systemPromptLength:
-          callRequest.assistantOverrides.model.messages[0].content.length,
-        hasVariableValues: !!callRequest.assistantOverrides.variableValues,
-        metadata: callRequest.metadata,
-      });
-
-      // Check for VAPI keys
-      const vapiPrivateKey = process.env.VAPI_PRIVATE_KEY;
-      const vapiPublicKey = process.env.VAPI_PUBLIC_KEY;
-
-      if (!vapiPrivateKey && !vapiPublicKey) {
-        return res.status(500).json({
+      const result = await startContextCall(patientData, formattedPhoneNumber, { callType });
+      if (!result.success) {
+        return res.status(result.status).json({
           success: false,
-          message:
-            "VAPI API key not configured (need either VAPI_PRIVATE_KEY or VAPI_PUBLIC_KEY)",
+          message: result.message,
+          vapiError: result.vapiError,
         });
       }
 
-      // Try private key first, then public key
-      const apiKey = vapiPrivateKey || vapiPublicKey;
-      const keyType = vapiPrivateKey ? "private" : "public";
-
-      console.log(`🔑 Using VAPI ${keyType} key for unified call`);
-
-      // Log the complete data being sent to VAPI API
-      console.log("🚀 [DEBUG] Data being sent to VAPI API:");
-      console.log("🚀 [DEBUG] VAPI request payload:", JSON.stringify(callRequest, null, 2));
-      console.log("🚀 [DEBUG] VAPI endpoint:", "https://api.vapi.ai/call");
-      console.log("🚀 [DEBUG] VAPI headers:", {
-        "Authorization": `Bearer ${apiKey?.substring(0, 10)}...`,
-        "Content-Type": "application/json"
-      });
-
-      // Make call to VAPI
-      const vapiResponse = await fetch("https://api.vapi.ai/call", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(callRequest),
-      });
-
-      // Log VAPI response details
-      console.log("📡 [DEBUG] VAPI response status:", vapiResponse.status);
-      console.log("📡 [DEBUG] VAPI response headers:", Object.fromEntries(vapiResponse.headers));
-
-      if (!vapiResponse.ok) {
-        const errorData = await vapiResponse.json();
-        console.error("❌ [DEBUG] VAPI unified call error response:", JSON.stringify(errorData, null, 2));
-        console.error(`❌ VAPI unified call error:`, {
-          status: vapiResponse.status,
-          statusText: vapiResponse.statusText,
-          error: errorData,
-          keyType,
-        });
-
-        return res.status(vapiResponse.status).json({
-          success: false,
-          message: errorData.message || "Failed to initiate unified call",
-          vapiError: errorData,
-        });
-      }
-
-      const callData = await vapiResponse.json();
-      console.log("✅ [DEBUG] VAPI success response:", JSON.stringify(callData, null, 2));
-      console.log("📞 ✅ Unified call initiated successfully:", callData.id);
+      await markPromptSent(patientData, "call", req.user?.id);
 
       return res.status(200).json({
         success: true,
         message: "Call initiated successfully with full patient context",
-        callId: callData.id,
-        patientName: patientName,
+        callId: result.callId,
+        patientName: patientData.name,
         hasContext: true,
         callType: callType,
       });
@@ -484,24 +193,16 @@ export function registerVapiCallRoutes(app: Express): void {
         });
       }
 
-      // Get unique patients from patient alerts (which includes all patients)
-      const patientPrompts = await storage.getPatientAlerts();
-      const uniquePatients = new Map();
-
-      patientPrompts.forEach((patient: any) => {
-        if (!uniquePatients.has(patient.patientId)) {
-          uniquePatients.set(patient.patientId, {
-            id: patient.patientId,
-            name: patient.patientName || patient.name || patient.patientId, // Use patientName field first
-            age: patient.age || "Unknown",
-            condition: patient.condition || "Unknown",
-            phoneNumber: "", // TODO: Add phone number storage
-            personalInfo: "", // TODO: Add personal info storage
-          });
-        }
-      });
-
-      const patients = Array.from(uniquePatients.values());
+      // Patients come from the longitudinal registry, which has their contact numbers
+      const registry = await storage.getPatients();
+      const patients = registry.map((patient) => ({
+        id: patient.patientId,
+        name: patient.name,
+        age: patient.age ?? "Unknown",
+        condition: patient.condition || "Unknown",
+        phoneNumber: patient.phoneNumber || "",
+        personalInfo: patient.notes || "",
+      }));
 
       return res.status(200).json({
         success: true,
@@ -535,22 +236,15 @@ export function registerVapiCallRoutes(app: Express): void {
       }
 
       // Fetch the patient data (same logic as triage-call endpoint)
-      let patientData;
-      if (batchId) {
-        patientData = await storage.getPatientPromptByIds(
-          batchId as string,
-          String(patientId),
-        );
-      }
-
-      if (!patientData) {
-        patientData = await storage.getLatestPatientPrompt(String(patientId));
-      }
+      const patientData = await getPromptForOutreach(
+        String(patientId),
+        batchId ? String(batchId) : undefined,
+      );
 
       if (!patientData) {
         return res.status(404).json({
           success: false,
-          message: `Patient not found: ${patientId}. No triage data available for this patient.`,
+          message: await noPromptMessage(String(patientId), `Patient not found: ${patientId}. No triage data available for this patient.`),
         });
       }
 
@@ -579,6 +273,9 @@ export function registerVapiCallRoutes(app: Express): void {
         conversationHistory: callHistoryContext.contextText,
       });
 
+      const language = await getPatientLanguage(patientData.patientId);
+      const callSystemPrompt = enhancedSystemPrompt + getCallLanguageOverrides(language).instruction;
+
       return res.status(200).json({
         success: true,
         data: {
@@ -591,8 +288,9 @@ export function registerVapiCallRoutes(app: Express): void {
           triagePromptLength: triagePrompt?.length || 0,
           hasRecentCall: !!callHistoryContext,
           recentCallSummary: callHistoryContext.contextText,
-          enhancedSystemPrompt: enhancedSystemPrompt,
-          systemPromptLength: enhancedSystemPrompt.length,
+          language,
+          enhancedSystemPrompt: callSystemPrompt,
+          systemPromptLength: callSystemPrompt.length,
         },
       });
     } catch (error) {
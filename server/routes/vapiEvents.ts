@@ -0,0 +1,91 @@
+import { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { vapiWebhookEventStatuses } from "@shared/schema";
+import { replayVapiWebhookEvent } from "../lib/vapiWebhooks";
+
+export function registerVapiEventRoutes(app: Express): void {
+  // === VAPI WEBHOOK INBOX ENDPOINTS ===
+
+  // Recent webhook events, newest first, with counts by status
+  app.get("/api/vapi-events", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const status = typeof req.query.status === "string" && req.query.status ? req.query.status : undefined;
+      if (status && !(vapiWebhookEventStatuses as readonly string[]).includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: `status must be one of ${vapiWebhookEventStatuses.join(", ")}`,
+        });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 500);
+      const [events, counts] = await Promise.all([
+        storage.getVapiWebhookEvents({ status, limit }),
+        storage.getVapiWebhookEventCounts(),
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: { events, counts },
+      });
+    } catch (err) {
+      console.error("Error fetching Vapi webhook events:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error fetching Vapi webhook events: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
+  // Process an event again, e.g. after fixing what made it fail
+  app.post("/api/vapi-events/:id/replay", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid event ID",
+        });
+      }
+
+      const existing = await storage.getVapiWebhookEvent(id);
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: "Vapi webhook event not found",
+        });
+      }
+
+      const event = await replayVapiWebhookEvent(id);
+      if (!event) {
+        return res.status(409).json({
+          success: false,
+          message: `Event is already ${existing.status === "running" ? "being processed" : "queued"}`,
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: event,
+        message: "Event queued for replay",
+      });
+    } catch (err) {
+      console.error("Error replaying Vapi webhook event:", err);
+      return res.status(500).json({
+        success: false,
+        message: `Error replaying Vapi webhook event: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+}
@@ -29,12 +29,15 @@ export function registerVapiTemplateRoutes(app: Express): void {
           .json({ success: false, message: "Authentication required" });
       }
 
-      const { template } = req.body;
+      const { template, changeNote } = req.body;
       if (!template) {
         return res.status(400).json({ success: false, message: "Template is required" });
       }
 
-      await storage.updateVoiceAgentTemplate(template);
+      await storage.updateVoiceAgentTemplate(template, {
+        authorId: req.user?.id,
+        changeNote,
+      });
       return res.status(200).json({ success: true, message: "Voice agent template updated successfully" });
     } catch (error) {
       console.error("Error updating voice agent template:", error);
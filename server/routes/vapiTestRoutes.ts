@@ -1,6 +1,7 @@
 import { Express, Request, Response } from "express";
 import { storage } from "../storage";
-import { generateConversationSummary, formatPhoneNumberE164 } from "./vapiHelpers";
+import { formatPhoneNumberE164 } from "./vapiHelpers";
+import { generateConversationSummary } from "../lib/callHistory";
 
 export function registerVapiTestRoutes(app: Express): void {
   app.post(
@@ -1,300 +1,51 @@
 import { Express, Request, Response } from "express";
 import { storage } from "../storage";
-import {
-  generateConversationSummary,
-  storeCallHistoryWithDetails,
-} from "./vapiHelpers";
+import { generateConversationSummary } from "../lib/callHistory";
+import { receiveVapiWebhook, verifyVapiWebhook } from "../lib/vapiWebhooks";
+import { handleVapiToolCalls, isToolCallMessage } from "../lib/callTools";
 
 export function registerVapiWebhookRoutes(app: Express): void {
+  // Vapi calls this, not the browser, so it is excluded from session auth and
+  // verified with the webhook secret instead. Events are saved to an inbox and
+  // processed by a worker, so the response doesn't wait on the LLM summary.
   app.post("/api/vapi/webhook", async (req: Request, res: Response) => {
     try {
-      console.log("🎯 WEBHOOK RECEIVED! Timestamp:", new Date().toISOString());
       console.log("🎯 Webhook message type:", req.body?.message?.type);
-      // console.log("🎯 Webhook body:", JSON.stringify(req.body, null, 2)); // Keep this commented unless deep debugging body
 
-      const webhookData = req.body;
-
-      // Log all message types for debugging
-      if (webhookData.message?.type) {
-        console.log(`📋 Webhook message type: ${webhookData.message.type}`);
-
-        // List common VAPI webhook types for reference
-        const knownTypes = [
-          "end-of-call-report",
-          "speech-update",
-          "transcript",
-          "function-call",
-          "hang",
-          "speech-started",
-          "speech-ended",
-        ];
-
-        if (!knownTypes.includes(webhookData.message.type)) {
-          console.log(`⚠️  Unknown webhook type: ${webhookData.message.type}`);
-        }
-      }
-
-      // Handle end-of-call-report event
-      if (webhookData.message?.type === "end-of-call-report") {
-        const { message } = webhookData;
-        const call = message.call;
-        const transcript = message.transcript;
-        const summary = message.summary; // Vapi's own summary, if provided
-
-        console.log("🔎 VAPI Call Object (from webhook):", {
-          callId: call?.id,
-          startedAt: call?.startedAt,
-          endedAt: call?.endedAt,
-          createdAt: call?.createdAt, // Log if present in webhook
-          updatedAt: call?.updatedAt, // Log if present in webhook
-          type: call?.type,
-          status: call?.status,
-          endedReason: message?.endedReason,
-          metadata: call?.metadata,
+      const verification = verifyVapiWebhook(req);
+      if (!verification.valid) {
+        console.warn(`Rejected Vapi webhook: ${verification.message}`);
+        return res.status(verification.status).json({
+          success: false,
+          message: verification.message,
         });
+      }
 
-        if (call?.id) {
-          const callId = call.id;
-          const patientId = call.metadata?.patientId || "unknown";
-          const patientName = call.metadata?.patientName || "Unknown Patient";
-          const phoneNumber = call.customer?.number || "";
-          const callEndedReason =
-            message?.endedReason || call?.status || "unknown";
-
-          // Attempt to calculate duration from webhook payload directly
-          const callStartedAtEpoch = call.startedAt
-            ? new Date(call.startedAt).getTime()
-            : 0;
-          const callEndedAtEpoch = call.endedAt
-            ? new Date(call.endedAt).getTime()
-            : 0;
-          let calculatedDurationSeconds = 0;
-          let usedDirectTimestamps = false;
-
-          if (
-            callEndedAtEpoch > 0 &&
-            callStartedAtEpoch > 0 &&
-            callEndedAtEpoch > callStartedAtEpoch
-          ) {
-            calculatedDurationSeconds = Math.floor(
-              (callEndedAtEpoch - callStartedAtEpoch) / 1000,
-            );
-            usedDirectTimestamps = true;
-            console.log(
-              `⏱️ Duration from webhook: ${calculatedDurationSeconds}s (startedAt: ${call.startedAt}, endedAt: ${call.endedAt})`,
-            );
-          } else {
-            console.warn(
-              `⚠️ Call ${callId}: Webhook timestamps unusable (status: ${call?.status}). Deferred fetch initiated.`,
-            );
-          }
-
-          // If direct timestamps were NOT usable, schedule a delayed fetch and return early.
-          if (!usedDirectTimestamps) {
-            // Non-blocking: Acknowledge webhook quickly, process storage in background.
-            res
-              .status(200)
-              .json({
-                success: true,
-                message:
-                  "Webhook acknowledged, processing call details via deferred fetch.",
-              });
-
-            // Start delayed processing.
-            setTimeout(async () => {
-              try {
-                console.log(
-                  `⏳ Call ${callId}: Starting delayed fetch for complete call details (10s delay).`,
-                );
-                const vapiToken = process.env.VAPI_PRIVATE_KEY || process.env.VAPI_PUBLIC_KEY;
-                
-                if (!vapiToken) {
-                  console.error(`❌ Call ${callId} (deferred fetch): No VAPI token available in environment variables`);
-                  await storeCallHistoryWithDetails(
-                    callId,
-                    patientId,
-                    patientName,
-                    phoneNumber,
-                    0,
-                    callEndedReason,
-                    transcript,
-                    summary,
-                    call.endedAt || new Date().toISOString(),
-                    call.metadata,
-                    "missing_vapi_token",
-                  );
-                  return;
-                }
-                const vapiCallDetailsResponse = await fetch(
-                  `https://api.vapi.ai/call/${callId}`,
-                  {
-                    method: "GET",
-                    headers: {
-                      Authorization: `Bearer ${vapiToken}`,
-                      "Content-Type": "application/json",
-                    },
-                  },
-                );
-
-                if (!vapiCallDetailsResponse.ok) {
-                  const errorText = await vapiCallDetailsResponse.text();
-                  console.error(
-                    `❌ Call ${callId} (deferred fetch): Error fetching call details from Vapi API: ${vapiCallDetailsResponse.status} - ${errorText}`,
-                  );
-                  await storeCallHistoryWithDetails(
-                    callId,
-                    patientId,
-                    patientName,
-                    phoneNumber,
-                    0,
-                    callEndedReason,
-                    transcript,
-                    summary,
-                    call.endedAt || new Date().toISOString(),
-                    call.metadata,
-                    "deferred_fetch_api_error",
-                  );
-                  return;
-                }
-
-                const callDetails = await vapiCallDetailsResponse.json();
-                console.log(
-                  `📊 Call ${callId} (deferred fetch): Fetched call details from Vapi API:`,
-                  {
-                    id: callDetails.id,
-                    createdAt: callDetails.createdAt,
-                    updatedAt: callDetails.updatedAt,
-                    status: callDetails.status,
-                    endedReason: callDetails.endedReason,
-                    startedAt: callDetails.startedAt,
-                    endedAt: callDetails.endedAt,
-                  },
-                );
-
-                let finalDurationSeconds = 0;
-                const fetchedStartedAt = callDetails.startedAt
-                  ? new Date(callDetails.startedAt).getTime()
-                  : 0;
-                const fetchedEndedAt = callDetails.endedAt
-                  ? new Date(callDetails.endedAt).getTime()
-                  : 0;
-
-                if (
-                  fetchedEndedAt > 0 &&
-                  fetchedStartedAt > 0 &&
-                  fetchedEndedAt > fetchedStartedAt
-                ) {
-                  finalDurationSeconds = Math.floor(
-                    (fetchedEndedAt - fetchedStartedAt) / 1000,
-                  );
-                  console.log(
-                    `⏱️ Call ${callId} (deferred fetch): Duration from Vapi API (startedAt/endedAt): ${finalDurationSeconds}s`,
-                  );
-                } else if (callDetails.createdAt && callDetails.updatedAt) {
-                  const createdAtEpoch = new Date(
-                    callDetails.createdAt,
-                  ).getTime();
-                  const updatedAtEpoch = new Date(
-                    callDetails.updatedAt,
-                  ).getTime();
-                  if (updatedAtEpoch > createdAtEpoch) {
-                    finalDurationSeconds = Math.floor(
-                      (updatedAtEpoch - createdAtEpoch) / 1000,
-                    );
-                    console.log(
-                      `⏱️ Call ${callId} (deferred fetch): Duration from Vapi API (createdAt/updatedAt): ${finalDurationSeconds}s`,
-                    );
-                  } else {
-                    console.warn(
-                      `⚠️ Call ${callId} (deferred fetch): Vapi API updatedAt (${callDetails.updatedAt}) not after createdAt (${callDetails.createdAt}). Using 0 duration.`,
-                    );
-                  }
-                } else {
-                  console.warn(
-                    `⚠️ Call ${callId} (deferred fetch): Vapi API also missing sufficient timestamps. Using 0 duration.`,
-                  );
-                }
-
-                await storeCallHistoryWithDetails(
-                  callId,
-                  patientId,
-                  patientName,
-                  phoneNumber,
-                  finalDurationSeconds,
-                  callDetails.endedReason || callEndedReason,
-                  transcript,
-                  summary,
-                  callDetails.endedAt ||
-                    callDetails.updatedAt ||
-                    new Date().toISOString(),
-                  callDetails.metadata,
-                  "deferred_fetch_success",
-                );
-              } catch (fetchError) {
-                console.error(
-                  `❌ Call ${callId} (deferred fetch): Exception during delayed fetch/store:`,
-                  fetchError,
-                );
-                await storeCallHistoryWithDetails(
-                  callId,
-                  patientId,
-                  patientName,
-                  phoneNumber,
-                  0,
-                  callEndedReason,
-                  transcript,
-                  summary,
-                  call.endedAt || new Date().toISOString(),
-                  call.metadata,
-                  "deferred_fetch_exception",
-                );
-              }
-            }, 10000); // 10-second delay.
-
-            return; // CRITICAL: Ensures no further code in this handler runs for this request.
-          } else {
-            // This block is for when webhook timestamps ARE usable.
-            console.log(
-              `✅ Call ${callId}: Using direct webhook timestamps for duration calculation.`,
-            );
-            await storeCallHistoryWithDetails(
-              callId,
-              patientId,
-              patientName,
-              phoneNumber,
-              calculatedDurationSeconds,
-              callEndedReason,
-              transcript,
-              summary,
-              call.endedAt!,
-              call.metadata,
-              "direct_webhook_timestamps",
-            );
-            return res.status(200).json({ success: true });
-          }
-        } else {
-          console.warn("⚠️ Webhook end-of-call-report missing call.id");
-          return res
-            .status(400)
-            .json({ success: false, message: "Missing call ID in webhook" });
-        }
-      } else if (webhookData.message?.type) {
-        // For other message types, just acknowledge
-        // console.log(`✅ Other webhook type ${webhookData.message.type} acknowledged.`);
-        return res
-          .status(200)
-          .json({ success: true, message: "Webhook acknowledged" });
-      } else {
-        console.warn("⚠️ Unknown or malformed webhook structure received.");
-        return res
-          .status(400)
-          .json({ success: false, message: "Malformed webhook" });
+      // Vapi waits on tool calls and passes our answer to the assistant, so they skip the inbox
+      if (isToolCallMessage(req.body?.message)) {
+        return res.status(200).json(await handleVapiToolCalls(req.body.message));
       }
 
-      // Fallthrough for any case not handled above (e.g. no message type)
-      // This line should ideally not be reached if all webhook types are handled or acknowledged.
-      // console.log("✅ Webhook processed (default acknowledgement)");
-      // return res.status(200).json({ success: true }); // This was causing issues, removed in favor of specific returns.
+      const result = await receiveVapiWebhook(req.body);
+      switch (result.outcome) {
+        case "invalid":
+          console.warn(`⚠️ ${result.message}`);
+          return res.status(400).json({ success: false, message: result.message });
+        case "duplicate":
+          return res.status(200).json({
+            success: true,
+            duplicate: true,
+            message: "Webhook already received",
+          });
+        case "ignored":
+          return res.status(200).json({ success: true, message: "Webhook acknowledged" });
+        case "queued":
+          return res.status(200).json({
+            success: true,
+            eventId: result.event.id,
+            message: "Webhook queued for processing",
+          });
+      }
     } catch (error) {
       console.error("❌ Error processing Vapi webhook:", error);
       return res.status(500).json({
@@ -1,6 +1,7 @@
 import {
   users,
   patientBatches,
+  patients,
   patientPrompts,
   systemPrompts,
   patientSystemPrompts,
@@ -8,10 +9,38 @@ import {
   systemSettings,
   callHistory,
   trendReportPrompts,
+  triageRules,
+  alertDispatches,
+  onCallRotations,
+  escalationPolicies,
+  alertEscalations,
+  escalationEvents,
+  smsMessages,
+  vitalReadings,
+  importProfiles,
+  generationJobs,
+  uploadIssues,
+  patientMergeCandidates,
+  llmUsage,
+  promptVersions,
+  promptExperiments,
+  promptExperimentVariants,
+  promptExperimentOutputs,
+  messageReviews,
+  promptReviewEvents,
+  messageDeliveries,
+  callSchedules,
+  scheduledCalls,
+  vapiWebhookEvents,
+  callFlags,
+  patientCallReports,
+  callExtractions,
   type User,
   type InsertUser,
   type PatientBatch,
   type InsertPatientBatch,
+  type Patient,
+  type InsertPatient,
   type PatientPrompt,
   type InsertPatientPrompt,
   type SystemPrompt,
@@ -24,14 +53,92 @@ import {
   type CallHistory,
   type InsertCallHistory,
   type TrendReportPrompt,
-  type InsertTrendReportPrompt
+  type InsertTrendReportPrompt,
+  type TriageRule,
+  type InsertTriageRule,
+  type AlertDispatch,
+  type InsertAlertDispatch,
+  type OnCallRotation,
+  type InsertOnCallRotation,
+  type EscalationPolicy,
+  type InsertEscalationPolicy,
+  type AlertEscalation,
+  type InsertAlertEscalation,
+  type EscalationEvent,
+  type InsertEscalationEvent,
+  type SmsMessage,
+  type InsertSmsMessage,
+  type VitalReading,
+  type InsertVitalReading,
+  type ImportProfile,
+  type InsertImportProfile,
+  type GenerationJob,
+  type InsertGenerationJob,
+  type UploadIssue,
+  type InsertUploadIssue,
+  type PatientMergeCandidate,
+  type InsertPatientMergeCandidate,
+  type InsertLlmUsage,
+  type PromptKind,
+  type PromptVersion,
+  type PromptVersionChange,
+  type PromptExperiment,
+  type InsertPromptExperiment,
+  type PromptExperimentVariant,
+  type InsertPromptExperimentVariant,
+  type PromptExperimentOutput,
+  type InsertPromptExperimentOutput,
+  type MessageReview,
+  type InsertMessageReview,
+  type PromptReviewEvent,
+  type InsertPromptReviewEvent,
+  type ReviewStatus,
+  type MessageDelivery,
+  type InsertMessageDelivery,
+  type CallSchedule,
+  type InsertCallSchedule,
+  type ScheduledCall,
+  type InsertScheduledCall,
+  type ScheduledCallStatus,
+  type VapiWebhookEvent,
+  type InsertVapiWebhookEvent,
+  type CallFlag,
+  type InsertCallFlag,
+  type PatientCallReport,
+  type InsertPatientCallReport,
+  type CallExtraction,
+  type InsertCallExtraction
 } from "@shared/schema";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { db } from "./db";
-import { and, eq, sql, desc } from "drizzle-orm";
-import twilio from "twilio";
-import type { SystemPrompt as SystemPromptType } from '@shared/types';
+import { and, eq, sql, desc, inArray, lte, gte, or, ilike } from "drizzle-orm";
+import { sendSms } from "./lib/twilio";
+import type { SystemPrompt as SystemPromptType, UsageBreakdown } from '@shared/types';
+import {
+  DEFAULT_TRIAGE_RULES,
+  evaluateReadings,
+  extractReadings,
+  type ThresholdRule,
+} from "./lib/triageRules";
+
+// Review fields of a patient prompt, written by the review workflow (not by regeneration)
+export type PromptReviewUpdate = Partial<Pick<
+  InsertPatientPrompt,
+  | "prompt"
+  | "patientMessage"
+  | "patientMessageEnglish"
+  | "reasoning"
+  | "reviewStatus"
+  | "reviewerId"
+  | "originalPrompt"
+  | "originalPatientMessage"
+  | "editedBy"
+  | "editedAt"
+  | "approvedBy"
+  | "approvedAt"
+  | "sentAt"
+>>;
 
 // Modify the interface with any CRUD methods you might need
 export interface IStorage {
@@ -39,11 +146,69 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUserSummaries(): Promise<{ id: number; username: string }[]>;
 
   // Patient Batch methods
   createPatientBatch(batch: InsertPatientBatch): Promise<PatientBatch>;
   getPatientBatch(batchId: string): Promise<PatientBatch | undefined>;
   getAllPatientBatches(): Promise<PatientBatch[]>;
+  updatePatientBatch(batchId: string, updates: Partial<InsertPatientBatch>): Promise<PatientBatch>;
+  recordBatchPatientResult(batchId: string, succeeded: boolean): Promise<void>;
+
+  // Generation queue methods
+  createGenerationJobs(jobs: InsertGenerationJob[]): Promise<number>;
+  claimGenerationJobs(limit: number): Promise<GenerationJob[]>;
+  updateGenerationJob(id: number, updates: Partial<InsertGenerationJob>): Promise<GenerationJob>;
+  requeueRunningGenerationJobs(lockedBefore: Date): Promise<number>;
+  getGenerationJobCounts(batchId: string): Promise<Record<string, number>>;
+  getFailedGenerationJobs(batchId: string): Promise<GenerationJob[]>;
+  retryFailedGenerationJobs(batchId: string): Promise<number>;
+
+  // Vapi webhook inbox methods
+  createVapiWebhookEvent(event: InsertVapiWebhookEvent): Promise<VapiWebhookEvent | undefined>;
+  claimVapiWebhookEvents(limit: number): Promise<VapiWebhookEvent[]>;
+  updateVapiWebhookEvent(id: number, updates: Partial<InsertVapiWebhookEvent>): Promise<VapiWebhookEvent>;
+  requeueRunningVapiWebhookEvents(lockedBefore: Date): Promise<number>;
+  getVapiWebhookEvent(id: number): Promise<VapiWebhookEvent | undefined>;
+  getVapiWebhookEvents(filter?: { status?: string; limit?: number }): Promise<VapiWebhookEvent[]>;
+  getVapiWebhookEventCounts(): Promise<Record<string, number>>;
+  replayVapiWebhookEvent(id: number): Promise<VapiWebhookEvent | undefined>;
+  getBatchPatientNames(batchId: string): Promise<string[]>;
+
+  // Guardrail review queue methods
+  createMessageReview(review: InsertMessageReview): Promise<MessageReview>;
+  getMessageReviews(filter?: { batchId?: string; status?: string }): Promise<MessageReview[]>;
+  getMessageReview(id: number): Promise<MessageReview | null>;
+  getNewPromptMessageReview(batchId: string, patientId: string): Promise<MessageReview | null>;
+  updateMessageReview(id: number, updates: Partial<InsertMessageReview>): Promise<MessageReview>;
+
+  // Upload validation methods
+  createUploadIssues(issues: InsertUploadIssue[]): Promise<number>;
+  getUploadIssues(batchId: string): Promise<UploadIssue[]>;
+
+  // LLM usage ledger
+  createLlmUsage(entry: InsertLlmUsage): Promise<void>;
+  getLlmUsageTotals(from: Date, to: Date): Promise<UsageBreakdown & { failedCalls: number; averageLatencyMs: number }>;
+  getLlmUsageBreakdown(from: Date, to: Date, groupBy: 'day' | 'batch' | 'task' | 'model'): Promise<UsageBreakdown[]>;
+
+  // Patient registry methods
+  upsertPatient(patient: InsertPatient): Promise<Patient>;
+  getPatients(filter?: { search?: string; limit?: number }): Promise<Patient[]>;
+  getPatient(patientId: string): Promise<Patient | undefined>;
+  updatePatient(patientId: string, updates: Partial<InsertPatient>): Promise<Patient>;
+  getPatientPromptHistory(patientId: string): Promise<PatientPrompt[]>;
+
+  // Identity resolution and the merge-review queue
+  getPatientIdentities(): Promise<{ patientId: string; name: string; dateOfBirth: string | null }[]>;
+  createPatientMergeCandidates(candidates: InsertPatientMergeCandidate[]): Promise<number>;
+  getPatientMergeCandidates(status?: string): Promise<PatientMergeCandidate[]>;
+  getPatientMergeCandidate(id: number): Promise<PatientMergeCandidate | undefined>;
+  updatePatientMergeCandidate(id: number, updates: Partial<InsertPatientMergeCandidate>): Promise<PatientMergeCandidate>;
+  mergePatients(sourcePatientId: string, targetPatientId: string): Promise<Patient>;
+
+  // Vital readings time series
+  createVitalReadings(readings: InsertVitalReading[]): Promise<number>;
+  getVitalReadings(filter: { patientId: string; from?: Date; to?: Date; variable?: string }): Promise<VitalReading[]>;
 
   // Patient Prompt methods
   createPatientPrompt(prompt: InsertPatientPrompt): Promise<PatientPrompt>;
@@ -53,17 +218,47 @@ export interface IStorage {
   getLatestPatientPrompt(patientId: string): Promise<PatientPrompt | undefined>;
   updatePatientPrompt(id: number, updates: Partial<InsertPatientPrompt>): Promise<PatientPrompt>;
 
+  // Message review workflow methods
+  updatePromptReview(id: number, updates: PromptReviewUpdate): Promise<PatientPrompt>;
+  getPromptReviewQueue(filter?: { batchId?: string; reviewerId?: number; statuses?: ReviewStatus[] }): Promise<Array<PatientPrompt & { reviewerName: string | null }>>;
+  getLatestApprovedPatientPrompt(patientId: string): Promise<PatientPrompt | undefined>;
+  createPromptReviewEvent(event: InsertPromptReviewEvent): Promise<PromptReviewEvent>;
+  getPromptReviewEvents(patientPromptId: number): Promise<Array<PromptReviewEvent & { actorName: string | null }>>;
+
   // Patient Template methods
   getPromptTemplate(patientId: string): Promise<{ template: string, originalTemplate?: string } | null>;
   updatePromptTemplate(patientId: string, template: string): Promise<void>;
 
   // System Prompt methods
   getSystemPrompt(batchId?: string): Promise<SystemPrompt | null>;
-  updateSystemPrompt(prompt: string, batchId?: string): Promise<SystemPrompt>;
+  updateSystemPrompt(prompt: string, batchId?: string, change?: PromptVersionChange): Promise<SystemPrompt>;
 
   // Patient System Prompt methods
   getPatientSystemPrompt(batchId?: string): Promise<PatientSystemPrompt | null>;
-  updatePatientSystemPrompt(prompt: string, batchId?: string): Promise<PatientSystemPrompt>;
+  updatePatientSystemPrompt(prompt: string, batchId?: string, change?: PromptVersionChange): Promise<PatientSystemPrompt>;
+
+  // Prompt version history methods
+  getPromptVersions(kind: PromptKind, batchId?: string): Promise<Array<PromptVersion & { authorName: string | null }>>;
+  getPromptVersion(id: number): Promise<PromptVersion | null>;
+  getCurrentPromptVersion(kind: PromptKind, batchId?: string): Promise<PromptVersion | null>;
+  savePrompt(kind: PromptKind, content: string, batchId?: string, change?: PromptVersionChange): Promise<PromptVersion>;
+  restorePromptVersion(id: number, authorId?: number | null): Promise<PromptVersion>;
+
+  // Prompt experiment methods
+  createPromptExperiment(
+    experiment: InsertPromptExperiment,
+    variants: Omit<InsertPromptExperimentVariant, "experimentId">[]
+  ): Promise<PromptExperiment>;
+  getPromptExperiments(): Promise<PromptExperiment[]>;
+  getPromptExperiment(id: number): Promise<PromptExperiment | null>;
+  getPromptExperimentsByStatus(status: string): Promise<PromptExperiment[]>;
+  updatePromptExperiment(id: number, updates: Partial<InsertPromptExperiment>): Promise<PromptExperiment>;
+  getPromptExperimentVariants(experimentId: number): Promise<PromptExperimentVariant[]>;
+  getPromptExperimentOutputs(experimentId: number): Promise<PromptExperimentOutput[]>;
+  getPromptExperimentOutput(id: number): Promise<PromptExperimentOutput | undefined>;
+  createPromptExperimentOutput(output: InsertPromptExperimentOutput): Promise<PromptExperimentOutput>;
+  updatePromptExperimentOutput(id: number, updates: Partial<InsertPromptExperimentOutput>): Promise<PromptExperimentOutput>;
+  pickPromptExperimentWinner(outputId: number, reviewedBy?: number | null): Promise<PromptExperimentOutput>;
 
   // Template Variables methods
   getTemplateVariables(batchId?: string): Promise<TemplateVariable[]>;
@@ -79,8 +274,86 @@ export interface IStorage {
 
   // Triage methods
   getPatientAlerts(batchId?: string): Promise<any[]>;
-  sendAlert(alertId: string): Promise<any>;
-  sendAllAlerts(alertIds: string[]): Promise<{ sent: number }>;
+  getPatientAlertById(alertId: string): Promise<any | undefined>;
+  sendAlert(alertId: string, sentBy?: number): Promise<any>;
+  sendAllAlerts(alertIds: string[], sentBy?: number): Promise<{ sent: number; skipped: number; failed: number }>;
+
+  // Alert dispatch audit methods
+  createAlertDispatch(dispatch: InsertAlertDispatch): Promise<AlertDispatch>;
+  updateAlertDispatch(id: number, updates: Partial<InsertAlertDispatch>): Promise<AlertDispatch>;
+  getAlertDispatches(filter?: { alertId?: string; batchId?: string; patientId?: string }): Promise<AlertDispatch[]>;
+  getLatestAlertDispatches(alertIds: string[]): Promise<Map<string, AlertDispatch>>;
+  sendTrackedSms(dispatch: Omit<InsertAlertDispatch, "status">): Promise<AlertDispatch>;
+  sendTrackedDigest(dispatches: Omit<InsertAlertDispatch, "status">[]): Promise<AlertDispatch[]>;
+  claimAlertDispatch(dispatch: Omit<InsertAlertDispatch, "status">): Promise<AlertDispatch | undefined>;
+  getAlertDispatchesByTwilioSid(twilioSid: string): Promise<AlertDispatch[]>;
+  recordAlertDeliveryStatus(twilioSid: string, messageStatus: string, errorCode?: string | null): Promise<AlertDispatch | undefined>;
+
+  // Patient message delivery methods
+  createMessageDelivery(delivery: InsertMessageDelivery): Promise<MessageDelivery>;
+  updateMessageDelivery(id: number, updates: Partial<InsertMessageDelivery>): Promise<MessageDelivery>;
+  claimMessageDelivery(id: number): Promise<MessageDelivery | undefined>;
+  requeueSendingMessageDeliveries(updatedBefore: Date, now?: Date): Promise<number>;
+  getMessageDeliveries(filter?: { patientId?: string; batchId?: string; patientPromptId?: number; limit?: number }): Promise<MessageDelivery[]>;
+  getDueMessageDeliveries(now?: Date): Promise<MessageDelivery[]>;
+  recordMessageDeliveryStatus(twilioSid: string, messageStatus: string, errorCode?: string | null): Promise<MessageDelivery | undefined>;
+
+  // Recurring call schedule methods
+  getCallSchedules(): Promise<CallSchedule[]>;
+  getCallSchedule(patientId: string): Promise<CallSchedule | undefined>;
+  upsertCallSchedule(schedule: InsertCallSchedule & { patientId: string; createdBy?: number }): Promise<CallSchedule>;
+  deleteCallSchedule(patientId: string): Promise<boolean>;
+  deleteUnstartedScheduledCalls(scheduleId: number): Promise<number>;
+  createScheduledCall(call: InsertScheduledCall): Promise<ScheduledCall | undefined>;
+  updateScheduledCall(id: number, updates: Partial<InsertScheduledCall>): Promise<ScheduledCall>;
+  claimScheduledCall(id: number): Promise<ScheduledCall | undefined>;
+  getScheduledCalls(filter?: { patientId?: string; scheduleId?: number; statuses?: ScheduledCallStatus[]; from?: Date; to?: Date }): Promise<ScheduledCall[]>;
+  getLatestScheduledCall(scheduleId: number): Promise<ScheduledCall | undefined>;
+  getDueScheduledCalls(now?: Date): Promise<ScheduledCall[]>;
+  getScheduledCallByCallId(callId: string): Promise<ScheduledCall | undefined>;
+
+  // Escalation methods
+  getOnCallRotations(): Promise<OnCallRotation[]>;
+  createOnCallRotation(rotation: InsertOnCallRotation): Promise<OnCallRotation>;
+  updateOnCallRotation(id: number, rotation: InsertOnCallRotation): Promise<OnCallRotation>;
+  deleteOnCallRotation(id: number): Promise<void>;
+  getEscalationPolicies(): Promise<EscalationPolicy[]>;
+  upsertEscalationPolicy(policy: InsertEscalationPolicy): Promise<EscalationPolicy>;
+  createAlertEscalation(escalation: InsertAlertEscalation): Promise<AlertEscalation>;
+  updateAlertEscalation(id: number, updates: Partial<InsertAlertEscalation>): Promise<AlertEscalation>;
+  getAlertEscalation(id: number): Promise<AlertEscalation | undefined>;
+  getAlertEscalations(filter?: { status?: string; severity?: string; batchId?: string; limit?: number }): Promise<AlertEscalation[]>;
+  getEscalationByAlertId(alertId: string): Promise<AlertEscalation | undefined>;
+  getEscalationByAckCode(ackCode: string): Promise<AlertEscalation | undefined>;
+  getDueEscalations(status: string, now?: Date): Promise<AlertEscalation[]>;
+  createEscalationEvent(event: InsertEscalationEvent): Promise<EscalationEvent>;
+  getEscalationEvents(escalationId: number): Promise<EscalationEvent[]>;
+
+  // SMS conversation methods
+  createSmsMessage(message: InsertSmsMessage): Promise<SmsMessage>;
+  createInboundSmsMessage(message: InsertSmsMessage): Promise<SmsMessage | undefined>;
+  updateSmsMessage(id: number, updates: Partial<InsertSmsMessage>): Promise<SmsMessage>;
+  getSmsMessages(filter: { patientId?: string; phone?: string; limit?: number }): Promise<SmsMessage[]>;
+  getSmsThreads(limit?: number): Promise<SmsMessage[]>;
+  getLatestDispatchToRecipient(phone: string): Promise<AlertDispatch | undefined>;
+  findPatientByPhone(phone: string): Promise<{ patientId: string; patientName: string } | null>;
+
+  // Triage rule methods
+  getTriageRules(): Promise<TriageRule[]>;
+  getActiveTriageRules(): Promise<ThresholdRule[]>;
+  createTriageRule(rule: InsertTriageRule): Promise<TriageRule>;
+  updateTriageRule(id: number, rule: InsertTriageRule): Promise<TriageRule>;
+  deleteTriageRule(id: number): Promise<void>;
+  restoreDefaultTriageRules(): Promise<TriageRule[]>;
+
+  // Import profile methods
+  getImportProfiles(): Promise<ImportProfile[]>;
+  getImportProfile(id: number): Promise<ImportProfile | undefined>;
+  getImportProfileBySignature(headerSignature: string): Promise<ImportProfile | undefined>;
+  saveImportProfile(profile: InsertImportProfile): Promise<ImportProfile>;
+  updateImportProfile(id: number, profile: InsertImportProfile): Promise<ImportProfile>;
+  deleteImportProfile(id: number): Promise<void>;
+  markImportProfileUsed(id: number): Promise<void>;
 
   // Monthly reports methods
   getMonthlyReports(): Promise<any[]>;
@@ -102,18 +375,42 @@ export interface IStorage {
     allFollowUpItems: string[];
   }>;
 
+  // Follow-up flags raised during live calls
+  createCallFlag(flag: InsertCallFlag & {
+    callId: string;
+    patientId: string;
+    transcriptExcerpt?: string | null;
+    flaggedBy?: number;
+  }): Promise<CallFlag>;
+  getCallFlags(callId: string): Promise<CallFlag[]>;
+
+  // What patients reported through voice assistant tool calls
+  createPatientCallReport(report: InsertPatientCallReport): Promise<PatientCallReport | undefined>;
+  getPatientCallReportByToolCallId(toolCallId: string): Promise<PatientCallReport | undefined>;
+  updatePatientCallReport(id: number, updates: Partial<InsertPatientCallReport>): Promise<PatientCallReport>;
+  getPatientCallReports(filter: { patientId?: string; callId?: string; limit?: number }): Promise<PatientCallReport[]>;
+
+  // Clinical details extracted from call transcripts, one row per call
+  upsertCallExtraction(extraction: InsertCallExtraction): Promise<CallExtraction>;
+  getCallExtraction(callId: string): Promise<CallExtraction | undefined>;
+  getCallExtractions(filter: { patientId: string; from?: Date; to?: Date }): Promise<CallExtraction[]>;
+  getCallsWithoutExtraction(limit?: number, afterId?: number): Promise<CallHistory[]>;
+
   // Voice agent template methods
   getVoiceAgentTemplate(): Promise<string>;
-  updateVoiceAgentTemplate(template: string): Promise<void>;
+  updateVoiceAgentTemplate(template: string, change?: PromptVersionChange): Promise<void>;
 
   // Trend report prompt methods
   getTrendReportPrompt(batchId?: string): Promise<TrendReportPrompt | null>;
-  updateTrendReportPrompt(prompt: string, batchId?: string): Promise<TrendReportPrompt>;
+  updateTrendReportPrompt(prompt: string, batchId?: string, change?: PromptVersionChange): Promise<TrendReportPrompt>;
 
   // Session store
   sessionStore: session.Store;
 }
 
+// A pending alert dispatch older than this was abandoned mid-send
+const PENDING_DISPATCH_STALE_MS = 5 * 60 * 1000;
+
 export class DatabaseStorage implements IStorage {
   public sessionStore: session.Store;
 
@@ -142,6 +439,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Every user's id and name, e.g. for picking a reviewer (never the password hash)
+  async getUserSummaries(): Promise<{ id: number; username: string }[]> {
+    return await db.select({ id: users.id, username: users.username }).from(users).orderBy(users.username);
+  }
+
   async createPatientBatch(insertBatch: InsertPatientBatch): Promise<PatientBatch> {
     const [batch] = await db.insert(patientBatches).values(insertBatch).returning();
     return batch;
@@ -156,6 +458,593 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(patientBatches).orderBy(desc(patientBatches.createdAt));
   }
 
+  async updatePatientBatch(batchId: string, updates: Partial<InsertPatientBatch>): Promise<PatientBatch> {
+    const [batch] = await db.update(patientBatches)
+      .set(updates)
+      .where(eq(patientBatches.batchId, batchId))
+      .returning();
+
+    if (!batch) {
+      throw new Error(`Batch with id ${batchId} not found`);
+    }
+
+    return batch;
+  }
+
+  // Count one finished patient against the batch, as processed or failed
+  async recordBatchPatientResult(batchId: string, succeeded: boolean): Promise<void> {
+    await db.update(patientBatches)
+      .set(succeeded
+        ? { processedPatients: sql`coalesce(${patientBatches.processedPatients}, 0) + 1` }
+        : { failedPatients: sql`coalesce(${patientBatches.failedPatients}, 0) + 1` })
+      .where(eq(patientBatches.batchId, batchId));
+  }
+
+  // Generation queue methods
+  // Returns how many jobs were queued; a patient already queued for the batch is skipped
+  async createGenerationJobs(jobs: InsertGenerationJob[]): Promise<number> {
+    if (jobs.length === 0) return 0;
+    const inserted = await db.insert(generationJobs)
+      .values(jobs)
+      .onConflictDoNothing()
+      .returning({ id: generationJobs.id });
+    return inserted.length;
+  }
+
+  // Atomically mark due jobs as running; SKIP LOCKED keeps concurrent workers from taking the same job
+  async claimGenerationJobs(limit: number): Promise<GenerationJob[]> {
+    if (limit <= 0) return [];
+    return await db.update(generationJobs)
+      .set({
+        status: "running",
+        lockedAt: new Date(),
+        attempts: sql`${generationJobs.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(sql`${generationJobs.id} IN (
+        SELECT id FROM generation_jobs
+        WHERE status = 'pending' AND run_after <= NOW()
+        ORDER BY run_after, id
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )`)
+      .returning();
+  }
+
+  async updateGenerationJob(id: number, updates: Partial<InsertGenerationJob>): Promise<GenerationJob> {
+    const [job] = await db.update(generationJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(generationJobs.id, id))
+      .returning();
+
+    if (!job) {
+      throw new Error(`Generation job with id ${id} not found`);
+    }
+
+    return job;
+  }
+
+  // Put jobs left running by a stopped worker back in the queue
+  async requeueRunningGenerationJobs(lockedBefore: Date): Promise<number> {
+    const requeued = await db.update(generationJobs)
+      .set({ status: "pending", lockedAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(generationJobs.status, "running"),
+        lte(generationJobs.lockedAt, lockedBefore)
+      ))
+      .returning({ id: generationJobs.id });
+    return requeued.length;
+  }
+
+  // Job counts for a batch keyed by status
+  async getGenerationJobCounts(batchId: string): Promise<Record<string, number>> {
+    const rows = await db.select({
+      status: generationJobs.status,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(generationJobs)
+      .where(eq(generationJobs.batchId, batchId))
+      .groupBy(generationJobs.status);
+
+    return Object.fromEntries(rows.map((row) => [row.status, Number(row.count)]));
+  }
+
+  async getFailedGenerationJobs(batchId: string): Promise<GenerationJob[]> {
+    return await db.select()
+      .from(generationJobs)
+      .where(and(
+        eq(generationJobs.batchId, batchId),
+        eq(generationJobs.status, "failed")
+      ))
+      .orderBy(generationJobs.id);
+  }
+
+  // Give failed jobs a fresh set of attempts; returns how many were requeued
+  async retryFailedGenerationJobs(batchId: string): Promise<number> {
+    const requeued = await db.update(generationJobs)
+      .set({
+        status: "pending",
+        attempts: 0,
+        lastError: null,
+        lockedAt: null,
+        runAfter: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(generationJobs.batchId, batchId),
+        eq(generationJobs.status, "failed")
+      ))
+      .returning({ id: generationJobs.id });
+    return requeued.length;
+  }
+
+  // Vapi webhook inbox methods
+  // Undefined if the same event for the call was already received
+  async createVapiWebhookEvent(event: InsertVapiWebhookEvent): Promise<VapiWebhookEvent | undefined> {
+    const [created] = await db.insert(vapiWebhookEvents)
+      .values(event)
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  // Atomically mark due events as running; SKIP LOCKED keeps concurrent workers from taking the same event
+  async claimVapiWebhookEvents(limit: number): Promise<VapiWebhookEvent[]> {
+    if (limit <= 0) return [];
+    return await db.update(vapiWebhookEvents)
+      .set({
+        status: "running",
+        lockedAt: new Date(),
+        attempts: sql`${vapiWebhookEvents.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(sql`${vapiWebhookEvents.id} IN (
+        SELECT id FROM vapi_webhook_events
+        WHERE status = 'pending' AND run_after <= NOW()
+        ORDER BY run_after, id
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )`)
+      .returning();
+  }
+
+  async updateVapiWebhookEvent(id: number, updates: Partial<InsertVapiWebhookEvent>): Promise<VapiWebhookEvent> {
+    const [event] = await db.update(vapiWebhookEvents)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(vapiWebhookEvents.id, id))
+      .returning();
+
+    if (!event) {
+      throw new Error(`Vapi webhook event with id ${id} not found`);
+    }
+
+    return event;
+  }
+
+  // Put events left running by a stopped worker back in the inbox
+  async requeueRunningVapiWebhookEvents(lockedBefore: Date): Promise<number> {
+    const requeued = await db.update(vapiWebhookEvents)
+      .set({ status: "pending", lockedAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(vapiWebhookEvents.status, "running"),
+        lte(vapiWebhookEvents.lockedAt, lockedBefore)
+      ))
+      .returning({ id: vapiWebhookEvents.id });
+    return requeued.length;
+  }
+
+  async getVapiWebhookEvent(id: number): Promise<VapiWebhookEvent | undefined> {
+    const [event] = await db.select().from(vapiWebhookEvents).where(eq(vapiWebhookEvents.id, id));
+    return event;
+  }
+
+  async getVapiWebhookEvents(filter: { status?: string; limit?: number } = {}): Promise<VapiWebhookEvent[]> {
+    return await db.select()
+      .from(vapiWebhookEvents)
+      .where(filter.status ? eq(vapiWebhookEvents.status, filter.status) : undefined)
+      .orderBy(desc(vapiWebhookEvents.createdAt), desc(vapiWebhookEvents.id))
+      .limit(filter.limit ?? 100);
+  }
+
+  // Event counts keyed by status
+  async getVapiWebhookEventCounts(): Promise<Record<string, number>> {
+    const rows = await db.select({
+      status: vapiWebhookEvents.status,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(vapiWebhookEvents)
+      .groupBy(vapiWebhookEvents.status);
+
+    return Object.fromEntries(rows.map((row) => [row.status, Number(row.count)]));
+  }
+
+  // Give a failed or processed event a fresh set of attempts; undefined if it is still queued or running
+  async replayVapiWebhookEvent(id: number): Promise<VapiWebhookEvent | undefined> {
+    const [event] = await db.update(vapiWebhookEvents)
+      .set({
+        status: "pending",
+        attempts: 0,
+        lastError: null,
+        lockedAt: null,
+        runAfter: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(vapiWebhookEvents.id, id),
+        inArray(vapiWebhookEvents.status, ["failed", "processed"])
+      ))
+      .returning();
+    return event;
+  }
+
+  // Names of every patient queued in a batch
+  async getBatchPatientNames(batchId: string): Promise<string[]> {
+    const rows = await db.selectDistinct({ name: sql<string>`${generationJobs.payload}->>'name'` })
+      .from(generationJobs)
+      .where(eq(generationJobs.batchId, batchId));
+    return rows.map((row) => row.name).filter((name): name is string => !!name);
+  }
+
+  // Guardrail review queue methods
+  async createMessageReview(review: InsertMessageReview): Promise<MessageReview> {
+    const [created] = await db.insert(messageReviews).values(review).returning();
+    return created;
+  }
+
+  async getMessageReviews(filter: { batchId?: string; status?: string } = {}): Promise<MessageReview[]> {
+    const conditions = [];
+    if (filter.batchId) conditions.push(eq(messageReviews.batchId, filter.batchId));
+    if (filter.status) conditions.push(eq(messageReviews.status, filter.status));
+
+    return await db.select()
+      .from(messageReviews)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(messageReviews.createdAt));
+  }
+
+  async getMessageReview(id: number): Promise<MessageReview | null> {
+    const [review] = await db.select().from(messageReviews).where(eq(messageReviews.id, id));
+    return review || null;
+  }
+
+  // A held-back first generation for a patient (not a regeneration of an existing prompt)
+  async getNewPromptMessageReview(batchId: string, patientId: string): Promise<MessageReview | null> {
+    const [review] = await db.select()
+      .from(messageReviews)
+      .where(and(
+        eq(messageReviews.batchId, batchId),
+        eq(messageReviews.patientId, patientId),
+        sql`${messageReviews.patientPromptId} IS NULL`
+      ))
+      .orderBy(desc(messageReviews.id))
+      .limit(1);
+    return review || null;
+  }
+
+  async updateMessageReview(id: number, updates: Partial<InsertMessageReview>): Promise<MessageReview> {
+    const [updated] = await db.update(messageReviews)
+      .set(updates)
+      .where(eq(messageReviews.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Message review with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  // Upload validation methods
+  async createUploadIssues(issues: InsertUploadIssue[]): Promise<number> {
+    if (issues.length === 0) return 0;
+
+    // Insert in chunks so very messy files stay under the parameter limit
+    let inserted = 0;
+    for (let i = 0; i < issues.length; i += 500) {
+      const rows = await db.insert(uploadIssues)
+        .values(issues.slice(i, i + 500))
+        .returning({ id: uploadIssues.id });
+      inserted += rows.length;
+    }
+    return inserted;
+  }
+
+  async getUploadIssues(batchId: string): Promise<UploadIssue[]> {
+    return await db.select()
+      .from(uploadIssues)
+      .where(eq(uploadIssues.batchId, batchId))
+      .orderBy(uploadIssues.sheet, uploadIssues.rowNumber, uploadIssues.id);
+  }
+
+  // LLM usage ledger methods
+  async createLlmUsage(entry: InsertLlmUsage): Promise<void> {
+    await db.insert(llmUsage).values(entry);
+  }
+
+  async getLlmUsageTotals(from: Date, to: Date): Promise<UsageBreakdown & { failedCalls: number; averageLatencyMs: number }> {
+    const [totals] = await db.select({
+      calls: sql<number>`count(*)::int`,
+      failedCalls: sql<number>`count(*) filter (where not ${llmUsage.success})::int`,
+      inputTokens: sql<number>`coalesce(sum(${llmUsage.inputTokens}), 0)::int`,
+      outputTokens: sql<number>`coalesce(sum(${llmUsage.outputTokens}), 0)::int`,
+      cost: sql<number>`coalesce(sum(${llmUsage.cost}), 0)::float8`,
+      averageLatencyMs: sql<number>`coalesce(avg(${llmUsage.latencyMs}), 0)::float8`,
+    })
+      .from(llmUsage)
+      .where(and(gte(llmUsage.createdAt, from), lte(llmUsage.createdAt, to)));
+
+    return { key: "total", ...totals };
+  }
+
+  async getLlmUsageBreakdown(from: Date, to: Date, groupBy: 'day' | 'batch' | 'task' | 'model'): Promise<UsageBreakdown[]> {
+    const key = {
+      day: sql<string>`to_char(${llmUsage.createdAt}, 'YYYY-MM-DD')`,
+      batch: sql<string>`coalesce(${llmUsage.batchId}, 'none')`,
+      task: sql<string>`${llmUsage.task}`,
+      model: sql<string>`${llmUsage.model}`,
+    }[groupBy];
+
+    return await db.select({
+      key,
+      calls: sql<number>`count(*)::int`,
+      inputTokens: sql<number>`coalesce(sum(${llmUsage.inputTokens}), 0)::int`,
+      outputTokens: sql<number>`coalesce(sum(${llmUsage.outputTokens}), 0)::int`,
+      cost: sql<number>`coalesce(sum(${llmUsage.cost}), 0)::float8`,
+    })
+      .from(llmUsage)
+      .where(and(gte(llmUsage.createdAt, from), lte(llmUsage.createdAt, to)))
+      .groupBy(key)
+      .orderBy(groupBy === 'day' ? key : sql`sum(${llmUsage.cost}) desc`);
+  }
+
+  // Patient registry methods
+  // Uploads refresh identity fields but only overwrite contact details they actually carry
+  async upsertPatient(patient: InsertPatient): Promise<Patient> {
+    const [upserted] = await db.insert(patients)
+      .values(patient)
+      .onConflictDoUpdate({
+        target: patients.patientId,
+        set: {
+          name: patient.name,
+          age: sql`coalesce(excluded.age, ${patients.age})`,
+          condition: sql`coalesce(excluded.condition, ${patients.condition})`,
+          dateOfBirth: sql`coalesce(excluded.date_of_birth, ${patients.dateOfBirth})`,
+          phoneNumber: sql`coalesce(excluded.phone_number, ${patients.phoneNumber})`,
+          lastBatchId: sql`coalesce(excluded.last_batch_id, ${patients.lastBatchId})`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return upserted;
+  }
+
+  async getPatients(filter: { search?: string; limit?: number } = {}): Promise<Patient[]> {
+    const search = filter.search?.trim();
+    const query = db.select()
+      .from(patients)
+      .where(search ? or(ilike(patients.name, `%${search}%`), ilike(patients.patientId, `%${search}%`)) : undefined)
+      .orderBy(patients.name);
+
+    return filter.limit ? await query.limit(filter.limit) : await query;
+  }
+
+  async getPatient(patientId: string): Promise<Patient | undefined> {
+    const [patient] = await db.select().from(patients).where(eq(patients.patientId, patientId));
+    return patient;
+  }
+
+  async updatePatient(patientId: string, updates: Partial<InsertPatient>): Promise<Patient> {
+    const [updated] = await db.update(patients)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(patients.patientId, patientId))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Patient with id ${patientId} not found`);
+    }
+
+    return updated;
+  }
+
+  // Just the fields identity resolution compares, for every registered patient
+  async getPatientIdentities(): Promise<{ patientId: string; name: string; dateOfBirth: string | null }[]> {
+    return await db.select({
+      patientId: patients.patientId,
+      name: patients.name,
+      dateOfBirth: patients.dateOfBirth,
+    }).from(patients);
+  }
+
+  // Pairs already queued or reviewed, in either order, are left as they are
+  async createPatientMergeCandidates(candidates: InsertPatientMergeCandidate[]): Promise<number> {
+    if (candidates.length === 0) return 0;
+
+    const reversed = await db.select({
+      patientId: patientMergeCandidates.patientId,
+      candidatePatientId: patientMergeCandidates.candidatePatientId,
+    })
+      .from(patientMergeCandidates)
+      .where(and(
+        inArray(patientMergeCandidates.patientId, candidates.map((c) => c.candidatePatientId)),
+        inArray(patientMergeCandidates.candidatePatientId, candidates.map((c) => c.patientId))
+      ));
+    const fresh = candidates.filter((c) => !reversed.some(
+      (r) => r.patientId === c.candidatePatientId && r.candidatePatientId === c.patientId
+    ));
+    if (fresh.length === 0) return 0;
+
+    const rows = await db.insert(patientMergeCandidates)
+      .values(fresh)
+      .onConflictDoNothing()
+      .returning({ id: patientMergeCandidates.id });
+    return rows.length;
+  }
+
+  async getPatientMergeCandidates(status?: string): Promise<PatientMergeCandidate[]> {
+    return await db.select()
+      .from(patientMergeCandidates)
+      .where(status ? eq(patientMergeCandidates.status, status) : undefined)
+      .orderBy(desc(patientMergeCandidates.score), desc(patientMergeCandidates.createdAt));
+  }
+
+  async getPatientMergeCandidate(id: number): Promise<PatientMergeCandidate | undefined> {
+    const [candidate] = await db.select().from(patientMergeCandidates).where(eq(patientMergeCandidates.id, id));
+    return candidate;
+  }
+
+  async updatePatientMergeCandidate(id: number, updates: Partial<InsertPatientMergeCandidate>): Promise<PatientMergeCandidate> {
+    const [updated] = await db.update(patientMergeCandidates)
+      .set(updates)
+      .where(eq(patientMergeCandidates.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Merge candidate with id ${id} not found`);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Fold one registry patient into another: their prompts, readings, calls,
+   * alerts and messages move to the target, missing details are filled from
+   * the source, and the source record is removed.
+   */
+  async mergePatients(sourcePatientId: string, targetPatientId: string): Promise<Patient> {
+    return await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(patients).where(eq(patients.patientId, sourcePatientId));
+      const [target] = await tx.select().from(patients).where(eq(patients.patientId, targetPatientId));
+      if (!source) throw new Error(`Patient with id ${sourcePatientId} not found`);
+      if (!target) throw new Error(`Patient with id ${targetPatientId} not found`);
+
+      const moved = { patientId: targetPatientId, patientRecordId: target.id };
+
+      // A reading both records already have would break the time series' unique key
+      await tx.execute(sql`
+        DELETE FROM vital_readings s
+        USING vital_readings t
+        WHERE s.patient_id = ${sourcePatientId}
+          AND t.patient_id = ${targetPatientId}
+          AND t.variable = s.variable
+          AND t.recorded_at = s.recorded_at
+          AND t.source_row = s.source_row
+      `);
+      await tx.update(vitalReadings).set(moved).where(eq(vitalReadings.patientId, sourcePatientId));
+      await tx.update(patientPrompts).set(moved).where(eq(patientPrompts.patientId, sourcePatientId));
+      await tx.update(callHistory).set(moved).where(eq(callHistory.patientId, sourcePatientId));
+      await tx.update(alertDispatches).set(moved).where(eq(alertDispatches.patientId, sourcePatientId));
+      await tx.update(alertEscalations).set(moved).where(eq(alertEscalations.patientId, sourcePatientId));
+      await tx.update(messageDeliveries).set(moved).where(eq(messageDeliveries.patientId, sourcePatientId));
+      await tx.update(scheduledCalls).set(moved).where(eq(scheduledCalls.patientId, sourcePatientId));
+      await tx.update(callFlags).set(moved).where(eq(callFlags.patientId, sourcePatientId));
+      await tx.update(patientCallReports).set(moved).where(eq(patientCallReports.patientId, sourcePatientId));
+      await tx.update(callExtractions).set(moved).where(eq(callExtractions.patientId, sourcePatientId));
+
+      // Keep the target's call schedule if it has one, else take over the source's
+      const [sourceSchedule] = await tx.select().from(callSchedules).where(eq(callSchedules.patientId, sourcePatientId));
+      const [targetSchedule] = await tx.select().from(callSchedules).where(eq(callSchedules.patientId, targetPatientId));
+      if (sourceSchedule && targetSchedule) {
+        await tx.delete(scheduledCalls)
+          .where(and(eq(scheduledCalls.scheduleId, sourceSchedule.id), eq(scheduledCalls.status, "scheduled")));
+        await tx.update(scheduledCalls)
+          .set({ status: "cancelled", failureReason: "Patient record was merged" })
+          .where(and(eq(scheduledCalls.scheduleId, sourceSchedule.id), eq(scheduledCalls.status, "retry")));
+        await tx.delete(callSchedules).where(eq(callSchedules.id, sourceSchedule.id));
+      } else if (sourceSchedule) {
+        await tx.update(callSchedules).set(moved).where(eq(callSchedules.id, sourceSchedule.id));
+      }
+      await tx.update(smsMessages)
+        .set({ patientId: targetPatientId })
+        .where(eq(smsMessages.patientId, sourcePatientId));
+      await tx.update(uploadIssues)
+        .set({ patientId: targetPatientId })
+        .where(eq(uploadIssues.patientId, sourcePatientId));
+
+      // Other pairs involving the source now describe the target, so they are re-raised by the next upload
+      await tx.delete(patientMergeCandidates).where(and(
+        eq(patientMergeCandidates.status, "pending"),
+        or(
+          and(eq(patientMergeCandidates.patientId, sourcePatientId), sql`${patientMergeCandidates.candidatePatientId} <> ${targetPatientId}`),
+          and(eq(patientMergeCandidates.candidatePatientId, sourcePatientId), sql`${patientMergeCandidates.patientId} <> ${targetPatientId}`)
+        )
+      ));
+
+      await tx.delete(patients).where(eq(patients.id, source.id));
+
+      const [merged] = await tx.update(patients)
+        .set({
+          dateOfBirth: target.dateOfBirth ?? source.dateOfBirth,
+          age: target.age ?? source.age,
+          condition: target.condition ?? source.condition,
+          phoneNumber: target.phoneNumber ?? source.phoneNumber,
+          timezone: target.timezone ?? source.timezone,
+          email: target.email ?? source.email,
+          quietHoursStart: target.quietHoursStart ?? source.quietHoursStart,
+          quietHoursEnd: target.quietHoursEnd ?? source.quietHoursEnd,
+          careTeam: target.careTeam.length > 0 ? target.careTeam : source.careTeam,
+          notes: [target.notes, source.notes].filter(Boolean).join("\n\n") || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(patients.id, target.id))
+        .returning();
+      return merged;
+    });
+  }
+
+  // Every prompt generated for a patient, newest batch first
+  async getPatientPromptHistory(patientId: string): Promise<PatientPrompt[]> {
+    return await db.select()
+      .from(patientPrompts)
+      .where(eq(patientPrompts.patientId, patientId))
+      .orderBy(desc(patientPrompts.id));
+  }
+
+  // Vital readings time series
+  // Returns how many readings were new; readings already on file for the same time are skipped
+  async createVitalReadings(readings: InsertVitalReading[]): Promise<number> {
+    if (readings.length === 0) return 0;
+
+    const patientIds = Array.from(new Set(readings.map((r) => r.patientId)));
+    const registered = await db.select({ id: patients.id, patientId: patients.patientId })
+      .from(patients)
+      .where(inArray(patients.patientId, patientIds));
+    const recordIds = new Map(registered.map((p) => [p.patientId, p.id]));
+
+    let inserted = 0;
+    // Insert in chunks to keep each statement's parameter count reasonable
+    for (let i = 0; i < readings.length; i += 500) {
+      const chunk = readings.slice(i, i + 500).map((reading) => ({
+        ...reading,
+        patientRecordId: reading.patientRecordId ?? recordIds.get(reading.patientId) ?? null,
+      }));
+      const rows = await db.insert(vitalReadings)
+        .values(chunk)
+        .onConflictDoNothing()
+        .returning({ id: vitalReadings.id });
+      inserted += rows.length;
+    }
+
+    return inserted;
+  }
+
+  async getVitalReadings(filter: { patientId: string; from?: Date; to?: Date; variable?: string }): Promise<VitalReading[]> {
+    const conditions = [eq(vitalReadings.patientId, filter.patientId)];
+    if (filter.from) conditions.push(gte(vitalReadings.recordedAt, filter.from));
+    if (filter.to) conditions.push(lte(vitalReadings.recordedAt, filter.to));
+    if (filter.variable) conditions.push(eq(vitalReadings.variable, filter.variable));
+
+    return await db.select()
+      .from(vitalReadings)
+      .where(and(...conditions))
+      .orderBy(vitalReadings.recordedAt, vitalReadings.id);
+  }
+
+  // Registry row id for records that only know the external patient ID
+  private async resolvePatientRecordId(patientId: string, patientRecordId?: number | null): Promise<number | null> {
+    if (patientRecordId) return patientRecordId;
+    const patient = await this.getPatient(patientId);
+    return patient?.id ?? null;
+  }
+
   async createPatientPrompt(insertPrompt: InsertPatientPrompt): Promise<PatientPrompt> {
     // Create a cleaned up version of the insert data that matches our schema
     const promptData = {
@@ -166,10 +1055,15 @@ export class DatabaseStorage implements IStorage {
       condition: insertPrompt.condition,
       prompt: insertPrompt.prompt,
       patientMessage: insertPrompt.patientMessage || null, // Add the missing patientMessage field
+      patientMessageLanguage: insertPrompt.patientMessageLanguage || "en",
+      patientMessageEnglish: insertPrompt.patientMessageEnglish ?? null,
       reasoning: insertPrompt.reasoning || null,
       isAlert: insertPrompt.isAlert ? "true" : "false",
       healthStatus: insertPrompt.healthStatus || "alert",
       rawData: insertPrompt.rawData ?? null,
+      patientRecordId: await this.resolvePatientRecordId(insertPrompt.patientId, insertPrompt.patientRecordId),
+      systemPromptVersionId: insertPrompt.systemPromptVersionId ?? null,
+      patientSystemPromptVersionId: insertPrompt.patientSystemPromptVersionId ?? null,
       createdAt: new Date().toISOString(),
     };
 
@@ -239,10 +1133,28 @@ export class DatabaseStorage implements IStorage {
 
     if (updates.prompt) updateData.prompt = updates.prompt;
     if (updates.patientMessage) updateData.patientMessage = updates.patientMessage;
+    if (updates.patientMessageLanguage) updateData.patientMessageLanguage = updates.patientMessageLanguage;
+    if (updates.patientMessageEnglish !== undefined) updateData.patientMessageEnglish = updates.patientMessageEnglish;
     if (updates.reasoning) updateData.reasoning = updates.reasoning;
     if (updates.isAlert !== undefined) updateData.isAlert = updates.isAlert ? "true" : "false";
     if (updates.healthStatus) updateData.healthStatus = updates.healthStatus;
     if (updates.condition) updateData.condition = updates.condition;
+    if (updates.systemPromptVersionId !== undefined) updateData.systemPromptVersionId = updates.systemPromptVersionId;
+    if (updates.patientSystemPromptVersionId !== undefined) updateData.patientSystemPromptVersionId = updates.patientSystemPromptVersionId;
+
+    // Newly generated text has not been reviewed; the assigned reviewer stays
+    if (updates.prompt || updates.patientMessage) {
+      Object.assign(updateData, {
+        reviewStatus: "draft",
+        originalPrompt: null,
+        originalPatientMessage: null,
+        editedBy: null,
+        editedAt: null,
+        approvedBy: null,
+        approvedAt: null,
+        sentAt: null,
+      });
+    }
 
     // Add updatedAt timestamp
     updateData.updatedAt = new Date().toISOString();
@@ -259,6 +1171,64 @@ export class DatabaseStorage implements IStorage {
     return updatedPrompt;
   }
 
+  // Message review workflow methods
+  async updatePromptReview(id: number, updates: PromptReviewUpdate): Promise<PatientPrompt> {
+    const [updated] = await db.update(patientPrompts)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(patientPrompts.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Prompt with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  async getPromptReviewQueue(
+    filter: { batchId?: string; reviewerId?: number; statuses?: ReviewStatus[] } = {}
+  ): Promise<Array<PatientPrompt & { reviewerName: string | null }>> {
+    const conditions = [inArray(patientPrompts.reviewStatus, filter.statuses ?? ["draft", "in_review"])];
+    if (filter.batchId) conditions.push(eq(patientPrompts.batchId, filter.batchId));
+    if (filter.reviewerId) conditions.push(eq(patientPrompts.reviewerId, filter.reviewerId));
+
+    const rows = await db
+      .select({ prompt: patientPrompts, reviewerName: users.username })
+      .from(patientPrompts)
+      .leftJoin(users, eq(patientPrompts.reviewerId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(patientPrompts.id));
+
+    return rows.map((row) => ({ ...row.prompt, reviewerName: row.reviewerName }));
+  }
+
+  // Most recent prompt for a patient that was approved (or already sent)
+  async getLatestApprovedPatientPrompt(patientId: string): Promise<PatientPrompt | undefined> {
+    const [prompt] = await db.select().from(patientPrompts)
+      .where(and(
+        eq(patientPrompts.patientId, patientId),
+        inArray(patientPrompts.reviewStatus, ["approved", "sent"])
+      ))
+      .orderBy(desc(patientPrompts.id))
+      .limit(1);
+    return prompt;
+  }
+
+  async createPromptReviewEvent(event: InsertPromptReviewEvent): Promise<PromptReviewEvent> {
+    const [created] = await db.insert(promptReviewEvents).values(event).returning();
+    return created;
+  }
+
+  async getPromptReviewEvents(patientPromptId: number): Promise<Array<PromptReviewEvent & { actorName: string | null }>> {
+    const rows = await db
+      .select({ event: promptReviewEvents, actorName: users.username })
+      .from(promptReviewEvents)
+      .leftJoin(users, eq(promptReviewEvents.actorId, users.id))
+      .where(eq(promptReviewEvents.patientPromptId, patientPromptId))
+      .orderBy(promptReviewEvents.createdAt);
+
+    return rows.map((row) => ({ ...row.event, actorName: row.actorName }));
+  }
+
   // Template methods for storing, retrieving, and using custom prompt templates
   async getPromptTemplate(patientId: string): Promise<{ template: string, originalTemplate?: string } | null> {
     try {
@@ -410,7 +1380,7 @@ Your Healthcare Provider`;
     }
   }
 
-  async updateSystemPrompt(promptText: string, batchId?: string): Promise<SystemPrompt> {
+  async updateSystemPrompt(promptText: string, batchId?: string, change: PromptVersionChange = {}): Promise<SystemPrompt> {
     try {
       // Sanitize the prompt
       const sanitizedPrompt = this.sanitizeSystemPrompt(promptText);
@@ -426,6 +1396,8 @@ Your Healthcare Provider`;
           })
           .returning();
 
+      await this.recordPromptVersion("caregiverSystem", batchId, newPrompt.prompt, change);
+
       console.log(`Created new system prompt (ID: ${newPrompt.id}, batchId: ${batchId || 'global'})`);
         return newPrompt;
     } catch (error) {
@@ -478,7 +1450,7 @@ Your Healthcare Provider`;
     }
   }
 
-  async updatePatientSystemPrompt(promptText: string, batchId?: string): Promise<PatientSystemPrompt> {
+  async updatePatientSystemPrompt(promptText: string, batchId?: string, change: PromptVersionChange = {}): Promise<PatientSystemPrompt> {
     try {
       // Sanitize the prompt
       const sanitizedPrompt = this.sanitizeSystemPrompt(promptText);
@@ -493,6 +1465,8 @@ Your Healthcare Provider`;
         })
         .returning();
 
+      await this.recordPromptVersion("patientSystem", batchId, newPrompt.prompt, change);
+
       console.log(`Created new patient system prompt (ID: ${newPrompt.id}, batchId: ${batchId || 'global'})`);
       return newPrompt;
     } catch (error) {
@@ -682,6 +1656,9 @@ Your Healthcare Provider`;
 
       const allPatients = await query;
 
+      // Load the clinical threshold rules once for the whole batch
+      const rules = await this.getActiveTriageRules();
+
       // Group all patients by ID (not just alerts)
       const patientMap = new Map();
 
@@ -715,7 +1692,6 @@ Your Healthcare Provider`;
           // Extract health variables
           if (parsedRawData.variables) {
             const variables = parsedRawData.variables;
-            let hasAbnormalValue = false;
 
             Object.keys(variables).forEach(key => {
               if (key !== 'patientId' && key !== 'name' && key !== 'age' && key !== 'condition') {
@@ -725,59 +1701,26 @@ Your Healthcare Provider`;
                   value: variables[key],
                   timestamp: patient.createdAt
                 });
-
-                // Check for specific severe conditions
-                const varName = key.toLowerCase();
-                const varValue = variables[key];
-
-                // Convert value to number if possible
-                let numValue: number | null = null;
-                if (typeof varValue === 'number') {
-                  numValue = varValue;
-                } else if (typeof varValue === 'string') {
-                  const parsed = parseFloat(varValue);
-                  if (!isNaN(parsed)) {
-                    numValue = parsed;
-                  }
-                }
-
-                // Apply severity rules if we have a numeric value
-                if (numValue !== null) {
-                  // RED level alerts - critical values requiring immediate action
-                  if (
-                    (varName.includes('glucose') && numValue > 300) ||
-                    (varName.includes('blood pressure') && numValue > 180) ||
-                    (varName.includes('heart rate') && (numValue > 150 || numValue < 40)) ||
-                    (varName.includes('temperature') && numValue > 103) ||
-                    (varName.includes('oxygen') && numValue < 85)
-                  ) {
-                    severity = 'red';
-                    alertStatus = true;
-                    hasAbnormalValue = true;
-                    alertReasons.push(`CRITICAL: ${key} is ${numValue}`);
-                  }
-                  // YELLOW level alerts - concerning but not immediately life-threatening
-                  else if (
-                    (varName.includes('glucose') && (numValue > 180 || numValue < 70)) ||
-                    (varName.includes('blood pressure') && (numValue > 140 || numValue < 90)) ||
-                    (varName.includes('heart rate') && (numValue > 100 || numValue < 50)) ||
-                    (varName.includes('temperature') && (numValue > 99.5 || numValue < 97)) ||
-                    (varName.includes('oxygen') && numValue < 92)
-                  ) {
-                    // Only upgrade to yellow if we're not already at red
-                    if (severity !== 'red') {
-                      severity = 'yellow';
-                      alertStatus = true;
-                      hasAbnormalValue = true;
-                      alertReasons.push(`ATTENTION: ${key} is ${numValue}`);
-                    }
-                  }
-                }
               }
             });
 
-            // If none of the values were abnormal, explicitly mark as green/healthy
-            if (!hasAbnormalValue) {
+            // Evaluate every uploaded row when available, not just the merged variables
+            const rows: any[] = Array.isArray(parsedRawData.rawData) && parsedRawData.rawData.length > 0
+              ? parsedRawData.rawData.map((row: any) => row?.variables || row)
+              : [variables];
+            const readings = rows.flatMap(row => extractReadings(row));
+
+            const evaluation = evaluateReadings(rules, readings, {
+              condition: patient.condition,
+              age: patient.age,
+            });
+
+            if (evaluation.isAlert) {
+              severity = evaluation.severity;
+              alertStatus = true;
+              alertReasons.push(...evaluation.alertReasons);
+            } else {
+              // If none of the values were abnormal, explicitly mark as green/healthy
               severity = 'green';
               alertStatus = false; // Not an alert
               if (alertReasons.length === 0) {
@@ -853,7 +1796,8 @@ Your Healthcare Provider`;
           severity: severity,
           alertReasons: alertReasons,
           isAlert: alertStatus,
-          prompt: patient.prompt
+          prompt: patient.prompt,
+          batchId: patient.batchId
         };
 
         // Add message with the appropriate format for this severity
@@ -869,6 +1813,20 @@ Your Healthcare Provider`;
       // Convert all patients to array and sort by severity (red → yellow → green)
       const allPatientsArray = Array.from(patientMap.values());
 
+      // Overlay the real delivery status from the dispatch audit trail
+      const latestDispatches = await this.getLatestAlertDispatches(allPatientsArray.map(p => p.id));
+      for (const patientData of allPatientsArray) {
+        const dispatch = latestDispatches.get(patientData.id);
+        if (!dispatch) continue;
+
+        patientData.status = dispatch.status;
+        patientData.sentAt = dispatch.sentAt;
+        patientData.deliveredAt = dispatch.deliveredAt;
+        patientData.twilioSid = dispatch.twilioSid;
+        patientData.failureReason = dispatch.failureReason;
+        patientData.recipient = dispatch.recipient;
+      }
+
       // Sort by severity (red first, then yellow, then green)
       allPatientsArray.sort((a, b) => {
         const severityOrder = {
@@ -892,6 +1850,16 @@ Your Healthcare Provider`;
     }
   }
 
+  // Look up a single alert. Alert IDs are derived from the patient prompt id,
+  // so we can find the batch it belongs to instead of assuming the latest one.
+  async getPatientAlertById(alertId: string): Promise<any | undefined> {
+    const promptId = parseInt(alertId.replace(/^alert-/, ''));
+    const prompt = isNaN(promptId) ? undefined : await this.getPatientPromptById(promptId);
+
+    const alerts = await this.getPatientAlerts(prompt?.batchId);
+    return alerts.find(a => a.id === alertId);
+  }
+
   // Format alert message based on severity level
   formatSmsMessage(alert: any): string {
     const { patientName, age, variables, alertReasons, severity } = alert;
@@ -1001,7 +1969,7 @@ Your Healthcare Provider`;
     return this.updateSetting('alertPhone', phone);
   }
 
-  async sendAlert(alertId: string): Promise<any> {
+  async sendAlert(alertId: string, sentBy?: number): Promise<any> {
     try {
       // Get the configured alert phone number
       const alertPhone = await this.getAlertPhone();
@@ -1010,88 +1978,888 @@ Your Healthcare Provider`;
         throw new Error("Alert phone number not configured");
       }
 
-      // Get alert details from patient alerts (using the most recent batch)
-      const alerts = await this.getPatientAlerts();
-      const alert = alerts.find(a => a.id === alertId);
+      const alert = await this.getPatientAlertById(alertId);
 
       if (!alert) {
         throw new Error(`No alert found with ID ${alertId}`);
       }
 
+      if (alert.status === "sent" || alert.status === "delivered") {
+        throw new Error(`Alert for ${alert.patientName} was already sent`);
+      }
+
       const messageText = this.formatSmsMessage(alert);
 
-      try {
-        // Check for Twilio credentials
-        const accountSid = process.env.TWILIO_ACCOUNT_SID;
-        const authToken = process.env.TWILIO_AUTH_TOKEN;
-        const twilioPhone = process.env.TWILIO_PHONE_NUMBER;
+      // Claim the alert first so a double click or concurrent request can't page twice
+      const claimed = await this.claimAlertDispatch({
+        alertId,
+        batchId: alert.batchId ?? null,
+        patientId: alert.patientId,
+        patientName: alert.patientName,
+        severity: alert.severity,
+        recipient: alertPhone,
+        body: messageText,
+        sentBy: sentBy ?? null,
+      });
 
-        if (!accountSid || !authToken || !twilioPhone) {
-          throw new Error("Twilio credentials not configured");
-        }
+      if (!claimed) {
+        throw new Error(`Alert for ${alert.patientName} is already being sent or was sent`);
+      }
 
-        // Initialize Twilio client
-        const twilioClient = twilio(accountSid, authToken);
+      const dispatch = await this.deliverAlertDispatch(claimed);
 
-        // Send the message
-        const message = await twilioClient.messages.create({
-          body: messageText,
-          from: twilioPhone,
-          to: alertPhone
-        });
+      return {
+        success: true,
+        message: `Alert sent to ${alertPhone} for patient ${alert.patientName}`,
+        alertId: alertId,
+        sid: dispatch.twilioSid, // Include the Twilio SID in the response
+        dispatchId: dispatch.id,
+        patientName: alert.patientName
+      };
+    } catch (error) {
+      console.error(`Error in sendAlert:`, error);
+      throw error;
+    }
+  }
+
+  // Send an SMS through Twilio and record it in the dispatch audit trail
+  async sendTrackedSms(dispatchData: Omit<InsertAlertDispatch, "status">): Promise<AlertDispatch> {
+    // Record the attempt before talking to Twilio so failures are audited too
+    const dispatch = await this.createAlertDispatch({ ...dispatchData, status: "pending" });
+    return this.deliverAlertDispatch(dispatch);
+  }
 
-        console.log(`SMS alert sent: ${messageText} (SID: ${message.sid})`);
+  /**
+   * Record a pending dispatch for an alert unless one is already in flight or
+   * went out. Undefined if the alert was claimed by someone else. A pending
+   * dispatch older than PENDING_DISPATCH_STALE_MS was abandoned mid-send and
+   * no longer blocks.
+   */
+  async claimAlertDispatch(dispatchData: Omit<InsertAlertDispatch, "status">): Promise<AlertDispatch | undefined> {
+    const patientRecordId = await this.resolvePatientRecordId(dispatchData.patientId, dispatchData.patientRecordId);
+    const staleBefore = new Date(Date.now() - PENDING_DISPATCH_STALE_MS);
+
+    return await db.transaction(async (tx) => {
+      // Serialize claims for the same alert until this transaction commits
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${dispatchData.alertId}))`);
+
+      const [inFlight] = await tx.select({ id: alertDispatches.id })
+        .from(alertDispatches)
+        .where(and(
+          eq(alertDispatches.alertId, dispatchData.alertId),
+          or(
+            inArray(alertDispatches.status, ["sent", "delivered"]),
+            and(eq(alertDispatches.status, "pending"), gte(alertDispatches.createdAt, staleBefore)),
+          ),
+        ))
+        .limit(1);
+      if (inFlight) return undefined;
 
-        return {
-          success: true,
-          message: `Alert sent to ${alertPhone} for patient ${alert.patientName}`,
-          alertId: alertId,
-          sid: message.sid, // Include the Twilio SID in the response
-          patientName: alert.patientName
-        };
-      } catch (error) {
-        console.error(`Error sending SMS via Twilio:`, error);
-        throw error; // Re-throw the error for the route handler to catch
+      const [created] = await tx.insert(alertDispatches)
+        .values({ ...dispatchData, patientRecordId, status: "pending" })
+        .returning();
+      return created;
+    });
+  }
+
+  /**
+   * Send one SMS covering several alerts (e.g. a digest), recording a
+   * dispatch per alert so each patient's audit trail shows it. The dispatches
+   * share the Twilio SID and receive its status callbacks together.
+   */
+  async sendTrackedDigest(dispatches: Omit<InsertAlertDispatch, "status">[]): Promise<AlertDispatch[]> {
+    const pending: AlertDispatch[] = [];
+    for (const dispatchData of dispatches) {
+      pending.push(await this.createAlertDispatch({ ...dispatchData, status: "pending" }));
+    }
+    return this.deliverAlertDispatches(pending);
+  }
+
+  // Send a pending dispatch's SMS and record the outcome on it
+  private async deliverAlertDispatch(dispatch: AlertDispatch): Promise<AlertDispatch> {
+    const [sent] = await this.deliverAlertDispatches([dispatch]);
+    return sent;
+  }
+
+  // Send the SMS shared by pending dispatches (same recipient and body) and record the outcome on each
+  private async deliverAlertDispatches(dispatches: AlertDispatch[]): Promise<AlertDispatch[]> {
+    const [first] = dispatches;
+
+    try {
+      // Send the message, asking Twilio to report carrier delivery back to us
+      const message = await sendSms(first.recipient, first.body);
+
+      console.log(`SMS sent to ${first.recipient} (SID: ${message.sid})`);
+
+      const sent: AlertDispatch[] = [];
+      for (const dispatch of dispatches) {
+        sent.push(await this.updateAlertDispatch(dispatch.id, {
+          status: "sent",
+          twilioSid: message.sid,
+          deliveryStatus: message.status,
+          sentAt: new Date(),
+        }));
       }
+
+      // Log to the conversation thread so replies show up alongside what we sent
+      const single = dispatches.length === 1;
+      try {
+        await this.createSmsMessage({
+          direction: "outbound",
+          fromNumber: message.from,
+          toNumber: first.recipient,
+          body: first.body,
+          twilioSid: message.sid,
+          senderType: "system",
+          patientId: single ? first.patientId : null,
+          patientName: single ? first.patientName ?? null : null,
+          alertId: single ? first.alertId : null,
+          dispatchId: first.id,
+        });
+      } catch (logError) {
+        console.error("Error logging outbound SMS:", logError);
+      }
+
+      return sent;
     } catch (error) {
-      console.error(`Error in sendAlert:`, error);
-      throw error;
+      console.error(`Error sending SMS via Twilio:`, error);
+      for (const dispatch of dispatches) {
+        await this.updateAlertDispatch(dispatch.id, {
+          status: "failed",
+          failureReason: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error; // Re-throw the error for the caller to handle
     }
   }
 
-  async sendAllAlerts(alertIds: string[]): Promise<{ sent: number }> {
+  async sendAllAlerts(alertIds: string[], sentBy?: number): Promise<{ sent: number; skipped: number; failed: number }> {
     let sentCount = 0;
+    let skippedCount = 0;
+    let failedCount = 0;
+
+    // Never re-send alerts that already went out or are being sent
+    const latestDispatches = await this.getLatestAlertDispatches(alertIds);
+    const staleBefore = Date.now() - PENDING_DISPATCH_STALE_MS;
 
     for (const alertId of alertIds) {
+      const latest = latestDispatches.get(alertId);
+      const inFlight = latest?.status === "pending" && latest.createdAt.getTime() >= staleBefore;
+      if (latest?.status === "sent" || latest?.status === "delivered" || inFlight) {
+        skippedCount++;
+        continue;
+      }
+
       try {
-        await this.sendAlert(alertId);
+        await this.sendAlert(alertId, sentBy);
         sentCount++;
       } catch (error) {
         console.error(`Error sending alert ${alertId}:`, error);
+        failedCount++;
       }
     }
 
-    return { sent: sentCount };
+    return { sent: sentCount, skipped: skippedCount, failed: failedCount };
   }
 
-  // Monthly reports methods with sample data for demonstration
-  async getMonthlyReports(): Promise<any[]> {
-    // Query database for patient batches to count for monthly stats, selecting specific columns
-    const batches = await db.select({
-      id: patientBatches.id,
-      batchId: patientBatches.batchId,
-      fileName: patientBatches.fileName,
-      createdAt: patientBatches.createdAt
-    }).from(patientBatches);
+  // Alert dispatch audit methods
+  async createAlertDispatch(dispatch: InsertAlertDispatch): Promise<AlertDispatch> {
+    const patientRecordId = await this.resolvePatientRecordId(dispatch.patientId, dispatch.patientRecordId);
+    const [created] = await db.insert(alertDispatches)
+      .values({ ...dispatch, patientRecordId })
+      .returning();
+    return created;
+  }
 
-    // Get count from database using drizzle ORM instead of raw query
-    const countResult = await db.select({ count: sql`COUNT(*)` }).from(patientPrompts);
-    const patientCount = parseInt(String(countResult[0]?.count || '0'), 10) || 0;
+  async updateAlertDispatch(id: number, updates: Partial<InsertAlertDispatch>): Promise<AlertDispatch> {
+    const [updated] = await db.update(alertDispatches)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(alertDispatches.id, id))
+      .returning();
 
-    // Only use real data from the database to generate reports
-    if (batches.length > 0) {
-      // Group batches by month and year
-      const reportsByMonth: Record<string, any[]> = {};
+    if (!updated) {
+      throw new Error(`Alert dispatch with id ${id} not found`);
+    }
+
+    return updated;
+  }
+
+  async getAlertDispatches(filter: { alertId?: string; batchId?: string; patientId?: string } = {}): Promise<AlertDispatch[]> {
+    const conditions = [];
+    if (filter.alertId) conditions.push(eq(alertDispatches.alertId, filter.alertId));
+    if (filter.batchId) conditions.push(eq(alertDispatches.batchId, filter.batchId));
+    if (filter.patientId) conditions.push(eq(alertDispatches.patientId, filter.patientId));
+
+    return await db.select()
+      .from(alertDispatches)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(alertDispatches.createdAt), desc(alertDispatches.id));
+  }
+
+  async getAlertDispatchesByTwilioSid(twilioSid: string): Promise<AlertDispatch[]> {
+    return await db.select()
+      .from(alertDispatches)
+      .where(eq(alertDispatches.twilioSid, twilioSid))
+      .orderBy(alertDispatches.id);
+  }
+
+  // Apply a Twilio status callback to the dispatches it refers to (several for a digest)
+  async recordAlertDeliveryStatus(
+    twilioSid: string,
+    messageStatus: string,
+    errorCode?: string | null
+  ): Promise<AlertDispatch | undefined> {
+    const dispatches = await this.getAlertDispatchesByTwilioSid(twilioSid);
+
+    if (dispatches.length === 0) {
+      return undefined;
+    }
+
+    const updates: Partial<InsertAlertDispatch> = { deliveryStatus: messageStatus };
+
+    if (messageStatus === "delivered") {
+      updates.status = "delivered";
+      updates.deliveredAt = new Date();
+    } else if (messageStatus === "undelivered" || messageStatus === "failed") {
+      updates.status = "failed";
+      updates.errorCode = errorCode || null;
+      updates.failureReason = `Carrier reported message ${messageStatus}` + (errorCode ? ` (error ${errorCode})` : "");
+    }
+
+    // Callbacks can arrive out of order - never move back from a final state
+    const finalStatuses = ["delivered", "undelivered", "failed"];
+    const recorded: AlertDispatch[] = [];
+    for (const dispatch of dispatches) {
+      if (dispatch.deliveryStatus && finalStatuses.includes(dispatch.deliveryStatus) && !finalStatuses.includes(messageStatus)) {
+        recorded.push(dispatch);
+      } else {
+        recorded.push(await this.updateAlertDispatch(dispatch.id, updates));
+      }
+    }
+
+    return recorded[0];
+  }
+
+  // Patient message delivery methods
+  async createMessageDelivery(delivery: InsertMessageDelivery): Promise<MessageDelivery> {
+    const patientRecordId = await this.resolvePatientRecordId(delivery.patientId, delivery.patientRecordId);
+    const [created] = await db.insert(messageDeliveries)
+      .values({ ...delivery, patientRecordId })
+      .returning();
+    return created;
+  }
+
+  async updateMessageDelivery(id: number, updates: Partial<InsertMessageDelivery>): Promise<MessageDelivery> {
+    const [updated] = await db.update(messageDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(messageDeliveries.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Message delivery with id ${id} not found`);
+    }
+
+    return updated;
+  }
+
+  // Move a scheduled delivery to sending; undefined if someone else already picked it up
+  async claimMessageDelivery(id: number): Promise<MessageDelivery | undefined> {
+    const [claimed] = await db.update(messageDeliveries)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(and(eq(messageDeliveries.id, id), eq(messageDeliveries.status, "scheduled")))
+      .returning();
+    return claimed;
+  }
+
+  // Put deliveries left in sending by a process that died back on the schedule
+  async requeueSendingMessageDeliveries(updatedBefore: Date, now: Date = new Date()): Promise<number> {
+    const requeued = await db.update(messageDeliveries)
+      .set({ status: "scheduled", scheduledFor: now, updatedAt: new Date() })
+      .where(and(
+        eq(messageDeliveries.status, "sending"),
+        lte(messageDeliveries.updatedAt, updatedBefore)
+      ))
+      .returning({ id: messageDeliveries.id });
+    return requeued.length;
+  }
+
+  async getMessageDeliveries(
+    filter: { patientId?: string; batchId?: string; patientPromptId?: number; limit?: number } = {}
+  ): Promise<MessageDelivery[]> {
+    const conditions = [];
+    if (filter.patientId) conditions.push(eq(messageDeliveries.patientId, filter.patientId));
+    if (filter.batchId) conditions.push(eq(messageDeliveries.batchId, filter.batchId));
+    if (filter.patientPromptId) conditions.push(eq(messageDeliveries.patientPromptId, filter.patientPromptId));
+
+    return await db.select()
+      .from(messageDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(messageDeliveries.createdAt), desc(messageDeliveries.id))
+      .limit(filter.limit ?? 200);
+  }
+
+  // Deliveries held for quiet hours whose time has come
+  async getDueMessageDeliveries(now: Date = new Date()): Promise<MessageDelivery[]> {
+    return await db.select()
+      .from(messageDeliveries)
+      .where(and(
+        eq(messageDeliveries.status, "scheduled"),
+        lte(messageDeliveries.scheduledFor, now)
+      ))
+      .orderBy(messageDeliveries.scheduledFor);
+  }
+
+  // Recurring call schedule methods
+  async getCallSchedules(): Promise<CallSchedule[]> {
+    return await db.select().from(callSchedules).orderBy(callSchedules.patientId);
+  }
+
+  async getCallSchedule(patientId: string): Promise<CallSchedule | undefined> {
+    const [schedule] = await db.select().from(callSchedules).where(eq(callSchedules.patientId, patientId));
+    return schedule;
+  }
+
+  async upsertCallSchedule(schedule: InsertCallSchedule & { patientId: string; createdBy?: number }): Promise<CallSchedule> {
+    const patientRecordId = await this.resolvePatientRecordId(schedule.patientId);
+    const { createdBy, ...updates } = schedule;
+    const [saved] = await db.insert(callSchedules)
+      .values({ ...schedule, patientRecordId })
+      .onConflictDoUpdate({
+        target: callSchedules.patientId,
+        set: { ...updates, patientRecordId, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Remove a patient's schedule along with calls it hasn't placed yet; pending retries are cancelled
+  async deleteCallSchedule(patientId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [schedule] = await tx.select().from(callSchedules).where(eq(callSchedules.patientId, patientId));
+      if (!schedule) return false;
+
+      await tx.delete(scheduledCalls)
+        .where(and(eq(scheduledCalls.scheduleId, schedule.id), eq(scheduledCalls.status, "scheduled")));
+      await tx.update(scheduledCalls)
+        .set({ status: "cancelled", failureReason: "Call schedule was removed", updatedAt: new Date() })
+        .where(and(eq(scheduledCalls.scheduleId, schedule.id), eq(scheduledCalls.status, "retry")));
+      await tx.delete(callSchedules).where(eq(callSchedules.id, schedule.id));
+      return true;
+    });
+  }
+
+  // Drop calls not yet attempted, so they are re-planned from the current schedule
+  async deleteUnstartedScheduledCalls(scheduleId: number): Promise<number> {
+    const deleted = await db.delete(scheduledCalls)
+      .where(and(eq(scheduledCalls.scheduleId, scheduleId), eq(scheduledCalls.status, "scheduled")))
+      .returning({ id: scheduledCalls.id });
+    return deleted.length;
+  }
+
+  // Undefined if the schedule already has a call for that window
+  async createScheduledCall(call: InsertScheduledCall): Promise<ScheduledCall | undefined> {
+    const patientRecordId = await this.resolvePatientRecordId(call.patientId, call.patientRecordId);
+    const [created] = await db.insert(scheduledCalls)
+      .values({ ...call, patientRecordId })
+      .onConflictDoNothing({ target: [scheduledCalls.scheduleId, scheduledCalls.windowStartsAt] })
+      .returning();
+    return created;
+  }
+
+  async updateScheduledCall(id: number, updates: Partial<InsertScheduledCall>): Promise<ScheduledCall> {
+    const [updated] = await db.update(scheduledCalls)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scheduledCalls.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Scheduled call with id ${id} not found`);
+    }
+
+    return updated;
+  }
+
+  // Move a due call to calling; undefined if someone else already picked it up
+  async claimScheduledCall(id: number): Promise<ScheduledCall | undefined> {
+    const [claimed] = await db.update(scheduledCalls)
+      .set({ status: "calling", updatedAt: new Date() })
+      .where(and(eq(scheduledCalls.id, id), inArray(scheduledCalls.status, ["scheduled", "retry"])))
+      .returning();
+    return claimed;
+  }
+
+  async getScheduledCalls(
+    filter: { patientId?: string; scheduleId?: number; statuses?: ScheduledCallStatus[]; from?: Date; to?: Date } = {}
+  ): Promise<ScheduledCall[]> {
+    const conditions = [];
+    if (filter.patientId) conditions.push(eq(scheduledCalls.patientId, filter.patientId));
+    if (filter.scheduleId) conditions.push(eq(scheduledCalls.scheduleId, filter.scheduleId));
+    if (filter.statuses?.length) conditions.push(inArray(scheduledCalls.status, filter.statuses));
+    if (filter.from) conditions.push(gte(scheduledCalls.windowStartsAt, filter.from));
+    if (filter.to) conditions.push(lte(scheduledCalls.windowStartsAt, filter.to));
+
+    return await db.select()
+      .from(scheduledCalls)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(scheduledCalls.windowStartsAt, scheduledCalls.id);
+  }
+
+  async getLatestScheduledCall(scheduleId: number): Promise<ScheduledCall | undefined> {
+    const [latest] = await db.select()
+      .from(scheduledCalls)
+      .where(eq(scheduledCalls.scheduleId, scheduleId))
+      .orderBy(desc(scheduledCalls.windowStartsAt))
+      .limit(1);
+    return latest;
+  }
+
+  // Calls and retries whose time has come
+  async getDueScheduledCalls(now: Date = new Date()): Promise<ScheduledCall[]> {
+    return await db.select()
+      .from(scheduledCalls)
+      .where(and(
+        inArray(scheduledCalls.status, ["scheduled", "retry"]),
+        lte(scheduledCalls.nextAttemptAt, now)
+      ))
+      .orderBy(scheduledCalls.nextAttemptAt);
+  }
+
+  async getScheduledCallByCallId(callId: string): Promise<ScheduledCall | undefined> {
+    const [call] = await db.select().from(scheduledCalls).where(eq(scheduledCalls.callId, callId));
+    return call;
+  }
+
+  /**
+   * Apply a Twilio status callback to the patient message delivery that sent
+   * the segment. A delivery counts as delivered once every segment is.
+   */
+  async recordMessageDeliveryStatus(
+    twilioSid: string,
+    messageStatus: string,
+    errorCode?: string | null
+  ): Promise<MessageDelivery | undefined> {
+    const [delivery] = await db.select()
+      .from(messageDeliveries)
+      .where(sql`${messageDeliveries.providerMessageIds} @> ${JSON.stringify([twilioSid])}::jsonb`)
+      .limit(1);
+
+    if (!delivery || delivery.status === "failed") {
+      return delivery;
+    }
+
+    if (messageStatus === "delivered") {
+      const deliveredMessageIds = Array.from(new Set([...delivery.deliveredMessageIds, twilioSid]));
+      // Segments still being sent aren't in providerMessageIds yet
+      const allDelivered = delivery.providerMessageIds.length >= delivery.segmentCount &&
+        delivery.providerMessageIds.every((id) => deliveredMessageIds.includes(id));
+      return await this.updateMessageDelivery(delivery.id, {
+        deliveredMessageIds,
+        ...(allDelivered && { status: "delivered", deliveredAt: new Date() }),
+      });
+    }
+
+    if (messageStatus === "undelivered" || messageStatus === "failed") {
+      return await this.updateMessageDelivery(delivery.id, {
+        status: "failed",
+        failureReason: `Carrier reported segment ${twilioSid} ${messageStatus}` + (errorCode ? ` (error ${errorCode})` : ""),
+      });
+    }
+
+    return delivery;
+  }
+
+  // Most recent dispatch per alert, keyed by alert ID
+  async getLatestAlertDispatches(alertIds: string[]): Promise<Map<string, AlertDispatch>> {
+    const latest = new Map<string, AlertDispatch>();
+    if (alertIds.length === 0) return latest;
+
+    try {
+      const dispatches = await db.select()
+        .from(alertDispatches)
+        .where(inArray(alertDispatches.alertId, alertIds))
+        .orderBy(desc(alertDispatches.createdAt), desc(alertDispatches.id));
+
+      for (const dispatch of dispatches) {
+        if (!latest.has(dispatch.alertId)) {
+          latest.set(dispatch.alertId, dispatch);
+        }
+      }
+    } catch (error) {
+      console.error("Error loading alert dispatches:", error);
+    }
+
+    return latest;
+  }
+
+  // On-call rotation methods
+  async getOnCallRotations(): Promise<OnCallRotation[]> {
+    return await db.select()
+      .from(onCallRotations)
+      .orderBy(onCallRotations.role, onCallRotations.id);
+  }
+
+  async createOnCallRotation(rotation: InsertOnCallRotation): Promise<OnCallRotation> {
+    const [created] = await db.insert(onCallRotations)
+      .values(rotation)
+      .returning();
+    return created;
+  }
+
+  async updateOnCallRotation(id: number, rotation: InsertOnCallRotation): Promise<OnCallRotation> {
+    const [updated] = await db.update(onCallRotations)
+      .set({ ...rotation, updatedAt: new Date() })
+      .where(eq(onCallRotations.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`On-call rotation with id ${id} not found`);
+    }
+
+    return updated;
+  }
+
+  async deleteOnCallRotation(id: number): Promise<void> {
+    await db.delete(onCallRotations).where(eq(onCallRotations.id, id));
+  }
+
+  // Escalation policy methods
+  async getEscalationPolicies(): Promise<EscalationPolicy[]> {
+    return await db.select()
+      .from(escalationPolicies)
+      .orderBy(escalationPolicies.id);
+  }
+
+  async upsertEscalationPolicy(policy: InsertEscalationPolicy): Promise<EscalationPolicy> {
+    const [saved] = await db.insert(escalationPolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: escalationPolicies.severity,
+        set: { ...policy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Alert escalation methods
+  async createAlertEscalation(escalation: InsertAlertEscalation): Promise<AlertEscalation> {
+    const patientRecordId = await this.resolvePatientRecordId(escalation.patientId, escalation.patientRecordId);
+    const [created] = await db.insert(alertEscalations)
+      .values({ ...escalation, patientRecordId })
+      .returning();
+    return created;
+  }
+
+  async updateAlertEscalation(id: number, updates: Partial<InsertAlertEscalation>): Promise<AlertEscalation> {
+    const [updated] = await db.update(alertEscalations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(alertEscalations.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Alert escalation with id ${id} not found`);
+    }
+
+    return updated;
+  }
+
+  async getAlertEscalation(id: number): Promise<AlertEscalation | undefined> {
+    const [escalation] = await db.select()
+      .from(alertEscalations)
+      .where(eq(alertEscalations.id, id));
+    return escalation;
+  }
+
+  async getAlertEscalations(filter: { status?: string; severity?: string; batchId?: string; limit?: number } = {}): Promise<AlertEscalation[]> {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(alertEscalations.status, filter.status));
+    if (filter.severity) conditions.push(eq(alertEscalations.severity, filter.severity));
+    if (filter.batchId) conditions.push(eq(alertEscalations.batchId, filter.batchId));
+
+    return await db.select()
+      .from(alertEscalations)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(alertEscalations.createdAt), desc(alertEscalations.id))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getEscalationByAlertId(alertId: string): Promise<AlertEscalation | undefined> {
+    const [escalation] = await db.select()
+      .from(alertEscalations)
+      .where(eq(alertEscalations.alertId, alertId))
+      .orderBy(desc(alertEscalations.createdAt))
+      .limit(1);
+    return escalation;
+  }
+
+  // Only open escalations can be acknowledged by code
+  async getEscalationByAckCode(ackCode: string): Promise<AlertEscalation | undefined> {
+    const [escalation] = await db.select()
+      .from(alertEscalations)
+      .where(and(
+        eq(alertEscalations.ackCode, ackCode),
+        inArray(alertEscalations.status, ["active", "exhausted"])
+      ))
+      .orderBy(desc(alertEscalations.createdAt))
+      .limit(1);
+    return escalation;
+  }
+
+  async getDueEscalations(status: string, now: Date = new Date()): Promise<AlertEscalation[]> {
+    return await db.select()
+      .from(alertEscalations)
+      .where(and(
+        eq(alertEscalations.status, status),
+        lte(alertEscalations.nextActionAt, now)
+      ))
+      .orderBy(alertEscalations.nextActionAt);
+  }
+
+  async createEscalationEvent(event: InsertEscalationEvent): Promise<EscalationEvent> {
+    const [created] = await db.insert(escalationEvents)
+      .values(event)
+      .returning();
+    return created;
+  }
+
+  async getEscalationEvents(escalationId: number): Promise<EscalationEvent[]> {
+    return await db.select()
+      .from(escalationEvents)
+      .where(eq(escalationEvents.escalationId, escalationId))
+      .orderBy(escalationEvents.createdAt, escalationEvents.id);
+  }
+
+  // SMS conversation methods
+  async createSmsMessage(message: InsertSmsMessage): Promise<SmsMessage> {
+    const [created] = await db.insert(smsMessages)
+      .values(message)
+      .returning();
+    return created;
+  }
+
+  // Undefined if Twilio already delivered this message (its MessageSid is unique for inbound messages)
+  async createInboundSmsMessage(message: InsertSmsMessage): Promise<SmsMessage | undefined> {
+    const [created] = await db.insert(smsMessages)
+      .values({ ...message, direction: "inbound" })
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  async updateSmsMessage(id: number, updates: Partial<InsertSmsMessage>): Promise<SmsMessage> {
+    const [updated] = await db.update(smsMessages)
+      .set(updates)
+      .where(eq(smsMessages.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`SMS message with id ${id} not found`);
+    }
+
+    return updated;
+  }
+
+  async getSmsMessages(filter: { patientId?: string; phone?: string; limit?: number }): Promise<SmsMessage[]> {
+    const conditions = [];
+    if (filter.patientId) conditions.push(eq(smsMessages.patientId, filter.patientId));
+    if (filter.phone) {
+      conditions.push(or(eq(smsMessages.fromNumber, filter.phone), eq(smsMessages.toNumber, filter.phone)));
+    }
+
+    // Newest first from the database, returned oldest first for display as a thread
+    const messages = await db.select()
+      .from(smsMessages)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(smsMessages.createdAt), desc(smsMessages.id))
+      .limit(filter.limit ?? 200);
+
+    return messages.reverse();
+  }
+
+  // Latest message of each conversation, keyed by patient when known, otherwise by the other party's number
+  async getSmsThreads(limit: number = 50): Promise<SmsMessage[]> {
+    const recent = await db.select()
+      .from(smsMessages)
+      .orderBy(desc(smsMessages.createdAt), desc(smsMessages.id))
+      .limit(1000);
+
+    const threads = new Map<string, SmsMessage>();
+    for (const message of recent) {
+      const counterpart = message.direction === "inbound" ? message.fromNumber : message.toNumber;
+      const key = message.patientId ? `patient:${message.patientId}` : `phone:${counterpart}`;
+      if (!threads.has(key)) {
+        threads.set(key, message);
+      }
+    }
+
+    return Array.from(threads.values()).slice(0, limit);
+  }
+
+  async getLatestDispatchToRecipient(phone: string): Promise<AlertDispatch | undefined> {
+    const [dispatch] = await db.select()
+      .from(alertDispatches)
+      .where(eq(alertDispatches.recipient, phone))
+      .orderBy(desc(alertDispatches.createdAt))
+      .limit(1);
+    return dispatch;
+  }
+
+  // Match a phone number to a patient: registry first, then the numbers we've called them on
+  async findPatientByPhone(phone: string): Promise<{ patientId: string; patientName: string } | null> {
+    const [patient] = await db.select({
+      patientId: patients.patientId,
+      patientName: patients.name,
+    })
+      .from(patients)
+      .where(eq(patients.phoneNumber, phone))
+      .orderBy(desc(patients.updatedAt))
+      .limit(1);
+
+    if (patient) return patient;
+
+    const [call] = await db.select({
+      patientId: callHistory.patientId,
+      patientName: callHistory.patientName,
+    })
+      .from(callHistory)
+      .where(eq(callHistory.phoneNumber, phone))
+      .orderBy(desc(callHistory.callDate))
+      .limit(1);
+
+    return call ?? null;
+  }
+
+  // Triage rule methods
+  async getTriageRules(): Promise<TriageRule[]> {
+    return await db.select()
+      .from(triageRules)
+      .orderBy(triageRules.variable, desc(triageRules.severity), triageRules.id);
+  }
+
+  // Rules used for evaluation - falls back to the built-in bands until staff configure their own
+  async getActiveTriageRules(): Promise<ThresholdRule[]> {
+    try {
+      const rules = await this.getTriageRules();
+      if (rules.length === 0) {
+        console.log('No triage rules configured, using built-in default thresholds');
+        return DEFAULT_TRIAGE_RULES;
+      }
+      return rules;
+    } catch (error) {
+      console.error("Error loading triage rules, using built-in default thresholds:", error);
+      return DEFAULT_TRIAGE_RULES;
+    }
+  }
+
+  async createTriageRule(rule: InsertTriageRule): Promise<TriageRule> {
+    const [newRule] = await db.insert(triageRules)
+      .values(rule)
+      .returning();
+    return newRule;
+  }
+
+  async updateTriageRule(id: number, rule: InsertTriageRule): Promise<TriageRule> {
+    const [updatedRule] = await db.update(triageRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(triageRules.id, id))
+      .returning();
+
+    if (!updatedRule) {
+      throw new Error(`Triage rule with id ${id} not found`);
+    }
+
+    return updatedRule;
+  }
+
+  async deleteTriageRule(id: number): Promise<void> {
+    await db.delete(triageRules).where(eq(triageRules.id, id));
+  }
+
+  async restoreDefaultTriageRules(): Promise<TriageRule[]> {
+    await db.delete(triageRules);
+    await db.insert(triageRules).values(DEFAULT_TRIAGE_RULES);
+    return this.getTriageRules();
+  }
+
+  // Import profile methods
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    return await db.select()
+      .from(importProfiles)
+      .orderBy(importProfiles.name);
+  }
+
+  async getImportProfile(id: number): Promise<ImportProfile | undefined> {
+    const [profile] = await db.select().from(importProfiles).where(eq(importProfiles.id, id));
+    return profile;
+  }
+
+  // Most recently used profile for a header layout, if several share one
+  async getImportProfileBySignature(headerSignature: string): Promise<ImportProfile | undefined> {
+    const [profile] = await db.select()
+      .from(importProfiles)
+      .where(eq(importProfiles.headerSignature, headerSignature))
+      .orderBy(sql`${importProfiles.lastUsedAt} DESC NULLS LAST`, desc(importProfiles.updatedAt))
+      .limit(1);
+    return profile;
+  }
+
+  // Saving under an existing name replaces that profile's mapping
+  async saveImportProfile(profile: InsertImportProfile): Promise<ImportProfile> {
+    const [saved] = await db.insert(importProfiles)
+      .values(profile)
+      .onConflictDoUpdate({
+        target: importProfiles.name,
+        set: {
+          headerSignature: profile.headerSignature,
+          headers: profile.headers,
+          mapping: profile.mapping,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateImportProfile(id: number, profile: InsertImportProfile): Promise<ImportProfile> {
+    const [updatedProfile] = await db.update(importProfiles)
+      .set({ ...profile, updatedAt: new Date() })
+      .where(eq(importProfiles.id, id))
+      .returning();
+
+    if (!updatedProfile) {
+      throw new Error(`Import profile with id ${id} not found`);
+    }
+
+    return updatedProfile;
+  }
+
+  async deleteImportProfile(id: number): Promise<void> {
+    await db.delete(importProfiles).where(eq(importProfiles.id, id));
+  }
+
+  async markImportProfileUsed(id: number): Promise<void> {
+    await db.update(importProfiles)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(importProfiles.id, id));
+  }
+
+  // Monthly reports methods with sample data for demonstration
+  async getMonthlyReports(): Promise<any[]> {
+    // Query database for patient batches to count for monthly stats, selecting specific columns
+    const batches = await db.select({
+      id: patientBatches.id,
+      batchId: patientBatches.batchId,
+      fileName: patientBatches.fileName,
+      createdAt: patientBatches.createdAt
+    }).from(patientBatches);
+
+    // Get count from database using drizzle ORM instead of raw query
+    const countResult = await db.select({ count: sql`COUNT(*)` }).from(patientPrompts);
+    const patientCount = parseInt(String(countResult[0]?.count || '0'), 10) || 0;
+
+    // Only use real data from the database to generate reports
+    if (batches.length > 0) {
+      // Group batches by month and year
+      const reportsByMonth: Record<string, any[]> = {};
 
       for (const batch of batches) {
         if (batch.createdAt) {
@@ -1207,9 +2975,10 @@ Your Healthcare Provider`;
 
   // Call history methods
   async createCallHistory(callData: InsertCallHistory): Promise<CallHistory> {
+    const patientRecordId = await this.resolvePatientRecordId(callData.patientId, callData.patientRecordId);
     const [callRecord] = await db
       .insert(callHistory)
-      .values(callData)
+      .values({ ...callData, patientRecordId })
       .returning();
     return callRecord;
   }
@@ -1251,6 +3020,203 @@ Your Healthcare Provider`;
     return updatedCall;
   }
 
+  // Prompt version history methods
+  private async recordPromptVersion(
+    kind: PromptKind,
+    batchId: string | undefined,
+    content: string,
+    change: PromptVersionChange
+  ): Promise<PromptVersion> {
+    const scope = batchId
+      ? eq(promptVersions.batchId, batchId)
+      : sql`${promptVersions.batchId} IS NULL`;
+
+    const [version] = await db.insert(promptVersions)
+      .values({
+        kind,
+        batchId: batchId || null,
+        // Numbered per kind and batch, so "version 3" means the same thing to everyone
+        version: sql`(SELECT COALESCE(MAX(${promptVersions.version}), 0) + 1 FROM ${promptVersions} WHERE ${promptVersions.kind} = ${kind} AND ${scope})`,
+        content,
+        authorId: change.authorId ?? null,
+        changeNote: change.changeNote || null,
+        restoredFromId: change.restoredFromId ?? null,
+      })
+      .returning();
+
+    console.log(`Recorded ${kind} prompt version ${version.version} (batchId: ${batchId || 'global'})`);
+    return version;
+  }
+
+  async getPromptVersions(kind: PromptKind, batchId?: string): Promise<Array<PromptVersion & { authorName: string | null }>> {
+    const rows = await db
+      .select({ version: promptVersions, authorName: users.username })
+      .from(promptVersions)
+      .leftJoin(users, eq(promptVersions.authorId, users.id))
+      .where(and(
+        eq(promptVersions.kind, kind),
+        batchId ? eq(promptVersions.batchId, batchId) : sql`${promptVersions.batchId} IS NULL`
+      ))
+      .orderBy(desc(promptVersions.version));
+
+    return rows.map((row) => ({ ...row.version, authorName: row.authorName }));
+  }
+
+  async getPromptVersion(id: number): Promise<PromptVersion | null> {
+    const [version] = await db.select().from(promptVersions).where(eq(promptVersions.id, id));
+    return version || null;
+  }
+
+  // The version in use for a batch: its own latest version, else the latest global one
+  async getCurrentPromptVersion(kind: PromptKind, batchId?: string): Promise<PromptVersion | null> {
+    if (batchId) {
+      const [batchVersion] = await db.select().from(promptVersions)
+        .where(and(eq(promptVersions.kind, kind), eq(promptVersions.batchId, batchId)))
+        .orderBy(desc(promptVersions.version))
+        .limit(1);
+      if (batchVersion) return batchVersion;
+    }
+
+    const [globalVersion] = await db.select().from(promptVersions)
+      .where(and(eq(promptVersions.kind, kind), sql`${promptVersions.batchId} IS NULL`))
+      .orderBy(desc(promptVersions.version))
+      .limit(1);
+    return globalVersion || null;
+  }
+
+  // Save new text for any prompt kind, returning the version it became
+  async savePrompt(kind: PromptKind, content: string, batchId?: string, change: PromptVersionChange = {}): Promise<PromptVersion> {
+    switch (kind) {
+      case "caregiverSystem":
+        await this.updateSystemPrompt(content, batchId, change);
+        break;
+      case "patientSystem":
+        await this.updatePatientSystemPrompt(content, batchId, change);
+        break;
+      case "trendReport":
+        await this.updateTrendReportPrompt(content, batchId, change);
+        break;
+      case "voiceAgent":
+        await this.updateVoiceAgentTemplate(content, change);
+        break;
+      default:
+        throw new Error(`Unknown prompt kind ${kind}`);
+    }
+
+    const saved = await this.getCurrentPromptVersion(kind, batchId);
+    return saved!;
+  }
+
+  // Make an earlier version live again by saving its text as a new version
+  async restorePromptVersion(id: number, authorId?: number | null): Promise<PromptVersion> {
+    const target = await this.getPromptVersion(id);
+    if (!target) {
+      throw new Error(`Prompt version with id ${id} not found`);
+    }
+
+    return this.savePrompt(target.kind as PromptKind, target.content, target.batchId || undefined, {
+      authorId: authorId ?? null,
+      changeNote: `Rolled back to version ${target.version}`,
+      restoredFromId: target.id,
+    });
+  }
+
+  // Prompt experiment methods
+  async createPromptExperiment(
+    experiment: InsertPromptExperiment,
+    variants: Omit<InsertPromptExperimentVariant, "experimentId">[]
+  ): Promise<PromptExperiment> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(promptExperiments).values(experiment).returning();
+      await tx.insert(promptExperimentVariants).values(
+        variants.map((variant) => ({ ...variant, experimentId: created.id }))
+      );
+      return created;
+    });
+  }
+
+  async getPromptExperiments(): Promise<PromptExperiment[]> {
+    return db.select().from(promptExperiments).orderBy(desc(promptExperiments.createdAt));
+  }
+
+  async getPromptExperiment(id: number): Promise<PromptExperiment | null> {
+    const [experiment] = await db.select().from(promptExperiments).where(eq(promptExperiments.id, id));
+    return experiment || null;
+  }
+
+  async getPromptExperimentsByStatus(status: string): Promise<PromptExperiment[]> {
+    return db.select().from(promptExperiments).where(eq(promptExperiments.status, status));
+  }
+
+  async updatePromptExperiment(id: number, updates: Partial<InsertPromptExperiment>): Promise<PromptExperiment> {
+    const [updated] = await db.update(promptExperiments)
+      .set(updates)
+      .where(eq(promptExperiments.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Prompt experiment with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  async getPromptExperimentVariants(experimentId: number): Promise<PromptExperimentVariant[]> {
+    return db.select().from(promptExperimentVariants)
+      .where(eq(promptExperimentVariants.experimentId, experimentId))
+      .orderBy(promptExperimentVariants.id);
+  }
+
+  async getPromptExperimentOutputs(experimentId: number): Promise<PromptExperimentOutput[]> {
+    return db.select().from(promptExperimentOutputs)
+      .where(eq(promptExperimentOutputs.experimentId, experimentId))
+      .orderBy(promptExperimentOutputs.patientId, promptExperimentOutputs.variantId);
+  }
+
+  async getPromptExperimentOutput(id: number): Promise<PromptExperimentOutput | undefined> {
+    const [output] = await db.select().from(promptExperimentOutputs).where(eq(promptExperimentOutputs.id, id));
+    return output;
+  }
+
+  async createPromptExperimentOutput(output: InsertPromptExperimentOutput): Promise<PromptExperimentOutput> {
+    const [created] = await db.insert(promptExperimentOutputs).values(output).returning();
+    return created;
+  }
+
+  async updatePromptExperimentOutput(id: number, updates: Partial<InsertPromptExperimentOutput>): Promise<PromptExperimentOutput> {
+    const [updated] = await db.update(promptExperimentOutputs)
+      .set(updates)
+      .where(eq(promptExperimentOutputs.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Prompt experiment output with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  // One winner per patient: picking an output clears the pick on the other variants' outputs
+  async pickPromptExperimentWinner(outputId: number, reviewedBy?: number | null): Promise<PromptExperimentOutput> {
+    return db.transaction(async (tx) => {
+      const [output] = await tx.select().from(promptExperimentOutputs).where(eq(promptExperimentOutputs.id, outputId));
+      if (!output) {
+        throw new Error(`Prompt experiment output with id ${outputId} not found`);
+      }
+
+      await tx.update(promptExperimentOutputs)
+        .set({ isWinner: false })
+        .where(and(
+          eq(promptExperimentOutputs.experimentId, output.experimentId),
+          eq(promptExperimentOutputs.patientId, output.patientId)
+        ));
+
+      const [winner] = await tx.update(promptExperimentOutputs)
+        .set({ isWinner: true, reviewedBy: reviewedBy ?? null, reviewedAt: new Date() })
+        .where(eq(promptExperimentOutputs.id, outputId))
+        .returning();
+      return winner;
+    });
+  }
+
   // Voice agent template methods
   async getVoiceAgentTemplate(): Promise<string> {
     try {
@@ -1292,15 +3258,125 @@ IMPORTANT: You have access to their latest health data and personalized care rec
     }
   }
 
-  async updateVoiceAgentTemplate(template: string): Promise<void> {
+  async updateVoiceAgentTemplate(template: string, change: PromptVersionChange = {}): Promise<void> {
     try {
       await this.updateSetting('voice_agent_template', template);
+      await this.recordPromptVersion("voiceAgent", undefined, template, change);
     } catch (error) {
       console.error("Error updating voice agent template:", error);
       throw error;
     }
   }
 
+  async createCallFlag(flag: InsertCallFlag & {
+    callId: string;
+    patientId: string;
+    transcriptExcerpt?: string | null;
+    flaggedBy?: number;
+  }): Promise<CallFlag> {
+    const patientRecordId = await this.resolvePatientRecordId(flag.patientId);
+    const [created] = await db.insert(callFlags)
+      .values({ ...flag, patientRecordId })
+      .returning();
+    return created;
+  }
+
+  async getCallFlags(callId: string): Promise<CallFlag[]> {
+    return await db.select()
+      .from(callFlags)
+      .where(eq(callFlags.callId, callId))
+      .orderBy(callFlags.createdAt, callFlags.id);
+  }
+
+  // Undefined if a report for the same tool call was already saved
+  async createPatientCallReport(report: InsertPatientCallReport): Promise<PatientCallReport | undefined> {
+    const patientRecordId = await this.resolvePatientRecordId(report.patientId, report.patientRecordId);
+    const [created] = await db.insert(patientCallReports)
+      .values({ ...report, patientRecordId })
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  async getPatientCallReportByToolCallId(toolCallId: string): Promise<PatientCallReport | undefined> {
+    const [report] = await db.select()
+      .from(patientCallReports)
+      .where(eq(patientCallReports.toolCallId, toolCallId));
+    return report;
+  }
+
+  async updatePatientCallReport(id: number, updates: Partial<InsertPatientCallReport>): Promise<PatientCallReport> {
+    const [report] = await db.update(patientCallReports)
+      .set(updates)
+      .where(eq(patientCallReports.id, id))
+      .returning();
+
+    if (!report) {
+      throw new Error(`Patient call report with id ${id} not found`);
+    }
+
+    return report;
+  }
+
+  async getPatientCallReports(filter: { patientId?: string; callId?: string; limit?: number }): Promise<PatientCallReport[]> {
+    const conditions = [];
+    if (filter.patientId) conditions.push(eq(patientCallReports.patientId, filter.patientId));
+    if (filter.callId) conditions.push(eq(patientCallReports.callId, filter.callId));
+
+    return await db.select()
+      .from(patientCallReports)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(patientCallReports.createdAt), desc(patientCallReports.id))
+      .limit(filter.limit ?? 100);
+  }
+
+  // Re-summarizing a call replaces what was extracted from it before
+  async upsertCallExtraction(extraction: InsertCallExtraction): Promise<CallExtraction> {
+    const patientRecordId = await this.resolvePatientRecordId(extraction.patientId, extraction.patientRecordId);
+    const { callId, ...updates } = extraction;
+    const [saved] = await db.insert(callExtractions)
+      .values({ ...extraction, patientRecordId })
+      .onConflictDoUpdate({
+        target: callExtractions.callId,
+        set: { ...updates, patientRecordId, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getCallExtraction(callId: string): Promise<CallExtraction | undefined> {
+    const [extraction] = await db.select()
+      .from(callExtractions)
+      .where(eq(callExtractions.callId, callId));
+    return extraction;
+  }
+
+  async getCallExtractions(filter: { patientId: string; from?: Date; to?: Date }): Promise<CallExtraction[]> {
+    const conditions = [eq(callExtractions.patientId, filter.patientId)];
+    if (filter.from) conditions.push(gte(callExtractions.callDate, filter.from));
+    if (filter.to) conditions.push(lte(callExtractions.callDate, filter.to));
+
+    return await db.select()
+      .from(callExtractions)
+      .where(and(...conditions))
+      .orderBy(callExtractions.callDate, callExtractions.id);
+  }
+
+  // Answered calls, in id order after `afterId`, that have a transcript but nothing extracted from it yet
+  async getCallsWithoutExtraction(limit: number = 50, afterId: number = 0): Promise<CallHistory[]> {
+    const rows = await db.select({ call: callHistory })
+      .from(callHistory)
+      .leftJoin(callExtractions, eq(callExtractions.callId, callHistory.callId))
+      .where(and(
+        sql`${callExtractions.id} IS NULL`,
+        sql`trim(coalesce(${callHistory.transcript}, '')) <> ''`,
+        sql`${callHistory.id} > ${afterId}`
+      ))
+      .orderBy(callHistory.id)
+      .limit(limit);
+    return rows.map((row) => row.call);
+  }
+
   // Add missing methods for call history management
   async getCallHistoryById(callId: string): Promise<CallHistory | null> {
     const [call] = await db
@@ -1312,6 +3388,7 @@ IMPORTANT: You have access to their latest health data and personalized care rec
   }
 
   async deleteCallHistory(callId: string): Promise<boolean> {
+    await db.delete(callExtractions).where(eq(callExtractions.callId, callId));
     const result = await db
       .delete(callHistory)
       .where(eq(callHistory.callId, callId));
@@ -1537,7 +3614,7 @@ IMPORTANT: You have access to their latest health data and personalized care rec
     }
   }
 
-  async updateTrendReportPrompt(promptText: string, batchId?: string): Promise<TrendReportPrompt> {
+  async updateTrendReportPrompt(promptText: string, batchId?: string, change: PromptVersionChange = {}): Promise<TrendReportPrompt> {
     const timestamp = new Date().toISOString();
     
     const [prompt] = await db.insert(trendReportPrompts).values({
@@ -1546,6 +3623,8 @@ IMPORTANT: You have access to their latest health data and personalized care rec
       createdAt: timestamp,
       updatedAt: timestamp
     }).returning();
+
+    await this.recordPromptVersion("trendReport", batchId, prompt.prompt, change);
     
     return prompt;
   }
@@ -5,10 +5,13 @@ import {
   integer,
   jsonb,
   timestamp,
+  boolean,
+  doublePrecision,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
-import { PatientData } from './types';
+import { GuardrailFinding, PatientData } from './types';
 
 // User schema (kept from original)
 export const users = pgTable("users", {
@@ -25,6 +28,18 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Where a batch's rows came from: one entry per imported sheet (CSV/TSV files count as one sheet)
+export const importSourceSchema = z.object({
+  fileName: z.string(),
+  format: z.enum(["xlsx", "csv", "tsv"]),
+  encoding: z.string().optional(), // Detected text encoding, delimited files only
+  delimiter: z.string().optional(), // Detected delimiter, delimited files only
+  sheet: z.string(),
+  rows: z.number().int(),
+});
+
+export type ImportSource = z.infer<typeof importSourceSchema>;
+
 // Patient Batch schema
 export const patientBatches = pgTable("patient_batches", {
   id: serial("id").primaryKey(),
@@ -34,29 +49,146 @@ export const patientBatches = pgTable("patient_batches", {
   totalPatients: integer("total_patients").default(0),
   processedPatients: integer("processed_patients").default(0),
   userId: integer("user_id").default(-1),
+  sources: jsonb("sources").$type<ImportSource[]>().default([]),
+  // processing | completed | completed_with_errors | failed (batches from before the queue were processed inline)
+  status: text("status").notNull().default("completed"),
+  failedPatients: integer("failed_patients").default(0),
 });
 
-export const insertPatientBatchSchema = createInsertSchema(patientBatches).omit(
+export const insertPatientBatchSchema = createInsertSchema(patientBatches, {
+  sources: z.array(importSourceSchema).optional(),
+}).omit(
   {
     id: true,
   },
 );
 
+export const phoneSchema = z
+  .string()
+  .regex(
+    /^\+[1-9]\d{1,14}$/,
+    "Phone number must be in E.164 format (e.g., +1234567890)",
+  );
+
+export const careTeamMemberSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  role: z.string().trim().min(1, "Role is required"), // e.g. "Primary care physician", "Daughter"
+  phone: phoneSchema.optional(),
+  email: z.string().email().optional(),
+});
+
+export type CareTeamMember = z.infer<typeof careTeamMemberSchema>;
+
+// Languages patient messages and calls can be in; caregiver-facing text stays English
+export const patientLanguages = ["en", "es", "vi"] as const;
+export type PatientLanguage = typeof patientLanguages[number];
+
+export const patientLanguageNames: Record<PatientLanguage, string> = {
+  en: "English",
+  es: "Spanish",
+  vi: "Vietnamese",
+};
+
+// How a patient wants to receive patient-directed messages
+export const deliveryChannels = ["sms", "email", "none"] as const;
+export type DeliveryChannel = typeof deliveryChannels[number];
+
+// Local time of day, HH:MM (24-hour)
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM (24-hour)");
+
+/**
+ * Longitudinal patient registry, keyed by the patient ID used in uploads.
+ * Uploads upsert identity fields; contact details, language, timezone and
+ * care team are maintained by staff and are never cleared by an upload.
+ * Prompts, calls and alerts link back here through patient_record_id.
+ */
+export const patients = pgTable("patients", {
+  id: serial("id").primaryKey(),
+  patientId: text("patient_id").notNull().unique(),
+  name: text("name").notNull(),
+  dateOfBirth: text("date_of_birth"), // YYYY-MM-DD
+  age: integer("age"),
+  condition: text("condition"),
+  phoneNumber: text("phone_number"), // E.164
+  preferredLanguage: text("preferred_language").notNull().default("en"), // One of patientLanguages
+  timezone: text("timezone"), // IANA name, e.g. "America/New_York"
+  email: text("email"),
+  preferredChannel: text("preferred_channel").notNull().default("sms"), // One of deliveryChannels
+  quietHoursStart: text("quiet_hours_start"), // HH:MM local; null = the default quiet hours
+  quietHoursEnd: text("quiet_hours_end"),
+  careTeam: jsonb("care_team").$type<CareTeamMember[]>().notNull().default([]),
+  notes: text("notes"),
+  lastBatchId: text("last_batch_id"), // Most recent upload that included this patient
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertPatientSchema = createInsertSchema(patients, {
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth must be YYYY-MM-DD").nullish(),
+  phoneNumber: phoneSchema.nullish(),
+  preferredLanguage: z.enum(patientLanguages).optional(),
+  email: z.string().email("Invalid email address").nullish(),
+  preferredChannel: z.enum(deliveryChannels).optional(),
+  quietHoursStart: timeOfDaySchema.nullish(),
+  quietHoursEnd: timeOfDaySchema.nullish(),
+  careTeam: z.array(careTeamMemberSchema).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Fields staff can edit on the patient detail page
+export const updatePatientSchema = insertPatientSchema.pick({
+  name: true,
+  dateOfBirth: true,
+  phoneNumber: true,
+  preferredLanguage: true,
+  timezone: true,
+  email: true,
+  preferredChannel: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+  careTeam: true,
+  notes: true,
+}).partial();
+
+export type Patient = typeof patients.$inferSelect;
+export type InsertPatient = z.infer<typeof insertPatientSchema>;
+
+// Review lifecycle of a generated message: draft -> in_review -> approved -> sent
+export const reviewStatuses = ["draft", "in_review", "approved", "sent"] as const;
+export type ReviewStatus = typeof reviewStatuses[number];
+
 // Patient Prompt schema
 export const patientPrompts = pgTable("patient_prompts", {
   id: serial("id").primaryKey(),
   batchId: text("batch_id").notNull(),
   patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
   name: text("name").notNull(),
   age: integer("age").notNull(),
   condition: text("condition").notNull(),
   isAlert: text("is_alert").default("false"),
   healthStatus: text("health_status").default("alert"),
   prompt: text("prompt").notNull(),
-  patientMessage: text("patient_message"), // Patient-directed message
+  patientMessage: text("patient_message"), // Patient-directed message, in patientMessageLanguage
+  patientMessageLanguage: text("patient_message_language").notNull().default("en"), // One of patientLanguages
+  patientMessageEnglish: text("patient_message_english"), // English translation for caregivers; null when the message is English
   reasoning: text("reasoning"),
   template: text("template"), // Store custom template for this patient
   rawData: jsonb("raw_data"), // Store issues and alert reasons in rawData
+  systemPromptVersionId: integer("system_prompt_version_id").references(() => promptVersions.id, { onDelete: "set null" }), // Caregiver system prompt used; null = built-in default
+  patientSystemPromptVersionId: integer("patient_system_prompt_version_id").references(() => promptVersions.id, { onDelete: "set null" }),
+  reviewStatus: text("review_status").notNull().default("draft"), // One of reviewStatuses; new generated text starts over at draft
+  reviewerId: integer("reviewer_id").references(() => users.id),
+  originalPrompt: text("original_prompt"), // AI text of an edited caregiver message; null = not edited
+  originalPatientMessage: text("original_patient_message"), // AI text of an edited patient message; null = not edited
+  editedBy: integer("edited_by").references(() => users.id),
+  editedAt: timestamp("edited_at"),
+  approvedBy: integer("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  sentAt: timestamp("sent_at"),
   createdAt: text("created_at").default(new Date().toISOString()),
   updatedAt: text("updated_at"),
 });
@@ -80,6 +212,144 @@ export type InsertPatientBatch = z.infer<typeof insertPatientBatchSchema>;
 export type PatientPrompt = typeof patientPrompts.$inferSelect;
 export type InsertPatientPrompt = z.infer<typeof insertPatientPromptSchema>;
 
+/**
+ * Review timeline of a patient prompt: reviewer assignment, edits, approval
+ * comments and sends
+ */
+export const promptReviewEvents = pgTable("prompt_review_events", {
+  id: serial("id").primaryKey(),
+  patientPromptId: integer("patient_prompt_id").notNull().references(() => patientPrompts.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // assigned | edited | approved | changes_requested | comment | sent
+  actorId: integer("actor_id").references(() => users.id),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPromptReviewEventSchema = createInsertSchema(promptReviewEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type PromptReviewEvent = typeof promptReviewEvents.$inferSelect;
+export type InsertPromptReviewEvent = z.infer<typeof insertPromptReviewEventSchema>;
+
+/**
+ * Patient-directed messages delivered (or queued for delivery) to patients by
+ * SMS or email. Long SMS are sent as several segments; every segment's
+ * provider ID is kept so carrier callbacks can be matched back.
+ */
+export const messageDeliveries = pgTable("patient_message_deliveries", {
+  id: serial("id").primaryKey(),
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  patientPromptId: integer("patient_prompt_id").references(() => patientPrompts.id, { onDelete: "set null" }),
+  batchId: text("batch_id"),
+  channel: text("channel").notNull(), // One of deliveryChannels ("none" deliveries are recorded as skipped)
+  recipient: text("recipient"),
+  body: text("body").notNull(),
+  status: text("status").notNull(), // scheduled | sending | sent | delivered | failed | skipped
+  segmentCount: integer("segment_count").notNull().default(1),
+  providerMessageIds: jsonb("provider_message_ids").$type<string[]>().notNull().default([]), // Twilio SIDs per segment, or the SMTP message ID
+  deliveredMessageIds: jsonb("delivered_message_ids").$type<string[]>().notNull().default([]), // Segments the carrier confirmed
+  scheduledFor: timestamp("scheduled_for"), // Held until the patient's quiet hours end
+  failureReason: text("failure_reason"),
+  sentBy: integer("sent_by").references(() => users.id),
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertMessageDeliverySchema = createInsertSchema(messageDeliveries, {
+  providerMessageIds: z.array(z.string()).optional(),
+  deliveredMessageIds: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type MessageDelivery = typeof messageDeliveries.$inferSelect;
+export type InsertMessageDelivery = z.infer<typeof insertMessageDeliverySchema>;
+
+/**
+ * Recurring companion calls, one schedule per patient. A call goes out on
+ * each of daysOfWeek (every intervalWeeks weeks, counted from startsAt)
+ * within the call window, local to the patient's timezone.
+ */
+export const callSchedules = pgTable("call_schedules", {
+  id: serial("id").primaryKey(),
+  patientId: text("patient_id").notNull().unique(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  daysOfWeek: jsonb("days_of_week").$type<number[]>().notNull(), // 0 = Sunday ... 6 = Saturday
+  intervalWeeks: integer("interval_weeks").default(1).notNull(), // 2 = every other week
+  windowStart: text("window_start").default("10:00").notNull(), // HH:MM local
+  windowEnd: text("window_end").default("12:00").notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(), // Including the first call
+  retryDelayMinutes: integer("retry_delay_minutes").default(30).notNull(),
+  startsAt: timestamp("starts_at").defaultNow().notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertCallScheduleSchema = createInsertSchema(callSchedules, {
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one day"),
+  intervalWeeks: (schema) => schema.int().min(1).max(8),
+  windowStart: timeOfDaySchema.optional(),
+  windowEnd: timeOfDaySchema.optional(),
+  maxAttempts: (schema) => schema.int().min(1).max(5),
+  retryDelayMinutes: (schema) => schema.int().min(5),
+  startsAt: z.coerce.date().optional(),
+}).omit({
+  id: true,
+  patientId: true, // Taken from the URL
+  patientRecordId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine((schedule) => (schedule.windowStart ?? "10:00") < (schedule.windowEnd ?? "12:00"), {
+  message: "The call window must end after it starts",
+  path: ["windowEnd"],
+});
+
+export type CallSchedule = typeof callSchedules.$inferSelect;
+export type InsertCallSchedule = z.infer<typeof insertCallScheduleSchema>;
+
+export const scheduledCallStatuses = ["scheduled", "calling", "retry", "completed", "missed", "failed", "cancelled"] as const;
+export type ScheduledCallStatus = typeof scheduledCallStatuses[number];
+
+// One occurrence of a call schedule, with its attempts
+export const scheduledCalls = pgTable("scheduled_calls", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").references(() => callSchedules.id, { onDelete: "set null" }),
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  windowStartsAt: timestamp("window_starts_at").notNull(),
+  windowEndsAt: timestamp("window_ends_at").notNull(),
+  status: text("status").notNull().default("scheduled"), // One of scheduledCallStatuses
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  callId: text("call_id"), // Vapi call ID of the latest attempt
+  outcome: text("outcome"), // Vapi endedReason of the latest attempt
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("scheduled_calls_schedule_window_key").on(table.scheduleId, table.windowStartsAt),
+]);
+
+export const insertScheduledCallSchema = createInsertSchema(scheduledCalls).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ScheduledCall = typeof scheduledCalls.$inferSelect;
+export type InsertScheduledCall = z.infer<typeof insertScheduledCallSchema>;
+
 // New tables for prompt sandbox customization
 export const systemPrompts = pgTable("system_prompts", {
   id: serial("id").primaryKey(),
@@ -133,6 +403,129 @@ export type InsertSystemPrompt = z.infer<typeof insertSystemPromptSchema>;
 export type PatientSystemPrompt = typeof patientSystemPrompts.$inferSelect;
 export type InsertPatientSystemPrompt = z.infer<typeof insertPatientSystemPromptSchema>;
 
+export const promptKinds = ["caregiverSystem", "patientSystem", "trendReport", "voiceAgent"] as const;
+export type PromptKind = (typeof promptKinds)[number];
+
+/**
+ * Every saved revision of an editable prompt, numbered per kind and batch
+ * (batchId null = the global prompt). Saving or rolling back always adds a
+ * version, so earlier text is never lost; restoredFromId marks a rollback.
+ */
+export const promptVersions = pgTable("prompt_versions", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(),
+  batchId: text("batch_id"),
+  version: integer("version").notNull(),
+  content: text("content").notNull(),
+  authorId: integer("author_id").references(() => users.id),
+  changeNote: text("change_note"),
+  restoredFromId: integer("restored_from_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPromptVersionSchema = createInsertSchema(promptVersions).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+export type PromptVersion = typeof promptVersions.$inferSelect;
+export type InsertPromptVersion = z.infer<typeof insertPromptVersionSchema>;
+
+// Who made a prompt change and why, recorded with the new version
+export type PromptVersionChange = Pick<InsertPromptVersion, "authorId" | "changeNote" | "restoredFromId">;
+
+// Prompt kinds an experiment can compare; both are generated per patient from a batch
+export const experimentPromptKinds = ["caregiverSystem", "patientSystem"] as const;
+
+/**
+ * A/B test of two or more prompt variants over a random sample of patients
+ * from a batch. Status: running | completed | failed.
+ */
+export const promptExperiments = pgTable("prompt_experiments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  batchId: text("batch_id").notNull(),
+  kind: text("kind").notNull(), // One of experimentPromptKinds
+  patientIds: jsonb("patient_ids").$type<string[]>().notNull().default([]), // The sample
+  status: text("status").notNull().default("running"),
+  adoptedVariantId: integer("adopted_variant_id"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+/**
+ * One prompt under test. The text is copied in, so later edits to the
+ * version it came from (versionId) don't change the experiment.
+ */
+export const promptExperimentVariants = pgTable("prompt_experiment_variants", {
+  id: serial("id").primaryKey(),
+  experimentId: integer("experiment_id").notNull().references(() => promptExperiments.id, { onDelete: "cascade" }),
+  label: text("label").notNull(),
+  versionId: integer("version_id").references(() => promptVersions.id, { onDelete: "set null" }),
+  content: text("content").notNull(),
+});
+
+/**
+ * What a variant generated for one sampled patient, with the reviewer's
+ * 1-5 rating and whether it was picked as the best output for that patient
+ */
+export const promptExperimentOutputs = pgTable("prompt_experiment_outputs", {
+  id: serial("id").primaryKey(),
+  experimentId: integer("experiment_id").notNull().references(() => promptExperiments.id, { onDelete: "cascade" }),
+  variantId: integer("variant_id").notNull().references(() => promptExperimentVariants.id, { onDelete: "cascade" }),
+  patientId: text("patient_id").notNull(),
+  output: text("output"),
+  error: text("error"), // Set instead of output when generation failed
+  rating: integer("rating"),
+  isWinner: boolean("is_winner").notNull().default(false),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  variantPatientKey: unique("prompt_experiment_outputs_variant_patient_key").on(table.variantId, table.patientId),
+}));
+
+export const insertPromptExperimentSchema = createInsertSchema(promptExperiments, {
+  patientIds: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPromptExperimentVariantSchema = createInsertSchema(promptExperimentVariants).omit({
+  id: true,
+});
+
+export const insertPromptExperimentOutputSchema = createInsertSchema(promptExperimentOutputs).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Request body for creating an experiment: each variant is a saved version or new text
+export const createPromptExperimentSchema = z.object({
+  name: z.string().min(1),
+  batchId: z.string().min(1),
+  kind: z.enum(experimentPromptKinds),
+  sampleSize: z.number().int().min(1).max(25).default(5),
+  variants: z.array(z.object({
+    label: z.string().min(1),
+    versionId: z.number().int().optional(),
+    content: z.string().min(1).optional(),
+  }).refine((variant) => variant.versionId !== undefined || variant.content !== undefined, {
+    message: "Each variant needs a prompt version or prompt text",
+  })).min(2).max(4),
+});
+
+export type PromptExperiment = typeof promptExperiments.$inferSelect;
+export type InsertPromptExperiment = z.infer<typeof insertPromptExperimentSchema>;
+export type PromptExperimentVariant = typeof promptExperimentVariants.$inferSelect;
+export type InsertPromptExperimentVariant = z.infer<typeof insertPromptExperimentVariantSchema>;
+export type PromptExperimentOutput = typeof promptExperimentOutputs.$inferSelect;
+export type InsertPromptExperimentOutput = z.infer<typeof insertPromptExperimentOutputSchema>;
+export type CreatePromptExperiment = z.infer<typeof createPromptExperimentSchema>;
+
 export type TemplateVariable = typeof templateVariables.$inferSelect;
 export type InsertTemplateVariable = z.infer<
   typeof insertTemplateVariableSchema
@@ -140,7 +533,12 @@ export type InsertTemplateVariable = z.infer<
 
 export type FileUploadResponse = {
   success: boolean;
-  batchId: string;
+  data?: {
+    batchId: string;
+    processed: number;
+    queued: number; // Patients queued for prompt generation; follow with /api/batches/:batchId/progress
+    issues: { errors: number; warnings: number }; // Details at /api/batches/:batchId/issues
+  };
   message?: string;
 };
 
@@ -149,6 +547,8 @@ export type FileUploadResponse = {
  * Expected keys:
  * - alertPhone: E.164 formatted phone number for SMS alerts
  * - supportEmail: Support contact email (future)
+ * - llmSettings: JSON LlmSettings, the provider and model for each generation task
+ * - llmCosts: JSON LlmCostSettings, per-model prices and spending budgets
  *
  * Note: This is not intended for general configuration storage.
  * Keep the number of keys minimal and well-documented.
@@ -170,6 +570,50 @@ export const insertSystemSettingsSchema = createInsertSchema(
 export type SystemSettings = typeof systemSettings.$inferSelect;
 export type InsertSystemSettings = z.infer<typeof insertSystemSettingsSchema>;
 
+// Where text generation runs: OpenAI, an OpenAI-compatible server on the
+// local network (Ollama, llama.cpp) so PHI stays on-premises, or a
+// deterministic fake for offline testing
+export const llmProviders = ["openai", "local", "fake"] as const;
+export type LlmProviderName = (typeof llmProviders)[number];
+
+export const llmTasks = ["caregiverPrompt", "patientMessage", "trendReport", "callSummary"] as const;
+export type LlmTask = (typeof llmTasks)[number];
+
+export const llmTaskModelSchema = z.object({
+  provider: z.enum(llmProviders),
+  model: z.string().trim().min(1, "Model is required"),
+});
+
+export const llmSettingsSchema = z.object({
+  localBaseUrl: z.string().url("Local endpoint must be a URL").nullish(), // e.g. http://localhost:11434/v1
+  localApiKey: z.string().nullish(), // Only if the local server requires one
+  tasks: z.object({
+    caregiverPrompt: llmTaskModelSchema,
+    patientMessage: llmTaskModelSchema,
+    trendReport: llmTaskModelSchema,
+    callSummary: llmTaskModelSchema,
+  }),
+});
+
+export type LlmTaskModel = z.infer<typeof llmTaskModelSchema>;
+export type LlmSettings = z.infer<typeof llmSettingsSchema>;
+
+// USD per million tokens
+export const modelPriceSchema = z.object({
+  inputPerMillion: z.number().min(0),
+  outputPerMillion: z.number().min(0),
+});
+
+export const llmCostSettingsSchema = z.object({
+  prices: z.record(z.string(), modelPriceSchema), // Keyed by model name
+  dailyBudget: z.number().positive().nullish(), // USD
+  monthlyBudget: z.number().positive().nullish(), // USD
+  alertThreshold: z.number().min(0).max(1).default(0.8), // Warn at this share of a budget
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+export type LlmCostSettings = z.infer<typeof llmCostSettingsSchema>;
+
 // Add phone validation schema
 /**
  * Call history table to store conversation summaries and context
@@ -179,6 +623,7 @@ export const callHistory = pgTable("call_history", {
   id: serial("id").primaryKey(),
   callId: text("call_id").notNull(), // Vapi call ID
   patientId: text("patient_id").notNull(), // Reference to patient
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
   patientName: text("patient_name").notNull(),
   phoneNumber: text("phone_number").notNull(),
   duration: integer("duration"), // Call duration in seconds
@@ -202,12 +647,178 @@ export const insertCallHistorySchema = createInsertSchema(callHistory).omit({
 export type CallHistory = typeof callHistory.$inferSelect;
 export type InsertCallHistory = z.infer<typeof insertCallHistorySchema>;
 
-export const phoneSchema = z
-  .string()
-  .regex(
-    /^\+[1-9]\d{1,14}$/,
-    "Phone number must be in E.164 format (e.g., +1234567890)",
+// A moment a care coordinator flagged for follow-up while watching a call live
+export const callFlags = pgTable("call_flags", {
+  id: serial("id").primaryKey(),
+  callId: text("call_id").notNull(), // Vapi call ID
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  note: text("note"),
+  transcriptExcerpt: text("transcript_excerpt"), // The last few lines spoken before the flag
+  flaggedBy: integer("flagged_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCallFlagSchema = createInsertSchema(callFlags, {
+  note: z.string().trim().max(1000).optional(),
+}).omit({
+  id: true,
+  callId: true, // Taken from the URL
+  patientId: true,
+  patientRecordId: true,
+  transcriptExcerpt: true,
+  flaggedBy: true,
+  createdAt: true,
+});
+
+export type CallFlag = typeof callFlags.$inferSelect;
+export type InsertCallFlag = z.infer<typeof insertCallFlagSchema>;
+
+/**
+ * What a patient reported to the voice assistant through a tool call during a
+ * companion call: a vital reading, a symptom, a callback request or a
+ * medication confirmation, graded with triage severity. Vital readings are
+ * also written to vital_readings. Vapi's tool call ID makes retries idempotent.
+ */
+export const patientCallReportTypes = ["vital", "symptom", "callback", "medication"] as const;
+export type PatientCallReportType = typeof patientCallReportTypes[number];
+
+export const patientCallReports = pgTable("patient_call_reports", {
+  id: serial("id").primaryKey(),
+  callId: text("call_id").notNull(), // Vapi call ID
+  toolCallId: text("tool_call_id").unique(), // Null for legacy function-call messages
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  type: text("type").notNull(), // One of patientCallReportTypes
+  details: jsonb("details").$type<Record<string, any>>().notNull(), // The validated tool arguments
+  summary: text("summary").notNull(), // e.g. "Blood Pressure 150/90 mmHg"
+  severity: text("severity").notNull().default("green"), // red | yellow | green
+  alertReasons: text("alert_reasons").array(),
+  escalationId: integer("escalation_id").references(() => alertEscalations.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPatientCallReportSchema = createInsertSchema(patientCallReports, {
+  type: z.enum(patientCallReportTypes),
+  details: z.record(z.any()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type PatientCallReport = typeof patientCallReports.$inferSelect;
+export type InsertPatientCallReport = z.infer<typeof insertPatientCallReportSchema>;
+
+export const medicationAdherenceValues = ["yes", "no", "partial", "unknown"] as const;
+export const symptomSeverities = ["mild", "moderate", "severe"] as const;
+export const moodValues = ["positive", "neutral", "low", "distressed", "unknown"] as const;
+export const socialNeedCategories = ["food", "transportation", "housing", "financial", "caregiving", "companionship", "other"] as const;
+
+// Keep the items that parse rather than dropping the whole list over one bad entry
+function lenientArray<T extends z.ZodTypeAny>(item: T) {
+  return z.array(z.unknown()).catch([]).transform((items) =>
+    items.flatMap((value) => {
+      const parsed = item.safeParse(value);
+      return parsed.success ? [parsed.data as z.infer<T>] : [];
+    })
   );
+}
+
+export const extractedMedicationSchema = z.object({
+  name: z.string().trim().min(1),
+  adherence: z.enum(medicationAdherenceValues).catch("unknown"),
+  notes: z.string().nullable().catch(null),
+});
+
+export const extractedSymptomSchema = z.object({
+  name: z.string().trim().min(1),
+  onset: z.string().nullable().catch(null), // As the patient said it, e.g. "two days ago"
+  severity: z.enum(symptomSeverities).nullable().catch(null),
+});
+
+export const extractedFallSchema = z.object({
+  description: z.string().trim().min(1),
+  when: z.string().nullable().catch(null),
+  injured: z.boolean().nullable().catch(null),
+});
+
+export const extractedVitalSchema = z.object({
+  name: z.string().trim().min(1), // e.g. "Blood Pressure"
+  value: z.coerce.number().finite(),
+  diastolic: z.coerce.number().finite().nullable().catch(null),
+  unit: z.string().nullable().catch(null),
+});
+
+export const extractedSocialNeedSchema = z.object({
+  category: z.enum(socialNeedCategories).catch("other"),
+  description: z.string().trim().min(1),
+});
+
+/**
+ * Clinical facts pulled out of a call transcript. Every field falls back to
+ * "unknown", null or an empty list, so a partial model answer still parses.
+ */
+export const callClinicalExtractionSchema = z.object({
+  medicationAdherence: z.enum(medicationAdherenceValues).catch("unknown"),
+  medications: lenientArray(extractedMedicationSchema),
+  symptoms: lenientArray(extractedSymptomSchema),
+  mood: z.enum(moodValues).catch("unknown"),
+  moodScore: z.coerce.number().int().min(1).max(5).nullable().catch(null), // 1 = very low, 5 = very good
+  lonely: z.boolean().nullable().catch(null),
+  lonelinessNotes: z.string().nullable().catch(null),
+  falls: lenientArray(extractedFallSchema),
+  vitals: lenientArray(extractedVitalSchema),
+  socialNeeds: lenientArray(extractedSocialNeedSchema),
+});
+
+export type ExtractedMedication = z.infer<typeof extractedMedicationSchema>;
+export type ExtractedSymptom = z.infer<typeof extractedSymptomSchema>;
+export type ExtractedFall = z.infer<typeof extractedFallSchema>;
+export type ExtractedVital = z.infer<typeof extractedVitalSchema>;
+export type ExtractedSocialNeed = z.infer<typeof extractedSocialNeedSchema>;
+export type CallClinicalExtraction = z.infer<typeof callClinicalExtractionSchema>;
+
+/**
+ * One row per call of the clinical facts in callClinicalExtractionSchema.
+ * Headline answers are columns so they can be filtered and charted across
+ * calls; the lists behind them are JSON. Vitals here are as mentioned in
+ * conversation and are not copied into vital_readings.
+ */
+export const callExtractions = pgTable("call_extractions", {
+  id: serial("id").primaryKey(),
+  callId: text("call_id").notNull().unique(), // Vapi call ID
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  callDate: timestamp("call_date").notNull(),
+  medicationAdherence: text("medication_adherence").notNull().default("unknown"), // One of medicationAdherenceValues
+  medications: jsonb("medications").$type<ExtractedMedication[]>().notNull().default([]),
+  symptoms: jsonb("symptoms").$type<ExtractedSymptom[]>().notNull().default([]),
+  mood: text("mood").notNull().default("unknown"), // One of moodValues
+  moodScore: integer("mood_score"),
+  lonely: boolean("lonely"), // Null when loneliness didn't come up
+  lonelinessNotes: text("loneliness_notes"),
+  fallReported: boolean("fall_reported").notNull().default(false),
+  falls: jsonb("falls").$type<ExtractedFall[]>().notNull().default([]),
+  vitals: jsonb("vitals").$type<ExtractedVital[]>().notNull().default([]),
+  socialNeeds: jsonb("social_needs").$type<ExtractedSocialNeed[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertCallExtractionSchema = createInsertSchema(callExtractions, {
+  medications: z.custom<ExtractedMedication[]>(),
+  symptoms: z.custom<ExtractedSymptom[]>(),
+  falls: z.custom<ExtractedFall[]>(),
+  vitals: z.custom<ExtractedVital[]>(),
+  socialNeeds: z.custom<ExtractedSocialNeed[]>(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CallExtraction = typeof callExtractions.$inferSelect;
+export type InsertCallExtraction = z.infer<typeof insertCallExtractionSchema>;
 
 // Trend Report Prompts schema
 export const trendReportPrompts = pgTable("trend_report_prompts", {
@@ -226,3 +837,545 @@ export const insertTrendReportPromptSchema = createInsertSchema(trendReportPromp
 
 export type TrendReportPrompt = typeof trendReportPrompts.$inferSelect;
 export type InsertTrendReportPrompt = z.infer<typeof insertTrendReportPromptSchema>;
+
+/**
+ * Clinical threshold rules used to grade readings as red/yellow.
+ * A rule applies when its variable pattern appears in the reading name
+ * (case-insensitive) and the optional condition and age band match the patient.
+ * Operators: ">", ">=", "<", "<=" compare against threshold; "between" and
+ * "outside" use threshold as the low bound and thresholdHigh as the high bound.
+ */
+export const triageRules = pgTable("triage_rules", {
+  id: serial("id").primaryKey(),
+  variable: text("variable").notNull(), // e.g. "glucose", "oxygen"
+  label: text("label"), // Human-friendly name shown in the settings UI
+  condition: text("condition"), // Optional patient condition filter
+  minAge: integer("min_age"),
+  maxAge: integer("max_age"),
+  unit: text("unit"), // e.g. "mg/dL", "%"
+  operator: text("operator").notNull(),
+  threshold: doublePrecision("threshold").notNull(),
+  thresholdHigh: doublePrecision("threshold_high"),
+  severity: text("severity").notNull(), // red | yellow
+  enabled: boolean("enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const triageRuleOperators = [">", ">=", "<", "<=", "between", "outside"] as const;
+export const triageRuleSeverities = ["red", "yellow"] as const;
+
+export const insertTriageRuleSchema = createInsertSchema(triageRules, {
+  variable: (schema) => schema.trim().min(1, "Variable is required"),
+  operator: z.enum(triageRuleOperators),
+  severity: z.enum(triageRuleSeverities),
+})
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .refine(
+    (rule) =>
+      (rule.operator !== "between" && rule.operator !== "outside") ||
+      (rule.thresholdHigh != null && rule.thresholdHigh >= rule.threshold),
+    {
+      message: "Range operators need a high threshold greater than or equal to the low threshold",
+      path: ["thresholdHigh"],
+    },
+  );
+
+export type TriageRule = typeof triageRules.$inferSelect;
+export type InsertTriageRule = z.infer<typeof insertTriageRuleSchema>;
+
+/**
+ * Audit trail of SMS alert dispatches. One row is written per send attempt,
+ * so the latest row for an alert is its current delivery status.
+ * status moves pending -> sent -> delivered | failed; deliveryStatus keeps the
+ * raw Twilio MessageStatus from the status callback.
+ */
+export const alertDispatches = pgTable("alert_dispatches", {
+  id: serial("id").primaryKey(),
+  alertId: text("alert_id").notNull(), // e.g. "alert-42" (derived from the patient prompt id)
+  batchId: text("batch_id"),
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  patientName: text("patient_name"),
+  severity: text("severity"), // red | yellow | green at the time of sending
+  recipient: text("recipient").notNull(), // E.164 phone number
+  body: text("body").notNull(),
+  status: text("status").notNull().default("pending"), // pending | sent | delivered | failed
+  twilioSid: text("twilio_sid"),
+  deliveryStatus: text("delivery_status"), // queued | sent | delivered | undelivered | failed
+  errorCode: text("error_code"), // Twilio error code reported for undelivered/failed messages
+  failureReason: text("failure_reason"),
+  sentBy: integer("sent_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAlertDispatchSchema = createInsertSchema(alertDispatches).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type AlertDispatch = typeof alertDispatches.$inferSelect;
+export type InsertAlertDispatch = z.infer<typeof insertAlertDispatchSchema>;
+
+/**
+ * On-call rotations. Each rotation covers one escalation role and cycles
+ * through its members every shiftHours, starting at startsAt.
+ */
+export const onCallRotations = pgTable("on_call_rotations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  role: text("role").notNull(), // primary | secondary | care_manager
+  members: jsonb("members").$type<OnCallMember[]>().notNull(),
+  shiftHours: integer("shift_hours").default(168).notNull(), // one week by default
+  startsAt: timestamp("starts_at").defaultNow().notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const escalationRoles = ["primary", "secondary", "care_manager"] as const;
+
+export const onCallMemberSchema = z.object({
+  name: z.string().trim().min(1, "Member name is required"),
+  phone: phoneSchema,
+});
+
+export type OnCallMember = z.infer<typeof onCallMemberSchema>;
+
+export const insertOnCallRotationSchema = createInsertSchema(onCallRotations, {
+  role: z.enum(escalationRoles),
+  members: z.array(onCallMemberSchema).min(1, "A rotation needs at least one member"),
+  shiftHours: (schema) => schema.int().positive(),
+  startsAt: z.coerce.date(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type OnCallRotation = typeof onCallRotations.$inferSelect;
+export type InsertOnCallRotation = z.infer<typeof insertOnCallRotationSchema>;
+
+/**
+ * Escalation policy per alert severity.
+ * - mode "escalate": page steps in order, moving on after ackTimeoutMinutes without acknowledgement
+ * - mode "digest": collect alerts and send one summary to the first step every digestIntervalMinutes
+ */
+export const escalationPolicies = pgTable("escalation_policies", {
+  id: serial("id").primaryKey(),
+  severity: text("severity").notNull().unique(), // red | yellow
+  mode: text("mode").notNull(), // escalate | digest
+  steps: text("steps").array().notNull(), // ordered escalation roles
+  ackTimeoutMinutes: integer("ack_timeout_minutes").default(15).notNull(),
+  digestIntervalMinutes: integer("digest_interval_minutes").default(60).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEscalationPolicySchema = createInsertSchema(escalationPolicies, {
+  severity: z.enum(["red", "yellow"]),
+  mode: z.enum(["escalate", "digest"]),
+  steps: z.array(z.enum(escalationRoles)).min(1, "At least one escalation step is required"),
+  ackTimeoutMinutes: (schema) => schema.int().positive(),
+  digestIntervalMinutes: (schema) => schema.int().positive(),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type EscalationPolicy = typeof escalationPolicies.$inferSelect;
+export type InsertEscalationPolicy = z.infer<typeof insertEscalationPolicySchema>;
+
+/**
+ * One escalation per alert. The scheduler advances rows whose nextActionAt
+ * has passed, so state survives restarts.
+ * status: active | acknowledged | exhausted (red), queued | digested (yellow)
+ */
+export const alertEscalations = pgTable("alert_escalations", {
+  id: serial("id").primaryKey(),
+  alertId: text("alert_id").notNull(),
+  batchId: text("batch_id"),
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  patientName: text("patient_name"),
+  severity: text("severity").notNull(),
+  summary: text("summary").notNull(), // SMS text describing the alert
+  status: text("status").notNull(),
+  currentStep: integer("current_step").default(0).notNull(),
+  ackCode: text("ack_code"), // short code clinicians reply with, e.g. "ACK K7P2QX"
+  nextActionAt: timestamp("next_action_at"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: text("acknowledged_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAlertEscalationSchema = createInsertSchema(alertEscalations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type AlertEscalation = typeof alertEscalations.$inferSelect;
+export type InsertAlertEscalation = z.infer<typeof insertAlertEscalationSchema>;
+
+/**
+ * Timeline entries for an escalation (paged, escalated, acknowledged, ...)
+ */
+export const escalationEvents = pgTable("escalation_events", {
+  id: serial("id").primaryKey(),
+  escalationId: integer("escalation_id").notNull().references(() => alertEscalations.id),
+  type: text("type").notNull(), // created | paged | page_failed | skipped | escalated | acknowledged | exhausted | digest_queued | digest_sent
+  step: integer("step"),
+  role: text("role"),
+  recipient: text("recipient"),
+  dispatchId: integer("dispatch_id").references(() => alertDispatches.id),
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEscalationEventSchema = createInsertSchema(escalationEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type EscalationEvent = typeof escalationEvents.$inferSelect;
+export type InsertEscalationEvent = z.infer<typeof insertEscalationEventSchema>;
+
+/**
+ * SMS conversation log. Outbound alerts/pages and inbound replies are both
+ * stored here; replies are matched to a patient and/or alert by phone number
+ * so they can be shown as a thread on the patient's timeline.
+ */
+export const smsMessages = pgTable("sms_messages", {
+  id: serial("id").primaryKey(),
+  direction: text("direction").notNull(), // inbound | outbound
+  fromNumber: text("from_number").notNull(),
+  toNumber: text("to_number").notNull(),
+  body: text("body").notNull(),
+  twilioSid: text("twilio_sid"),
+  senderType: text("sender_type").notNull(), // clinician | patient | system | unknown
+  intent: text("intent"), // ack | esc | reply (inbound only)
+  patientId: text("patient_id"),
+  patientName: text("patient_name"),
+  alertId: text("alert_id"),
+  escalationId: integer("escalation_id").references(() => alertEscalations.id),
+  dispatchId: integer("dispatch_id").references(() => alertDispatches.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSmsMessageSchema = createInsertSchema(smsMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type SmsMessage = typeof smsMessages.$inferSelect;
+export type InsertSmsMessage = z.infer<typeof insertSmsMessageSchema>;
+
+/**
+ * Time series of every numeric reading seen in an upload. One row per
+ * patient/variable/timestamp, so re-uploading the same sheet doesn't
+ * duplicate history. recordedAt comes from the sheet's date/time column
+ * when it has one, otherwise the upload time.
+ */
+export const vitalReadings = pgTable("vital_readings", {
+  id: serial("id").primaryKey(),
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  batchId: text("batch_id"), // Upload the reading first arrived in
+  variable: text("variable").notNull(), // As named in the sheet, e.g. "Heart Rate"
+  value: doublePrecision("value").notNull(),
+  unit: text("unit"),
+  severity: text("severity").notNull().default("green"), // red | yellow | green per triage rules at upload
+  recordedAt: timestamp("recorded_at").notNull(),
+  sourceRow: integer("source_row").notNull().default(0), // Row's position in the upload (across sheets) when it had no date/time of its own, else 0
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("vital_readings_patient_variable_recorded_at_row_key").on(table.patientId, table.variable, table.recordedAt, table.sourceRow),
+]);
+
+export const insertVitalReadingSchema = createInsertSchema(vitalReadings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type VitalReading = typeof vitalReadings.$inferSelect;
+export type InsertVitalReading = z.infer<typeof insertVitalReadingSchema>;
+
+// Fields a spreadsheet column can be mapped to on upload
+export const importFields = [
+  "patientId",
+  "name",
+  "dateOfBirth",
+  "age",
+  "phone",
+  "variable",
+  "value",
+  "unit",
+  "timestamp",
+  "isAlert",
+] as const;
+
+export type ImportField = typeof importFields[number];
+
+// Header name for each field; patient ID and name are required, the rest optional
+export const columnMappingSchema = z.object({
+  patientId: z.string().min(1, "Patient ID column is required"),
+  name: z.string().min(1, "Name column is required"),
+  dateOfBirth: z.string().optional(),
+  age: z.string().optional(),
+  phone: z.string().optional(),
+  variable: z.string().optional(),
+  value: z.string().optional(),
+  unit: z.string().optional(),
+  timestamp: z.string().optional(),
+  isAlert: z.string().optional(),
+});
+
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+/**
+ * Saved column mappings for upload layouts. A profile is applied
+ * automatically when an uploaded file's headers match its header
+ * signature (lower-cased, trimmed, sorted headers joined with "|").
+ */
+export const importProfiles = pgTable("import_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  headerSignature: text("header_signature").notNull(),
+  headers: text("headers").array().notNull(),
+  mapping: jsonb("mapping").$type<ColumnMapping>().notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertImportProfileSchema = createInsertSchema(importProfiles, {
+  name: z.string().trim().min(1, "Profile name is required"),
+  headers: z.array(z.string()).min(1, "At least one header is required"),
+  mapping: columnMappingSchema,
+}).omit({
+  id: true,
+  lastUsedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Request body for saving a profile; the signature and owner are filled in server-side
+export const saveImportProfileSchema = insertImportProfileSchema.omit({
+  headerSignature: true,
+  createdBy: true,
+});
+
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type InsertImportProfile = z.infer<typeof insertImportProfileSchema>;
+
+/**
+ * Queued prompt generation, one job per patient in an uploaded batch.
+ * Workers claim pending jobs whose runAfter has passed, so generation
+ * survives client disconnects and resumes after a restart.
+ * status: pending | running | completed | failed
+ */
+export const generationJobs = pgTable("generation_jobs", {
+  id: serial("id").primaryKey(),
+  batchId: text("batch_id").notNull(),
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  payload: jsonb("payload").$type<PatientData>().notNull(), // Patient data the prompt is generated from
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  lastError: text("last_error"),
+  runAfter: timestamp("run_after").defaultNow().notNull(), // Retries back off by pushing this out
+  lockedAt: timestamp("locked_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("generation_jobs_batch_patient_key").on(table.batchId, table.patientId),
+]);
+
+export const insertGenerationJobSchema = createInsertSchema(generationJobs, {
+  payload: z.custom<PatientData>(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type InsertGenerationJob = z.infer<typeof insertGenerationJobSchema>;
+
+/**
+ * Inbox of verified Vapi webhook events. Each event is stored before it is
+ * acknowledged and processed by a worker with retries; a redelivery of the
+ * same event for a call is dropped by the unique key.
+ */
+export const vapiWebhookEventStatuses = ["pending", "running", "processed", "failed"] as const;
+export type VapiWebhookEventStatus = typeof vapiWebhookEventStatuses[number];
+
+export const vapiWebhookEvents = pgTable("vapi_webhook_events", {
+  id: serial("id").primaryKey(),
+  callId: text("call_id").notNull(),
+  type: text("type").notNull(), // Vapi message type, e.g. "end-of-call-report"
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(), // The webhook body as received
+  status: text("status").notNull().default("pending"), // One of vapiWebhookEventStatuses
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  lastError: text("last_error"),
+  runAfter: timestamp("run_after").defaultNow().notNull(), // Retries back off by pushing this out
+  lockedAt: timestamp("locked_at"),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("vapi_webhook_events_call_type_key").on(table.callId, table.type),
+]);
+
+export const insertVapiWebhookEventSchema = createInsertSchema(vapiWebhookEvents, {
+  payload: z.record(z.any()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type VapiWebhookEvent = typeof vapiWebhookEvents.$inferSelect;
+export type InsertVapiWebhookEvent = z.infer<typeof insertVapiWebhookEventSchema>;
+
+/**
+ * Generated messages that failed a guardrail check, held back from
+ * patient_prompts until someone approves (optionally after editing) or
+ * rejects them. patientPromptId is set when a regeneration of an existing
+ * prompt was held back. status: pending | approved | rejected
+ */
+export const messageReviews = pgTable("message_reviews", {
+  id: serial("id").primaryKey(),
+  batchId: text("batch_id").notNull(),
+  patientId: text("patient_id").notNull(),
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  patientPromptId: integer("patient_prompt_id").references(() => patientPrompts.id, { onDelete: "cascade" }),
+  payload: jsonb("payload").$type<PatientData>().notNull(), // Patient data the messages were generated from
+  caregiverMessage: text("caregiver_message").notNull(),
+  patientMessage: text("patient_message").notNull(),
+  patientMessageLanguage: text("patient_message_language").notNull().default("en"),
+  patientMessageEnglish: text("patient_message_english"),
+  findings: jsonb("findings").$type<GuardrailFinding[]>().notNull().default([]),
+  systemPromptVersionId: integer("system_prompt_version_id").references(() => promptVersions.id, { onDelete: "set null" }),
+  patientSystemPromptVersionId: integer("patient_system_prompt_version_id").references(() => promptVersions.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("pending"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMessageReviewSchema = createInsertSchema(messageReviews, {
+  payload: z.custom<PatientData>(),
+  findings: z.custom<GuardrailFinding[]>(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type MessageReview = typeof messageReviews.$inferSelect;
+export type InsertMessageReview = z.infer<typeof insertMessageReviewSchema>;
+
+/**
+ * Problems found while importing a batch, stored with the original row so
+ * they can be reviewed and downloaded as an annotated workbook.
+ * severity: error (row or patient left out) | warning (imported with a fallback)
+ */
+export const uploadIssues = pgTable("upload_issues", {
+  id: serial("id").primaryKey(),
+  batchId: text("batch_id").notNull(),
+  sheet: text("sheet"),
+  rowNumber: integer("row_number"), // Spreadsheet row, counting the header as row 1
+  patientId: text("patient_id"),
+  column: text("column"),
+  code: text("code").notNull(), // e.g. missing_patient_id, invalid_date_of_birth, non_numeric_value, possible_duplicate
+  severity: text("severity").notNull(),
+  message: text("message").notNull(),
+  value: text("value"),
+  rowData: jsonb("row_data").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUploadIssueSchema = createInsertSchema(uploadIssues, {
+  rowData: z.record(z.unknown()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type UploadIssue = typeof uploadIssues.$inferSelect;
+export type InsertUploadIssue = z.infer<typeof insertUploadIssueSchema>;
+
+/**
+ * Merge-review queue: pairs of registry patients that identity resolution
+ * thinks may be the same person but couldn't match with confidence.
+ * Both records are kept until staff merge or dismiss the pair.
+ * status: pending | merged | dismissed
+ */
+export const patientMergeCandidates = pgTable("patient_merge_candidates", {
+  id: serial("id").primaryKey(),
+  batchId: text("batch_id"), // Upload that raised the pair
+  patientId: text("patient_id").notNull(), // Newer record, merged away by default
+  candidatePatientId: text("candidate_patient_id").notNull(), // Record it may duplicate
+  score: doublePrecision("score").notNull(), // 0-1 match confidence
+  reasons: jsonb("reasons").$type<string[]>().notNull().default([]),
+  status: text("status").notNull().default("pending"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pairKey: unique("patient_merge_candidates_pair_key").on(table.patientId, table.candidatePatientId),
+}));
+
+export const insertPatientMergeCandidateSchema = createInsertSchema(patientMergeCandidates, {
+  reasons: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type PatientMergeCandidate = typeof patientMergeCandidates.$inferSelect;
+export type InsertPatientMergeCandidate = z.infer<typeof insertPatientMergeCandidateSchema>;
+
+/**
+ * Ledger of every LLM call: what it was for, which model ran it, the token
+ * counts the provider reported and what it cost at the configured prices.
+ * Tokens are estimated (usageEstimated) only when the provider returns no usage.
+ */
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  task: text("task").notNull(), // LlmTask
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  batchId: text("batch_id"),
+  patientId: text("patient_id"),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  usageEstimated: boolean("usage_estimated").notNull().default(false),
+  cost: doublePrecision("cost").notNull().default(0), // USD
+  latencyMs: integer("latency_ms").notNull(),
+  success: boolean("success").notNull().default(true),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = z.infer<typeof insertLlmUsageSchema>;
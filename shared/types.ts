@@ -1,8 +1,12 @@
 // Core patient data types
 export interface PatientData {
   patientId: string;
+  patientIdGenerated?: boolean; // The row had no patient ID, so identity comes from name and DOB
   name: string;
   age: number;
+  dateOfBirth?: string; // YYYY-MM-DD, when the upload carries one
+  phoneNumber?: string;
+  preferredLanguage?: string; // Patient message language; looked up in the registry when absent
   condition: string;
   isAlert?: boolean;
   variables?: { [key: string]: any };
@@ -15,8 +19,11 @@ export interface PatientData {
 // Aggregated patient data for processing
 export interface AggregatedPatientData {
   patientId: string;
+  patientIdGenerated?: boolean;
   name: string;
   age: number;
+  dateOfBirth?: string;
+  phoneNumber?: string;
   variables: { [key: string]: any }[];
   conditions: string[];
   issues: string[];
@@ -38,7 +45,7 @@ export interface PatientVitals {
 }
 
 // Alert status types
-export type AlertStatus = "pending" | "sent" | "failed";
+export type AlertStatus = "pending" | "sent" | "delivered" | "failed";
 
 export interface PatientAlert {
   id: string;
@@ -51,6 +58,9 @@ export interface PatientAlert {
   status: AlertStatus;
   message: string;
   sentAt?: string;
+  twilioSid?: string | null;
+  failureReason?: string | null;
+  recipient?: string;
   alertCount?: number;
   createdAt: string;
   variables?: { name: string; value: string; timestamp?: string }[];
@@ -58,4 +68,109 @@ export interface PatientAlert {
   severity?: 'red' | 'yellow' | 'green';
   isAlert?: boolean;
   alertReasons?: string[];
-} 
\ No newline at end of file
+} 
+// Prompt generation progress for an uploaded batch, streamed while the queue works through it
+export interface BatchProgress {
+  batchId: string;
+  status: string; // processing | completed | completed_with_errors | failed
+  total: number;
+  processed: number;
+  failed: number;
+  pending: number; // Queued, running or waiting to retry
+}
+
+// LLM calls, tokens and spend for one day, batch, task or model
+export interface UsageBreakdown {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD
+}
+
+export interface BudgetAlert {
+  period: 'day' | 'month';
+  spent: number;
+  budget: number;
+  level: 'warning' | 'exceeded';
+}
+
+// Response of /api/token-usage
+export interface TokenUsageSummary {
+  from: string;
+  to: string;
+  totals: UsageBreakdown & { failedCalls: number; averageCostPerCall: number; averageLatencyMs: number };
+  byDay: UsageBreakdown[];
+  byBatch: UsageBreakdown[];
+  byTask: UsageBreakdown[];
+  byModel: UsageBreakdown[];
+  budget: {
+    daily: { spent: number; budget: number | null };
+    monthly: { spent: number; budget: number | null };
+  };
+  alerts: BudgetAlert[];
+}
+
+// How one variant of a prompt experiment did across the sampled patients
+export interface ExperimentVariantSummary {
+  variantId: number;
+  label: string;
+  versionId: number | null;
+  outputs: number;
+  failures: number;
+  wins: number; // Patients where a reviewer picked this variant's output
+  ratings: number;
+  averageRating: number | null; // 1-5
+}
+
+// One failed post-generation check on a caregiver or patient message
+export interface GuardrailFinding {
+  check: 'severity' | 'dosing' | 'readingLevel' | 'sections' | 'nameLeak';
+  target: 'caregiver' | 'patient';
+  message: string;
+}
+
+// A scheduled companion call on the calls calendar, placed or still to come
+export interface CallCalendarEntry {
+  id: number | null; // null for a call the scheduler hasn't planned yet
+  scheduleId: number | null;
+  patientId: string;
+  patientName: string;
+  windowStartsAt: string;
+  windowEndsAt: string;
+  status: string; // One of scheduledCallStatuses
+  attempts: number;
+  outcome: string | null; // Vapi endedReason of the latest attempt
+  failureReason: string | null;
+}
+
+// One finished utterance in a live call's transcript
+export interface LiveTranscriptLine {
+  role: "assistant" | "user";
+  text: string;
+  at: string;
+}
+
+// A follow-up flag as shown on a live call
+export interface LiveCallFlag {
+  id: number;
+  note: string | null;
+  flaggedBy: number | null;
+  createdAt: string;
+}
+
+// An in-progress companion call as streamed to care coordinators
+export interface LiveCall {
+  callId: string;
+  patientId: string;
+  patientName: string;
+  phoneNumber: string;
+  status: string; // Vapi call status: queued | ringing | in-progress | forwarding | ended
+  endedReason: string | null;
+  speaking: "assistant" | "user" | null;
+  partial: { role: "assistant" | "user"; text: string } | null; // Utterance still being transcribed
+  transcript: LiveTranscriptLine[];
+  flags: LiveCallFlag[];
+  startedAt: string;
+  updatedAt: string;
+}